@@ -0,0 +1,87 @@
+/**
+ * Service Worker
+ * Precaches the app shell so a reload without a connection still starts the app
+ * API responses are not cached here: the live views keep their last state in
+ * IndexedDB (src/services/offlineCache.ts)
+ */
+
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `lets-jam-shell-${CACHE_VERSION}`
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/vite.svg']
+
+// Hashed build assets referenced by index.html (scripts, styles, preloads)
+async function getShellAssets() {
+  const response = await fetch('/index.html', { cache: 'no-cache' })
+  const html = await response.text()
+  return [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1])
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE)
+      await cache.addAll(SHELL_URLS)
+      await cache.addAll(await getShellAssets())
+      await self.skipWaiting()
+    })()
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys()
+      await Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key)))
+      await self.clients.claim()
+    })()
+  )
+})
+
+async function cacheResponse(request, response) {
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+// Pages: network first (picks up new deployments), cached shell when offline
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request)
+    return await cacheResponse('/index.html', response)
+  } catch {
+    return (await caches.match('/index.html')) || Response.error()
+  }
+}
+
+// Hashed assets never change: cache first
+async function handleAsset(request) {
+  const cached = await caches.match(request)
+  return cached || cacheResponse(request, await fetch(request))
+}
+
+// Other static files: serve the cached copy, refresh it in the background
+async function handleStatic(request) {
+  const cached = await caches.match(request)
+  const network = fetch(request)
+    .then((response) => cacheResponse(request, response))
+    .catch(() => cached || Response.error())
+  return cached || network
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  // Only same-origin GETs; API calls (other origin or /api proxy) go straight to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request))
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request))
+  } else {
+    event.respondWith(handleStatic(request))
+  }
+})
@@ -17,6 +17,7 @@ import {RouteGuardsExamplePage} from './pages/RouteGuardsExamplePage'
 import {LocalStoragePersistenceTestPage} from './pages/LocalStoragePersistenceTestPage'
 import {AuthFlowTestPage} from './pages/AuthFlowTestPage'
 import {PostLoginBehaviorTestPage} from './pages/PostLoginBehaviorTestPage'
+import {SocketTestPage} from './pages/SocketTestPage'
 
 import {LoginPage} from './pages/LoginPage'
 import {BrowseJamsPage} from './pages/BrowseJamsPage'
@@ -32,6 +33,7 @@ import {JamDJControlPage} from './pages/JamDJControlPage'
 import {MusicPage} from './pages/MusicPage'
 import {MusiciansPage} from './pages/MusiciansPage'
 import {ProfilePage} from './pages/ProfilePage'
+import {MyJamPage} from './pages/MyJamPage'
 import {PublicDashboardPage} from './pages/PublicDashboardPage'
 import {AuthProvider, JamProvider} from './contexts'
 import {OnboardingModal} from "./components";
@@ -70,6 +72,7 @@ function AppContent() {
   const isLocalStorageTestMode = searchParams.get('localStorage') === 'true'
   const isAuthFlowTestMode = searchParams.get('authFlow') === 'true'
   const isPostLoginTestMode = searchParams.get('postLoginTest') === 'true'
+  const isSocketTestMode = searchParams.get('socket') === 'true'
 
   // Return test pages if in test mode
   if (isTestMode) return <TestPage />
@@ -81,6 +84,7 @@ function AppContent() {
   if (isLocalStorageTestMode) return <LocalStoragePersistenceTestPage />
   if (isAuthFlowTestMode) return <AuthFlowTestPage />
   if (isPostLoginTestMode) return <PostLoginBehaviorTestPage />
+  if (isSocketTestMode) return <SocketTestPage />
 
   // Normal app routing
   return (
@@ -125,6 +129,12 @@ function AppContent() {
           <ProfilePage />
         </>
       } />
+      <Route path="/my-jam" element={
+        <>
+          <Navbar />
+          <MyJamPage />
+        </>
+      } />
       <Route path="/musicians" element={
         <>
           <Navbar />
@@ -0,0 +1,122 @@
+import {beforeEach, describe, expect, it} from 'vitest'
+import {handleFakeRequest, loadFakeScenario} from '../../lib/fakeBackend'
+import {createFakeToken} from '../../lib/fakeBackend/stubAuth'
+import type {
+  JamResponseDto,
+  LiveControlResultDto,
+  LiveDashboardResponseDto,
+  MusicianResponseDto,
+  RegistrationResponseDto,
+  RepertoireEntryResponseDto,
+  ScheduleResponseDto,
+} from '../../types/api.types'
+
+// No IndexedDB in the node environment: the store runs in memory
+async function getJam(): Promise<JamResponseDto> {
+  const { data } = await handleFakeRequest({ method: 'GET', url: '/jams' })
+  return (data as JamResponseDto[])[0]
+}
+
+describe('fake backend', () => {
+  beforeEach(async () => {
+    await loadFakeScenario('live')
+  })
+
+  it('serves the live scenario with hydrated schedules', async () => {
+    const jam = await getJam()
+    const { status, data } = await handleFakeRequest({ method: 'GET', url: `/jams/${jam.id}/escalas` })
+    const schedules = data as ScheduleResponseDto[]
+
+    expect(status).toBe(200)
+    expect(schedules.map((s) => s.status)).toEqual(['IN_PROGRESS', 'SCHEDULED', 'SCHEDULED', 'SCHEDULED'])
+    expect(schedules[0].music.title).toBe('Bluesette')
+    expect(schedules[0].registrations?.[0].musician?.name).toBe('John Doe')
+  })
+
+  it('advances the queue through the live control endpoint', async () => {
+    const jam = await getJam()
+    const { data } = await handleFakeRequest({ method: 'POST', url: `/jams/${jam.id}/live/control`, body: { action: 'skip' } })
+    expect((data as LiveControlResultDto).currentSchedule?.music.title).toBe('All The Things You Are')
+
+    const dashboard = await handleFakeRequest({ method: 'GET', url: `http://localhost:3000/jams/${jam.id}/live/dashboard` })
+    const { currentSong, nextSongs } = dashboard.data as LiveDashboardResponseDto
+    expect(currentSong?.title).toBe('All The Things You Are')
+    expect(nextSongs).toHaveLength(2)
+  })
+
+  it('creates an account on first sync and resolves it from the token', async () => {
+    const token = createFakeToken('new@example.com')
+    const sync = await handleFakeRequest({ method: 'POST', url: '/auth/sync-user', body: { token } })
+    expect(sync.data).toMatchObject({ email: 'new@example.com', isNewUser: true, isHost: false })
+
+    const me = await handleFakeRequest({ method: 'GET', url: '/auth/me', token })
+    expect(me.data).toMatchObject({ email: 'new@example.com', isNewUser: false })
+    expect((await handleFakeRequest({ method: 'GET', url: '/auth/me' })).status).toBe(401)
+  })
+
+  it('promotes the first waitlisted musician when a slot frees up', async () => {
+    const jam = await getJam()
+    const musicians = (await handleFakeRequest({ method: 'GET', url: '/musicos' })).data as MusicianResponseDto[]
+    const schedule = jam.schedules![1]
+    const [drummer, first, second] = musicians.filter((m) => !schedule.registrations?.some((r) => r.musicianId === m.id))
+    await handleFakeRequest({ method: 'PATCH', url: `/musicas/${schedule.music.id}`, body: { neededDrums: 1, neededGuitars: 0, neededVocals: 0, neededBass: 0, neededKeys: 0 } })
+    for (const seeded of schedule.registrations ?? []) {
+      await handleFakeRequest({ method: 'DELETE', url: `/inscricoes/${seeded.id}` })
+    }
+    await handleFakeRequest({ method: 'PATCH', url: `/jams/${jam.id}`, body: { waitlistPromotion: 'AUTO' } })
+
+    const registration = await handleFakeRequest({ method: 'POST', url: '/inscricoes', body: { musicianId: drummer.id, scheduleId: schedule.id, instrument: 'Drums' } })
+    const join = (musicianId: string) =>
+      handleFakeRequest({ method: 'POST', url: '/lista-espera', body: { musicianId, scheduleId: schedule.id, instrument: 'Drums' } })
+    expect((await join(first.id)).data).toMatchObject({ instrument: 'drums', position: 1 })
+    expect((await join(second.id)).data).toMatchObject({ position: 2 })
+    expect((await join(second.id)).status).toBe(409)
+
+    await handleFakeRequest({ method: 'DELETE', url: `/inscricoes/${(registration.data as RegistrationResponseDto).id}` })
+    const updated = (await handleFakeRequest({ method: 'GET', url: `/escalas/${schedule.id}` })).data as ScheduleResponseDto
+    expect(updated.registrations?.find((r) => r.musicianId === first.id)).toMatchObject({ instrument: 'drums', status: 'PENDING' })
+    expect(updated.waitlist?.map((e) => [e.musicianId, e.position])).toEqual([[second.id, 1]])
+
+    // The slot is taken again: the host cannot promote past it
+    const promote = await handleFakeRequest({ method: 'POST', url: `/lista-espera/${updated.waitlist![0].id}/promover` })
+    expect(promote.status).toBe(409)
+  })
+
+  it('keeps a musician\'s instruments and the legacy instrument in step', async () => {
+    const musicians = (await handleFakeRequest({ method: 'GET', url: '/musicos' })).data as MusicianResponseDto[]
+    const sarah = musicians.find((m) => m.name === 'Sarah Williams')!
+    expect(sarah.instruments?.map((i) => i.instrument)).toEqual(['vocals', 'keys'])
+
+    const url = `/musicos/${sarah.id}`
+    // Older clients only send instrument/level: that replaces the primary instrument
+    const switched = await handleFakeRequest({ method: 'PATCH', url, body: { instrument: 'Contrabaixo', level: 'PROFESSIONAL' } })
+    expect((switched.data as MusicianResponseDto).instruments).toEqual([
+      { instrument: 'bass', level: 'PROFESSIONAL', primary: true },
+      { instrument: 'keys', level: 'INTERMEDIATE', primary: false },
+    ])
+
+    const replaced = await handleFakeRequest({ method: 'PATCH', url, body: { instruments: [{ instrument: 'Guitarra', level: 'BEGINNER', primary: true }] } })
+    expect(replaced.data).toMatchObject({ instrument: 'guitars', level: 'BEGINNER' })
+  })
+
+  it('keeps repertoires and serves the entries for a jam\'s songs', async () => {
+    const jam = await getJam()
+    const musicians = (await handleFakeRequest({ method: 'GET', url: '/musicos' })).data as MusicianResponseDto[]
+    const host = musicians.find((m) => m.name === 'Demo Host')!
+    const musicId = jam.schedules![1].music.id
+
+    const added = await handleFakeRequest({ method: 'POST', url: '/repertorio', body: { musicianId: host.id, musicId, status: 'LEARNING' } })
+    expect(added.data).toMatchObject({ status: 'LEARNING', music: { id: musicId } })
+    expect((await handleFakeRequest({ method: 'POST', url: '/repertorio', body: { musicianId: host.id, musicId, status: 'READY' } })).status).toBe(409)
+
+    const { data } = await handleFakeRequest({ method: 'GET', url: `/jams/${jam.id}/repertorio` })
+    const knownBy = (data as RepertoireEntryResponseDto[]).filter((e) => e.musicId === musicId).map((e) => e.musician?.name)
+    expect(knownBy).toEqual(['Jane Smith', 'Sarah Williams', 'Demo Host'])
+  })
+
+  it('answers unknown records and routes with 404', async () => {
+    const missing = await handleFakeRequest({ method: 'GET', url: '/jams/nope' })
+    expect(missing).toEqual({ status: 404, data: { message: 'Jam not found', statusCode: 404 } })
+    expect((await handleFakeRequest({ method: 'GET', url: '/nope' })).status).toBe(404)
+  })
+})
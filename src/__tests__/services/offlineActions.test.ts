@@ -0,0 +1,85 @@
+import {describe, expect, it, vi} from 'vitest'
+import type {KeyValueStore} from '../../lib/indexedDb'
+import type {ScheduleResponseDto} from '../../types/api.types'
+
+const api = vi.hoisted(() => ({ get: vi.fn(), patch: vi.fn(), put: vi.fn() }))
+
+vi.mock('../../lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/api')>()),
+  apiClient: api,
+}))
+
+// In-memory stand-in for IndexedDB (tests run in the node environment)
+vi.mock('../../lib/indexedDb', () => {
+  const values = new Map<string, unknown>()
+  const store: KeyValueStore = {
+    get: <T>(key: string) => Promise.resolve(values.get(key) as T | undefined),
+    put: (key, value) => Promise.resolve(void values.set(key, value)),
+    delete: (key) => Promise.resolve(void values.delete(key)),
+    clear: () => Promise.resolve(values.clear()),
+  }
+  return { openKeyValueStore: () => Promise.resolve(store) }
+})
+
+const { applyQueuedActions, OFFLINE_ACTION_HANDLERS, OFFLINE_ACTIONS } = await import('../../services/offlineActions')
+const { saveOfflineSnapshot } = await import('../../services/offlineCache')
+const { scheduleService } = await import('../../services/scheduleService')
+const { queryKeys } = await import('../../services/queryCache')
+
+function schedule(id: string, order: number, status = 'SCHEDULED'): ScheduleResponseDto {
+  return { id, jamId: 'jam-1', order, status } as ScheduleResponseDto
+}
+
+describe('applyQueuedActions', () => {
+  const schedules = [schedule('a', 1), schedule('b', 2), schedule('c', 3), schedule('s', 0, 'SUGGESTED')]
+
+  it('applies queued edits in order so the next one builds on them', () => {
+    const result = applyQueuedActions('jam-1', schedules, [
+      { event: OFFLINE_ACTIONS.scheduleReorder, payload: { jamId: 'jam-1', scheduleIds: ['b', 'a', 'c'], baseScheduleIds: ['a', 'b', 'c'] } },
+      { event: OFFLINE_ACTIONS.scheduleStatus, payload: { jamId: 'jam-1', scheduleId: 's', status: 'SCHEDULED', order: 4, base: { status: 'SUGGESTED', order: 0 } } },
+      { event: OFFLINE_ACTIONS.scheduleReorder, payload: { jamId: 'jam-1', scheduleIds: ['b', 's', 'a', 'c'], baseScheduleIds: ['b', 'a', 'c', 's'] } },
+    ])
+
+    expect([...result].sort((x, y) => x.order - y.order).map((s) => [s.id, s.status])).toEqual([
+      ['b', 'SCHEDULED'],
+      ['s', 'SCHEDULED'],
+      ['a', 'SCHEDULED'],
+      ['c', 'SCHEDULED'],
+    ])
+  })
+
+  it('ignores edits queued for another jam', () => {
+    const result = applyQueuedActions('jam-1', schedules, [
+      { event: OFFLINE_ACTIONS.scheduleReorder, payload: { jamId: 'jam-2', scheduleIds: ['c', 'b', 'a'], baseScheduleIds: [] } },
+    ])
+    expect(result).toEqual(schedules)
+  })
+})
+
+describe('OFFLINE_ACTION_HANDLERS', () => {
+  const unreachable = { message: 'Network Error', statusCode: 0, error: 'NETWORK_ERROR' }
+
+  it('checks for conflicts against the server, never the saved offline copy', async () => {
+    // Hours-old copy in which the song is already on stage: a conflict check against it would report a fake conflict
+    await saveOfflineSnapshot(queryKeys.schedules.byJam('jam-1'), [schedule('a', 1, 'IN_PROGRESS')])
+    api.get.mockRejectedValue(unreachable)
+
+    // Regular reads still answer with the saved copy
+    await expect(scheduleService.findByJam('jam-1')).resolves.toMatchObject({ cachedAt: expect.any(String) })
+
+    // The replay fails with the network error so the queue backs off and retries
+    await expect(OFFLINE_ACTION_HANDLERS[OFFLINE_ACTIONS.scheduleStatus]({
+      jamId: 'jam-1',
+      scheduleId: 'a',
+      status: 'IN_PROGRESS',
+      base: { status: 'SCHEDULED', order: 1 },
+    })).rejects.toEqual(unreachable)
+    await expect(OFFLINE_ACTION_HANDLERS[OFFLINE_ACTIONS.scheduleReorder]({
+      jamId: 'jam-1',
+      scheduleIds: ['a'],
+      baseScheduleIds: ['a'],
+    })).rejects.toEqual(unreachable)
+    expect(api.patch).not.toHaveBeenCalled()
+    expect(api.put).not.toHaveBeenCalled()
+  })
+})
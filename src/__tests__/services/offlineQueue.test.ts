@@ -0,0 +1,174 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+
+vi.mock('../../services/offlineActions', () => ({
+  OFFLINE_ACTION_HANDLERS: {},
+  ActionConflictError: class ActionConflictError extends Error {
+    conflict: unknown
+    constructor(conflict: unknown) {
+      super('conflict')
+      this.conflict = conflict
+    }
+  },
+}))
+
+// Minimal in-memory localStorage (tests run in the node environment)
+const storage = new Map<string, string>()
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+})
+
+const { getOfflineQueueManager, getRetryDelay } = await import('../../services/offlineQueue')
+const { ActionConflictError } = await import('../../services/offlineActions')
+
+describe('getRetryDelay', () => {
+  it('doubles the delay per retry up to the cap', () => {
+    expect(getRetryDelay(1)).toBe(1000)
+    expect(getRetryDelay(2)).toBe(2000)
+    expect(getRetryDelay(3)).toBe(4000)
+    expect(getRetryDelay(20)).toBe(60000)
+  })
+})
+
+describe('OfflineQueueManager flush', () => {
+  const manager = getOfflineQueueManager()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    manager.clearAll()
+  })
+
+  afterEach(() => {
+    manager.clearAll()
+    vi.useRealTimers()
+  })
+
+  it('replays actions in priority order and removes the ones that succeed', async () => {
+    const calls: string[] = []
+    manager.registerHandler('test:ok', async (payload: { name: string }) => {
+      calls.push(payload.name)
+    })
+
+    manager.addAction('test:ok', { name: 'low' }, 'low')
+    manager.addAction('test:ok', { name: 'high' }, 'high')
+
+    const result = await manager.flush()
+
+    expect(calls).toEqual(['high', 'low'])
+    expect(result.outcomes.map((o) => o.status)).toEqual(['succeeded', 'succeeded'])
+    expect(manager.getQueue()).toHaveLength(0)
+  })
+
+  it('backs off after a server error and retries when the delay has passed', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce({ message: 'Boom', statusCode: 500 })
+      .mockResolvedValueOnce(undefined)
+    manager.registerHandler('test:flaky', handler)
+    manager.addAction('test:flaky', {})
+
+    const first = await manager.flush()
+    expect(first.outcomes[0]).toMatchObject({ status: 'retrying', error: 'Boom' })
+    expect(manager.getQueue()[0].retries).toBe(1)
+
+    // Not due yet
+    await manager.flush()
+    expect(handler).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(getRetryDelay(1))
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(manager.getQueue()).toHaveLength(0)
+  })
+
+  it('holds back later actions while an earlier one waits to be retried', async () => {
+    const first = vi.fn()
+      .mockRejectedValueOnce({ message: 'Boom', statusCode: 503 })
+      .mockResolvedValueOnce(undefined)
+    const calls: string[] = []
+    manager.registerHandler('test:first', async () => {
+      await first()
+      calls.push('first')
+    })
+    manager.registerHandler('test:second', async () => {
+      calls.push('second')
+    })
+    manager.addAction('test:first', {})
+    manager.addAction('test:second', {})
+
+    const result = await manager.flush()
+    expect(result.outcomes.map((o) => o.status)).toEqual(['retrying'])
+
+    // Still in backoff: the second action waits too
+    await manager.flush()
+    expect(calls).toEqual([])
+
+    await vi.advanceTimersByTimeAsync(getRetryDelay(1))
+    expect(calls).toEqual(['first', 'second'])
+    expect(manager.getQueue()).toHaveLength(0)
+  })
+
+  it('fails client errors immediately and lets the host retry them', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce({ message: 'Not found', statusCode: 404 })
+      .mockResolvedValueOnce(undefined)
+    manager.registerHandler('test:stale', handler)
+    const id = manager.addAction('test:stale', {})
+
+    const result = await manager.flush()
+    expect(result.outcomes[0].status).toBe('failed')
+    expect(manager.getFailed().map((a) => a.id)).toEqual([id])
+
+    const retry = await manager.retryAction(id)
+    expect(retry.outcomes[0].status).toBe('succeeded')
+    expect(manager.getQueue()).toHaveLength(0)
+  })
+
+  it('stops at a network error without spending a retry', async () => {
+    const second = vi.fn()
+    manager.registerHandler('test:network', () => Promise.reject({ message: 'Network', statusCode: 0 }))
+    manager.registerHandler('test:second', second)
+    manager.addAction('test:network', {}, 'high')
+    manager.addAction('test:second', {}, 'low')
+
+    const result = await manager.flush()
+
+    expect(result.outcomes).toHaveLength(1)
+    expect(result.outcomes[0].status).toBe('retrying')
+    expect(second).not.toHaveBeenCalled()
+    expect(manager.getQueue()[0].retries).toBe(0)
+  })
+
+  it('backs off longer each time the server is still unreachable', async () => {
+    const handler = vi.fn(() => Promise.reject({ message: 'Network', statusCode: 0 }))
+    manager.registerHandler('test:offline', handler)
+    manager.addAction('test:offline', {})
+
+    const delays: number[] = []
+    await manager.flush()
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const delay = manager.getQueue()[0].nextAttemptAt! - Date.now()
+      delays.push(delay)
+      await vi.advanceTimersByTimeAsync(delay)
+    }
+
+    expect(delays).toEqual([getRetryDelay(1), getRetryDelay(2), getRetryDelay(3)])
+    expect(handler).toHaveBeenCalledTimes(4)
+    expect(manager.getQueue()[0].retries).toBe(0)
+  })
+
+  it('keeps conflicting actions until the host resolves them with a new payload', async () => {
+    const handler = vi.fn(async (payload: { resolved?: boolean }) => {
+      if (!payload.resolved) throw new ActionConflictError({ kind: 'reorder' } as never)
+    })
+    manager.registerHandler('test:conflict', handler)
+    const id = manager.addAction('test:conflict', {})
+
+    const result = await manager.flush()
+    expect(result.outcomes[0].status).toBe('conflict')
+    expect(manager.getQueue()[0].conflict).toEqual({ kind: 'reorder' })
+
+    const resolved = await manager.resolveConflict(id, { resolved: true })
+    expect(resolved.outcomes[0].status).toBe('succeeded')
+    expect(manager.getQueue()).toHaveLength(0)
+  })
+})
@@ -0,0 +1,112 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest'
+import {getQueryCache, invalidateQueries, queryKeys} from '../../services/queryCache'
+import {CancelledError} from '../../lib/api'
+
+const cache = getQueryCache()
+
+describe('QueryCache', () => {
+  beforeEach(() => {
+    cache.clear()
+  })
+
+  it('deduplicates concurrent requests for the same key', async () => {
+    const fetcher = vi.fn(async () => ['a'])
+    const [first, second] = await Promise.all([
+      cache.fetch(queryKeys.schedules.byJam('jam-1'), fetcher),
+      cache.fetch(queryKeys.schedules.byJam('jam-1'), fetcher),
+    ])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(first).toBe(second)
+  })
+
+  it('serves fresh data from the cache and refetches once stale', async () => {
+    const fetcher = vi.fn(async () => 'jam')
+    const key = queryKeys.jams.detail('jam-1')
+    await cache.fetch(key, fetcher, { staleTime: 60_000 })
+    await cache.fetch(key, fetcher, { staleTime: 60_000 })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    await cache.fetch(key, fetcher, { staleTime: 0, force: true })
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('refetches subscribed queries under an invalidated prefix', async () => {
+    const schedules = vi.fn(async () => [])
+    const music = vi.fn(async () => [])
+    await cache.fetch(queryKeys.schedules.byJam('jam-1'), schedules)
+    await cache.fetch(queryKeys.music.byJam('jam-1'), music)
+    cache.subscribe(queryKeys.schedules.byJam('jam-1'), () => undefined)
+    cache.subscribe(queryKeys.music.byJam('jam-1'), () => undefined)
+
+    invalidateQueries(queryKeys.schedules.all)
+    await Promise.resolve()
+
+    expect(schedules).toHaveBeenCalledTimes(2)
+    expect(music).toHaveBeenCalledTimes(1)
+  })
+
+  it('replaces a running request when the query is invalidated', async () => {
+    const key = queryKeys.jams.detail('jam-3')
+    let resolveFirst: (jam: string) => void = () => undefined
+    let firstSignal: AbortSignal | null = null
+    const fetcher = vi.fn(async (_signal: AbortSignal) => 'after mutation').mockImplementationOnce((signal) => {
+      firstSignal = signal
+      return new Promise<string>((resolve) => { resolveFirst = resolve })
+    })
+    const unsubscribe = cache.subscribe(key, () => undefined)
+
+    const first = cache.fetch(key, fetcher)
+    invalidateQueries(queryKeys.jams.all)
+    // The old request answers last, with data from before the mutation
+    resolveFirst('before mutation')
+
+    await expect(first).resolves.toBe('after mutation')
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    expect(firstSignal!.aborted).toBe(true)
+    expect(cache.getState(key)).toMatchObject({ data: 'after mutation', isFetching: false, isInvalidated: false })
+    unsubscribe()
+  })
+
+  it('keeps the last data when a revalidation fails', async () => {
+    const key = queryKeys.music.list()
+    await cache.fetch(key, async () => ['song'])
+    await expect(cache.fetch(key, () => Promise.reject({ message: 'offline' }), { force: true })).rejects.toEqual({
+      message: 'offline',
+    })
+    expect(cache.getState(key)).toMatchObject({ data: ['song'], error: 'offline' })
+  })
+
+  it('aborts the request when the last reader unsubscribes', async () => {
+    const key = queryKeys.jams.detail('jam-2')
+    let received: AbortSignal | null = null
+    const unsubscribe = cache.subscribe(key, () => undefined)
+    const request = cache.fetch(key, (signal) => {
+      received = signal
+      return new Promise((_, reject) => signal.addEventListener('abort', () => reject(new CancelledError({ message: 'canceled', statusCode: 0, error: 'CANCELED' }))))
+    }, { background: true })
+
+    unsubscribe()
+    await expect(request).rejects.toMatchObject({ error: 'CANCELED' })
+    expect(received!.aborted).toBe(true)
+    expect(cache.getState(key)).toMatchObject({ error: null, isFetching: false })
+  })
+
+  it('keeps the request running while a caller still awaits it', async () => {
+    const key = queryKeys.jams.detail('jam-3')
+    let resolve: (data: string) => void = () => undefined
+    let received: AbortSignal | null = null
+    // Awaited without subscribing, like JamContext
+    const request = cache.fetch(key, (signal) => {
+      received = signal
+      return new Promise<string>((r) => (resolve = r))
+    })
+    // A component reading the same jam mounts and unmounts meanwhile
+    const unsubscribe = cache.subscribe(key, () => undefined)
+    cache.fetch(key, () => Promise.resolve('other'), { background: true }).catch(() => undefined)
+    unsubscribe()
+
+    expect(received!.aborted).toBe(false)
+    resolve('jam')
+    await expect(request).resolves.toBe('jam')
+  })
+})
@@ -0,0 +1,143 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest'
+import {SocketService} from '../../services/socketService'
+import {SOCKET_EVENTS} from '../../lib/socket/config'
+import {getSongStartedAt} from '../../lib/songStartTimes'
+import {createFakeSocketFactory, type FakeSocket} from './socketTestUtils'
+import asyncApiSpec from '../../../asyncapi.yaml?raw'
+
+vi.mock('../../lib/auth', () => ({
+  getToken: () => 'test-token',
+}))
+
+describe('SocketService', () => {
+  let service: SocketService
+  let sockets: FakeSocket[]
+
+  beforeEach(() => {
+    const fake = createFakeSocketFactory()
+    service = new SocketService(fake.factory)
+    sockets = fake.sockets
+  })
+
+  it('joins the room and requests state for the role once connected', () => {
+    service.joinJam('jam-1', 'host')
+    expect(service.getConnectionState()).toBe('connecting')
+
+    const socket = sockets[0]
+    expect(socket.emitted).toHaveLength(0)
+
+    socket.simulateConnect()
+    expect(service.isConnected()).toBe(true)
+    expect(socket.emittedEvents('joinJam')).toEqual([{ jamId: 'jam-1', token: 'test-token' }])
+    expect(socket.emittedEvents('host:request-state')).toEqual([{ jamId: 'jam-1' }])
+  })
+
+  it('uses the request-state event matching the role', () => {
+    service.connect()
+    const socket = sockets[0]
+    socket.simulateConnect()
+
+    service.requestState('jam-1', 'musician')
+    service.requestState('jam-1', 'public')
+
+    expect(socket.emittedEvents('musician:request-state')).toEqual([{ jamId: 'jam-1' }])
+    expect(socket.emittedEvents('public:request-state')).toEqual([{ jamId: 'jam-1' }])
+  })
+
+  it('re-joins tracked rooms after a reconnection', () => {
+    service.joinJam('jam-1', 'public')
+    const socket = sockets[0]
+    socket.simulateConnect()
+
+    socket.simulateDrop()
+    expect(service.getConnectionState()).toBe('reconnecting')
+
+    socket.simulateConnect()
+    expect(service.getConnectionState()).toBe('connected')
+    expect(socket.emittedEvents('joinJam')).toHaveLength(2)
+    expect(socket.emittedEvents('public:request-state')).toHaveLength(2)
+  })
+
+  it('only leaves a shared room when the last subscriber leaves', () => {
+    service.joinJam('jam-1', 'host')
+    service.joinJam('jam-1', 'host')
+    const socket = sockets[0]
+    socket.simulateConnect()
+
+    service.leaveJam('jam-1')
+    expect(socket.emittedEvents('leaveJam')).toHaveLength(0)
+    expect(service.getJoinedJams()).toEqual(['jam-1'])
+
+    service.leaveJam('jam-1')
+    expect(socket.emittedEvents('leaveJam')).toEqual(['jam-1'])
+    expect(service.getJoinedJams()).toEqual([])
+
+    // Left rooms are not re-joined on reconnect
+    socket.simulateDrop()
+    socket.simulateConnect()
+    expect(socket.emittedEvents('joinJam')).toHaveLength(1)
+  })
+
+  it('dispatches server events to subscribers until they unsubscribe', () => {
+    const handler = vi.fn()
+    const unsubscribe = service.on('schedule:status-changed', handler)
+    service.connect()
+    const socket = sockets[0]
+
+    const payload = {
+      jamId: 'jam-1',
+      scheduleId: 's-1',
+      previousStatus: 'pending',
+      newStatus: 'performing',
+      timestamp: '2025-12-06T20:00:00Z',
+    }
+    socket.serverEmit('schedule:status-changed', payload)
+    expect(handler).toHaveBeenCalledWith(payload)
+
+    unsubscribe()
+    socket.serverEmit('schedule:status-changed', payload)
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('records when a song goes on stage for backends that do not send startedAt', () => {
+    service.connect()
+    sockets[0].serverEmit('schedule:status-changed', {
+      jamId: 'jam-1',
+      scheduleId: 's-2',
+      previousStatus: 'SCHEDULED',
+      newStatus: 'IN_PROGRESS',
+      timestamp: '2025-12-06T20:05:00Z',
+    })
+
+    expect(getSongStartedAt('s-2')).toBe('2025-12-06T20:05:00Z')
+    expect(getSongStartedAt('s-2', '2025-12-06T20:04:58Z')).toBe('2025-12-06T20:04:58Z')
+    expect(getSongStartedAt('s-3')).toBeNull()
+  })
+
+  it('does not send musician:ready while disconnected', () => {
+    expect(service.sendMusicianReady('jam-1', 's-1')).toBe(false)
+
+    service.connect()
+    sockets[0].simulateConnect()
+    expect(service.sendMusicianReady('jam-1', 's-1')).toBe(true)
+    expect(sockets[0].emittedEvents('musician:ready')).toEqual([{ jamId: 'jam-1', scheduleId: 's-1' }])
+  })
+})
+
+describe('SOCKET_EVENTS', () => {
+  it('covers every message declared in asyncapi.yaml', () => {
+    // Message names are the only `name:` entries with an inline value under components.messages
+    const messagesSection = asyncApiSpec.slice(asyncApiSpec.indexOf('\n  messages:'))
+    const specNames = new Set(
+      Array.from(messagesSection.matchAll(/^ {6}name: (\S+)$/gm), (match: RegExpMatchArray) => match[1])
+    )
+
+    const knownNames = new Set<string>([
+      ...Object.values(SOCKET_EVENTS.client),
+      ...Object.values(SOCKET_EVENTS.server),
+    ])
+
+    expect(specNames.size).toBeGreaterThan(0)
+    specNames.forEach((name) => expect(knownNames).toContain(name))
+  })
+})
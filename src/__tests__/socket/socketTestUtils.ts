@@ -0,0 +1,92 @@
+/**
+ * Socket Testing Utilities
+ * In-memory socket double to drive SocketService without a server
+ */
+
+import type {JamSocket, SocketFactory} from '../../services/socketService'
+
+type Listener = (...args: unknown[]) => void
+
+/**
+ * Minimal stand-in for a socket.io client socket
+ * Records emitted events and lets tests push server events and lifecycle changes
+ */
+export class FakeSocket {
+  connected = false
+  emitted: { event: string; payload: unknown }[] = []
+  private listeners: Map<string, Listener[]> = new Map()
+
+  on(event: string, listener: Listener): this {
+    const listeners = this.listeners.get(event) ?? []
+    listeners.push(listener)
+    this.listeners.set(event, listeners)
+    return this
+  }
+
+  emit(event: string, payload: unknown): this {
+    this.emitted.push({ event, payload })
+    return this
+  }
+
+  connect(): this {
+    this.simulateConnect()
+    return this
+  }
+
+  disconnect(): this {
+    if (this.connected) {
+      this.connected = false
+      this.trigger('disconnect', 'io client disconnect')
+    }
+    return this
+  }
+
+  /**
+   * Complete the handshake (fires 'connect', also used for reconnects)
+   */
+  simulateConnect(): void {
+    this.connected = true
+    this.trigger('connect')
+  }
+
+  /**
+   * Drop the transport as the network would
+   */
+  simulateDrop(reason = 'transport close'): void {
+    this.connected = false
+    this.trigger('disconnect', reason)
+  }
+
+  /**
+   * Push a server -> client event
+   */
+  serverEmit(event: string, payload: unknown): void {
+    this.trigger(event, payload)
+  }
+
+  /**
+   * Emitted events with the given name
+   */
+  emittedEvents(event: string): unknown[] {
+    return this.emitted.filter((e) => e.event === event).map((e) => e.payload)
+  }
+
+  private trigger(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach((listener) => listener(...args))
+  }
+}
+
+/**
+ * Create a socket factory that hands out FakeSocket instances
+ */
+export function createFakeSocketFactory(): { factory: SocketFactory; sockets: FakeSocket[] } {
+  const sockets: FakeSocket[] = []
+
+  const factory: SocketFactory = () => {
+    const socket = new FakeSocket()
+    sockets.push(socket)
+    return socket as unknown as JamSocket
+  }
+
+  return { factory, sockets }
+}
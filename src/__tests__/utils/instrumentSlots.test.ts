@@ -0,0 +1,38 @@
+import {describe, expect, it} from 'vitest'
+import {getMusicSlots, toLegacySlotFields} from '../../utils/instrumentSlots'
+
+describe('getMusicSlots', () => {
+  it('reads instrument slots in display order, merging and dropping empty ones', () => {
+    const slots = getMusicSlots({
+      instrumentSlots: [
+        { instrument: 'saxophone', count: 1 },
+        { instrument: 'Drums', count: 1 },
+        { instrument: 'trumpet', count: 0 },
+        { instrument: 'saxophone', count: 1 },
+      ],
+    })
+    expect(slots).toEqual([{ instrument: 'drums', count: 1 }, { instrument: 'saxophone', count: 2 }])
+  })
+
+  it('migrates songs that only have the legacy needed fields', () => {
+    expect(getMusicSlots({ neededGuitars: 2, neededVocals: 1, neededKeys: 0 })).toEqual([
+      { instrument: 'vocals', count: 1 },
+      { instrument: 'guitars', count: 2 },
+    ])
+    // An explicit (even empty) slot list wins over the legacy fields
+    expect(getMusicSlots({ instrumentSlots: [], neededDrums: 1 })).toEqual([])
+    expect(getMusicSlots(undefined)).toEqual([])
+  })
+})
+
+describe('toLegacySlotFields', () => {
+  it('writes the counts of the legacy instruments only', () => {
+    expect(toLegacySlotFields([{ instrument: 'drums', count: 1 }, { instrument: 'violin', count: 2 }])).toEqual({
+      neededDrums: 1,
+      neededGuitars: 0,
+      neededVocals: 0,
+      neededBass: 0,
+      neededKeys: 0,
+    })
+  })
+})
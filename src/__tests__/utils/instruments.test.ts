@@ -0,0 +1,30 @@
+import {describe, expect, it} from 'vitest'
+import {getInstrumentKey, getInstrumentLabel, normalizeInstrument} from '../../lib/instruments'
+
+describe('normalizeInstrument', () => {
+  it('maps IDs, translated names and legacy free text onto registry IDs', () => {
+    expect(normalizeInstrument('drums')).toBe('drums')
+    expect(normalizeInstrument('Bateria')).toBe('drums')
+    expect(normalizeInstrument('Batería')).toBe('drums')
+    expect(normalizeInstrument('Keyboard/Piano')).toBe('keys')
+    expect(normalizeInstrument(' Guitarras ')).toBe('guitars')
+    expect(normalizeInstrument('DJ/Turntables')).toBe('dj')
+  })
+
+  it('returns null for unknown or missing instruments', () => {
+    expect(normalizeInstrument('Theremin')).toBeNull()
+    expect(normalizeInstrument('')).toBeNull()
+    expect(normalizeInstrument(undefined)).toBeNull()
+  })
+})
+
+describe('getInstrumentKey / getInstrumentLabel', () => {
+  it('keeps unknown instruments groupable and shows their name as given', () => {
+    expect(getInstrumentKey('Theremin')).toBe('theremin')
+    expect(getInstrumentKey('Baixo')).toBe('bass')
+
+    const t = (key: string) => `t:${key}`
+    expect(getInstrumentLabel('Baixo', t)).toBe('t:schedule.instruments.bass')
+    expect(getInstrumentLabel('Theremin', t)).toBe('Theremin')
+  })
+})
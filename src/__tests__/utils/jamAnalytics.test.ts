@@ -0,0 +1,92 @@
+import {describe, expect, it} from 'vitest'
+import {computeJamAnalytics, formatDurationVariance} from '../../utils/jamAnalytics'
+import type {
+  JamResponseDto,
+  RegistrationResponseDto,
+  ScheduleResponseDto,
+  ScheduleStatus,
+} from '../../types/api.types'
+
+function schedule(
+  id: string,
+  order: number,
+  status: ScheduleStatus,
+  extra: Partial<ScheduleResponseDto> = {}
+): ScheduleResponseDto {
+  return {
+    id,
+    jamId: 'jam-1',
+    musicId: `music-${id}`,
+    order,
+    status,
+    createdAt: '2025-12-06T20:00:00Z',
+    music: { id: `music-${id}`, title: `Song ${id}`, duration: 240 } as ScheduleResponseDto['music'],
+    ...extra,
+  }
+}
+
+function registration(scheduleId: string, musicianId: string, instrument: string): RegistrationResponseDto {
+  return { id: `${scheduleId}-${musicianId}`, jamId: 'jam-1', scheduleId, musicianId, instrument } as RegistrationResponseDto
+}
+
+const jam = {
+  id: 'jam-1',
+  schedules: [
+    schedule('a', 1, 'COMPLETED', { startedAt: '2025-12-06T21:00:00Z', completedAt: '2025-12-06T21:05:00Z' }),
+    schedule('b', 2, 'COMPLETED', { updatedAt: '2025-12-06T21:09:00Z' }),
+    schedule('c', 3, 'CANCELED'),
+    schedule('d', 4, 'SCHEDULED'),
+    schedule('s', 5, 'SUGGESTED'),
+  ],
+  registrations: [
+    registration('a', 'm1', 'guitar'),
+    registration('a', 'm2', 'drums'),
+    registration('b', 'm1', 'guitar'),
+    registration('d', 'm3', 'Guitarra'),
+  ],
+} as JamResponseDto
+
+describe('computeJamAnalytics', () => {
+  it('counts played, cancelled and remaining setlist songs', () => {
+    expect(computeJamAnalytics(jam).songs).toEqual({ total: 4, played: 2, cancelled: 1, remaining: 1 })
+  })
+
+  it('measures actual duration from timestamps, chaining from the previous song', () => {
+    const { duration } = computeJamAnalytics(jam)
+    expect(duration.perSong.map((s) => s.actualSeconds)).toEqual([300, 240])
+    expect(duration).toMatchObject({ plannedSeconds: 480, actualSeconds: 540, measuredSongs: 2 })
+  })
+
+  it('counts musicians per instrument and requests per song', () => {
+    const analytics = computeJamAnalytics(jam)
+    expect(analytics.musiciansPerInstrument).toEqual([
+      { label: 'guitars', value: 2 },
+      { label: 'drums', value: 1 },
+    ])
+    expect(analytics.mostRequestedSongs[0]).toEqual({ label: 'Song a', value: 2 })
+    expect(analytics.mostRequestedSongs).toContainEqual({ label: 'Song s', value: 1 })
+  })
+
+  it('splits first-timers from returning musicians once history is known', () => {
+    expect(computeJamAnalytics(jam).musicians.historyKnown).toBe(false)
+    const { musicians } = computeJamAnalytics(jam, { m1: ['jam-1', 'jam-0'], m2: ['jam-1'], m3: [] })
+    expect(musicians).toEqual({ total: 3, firstTimers: 2, returning: 1, unknown: 0, historyKnown: true })
+  })
+
+  it('leaves musicians whose history failed to load out of the split', () => {
+    const { musicians } = computeJamAnalytics(jam, { m1: ['jam-1', 'jam-0'], m3: [] })
+    expect(musicians).toEqual({ total: 3, firstTimers: 1, returning: 1, unknown: 1, historyKnown: true })
+  })
+
+  it('reports musicians on stage per played song', () => {
+    expect(computeJamAnalytics(jam).participation.map((p) => p.musicians)).toEqual([2, 1])
+  })
+})
+
+describe('formatDurationVariance', () => {
+  it('signs time over and under the plan, and none when on time', () => {
+    expect(formatDurationVariance(65)).toBe('+1:05')
+    expect(formatDurationVariance(-30)).toBe('-0:30')
+    expect(formatDurationVariance(0)).toBe('0:00')
+  })
+})
@@ -0,0 +1,21 @@
+import {describe, expect, it} from 'vitest'
+import {applySubsetOrder, moveItem} from '../../utils/listOrder'
+
+describe('moveItem', () => {
+  it('moves an item up and down without mutating the input', () => {
+    const list = ['a', 'b', 'c', 'd']
+    expect(moveItem(list, 3, 1)).toEqual(['a', 'd', 'b', 'c'])
+    expect(moveItem(list, 0, 2)).toEqual(['b', 'c', 'a', 'd'])
+    expect(list).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('clamps the target index', () => {
+    expect(moveItem(['a', 'b'], 0, 5)).toEqual(['b', 'a'])
+  })
+})
+
+describe('applySubsetOrder', () => {
+  it('reorders only the subset positions', () => {
+    expect(applySubsetOrder(['played', 'b', 'now', 'c', 'd'], ['d', 'b', 'c'])).toEqual(['played', 'd', 'now', 'b', 'c'])
+  })
+})
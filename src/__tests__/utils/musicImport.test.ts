@@ -0,0 +1,69 @@
+import {describe, expect, it} from 'vitest'
+import {
+  buildImportRows,
+  detectDelimiter,
+  guessColumnMapping,
+  looksLikeHeader,
+  parseDelimited,
+} from '../../utils/musicImport'
+
+describe('parseDelimited', () => {
+  it('handles quoted fields, escaped quotes and CRLF', () => {
+    const rows = parseDelimited('title,artist\r\n"Hello, World","The ""Band"""\r\n\r\nSo What,Miles Davis')
+    expect(rows).toEqual([
+      { line: 1, cells: ['title', 'artist'] },
+      { line: 2, cells: ['Hello, World', 'The "Band"'] },
+      { line: 4, cells: ['So What', 'Miles Davis'] },
+    ])
+  })
+
+  it('detects tab-separated spreadsheet paste and semicolon CSV', () => {
+    expect(detectDelimiter('Título\tArtista\nA\tB')).toBe('\t')
+    expect(detectDelimiter('título;artista;duração')).toBe(';')
+    expect(parseDelimited('A\tB, C')[0].cells).toEqual(['A', 'B, C'])
+  })
+})
+
+describe('guessColumnMapping', () => {
+  it('maps localized headers and ignores unknown columns', () => {
+    const header = ['Título', 'Artista', 'Duração', 'Bateria', 'Obs']
+    expect(looksLikeHeader(header)).toBe(true)
+    expect(guessColumnMapping(header)).toEqual(['title', 'artist', 'duration', 'neededDrums', null])
+  })
+})
+
+describe('buildImportRows', () => {
+  const mapping = ['title', 'artist', 'duration', 'neededGuitars'] as const
+  const catalog = [{ id: '1', title: 'So What', artist: 'Miles Davis' }]
+
+  it('builds CreateMusicDto rows and validates them', () => {
+    const rows = buildImportRows(
+      [
+        { line: 2, cells: ['Autumn Leaves', 'Cannonball', '4:30', '2'] },
+        { line: 3, cells: ['', 'Nobody', '4m', 'two'] },
+      ],
+      [...mapping],
+      catalog
+    )
+
+    expect(rows[0]).toMatchObject({
+      data: { title: 'Autumn Leaves', artist: 'Cannonball', duration: 270, neededGuitars: 2 },
+      errors: [],
+      duplicate: null,
+    })
+    expect(rows[1].errors.map((e) => e.code)).toEqual(['invalid_duration', 'invalid_count', 'title_required'])
+  })
+
+  it('flags duplicates against the catalog and within the file', () => {
+    const rows = buildImportRows(
+      [
+        { line: 1, cells: ['so what', 'MILES DAVIS'] },
+        { line: 2, cells: ['Blue Bossa', 'Kenny Dorham'] },
+        { line: 3, cells: ['Blue Bossa', 'Kenny Dorham'] },
+      ],
+      [...mapping],
+      catalog
+    )
+    expect(rows.map((row) => row.duplicate)).toEqual(['catalog', null, 'file'])
+  })
+})
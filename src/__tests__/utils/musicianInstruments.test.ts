@@ -0,0 +1,59 @@
+import {describe, expect, it} from 'vitest'
+import {
+  findMusicianInstrument,
+  getMusicianInstruments,
+  toLegacyMusicianFields,
+} from '../../utils/musicianInstruments'
+
+describe('getMusicianInstruments', () => {
+  it('normalizes, drops duplicates and puts the primary instrument first', () => {
+    expect(getMusicianInstruments({
+      instruments: [
+        { instrument: 'Voz', level: 'ADVANCED', primary: false },
+        { instrument: 'Guitarra', level: 'INTERMEDIATE', primary: true },
+        { instrument: 'vocals', level: 'BEGINNER', primary: false },
+      ],
+    })).toEqual([
+      { instrument: 'guitars', level: 'INTERMEDIATE', primary: true },
+      { instrument: 'vocals', level: 'ADVANCED', primary: false },
+    ])
+  })
+
+  it('migrates profiles with only the legacy instrument and level', () => {
+    expect(getMusicianInstruments({ instrument: 'Keyboard/Piano', level: 'PROFESSIONAL' })).toEqual([
+      { instrument: 'keys', level: 'PROFESSIONAL', primary: true },
+    ])
+    expect(getMusicianInstruments({ instrument: '', level: 'BEGINNER' })).toEqual([])
+  })
+
+  it('makes the first instrument primary when none is flagged', () => {
+    const instruments = getMusicianInstruments({
+      instruments: [
+        { instrument: 'bass', level: 'BEGINNER', primary: false },
+        { instrument: 'drums', level: 'BEGINNER', primary: false },
+      ],
+    })
+    expect(instruments.map((i) => i.primary)).toEqual([true, false])
+  })
+})
+
+describe('findMusicianInstrument / toLegacyMusicianFields', () => {
+  const musician = {
+    instrument: 'guitars',
+    level: 'INTERMEDIATE',
+    instruments: [
+      { instrument: 'guitars', level: 'INTERMEDIATE' as const, primary: true },
+      { instrument: 'keys', level: 'ADVANCED' as const, primary: false },
+    ],
+  }
+
+  it('finds an instrument by any of its names', () => {
+    expect(findMusicianInstrument(musician, 'Teclado')?.level).toBe('ADVANCED')
+    expect(findMusicianInstrument(musician, 'drums')).toBeNull()
+  })
+
+  it('mirrors the primary instrument into the legacy fields', () => {
+    expect(toLegacyMusicianFields(musician.instruments)).toEqual({ instrument: 'guitars', level: 'INTERMEDIATE' })
+    expect(toLegacyMusicianFields([])).toEqual({ instrument: '', level: 'BEGINNER' })
+  })
+})
@@ -0,0 +1,67 @@
+import {describe, expect, it} from 'vitest'
+import {getJamHistory, getMyJamSongs, pickActiveJamId} from '../../utils/myJam'
+import type {JamResponseDto, JamStatus, ScheduleResponseDto, ScheduleStatus} from '../../types/api.types'
+
+const NOW = new Date('2026-01-10T21:00:00.000Z').getTime()
+
+function song(id: string, order: number, status: ScheduleStatus, musicians: string[], jamId = 'jam-1'): ScheduleResponseDto {
+  return {
+    id,
+    jamId,
+    order,
+    status,
+    music: { id: `m-${id}`, title: `Song ${id}`, artist: 'Artist', duration: 240 },
+    startedAt: status === 'IN_PROGRESS' ? new Date(NOW - 60_000).toISOString() : null,
+    registrations: musicians.map((musicianId) => ({ id: `${id}-${musicianId}`, musicianId, jamId, scheduleId: id, instrument: 'Guitars' })),
+  } as unknown as ScheduleResponseDto
+}
+
+function jam(id: string, status: JamStatus, schedules: ScheduleResponseDto[] = [], date?: string): JamResponseDto {
+  return { id, name: `Jam ${id}`, status, schedules, date } as unknown as JamResponseDto
+}
+
+describe('getMyJamSongs', () => {
+  const active = jam('jam-1', 'ACTIVE', [
+    song('a', 1, 'COMPLETED', ['me']),
+    song('b', 2, 'IN_PROGRESS', ['ana']),
+    song('c', 3, 'SCHEDULED', ['ana', 'bob']),
+    song('d', 4, 'SCHEDULED', ['me', 'bob']),
+  ])
+
+  it('lists the musician songs with position, estimated start and bandmates', () => {
+    const songs = getMyJamSongs(active, 'me', NOW)
+    expect(songs.map((s) => [s.schedule.id, s.songsAway])).toEqual([['a', null], ['d', 2]])
+
+    const upcoming = songs[1]
+    // b ends at NOW + 180s, then c plays 240s
+    expect(upcoming.estimatedStart).toBe(NOW + 420_000)
+    expect(upcoming.bandmates.map((r) => r.musicianId)).toEqual(['bob'])
+  })
+})
+
+describe('pickActiveJamId', () => {
+  it('prefers the active jam that is playing', () => {
+    const jams = [jam('jam-0', 'ACTIVE'), jam('jam-1', 'ACTIVE', [song('b', 1, 'IN_PROGRESS', [])]), jam('jam-2', 'FINISHED')]
+    const registrations = ['jam-0', 'jam-1', 'jam-2'].map((jamId) => ({ jamId }) as never)
+    expect(pickActiveJamId(jams, registrations)).toBe('jam-1')
+    expect(pickActiveJamId(jams, [])).toBeNull()
+  })
+})
+
+describe('getJamHistory', () => {
+  it('groups past songs by jam, newest jam first', () => {
+    const jams = [jam('old', 'FINISHED', [], '2025-01-01'), jam('new', 'FINISHED', [], '2025-06-01'), jam('live', 'ACTIVE')]
+    const schedules = [
+      song('x', 1, 'COMPLETED', ['me'], 'old'),
+      song('y', 1, 'COMPLETED', ['me'], 'new'),
+      song('z', 2, 'CANCELED', ['me'], 'new'),
+      song('w', 1, 'SCHEDULED', ['me'], 'live'),
+    ]
+    const history = getJamHistory(schedules, jams, 'me')
+    expect(history.map((entry) => [entry.jamId, entry.songs.map((s) => s.status)])).toEqual([
+      ['new', ['COMPLETED', 'CANCELED']],
+      ['old', ['COMPLETED']],
+    ])
+    expect(history[0].songs[0]).toMatchObject({ title: 'Song y', instrument: 'Guitars' })
+  })
+})
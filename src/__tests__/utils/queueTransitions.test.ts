@@ -0,0 +1,62 @@
+import {describe, expect, it} from 'vitest'
+import {
+  findQueueIssues,
+  planAdvance,
+  planCompensation,
+  planRepair,
+  planRewind,
+} from '../../utils/queueTransitions'
+import type {ScheduleResponseDto, ScheduleStatus} from '../../types/api.types'
+
+function song(id: string, order: number, status: ScheduleStatus): ScheduleResponseDto {
+  return { id, order, status } as unknown as ScheduleResponseDto
+}
+
+describe('planAdvance / planRewind', () => {
+  const queue = [song('a', 1, 'COMPLETED'), song('b', 2, 'IN_PROGRESS'), song('c', 3, 'SCHEDULED')]
+
+  it('completes the current song and starts the next one', () => {
+    expect(planAdvance(queue)).toEqual([
+      { scheduleId: 'b', from: 'IN_PROGRESS', to: 'COMPLETED' },
+      { scheduleId: 'c', from: 'SCHEDULED', to: 'IN_PROGRESS' },
+    ])
+  })
+
+  it('requeues the current song and restarts the previous one', () => {
+    expect(planRewind(queue)).toEqual([
+      { scheduleId: 'b', from: 'IN_PROGRESS', to: 'SCHEDULED' },
+      { scheduleId: 'a', from: 'COMPLETED', to: 'IN_PROGRESS' },
+    ])
+  })
+
+  it('returns null at the end of the setlist', () => {
+    expect(planAdvance([song('a', 1, 'COMPLETED'), song('b', 2, 'IN_PROGRESS')])).toBeNull()
+  })
+})
+
+describe('findQueueIssues / planRepair', () => {
+  it('flags two songs in progress and keeps the earliest one', () => {
+    const queue = [song('a', 1, 'COMPLETED'), song('b', 2, 'IN_PROGRESS'), song('c', 3, 'IN_PROGRESS')]
+    expect(findQueueIssues(queue)).toEqual([{ kind: 'multiple_in_progress', scheduleIds: ['b', 'c'] }])
+    expect(planRepair(queue)).toEqual([{ scheduleId: 'c', from: 'IN_PROGRESS', to: 'SCHEDULED' }])
+  })
+
+  it('accepts a consistent queue', () => {
+    expect(findQueueIssues([song('a', 1, 'IN_PROGRESS'), song('b', 2, 'SCHEDULED')])).toEqual([])
+  })
+})
+
+describe('planCompensation', () => {
+  const plan = planAdvance([song('b', 2, 'IN_PROGRESS'), song('c', 3, 'SCHEDULED')])!
+
+  it('undoes the half of the plan that was applied', () => {
+    expect(planCompensation(plan, [song('b', 2, 'COMPLETED'), song('c', 3, 'SCHEDULED')])).toEqual([
+      { scheduleId: 'b', from: 'COMPLETED', to: 'IN_PROGRESS' },
+    ])
+  })
+
+  it('does nothing when the plan was applied in full or not at all', () => {
+    expect(planCompensation(plan, [song('b', 2, 'COMPLETED'), song('c', 3, 'IN_PROGRESS')])).toEqual([])
+    expect(planCompensation(plan, [song('b', 2, 'IN_PROGRESS'), song('c', 3, 'SCHEDULED')])).toEqual([])
+  })
+})
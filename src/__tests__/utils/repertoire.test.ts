@@ -0,0 +1,81 @@
+import {describe, expect, it} from 'vitest'
+import {getSlotCandidates, getSongRecommendations} from '../../utils/repertoire'
+import type {
+  JamResponseDto,
+  MusicianResponseDto,
+  RegistrationResponseDto,
+  RepertoireEntryResponseDto,
+  RepertoireStatus,
+  ScheduleResponseDto,
+} from '../../types/api.types'
+
+function musician(id: string, instruments: [string, boolean][]): MusicianResponseDto {
+  return {
+    id,
+    name: id,
+    instrument: instruments[0][0],
+    level: 'INTERMEDIATE',
+    instruments: instruments.map(([instrument, primary]) => ({ instrument, level: 'INTERMEDIATE', primary })),
+  } as MusicianResponseDto
+}
+
+function registration(scheduleId: string, m: MusicianResponseDto, instrument: string, status = 'APPROVED'): RegistrationResponseDto {
+  return { id: `${scheduleId}-${m.id}`, jamId: 'jam-1', scheduleId, musicianId: m.id, instrument, status, musician: m } as RegistrationResponseDto
+}
+
+function entry(musicianId: string, musicId: string, status: RepertoireStatus): RepertoireEntryResponseDto {
+  return { id: `${musicianId}-${musicId}`, musicianId, musicId, status, createdAt: '2026-01-10T20:00:00.000Z' }
+}
+
+const ana = musician('ana', [['guitars', true], ['vocals', false]])
+const bob = musician('bob', [['drums', true]])
+const cid = musician('cid', [['Bateria', true]])
+
+function schedule(id: string, order: number, status: string, registrations: RegistrationResponseDto[]): ScheduleResponseDto {
+  return {
+    id,
+    jamId: 'jam-1',
+    musicId: `music-${id}`,
+    order,
+    status,
+    music: { id: `music-${id}`, title: id, artist: 'Artist', instrumentSlots: [{ instrument: 'drums', count: 1 }, { instrument: 'vocals', count: 1 }] },
+    registrations,
+  } as unknown as ScheduleResponseDto
+}
+
+const schedules = [
+  schedule('s1', 1, 'COMPLETED', [registration('s1', ana, 'vocals')]),
+  schedule('s2', 2, 'SCHEDULED', [registration('s2', bob, 'drums')]),
+  schedule('s3', 3, 'SCHEDULED', [registration('s3', cid, 'drums', 'REJECTED')]),
+  schedule('s4', 4, 'SCHEDULED', []),
+]
+const jam = { id: 'jam-1', name: 'Jam', schedules, registrations: schedules.flatMap((s) => s.registrations ?? []) } as JamResponseDto
+
+describe('getSongRecommendations', () => {
+  it('recommends upcoming songs with an open slot for the musician, ready-to-play first', () => {
+    const repertoire = [entry('ana', 'music-s1', 'READY'), entry('ana', 'music-s2', 'LEARNING'), entry('ana', 'music-s4', 'READY')]
+    expect(getSongRecommendations(jam, ana, repertoire).map((r) => [r.schedule.id, r.instrument, r.status])).toEqual([
+      ['s4', 'vocals', 'READY'],
+      ['s2', 'vocals', 'LEARNING'],
+    ])
+  })
+
+  it('leaves out songs without a free slot for their instruments', () => {
+    expect(getSongRecommendations(jam, bob, [entry('bob', 'music-s3', 'READY'), entry('bob', 'music-s2', 'READY')])
+      .map((r) => r.schedule.id)).toEqual(['s3'])
+  })
+})
+
+describe('getSlotCandidates', () => {
+  it('lists checked-in musicians who know the song, per unfilled slot', () => {
+    const repertoire = [entry('bob', 'music-s4', 'LEARNING'), entry('ana', 'music-s4', 'READY'), entry('cid', 'music-s4', 'READY')]
+    const candidates = getSlotCandidates(schedules[3], jam, repertoire)
+    // cid's only registration was rejected: not checked in
+    expect(candidates.drums.map((c) => c.musician.id)).toEqual(['bob'])
+    expect(candidates.vocals.map((c) => [c.musician.id, c.status])).toEqual([['ana', 'READY']])
+  })
+
+  it('skips filled slots and musicians already on the song', () => {
+    expect(getSlotCandidates(schedules[1], jam, [entry('bob', 'music-s2', 'READY')])).toEqual({})
+  })
+})
@@ -0,0 +1,91 @@
+import {describe, expect, it} from 'vitest'
+import {
+  applyLocalOrder,
+  checkReorderConflict,
+  checkStatusConflict,
+  mergeSetlistOrder,
+} from '../../utils/scheduleConflicts'
+import type {ScheduleResponseDto, ScheduleStatus} from '../../types/api.types'
+
+function schedule(id: string, order: number, status: ScheduleStatus = 'SCHEDULED'): ScheduleResponseDto {
+  return {
+    id,
+    jamId: 'jam-1',
+    musicId: `music-${id}`,
+    order,
+    status,
+    createdAt: '2025-12-06T10:00:00Z',
+    music: { id: `music-${id}`, title: `Song ${id}` } as ScheduleResponseDto['music'],
+  }
+}
+
+describe('checkStatusConflict', () => {
+  const edit = {
+    jamId: 'jam-1',
+    scheduleId: 'a',
+    base: { status: 'SCHEDULED' as const, order: 1 },
+    local: { status: 'IN_PROGRESS' as const, order: 1 },
+    orderChanged: false,
+  }
+
+  it('applies when the server still matches the base', () => {
+    expect(checkStatusConflict(edit, [schedule('a', 1)]).result).toBe('apply')
+  })
+
+  it('is a no-op when the server already has the local status', () => {
+    expect(checkStatusConflict(edit, [schedule('a', 1, 'IN_PROGRESS')]).result).toBe('noop')
+  })
+
+  it('reports a conflict when someone else changed the status', () => {
+    const check = checkStatusConflict(edit, [schedule('a', 1, 'CANCELED')])
+    expect(check).toMatchObject({
+      result: 'conflict',
+      conflict: { kind: 'status', title: 'Song a', remote: { status: 'CANCELED', order: 1 } },
+    })
+  })
+
+  it('reports a conflict when the schedule was removed', () => {
+    const check = checkStatusConflict(edit, [])
+    expect(check).toMatchObject({ result: 'conflict', conflict: { remote: null } })
+  })
+})
+
+describe('checkReorderConflict', () => {
+  const remote = [schedule('a', 1), schedule('b', 2), schedule('c', 3), schedule('s', 4, 'SUGGESTED')]
+
+  it('applies when the setlist order is unchanged on the server', () => {
+    const check = checkReorderConflict({ jamId: 'jam-1', base: ['a', 'b', 'c'], local: ['b', 'a', 'c'] }, remote)
+    expect(check.result).toBe('apply')
+  })
+
+  it('reports a conflict with a merged proposal when both sides reordered', () => {
+    const check = checkReorderConflict(
+      { jamId: 'jam-1', base: ['c', 'a', 'b'], local: ['a', 'c', 'b'] },
+      remote
+    )
+    expect(check.result).toBe('conflict')
+  })
+})
+
+describe('mergeSetlistOrder', () => {
+  it('keeps the local move and the server additions', () => {
+    // Local moved "d" to the top, the server added "e" at the end and swapped b/c
+    const merged = mergeSetlistOrder(['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c'], ['a', 'c', 'b', 'd', 'e'])
+    expect(merged).toEqual(['d', 'a', 'c', 'b', 'e'])
+  })
+
+  it('drops songs removed on the server', () => {
+    const merged = mergeSetlistOrder(['a', 'b', 'c'], ['c', 'a', 'b'], ['a', 'b'])
+    expect(merged).toEqual(['a', 'b'])
+  })
+
+  it('follows the server when nothing moved locally', () => {
+    expect(mergeSetlistOrder(['a', 'b'], ['a', 'b'], ['b', 'a'])).toEqual(['b', 'a'])
+  })
+})
+
+describe('applyLocalOrder', () => {
+  it('keeps the local order and appends songs added on the server', () => {
+    expect(applyLocalOrder(['b', 'a', 'x'], ['a', 'b', 'c'])).toEqual(['b', 'a', 'c'])
+  })
+})
@@ -0,0 +1,27 @@
+import {describe, expect, it} from 'vitest'
+import {checkTransition, getAllowedTransitions} from '../../utils/scheduleStatusMachine'
+
+describe('checkTransition', () => {
+  it('allows hosts to run a song through its lifecycle', () => {
+    expect(checkTransition('SUGGESTED', 'SCHEDULED', 'host')).toEqual({ allowed: true })
+    expect(checkTransition('SCHEDULED', 'IN_PROGRESS', 'host')).toEqual({ allowed: true })
+    expect(checkTransition('IN_PROGRESS', 'COMPLETED', 'host')).toEqual({ allowed: true })
+  })
+
+  it('refuses moves that are not in the table', () => {
+    expect(checkTransition('COMPLETED', 'SUGGESTED', 'host')).toEqual({ allowed: false, reason: 'illegal' })
+    expect(checkTransition('SCHEDULED', 'SCHEDULED', 'host')).toEqual({ allowed: false, reason: 'unchanged' })
+  })
+
+  it('refuses moves the role may not make', () => {
+    expect(checkTransition('SUGGESTED', 'SCHEDULED', 'user')).toEqual({ allowed: false, reason: 'forbidden' })
+    expect(checkTransition('SUGGESTED', 'CANCELED', 'user')).toEqual({ allowed: true })
+  })
+})
+
+describe('getAllowedTransitions', () => {
+  it('lists nothing for viewers', () => {
+    expect(getAllowedTransitions('IN_PROGRESS', 'viewer')).toEqual([])
+    expect(getAllowedTransitions('IN_PROGRESS', 'host').map((t) => t.to)).toEqual(['COMPLETED', 'CANCELED', 'SCHEDULED'])
+  })
+})
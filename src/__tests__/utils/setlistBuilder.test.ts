@@ -0,0 +1,69 @@
+import {describe, expect, it} from 'vitest'
+import {buildSetlistOrder} from '../../utils/setlistBuilder'
+import type {JamResponseDto, ScheduleResponseDto, ScheduleStatus} from '../../types/api.types'
+
+function song(
+  id: string,
+  order: number,
+  lineup: Record<string, string>,
+  status: ScheduleStatus = 'SCHEDULED',
+  duration = 300
+): ScheduleResponseDto {
+  return {
+    id,
+    order,
+    status,
+    music: { title: `Song ${id}`, duration },
+    registrations: Object.entries(lineup).map(([musicianId, instrument]) => ({ musicianId, instrument })),
+  } as unknown as ScheduleResponseDto
+}
+
+function jamWith(schedules: ScheduleResponseDto[]): JamResponseDto {
+  return { id: 'jam-1', schedules, registrations: [] } as unknown as JamResponseDto
+}
+
+describe('buildSetlistOrder', () => {
+  it('separates songs that share a musician', () => {
+    const jam = jamWith([
+      song('a', 1, { ana: 'guitar' }),
+      song('b', 2, { ana: 'vocals' }),
+      song('c', 3, { bia: 'guitar' }),
+    ])
+    const proposal = buildSetlistOrder(jam)
+    expect(proposal.order).toEqual(['a', 'c', 'b'])
+    expect(proposal.backToBackBefore).toBe(1)
+    expect(proposal.backToBackAfter).toBe(0)
+  })
+
+  it('rotates drummers', () => {
+    const jam = jamWith([
+      song('a', 1, { caio: 'Drums', x: 'guitar' }),
+      song('b', 2, { caio: 'Drums', y: 'guitar' }),
+      song('c', 3, { caio: 'Drums', z: 'guitar' }),
+      song('d', 4, { davi: 'Drums', w: 'guitar' }),
+    ])
+    expect(buildSetlistOrder(jam).order.slice(0, 2)).toEqual(['a', 'd'])
+  })
+
+  it('keeps pinned and already played songs in place', () => {
+    const jam = jamWith([
+      song('a', 1, { ana: 'guitar' }, 'COMPLETED'),
+      song('b', 2, { ana: 'guitar' }),
+      song('c', 3, { bia: 'guitar' }),
+      song('d', 4, { caio: 'guitar' }),
+    ])
+    const proposal = buildSetlistOrder(jam, { pinnedIds: ['d'] })
+    expect(proposal.order).toEqual(['a', 'c', 'b', 'd'])
+  })
+
+  it('prefers songs that fit the time budget and flags the rest', () => {
+    const jam = jamWith([
+      song('long', 1, { ana: 'guitar' }, 'SCHEDULED', 900),
+      song('short', 2, { bia: 'guitar' }, 'SCHEDULED', 240),
+      song('mid', 3, { caio: 'guitar' }, 'SCHEDULED', 300),
+    ])
+    const proposal = buildSetlistOrder(jam, { timeBudgetSeconds: 600 })
+    expect(proposal.order).toEqual(['short', 'mid', 'long'])
+    expect(proposal.overBudgetIds).toEqual(['long'])
+  })
+})
@@ -0,0 +1,96 @@
+import {describe, expect, it} from 'vitest'
+import {
+  buildSetlistRows,
+  buildStageSheetHtml,
+  getExportFileName,
+  type SetlistExportLabels,
+  toSetlistCsv,
+} from '../../utils/setlistExport'
+import type {JamResponseDto, ScheduleResponseDto} from '../../types/api.types'
+
+const labels: SetlistExportLabels = {
+  position: '#',
+  title: 'Song',
+  artist: 'Artist',
+  duration: 'Duration',
+  status: 'Status',
+  lineup: 'Lineup',
+  totalDuration: 'Total duration',
+  generatedAt: 'Generated at',
+  statuses: {
+    SUGGESTED: 'Suggested',
+    SCHEDULED: 'Scheduled',
+    IN_PROGRESS: 'In Progress',
+    COMPLETED: 'Completed',
+    CANCELED: 'Canceled',
+  },
+}
+
+const instrumentNames: Record<string, string> = { 'schedule.instruments.guitars': 'Guitarras', 'schedule.instruments.drums': 'Bateria' }
+const t = (key: string) => instrumentNames[key] ?? key
+
+const jam = {
+  id: 'jam-1',
+  name: 'Sexta Blues & Jazz',
+  schedules: [
+    {
+      id: 'b',
+      order: 2,
+      status: 'SCHEDULED',
+      music: { title: 'Song "B"', artist: 'Band, The', duration: 185 },
+      registrations: [
+        { musicianId: 'm1', instrument: 'guitar', musician: { name: 'Ana' } },
+        { musicianId: 'm2', instrument: 'guitar', musician: { name: 'Bia' } },
+        { musicianId: 'm3', instrument: 'drums', status: 'REJECTED', musician: { name: 'Caio' } },
+        { musicianId: 'm4', instrument: 'bass', status: 'CANCELLED', musician: { name: 'Duda' } },
+      ],
+    },
+    { id: 'a', order: 1, status: 'COMPLETED', music: { title: 'Song A', artist: 'X' } },
+    { id: 's', order: 3, status: 'SUGGESTED', music: { title: 'Idea', artist: 'Y' } },
+  ] as unknown as ScheduleResponseDto[],
+  registrations: [],
+} as unknown as JamResponseDto
+
+describe('setlist export', () => {
+  it('orders the setlist, skips suggestions and rejected or cancelled registrations', () => {
+    const rows = buildSetlistRows(jam, t)
+    expect(rows.map((row) => row.title)).toEqual(['Song A', 'Song "B"'])
+    expect(rows[1].lineup).toEqual([{ instrument: 'Guitarras', musicians: ['Ana', 'Bia'] }])
+  })
+
+  it('groups the lineup by instrument whatever name it was saved under', () => {
+    const legacy = {
+      ...jam,
+      schedules: [{
+        id: 'c',
+        order: 1,
+        status: 'SCHEDULED',
+        registrations: [
+          { musicianId: 'm1', instrument: 'drums', musician: { name: 'Caio' } },
+          { musicianId: 'm2', instrument: 'Bateria', musician: { name: 'Davi' } },
+          { musicianId: 'm3', instrument: 'Cowbell', musician: { name: 'Eva' } },
+        ],
+      }],
+    } as unknown as JamResponseDto
+    expect(buildSetlistRows(legacy, t)[0].lineup).toEqual([
+      { instrument: 'Bateria', musicians: ['Caio', 'Davi'] },
+      { instrument: 'Cowbell', musicians: ['Eva'] },
+    ])
+  })
+
+  it('escapes CSV fields', () => {
+    const csv = toSetlistCsv(buildSetlistRows(jam, t), labels).split('\r\n')
+    expect(csv[0]).toBe('#,Song,Artist,Duration,Status,Lineup')
+    expect(csv[2]).toBe('2,"Song ""B""","Band, The",3:05,Scheduled,"Guitarras: Ana, Bia"')
+  })
+
+  it('escapes HTML in the stage sheet', () => {
+    const html = buildStageSheetHtml(jam, buildSetlistRows(jam, t), labels)
+    expect(html).toContain('Sexta Blues &amp; Jazz')
+    expect(html).toContain('Song &quot;B&quot;')
+  })
+
+  it('builds a file name from the jam name', () => {
+    expect(getExportFileName(jam, 'pdf')).toBe('sexta-blues-jazz-setlist.pdf')
+  })
+})
@@ -0,0 +1,52 @@
+import {describe, expect, it} from 'vitest'
+import {DEFAULT_SONG_SECONDS, estimateStartTimes, getSongProgress, isOverrunWarning} from '../../utils/songTimer'
+
+const START = '2026-01-10T21:00:00.000Z'
+const at = (seconds: number) => new Date(START).getTime() + seconds * 1000
+
+describe('getSongProgress', () => {
+  it('reports elapsed and remaining time against the planned duration', () => {
+    expect(getSongProgress(START, 240, at(90))).toEqual({
+      elapsedSeconds: 90,
+      durationSeconds: 240,
+      remainingSeconds: 150,
+      overrunSeconds: 0,
+      ratio: 0.375,
+    })
+  })
+
+  it('counts the overrun once the song runs past its duration', () => {
+    const progress = getSongProgress(START, 240, at(300))
+    expect(progress).toMatchObject({ remainingSeconds: 0, overrunSeconds: 60, ratio: 1 })
+    expect(isOverrunWarning(progress, 30)).toBe(true)
+    expect(isOverrunWarning(progress, 60)).toBe(false)
+    expect(isOverrunWarning(progress, null)).toBe(false)
+  })
+
+  it('only tracks elapsed time without a duration, and nothing without a start', () => {
+    expect(getSongProgress(START, null, at(30))).toMatchObject({ elapsedSeconds: 30, remainingSeconds: null, ratio: null })
+    expect(getSongProgress(START, 240, at(-5))?.elapsedSeconds).toBe(0)
+    expect(getSongProgress(null, 240, at(0))).toBeNull()
+  })
+})
+
+describe('estimateStartTimes', () => {
+  const upcoming = [{ id: 'a', duration: 200 }, { id: 'b', duration: null }, { id: 'c', duration: 180 }]
+
+  it('chains the queue from the end of the current song', () => {
+    const starts = estimateStartTimes({ startedAt: START, duration: 240 }, upcoming, at(60))
+    expect(starts.get('a')).toBe(at(240))
+    expect(starts.get('b')).toBe(at(440))
+    expect(starts.get('c')).toBe(at(440 + DEFAULT_SONG_SECONDS))
+  })
+
+  it('pushes the queue back while the current song runs long', () => {
+    const starts = estimateStartTimes({ startedAt: START, duration: 240 }, upcoming, at(400))
+    expect(starts.get('a')).toBe(at(400))
+    expect(starts.get('b')).toBe(at(600))
+  })
+
+  it('starts now when nothing is playing', () => {
+    expect(estimateStartTimes(null, upcoming, at(0)).get('a')).toBe(at(0))
+  })
+})
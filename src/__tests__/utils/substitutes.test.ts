@@ -0,0 +1,78 @@
+import {describe, expect, it} from 'vitest'
+import {findSubstitutes} from '../../utils/substitutes'
+import type {
+  JamResponseDto,
+  MusicianLevel,
+  MusicianResponseDto,
+  RegistrationResponseDto,
+  RepertoireEntryResponseDto,
+  ScheduleResponseDto,
+} from '../../types/api.types'
+
+function musician(id: string, instrument: string, level: MusicianLevel): MusicianResponseDto {
+  return { id, name: id, instrument, level, instruments: [{ instrument, level, primary: true }] } as MusicianResponseDto
+}
+
+function registration(scheduleId: string, m: MusicianResponseDto, status = 'APPROVED'): RegistrationResponseDto {
+  return { id: `${scheduleId}-${m.id}`, jamId: 'jam-1', scheduleId, musicianId: m.id, instrument: m.instrument, status, musician: m } as RegistrationResponseDto
+}
+
+function schedule(id: string, order: number, status: string, registrations: RegistrationResponseDto[]): ScheduleResponseDto {
+  return {
+    id,
+    jamId: 'jam-1',
+    musicId: `music-${id}`,
+    order,
+    status,
+    music: { id: `music-${id}`, title: id, artist: 'Artist', instrumentSlots: [{ instrument: 'drums', count: 1 }, { instrument: 'vocals', count: 1 }] },
+    registrations,
+  } as unknown as ScheduleResponseDto
+}
+
+function jamOf(schedules: ScheduleResponseDto[]): JamResponseDto {
+  return { id: 'jam-1', name: 'Jam', schedules, registrations: schedules.flatMap((s) => s.registrations ?? []) } as JamResponseDto
+}
+
+const ready = (musicianId: string, musicId: string): RepertoireEntryResponseDto =>
+  ({ id: `${musicianId}-${musicId}`, musicianId, musicId, status: 'READY', createdAt: '2026-01-10T20:00:00.000Z' })
+
+const ana = musician('ana', 'drums', 'INTERMEDIATE')
+const bob = musician('bob', 'drums', 'ADVANCED')
+const cid = musician('cid', 'Bateria', 'INTERMEDIATE')
+const dee = musician('dee', 'vocals', 'PROFESSIONAL')
+
+describe('findSubstitutes', () => {
+  it('puts musicians who know the song before better-levelled ones who do not', () => {
+    const schedules = [
+      schedule('s1', 1, 'SCHEDULED', [registration('s1', ana), registration('s1', bob), registration('s1', dee)]),
+      schedule('s2', 2, 'SCHEDULED', []),
+    ]
+    const candidates = findSubstitutes(schedules[1], 'drums', jamOf(schedules), [ready('ana', 'music-s2')])
+    expect(candidates.map((c) => [c.musician.id, c.repertoire])).toEqual([['ana', 'READY'], ['bob', null]])
+  })
+
+  it('prefers musicians who played less tonight, then the ones farthest from their next slot', () => {
+    const schedules = [
+      schedule('s1', 1, 'COMPLETED', [registration('s1', ana)]),
+      schedule('s2', 2, 'SCHEDULED', [registration('s2', bob, 'REJECTED')]),
+      schedule('s3', 3, 'SCHEDULED', [registration('s3', cid)]),
+      schedule('s4', 4, 'SCHEDULED', [registration('s4', dee)]),
+      schedule('idea', 5, 'SUGGESTED', []),
+      schedule('s5', 10, 'SCHEDULED', []),
+      schedule('s6', 20, 'SCHEDULED', [registration('s6', bob)]),
+    ]
+    const candidates = findSubstitutes(schedules[3], 'drums', jamOf(schedules))
+    // bob was rejected from s2 but is still on s6: two songs away in the queue (the suggestion
+    // and the gaps in order don't count), cid plays right before
+    expect(candidates.map((c) => [c.musician.id, c.songsPlayed, c.distance])).toEqual([
+      ['bob', 0, 2],
+      ['cid', 0, 1],
+      ['ana', 1, null],
+    ])
+  })
+
+  it('leaves out musicians already registered for the song or without the instrument', () => {
+    const schedules = [schedule('s1', 1, 'SCHEDULED', [registration('s1', ana, 'REJECTED'), registration('s1', dee)])]
+    expect(findSubstitutes(schedules[0], 'drums', jamOf(schedules))).toEqual([])
+  })
+})
@@ -0,0 +1,50 @@
+import {describe, expect, it} from 'vitest'
+import {getAlertKey, getDueAlerts, getUpcomingSlots} from '../../utils/upcomingSlots'
+import type {ScheduleResponseDto, ScheduleStatus} from '../../types/api.types'
+
+function song(id: string, order: number, status: ScheduleStatus, musicians: string[] = [], registrationStatus = 'APPROVED'): ScheduleResponseDto {
+  return {
+    id,
+    order,
+    status,
+    registrations: musicians.map((musicianId) => ({ id: `${id}-${musicianId}`, musicianId, instrument: 'guitar', status: registrationStatus })),
+  } as unknown as ScheduleResponseDto
+}
+
+describe('getUpcomingSlots', () => {
+  it('counts songs away from the one on stage, in play order', () => {
+    const schedules = [
+      song('d', 4, 'SCHEDULED', ['me']),
+      song('a', 1, 'COMPLETED', ['me']),
+      song('b', 2, 'IN_PROGRESS'),
+      song('c', 3, 'SCHEDULED'),
+      song('s', 0, 'SUGGESTED', ['me']),
+    ]
+    expect(getUpcomingSlots(schedules, 'me').map((slot) => [slot.schedule.id, slot.songsAway])).toEqual([['d', 2]])
+  })
+
+  it('treats the first song as next when nothing is playing', () => {
+    const schedules = [song('a', 1, 'SCHEDULED', ['me']), song('b', 2, 'SCHEDULED', ['me'])]
+    expect(getUpcomingSlots(schedules, 'me').map((slot) => slot.songsAway)).toEqual([1, 2])
+  })
+
+  it('ignores rejected registrations', () => {
+    expect(getUpcomingSlots([song('a', 1, 'SCHEDULED', ['me'], 'REJECTED')], 'me')).toEqual([])
+  })
+})
+
+describe('getDueAlerts', () => {
+  const slots = getUpcomingSlots(
+    [song('a', 1, 'IN_PROGRESS'), song('b', 2, 'SCHEDULED', ['me']), song('c', 3, 'SCHEDULED', ['me']), song('d', 4, 'SCHEDULED', ['me'])],
+    'me'
+  )
+
+  it('raises the tightest threshold reached by each slot', () => {
+    expect(getDueAlerts(slots, [2, 1], new Set()).map(getAlertKey)).toEqual(['b:1', 'c:2'])
+    expect(getDueAlerts(slots, [1], new Set()).map(getAlertKey)).toEqual(['b:1'])
+  })
+
+  it('skips alerts already sent', () => {
+    expect(getDueAlerts(slots, [2, 1], new Set(['b:1'])).map(getAlertKey)).toEqual(['c:2'])
+  })
+})
@@ -0,0 +1,47 @@
+import {describe, expect, it} from 'vitest'
+import {getInstrumentSlots, getNextInLine, getWaitlistPlace, sortWaitlist} from '../../utils/waitlist'
+import type {ScheduleResponseDto, WaitlistEntryResponseDto} from '../../types/api.types'
+
+function entry(id: string, instrument: string, position: number, createdAt = '2026-01-10T20:00:00.000Z'): WaitlistEntryResponseDto {
+  return { id, jamId: 'jam-1', scheduleId: 's-1', musicianId: `musician-${id}`, instrument, position, createdAt }
+}
+
+const schedule = {
+  id: 's-1',
+  jamId: 'jam-1',
+  order: 1,
+  status: 'SCHEDULED',
+  music: { id: 'm-1', title: 'Song', artist: 'Artist', neededDrums: 1, neededGuitars: 2, neededVocals: 0 },
+  registrations: [
+    { id: 'r-1', musicianId: 'ana', instrument: 'Bateria', status: 'APPROVED' },
+    { id: 'r-2', musicianId: 'bob', instrument: 'Guitars', status: 'REJECTED' },
+    { id: 'r-3', musicianId: 'cid', instrument: 'Guitarras', status: 'PENDING' },
+  ],
+  waitlist: [entry('b', 'drums', 2), entry('a', 'drums', 1), entry('c', 'guitars', 1)],
+} as unknown as ScheduleResponseDto
+
+describe('getInstrumentSlots', () => {
+  it('counts active registrations in any language and the waitlist per instrument', () => {
+    expect(getInstrumentSlots(schedule)).toEqual([
+      { key: 'drums', needed: 1, registered: 1, waitlisted: 2, open: 0 },
+      { key: 'guitars', needed: 2, registered: 1, waitlisted: 1, open: 1 },
+    ])
+  })
+})
+
+describe('sortWaitlist', () => {
+  it('orders entries first in, first out', () => {
+    const tied = [entry('late', 'drums', 1, '2026-01-10T20:05:00.000Z'), entry('early', 'drums', 1)]
+    expect(sortWaitlist(tied).map((e) => e.id)).toEqual(['early', 'late'])
+    expect(sortWaitlist(schedule.waitlist, 'Drums').map((e) => e.id)).toEqual(['a', 'b'])
+  })
+})
+
+describe('getNextInLine / getWaitlistPlace', () => {
+  it('finds who is next and where a musician stands', () => {
+    expect(getNextInLine(schedule, 'drums')?.id).toBe('a')
+    expect(getNextInLine(schedule, 'keys')).toBeNull()
+    expect(getWaitlistPlace(schedule, 'musician-b')?.place).toBe(2)
+    expect(getWaitlistPlace(schedule, 'ana')).toBeNull()
+  })
+})
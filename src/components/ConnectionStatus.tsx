@@ -0,0 +1,39 @@
+/**
+ * Connection Status Component
+ * Small badge showing the live (WebSocket) connection state
+ */
+
+import {useTranslation} from 'react-i18next'
+import {useSocketConnection} from '../hooks'
+import type {SocketConnectionState} from '../types/socket.types'
+
+interface ConnectionStatusProps {
+  showLabel?: boolean
+  className?: string
+}
+
+const STATE_STYLES: Record<SocketConnectionState, { badge: string; dot: string; labelKey: string }> = {
+  connected: { badge: 'badge-success', dot: 'bg-success-content', labelKey: 'common.connection.connected' },
+  connecting: { badge: 'badge-info', dot: 'bg-info-content animate-pulse', labelKey: 'common.connection.connecting' },
+  reconnecting: { badge: 'badge-warning', dot: 'bg-warning-content animate-pulse', labelKey: 'common.connection.reconnecting' },
+  disconnected: { badge: 'badge-ghost', dot: 'bg-base-content/50', labelKey: 'common.connection.offline' },
+}
+
+export function ConnectionStatus({ showLabel = true, className = '' }: ConnectionStatusProps) {
+  const { t } = useTranslation()
+  const { connectionState } = useSocketConnection()
+  const style = STATE_STYLES[connectionState]
+  const label = t(style.labelKey)
+
+  return (
+    <span
+      className={`badge badge-sm gap-1.5 ${style.badge} ${className}`}
+      role="status"
+      aria-live="polite"
+      title={label}
+    >
+      <span className={`inline-block w-2 h-2 rounded-full ${style.dot}`} />
+      {showLabel && <span>{label}</span>}
+    </span>
+  )
+}
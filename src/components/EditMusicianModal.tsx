@@ -4,7 +4,9 @@
  */
 
 import {useState} from 'react'
-import type {MusicianLevel, MusicianResponseDto} from '../types/api.types'
+import type {MusicianInstrumentDto, MusicianResponseDto} from '../types/api.types'
+import {InstrumentListEditor} from './InstrumentListEditor'
+import {getMusicianInstruments, toLegacyMusicianFields} from '../utils/musicianInstruments'
 
 import {useTranslation} from 'react-i18next'
 
@@ -18,8 +20,7 @@ export function EditMusicianModal({ musician, onSave, onClose }: EditMusicianMod
   const { t } = useTranslation()
   const [formData, setFormData] = useState({
     name: musician.name,
-    instrument: musician.instrument,
-    level: musician.level as MusicianLevel,
+    instruments: getMusicianInstruments(musician),
     contact: musician.contact,
     phone: musician.phone || '',
   })
@@ -36,6 +37,11 @@ export function EditMusicianModal({ musician, onSave, onClose }: EditMusicianMod
     setError(null)
   }
 
+  const handleInstrumentsChange = (instruments: MusicianInstrumentDto[]) => {
+    setFormData((prev) => ({ ...prev, instruments }))
+    setError(null)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
@@ -46,8 +52,8 @@ export function EditMusicianModal({ musician, onSave, onClose }: EditMusicianMod
       return
     }
 
-    if (!formData.instrument.trim()) {
-      setError(t('musician_form.instrument_required'))
+    if (formData.instruments.length === 0) {
+      setError(t('musician_form.instruments_required'))
       return
     }
 
@@ -62,6 +68,7 @@ export function EditMusicianModal({ musician, onSave, onClose }: EditMusicianMod
       const updatedMusician: MusicianResponseDto = {
         ...musician,
         ...formData,
+        ...toLegacyMusicianFields(formData.instruments),
       }
 
       onSave(updatedMusician)
@@ -108,41 +115,18 @@ export function EditMusicianModal({ musician, onSave, onClose }: EditMusicianMod
             />
           </div>
 
-          {/* Instrument */}
+          {/* Instruments, each with its level */}
           <div className="form-control">
             <label className="label">
-              <span className="label-text font-semibold">{t('musician_form.instrument_label')}</span>
+              <span className="label-text font-semibold">{t('musician_form.instruments_label')}</span>
             </label>
-            <input
-              type="text"
-              name="instrument"
-              value={formData.instrument}
-              onChange={handleInputChange}
-              className="input input-bordered"
-              placeholder={t('musician_form.instrument_placeholder')}
+            <InstrumentListEditor
+              instruments={formData.instruments}
+              onChange={handleInstrumentsChange}
               disabled={isLoading}
             />
           </div>
 
-          {/* Level */}
-          <div className="form-control">
-            <label className="label">
-              <span className="label-text font-semibold">{t('schedule.levels.experience_level')}</span>
-            </label>
-            <select
-              name="level"
-              value={formData.level}
-              onChange={handleInputChange}
-              className="select select-bordered"
-              disabled={isLoading}
-            >
-              <option value="BEGINNER">{t('schedule.levels.beginner')}</option>
-              <option value="INTERMEDIATE">{t('schedule.levels.intermediate')}</option>
-              <option value="ADVANCED">{t('schedule.levels.advanced')}</option>
-              <option value="PROFESSIONAL">{t('schedule.levels.professional')}</option>
-            </select>
-          </div>
-
           {/* Contact */}
           <div className="form-control">
             <label className="label">
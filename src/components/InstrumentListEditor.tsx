@@ -0,0 +1,109 @@
+/**
+ * Instrument List Editor Component
+ * Edits the instruments a musician plays: one row per instrument with its level
+ * and a primary flag, plus a picker to add instruments from the registry
+ */
+
+import {useTranslation} from 'react-i18next'
+import {getInstrumentDefinition, getInstrumentLabel, INSTRUMENT_REGISTRY} from '../lib/instruments'
+import type {MusicianInstrumentDto, MusicianLevel} from '../types/api.types'
+
+const LEVELS: MusicianLevel[] = ['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'PROFESSIONAL']
+
+interface InstrumentListEditorProps {
+  instruments: MusicianInstrumentDto[]
+  onChange: (instruments: MusicianInstrumentDto[]) => void
+  disabled?: boolean
+}
+
+export function InstrumentListEditor({ instruments, onChange, disabled = false }: InstrumentListEditorProps) {
+  const { t } = useTranslation()
+  const availableInstruments = INSTRUMENT_REGISTRY.filter(
+    (instrument) => !instruments.some((entry) => entry.instrument === instrument.id)
+  )
+
+  // The first instrument added becomes the primary one
+  const addInstrument = (instrument: string) => {
+    if (!instrument) return
+    onChange([...instruments, { instrument, level: 'BEGINNER', primary: instruments.length === 0 }])
+  }
+
+  const updateLevel = (instrument: string, level: MusicianLevel) => {
+    onChange(instruments.map((entry) => (entry.instrument === instrument ? { ...entry, level } : entry)))
+  }
+
+  const setPrimary = (instrument: string) => {
+    onChange(instruments.map((entry) => ({ ...entry, primary: entry.instrument === instrument })))
+  }
+
+  // Removing the primary instrument hands the flag to the next one
+  const removeInstrument = (instrument: string) => {
+    const remaining = instruments.filter((entry) => entry.instrument !== instrument)
+    const hasPrimary = remaining.some((entry) => entry.primary)
+    onChange(remaining.map((entry, index) => (hasPrimary ? entry : { ...entry, primary: index === 0 })))
+  }
+
+  return (
+    <div className="space-y-2">
+      {instruments.map((entry) => (
+        <div key={entry.instrument} className="flex flex-wrap items-center gap-2">
+          <span className="label-text text-sm flex-1 min-w-24">
+            {getInstrumentDefinition(entry.instrument)?.emoji} {getInstrumentLabel(entry.instrument, t)}
+          </span>
+          <select
+            value={entry.level}
+            onChange={(e) => updateLevel(entry.instrument, e.target.value as MusicianLevel)}
+            className="select select-bordered select-sm"
+            disabled={disabled}
+            aria-label={t('schedule.levels.experience_level')}
+          >
+            {LEVELS.map((level) => (
+              <option key={level} value={level}>{t(`schedule.levels.${level}`)}</option>
+            ))}
+          </select>
+          <label className="label cursor-pointer gap-1 p-0" title={t('musician_form.primary_hint')}>
+            <input
+              type="radio"
+              name="primary-instrument"
+              className="radio radio-primary radio-xs"
+              checked={entry.primary}
+              onChange={() => setPrimary(entry.instrument)}
+              disabled={disabled}
+            />
+            <span className="label-text text-xs">{t('musician_form.primary')}</span>
+          </label>
+          <button
+            type="button"
+            onClick={() => removeInstrument(entry.instrument)}
+            className="btn btn-ghost btn-sm btn-square"
+            title={t('music_form.remove_instrument')}
+            disabled={disabled}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      {instruments.length === 0 && (
+        <p className="text-xs text-base-content/60">{t('musician_form.no_instruments')}</p>
+      )}
+
+      {availableInstruments.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => addInstrument(e.target.value)}
+          className="select select-bordered select-sm w-full"
+          disabled={disabled}
+          aria-label={t('music_form.add_instrument')}
+        >
+          <option value="">+ {t('music_form.add_instrument')}</option>
+          {availableInstruments.map((instrument) => (
+            <option key={instrument.id} value={instrument.id}>
+              {instrument.emoji} {getInstrumentLabel(instrument.id, t)}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,311 @@
+/**
+ * Music Import Wizard Component
+ * Bulk import of songs from a CSV file or a spreadsheet paste:
+ * paste/upload -> map columns and review -> create (and optionally link to a jam)
+ */
+
+import {useMemo, useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import {musicService} from '../services'
+import type {MusicResponseDto} from '../types/api.types'
+import {formatDuration} from '../lib/musicUtils'
+import {
+  buildImportRows,
+  type ColumnMapping,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  type ImportField,
+  type ImportRow,
+  looksLikeHeader,
+  parseDelimited,
+} from '../utils/musicImport'
+
+interface MusicImportWizardProps {
+  catalog: MusicResponseDto[]
+  // When set, imported songs can be linked to this jam
+  jamId?: string
+  onClose: () => void
+  onImported: (created: number) => void
+}
+
+type Step = 'input' | 'review' | 'done'
+
+type ImportFailure = { line: number; title: string; message: string }
+
+export function MusicImportWizard({ catalog, jamId, onClose, onImported }: MusicImportWizardProps) {
+  const { t } = useTranslation()
+  const [step, setStep] = useState<Step>('input')
+  const [text, setText] = useState('')
+  const [hasHeader, setHasHeader] = useState(true)
+  const [mapping, setMapping] = useState<ColumnMapping>([])
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+  const [linkToJam, setLinkToJam] = useState(!!jamId)
+  const [importing, setImporting] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [created, setCreated] = useState(0)
+  const [failures, setFailures] = useState<ImportFailure[]>([])
+
+  const parsed = useMemo(() => parseDelimited(text), [text])
+  const header = hasHeader ? parsed[0]?.cells ?? [] : []
+  const dataRows = useMemo(() => (hasHeader ? parsed.slice(1) : parsed), [parsed, hasHeader])
+  const columnCount = Math.max(0, ...parsed.map((row) => row.cells.length))
+
+  const rows: ImportRow[] = useMemo(
+    () => buildImportRows(dataRows, mapping, catalog),
+    [dataRows, mapping, catalog]
+  )
+  const isImportable = (row: ImportRow) => row.errors.length === 0 && (includeDuplicates || !row.duplicate)
+  const importable = rows.filter(isImportable)
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length
+  const duplicateCount = rows.filter((row) => row.errors.length === 0 && row.duplicate).length
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setText(await file.text())
+  }
+
+  const handleNext = () => {
+    const first = parsed[0]?.cells ?? []
+    const withHeader = looksLikeHeader(first)
+    setHasHeader(withHeader)
+    // Without a header, assume the documented column order
+    setMapping(
+      withHeader
+        ? guessColumnMapping(first)
+        : Array.from({ length: columnCount }, (_, index) => IMPORT_FIELDS[index] ?? null)
+    )
+    setStep('review')
+  }
+
+  const handleMappingChange = (column: number, field: ImportField | null) => {
+    setMapping((prev) => {
+      const next = Array.from({ length: columnCount }, (_, index) => prev[index] ?? null)
+      // A field can only be mapped once
+      next.forEach((value, index) => {
+        if (field && value === field) next[index] = null
+      })
+      next[column] = field
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    setImporting(true)
+    setProgress(0)
+    const failed: ImportFailure[] = []
+    let count = 0
+
+    for (const row of importable) {
+      try {
+        const result = await musicService.create(row.data)
+        count++
+        if (linkToJam && jamId && result.data) {
+          await musicService.linkToJam(result.data.id, jamId)
+        }
+      } catch (err) {
+        const message =
+          err instanceof Error
+            ? err.message
+            : typeof err === 'object' && err !== null && 'message' in err
+              ? String((err as { message: unknown }).message)
+              : t('music_import.failed')
+        failed.push({ line: row.line, title: row.data.title, message })
+      }
+      setProgress((value) => value + 1)
+    }
+
+    setCreated(count)
+    setFailures(failed)
+    setImporting(false)
+    setStep('done')
+    if (count > 0) onImported(count)
+  }
+
+  const getRowStatus = (row: ImportRow) => {
+    if (row.errors.length > 0) {
+      return (
+        <span className="text-error text-xs">
+          {row.errors
+            .map((error) => t(`music_import.errors.${error.code}`, { field: t(`music_import.fields.${error.field}`) }))
+            .join(', ')}
+        </span>
+      )
+    }
+    if (row.duplicate) {
+      return <span className="badge badge-warning badge-sm">{t(`music_import.duplicate_${row.duplicate}`)}</span>
+    }
+    return <span className="badge badge-success badge-sm">{t('music_import.ready')}</span>
+  }
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box w-11/12 max-w-5xl">
+        <h3 className="font-bold text-lg mb-1">📥 {t('music_import.title')}</h3>
+        <ul className="steps steps-horizontal w-full mb-4 text-xs">
+          <li className="step step-primary">{t('music_import.steps.input')}</li>
+          <li className={`step ${step !== 'input' ? 'step-primary' : ''}`}>{t('music_import.steps.review')}</li>
+          <li className={`step ${step === 'done' ? 'step-primary' : ''}`}>{t('music_import.steps.done')}</li>
+        </ul>
+
+        {step === 'input' && (
+          <div className="space-y-4">
+            <p className="text-sm text-base-content/70">{t('music_import.input_hint')}</p>
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              className="file-input file-input-bordered w-full"
+              onChange={(e) => void handleFile(e.target.files?.[0])}
+            />
+            <textarea
+              className="textarea textarea-bordered w-full h-48 font-mono text-xs"
+              placeholder={'title,artist,genre,duration\nSo What,Miles Davis,Jazz,9:22'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+            <div className="modal-action">
+              <button className="btn btn-ghost" onClick={onClose}>
+                {t('common.cancel')}
+              </button>
+              <button className="btn btn-primary" onClick={handleNext} disabled={parsed.length === 0}>
+                {t('music_import.next')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 items-center text-sm">
+              <label className="label cursor-pointer gap-2">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm"
+                  checked={hasHeader}
+                  onChange={(e) => setHasHeader(e.target.checked)}
+                />
+                {t('music_import.has_header')}
+              </label>
+              <label className="label cursor-pointer gap-2">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm"
+                  checked={includeDuplicates}
+                  onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                />
+                {t('music_import.include_duplicates')}
+              </label>
+              {jamId && (
+                <label className="label cursor-pointer gap-2">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={linkToJam}
+                    onChange={(e) => setLinkToJam(e.target.checked)}
+                  />
+                  {t('music_import.link_to_jam')}
+                </label>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-sm">
+              <span className="badge badge-success">{t('music_import.summary_ready', { count: importable.length })}</span>
+              {duplicateCount > 0 && (
+                <span className="badge badge-warning">{t('music_import.summary_duplicates', { count: duplicateCount })}</span>
+              )}
+              {invalidCount > 0 && (
+                <span className="badge badge-error">{t('music_import.summary_invalid', { count: invalidCount })}</span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto max-h-96 border border-base-300 rounded-lg">
+              <table className="table table-xs table-pin-rows">
+                <thead>
+                  <tr>
+                    <th>{t('music_import.line')}</th>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <th key={index}>
+                        {hasHeader && <div className="text-base-content/60 truncate">{header[index]}</div>}
+                        <select
+                          className="select select-bordered select-xs"
+                          value={mapping[index] ?? ''}
+                          onChange={(e) => handleMappingChange(index, (e.target.value || null) as ImportField | null)}
+                        >
+                          <option value="">{t('music_import.ignore_column')}</option>
+                          {IMPORT_FIELDS.map((field) => (
+                            <option key={field} value={field}>
+                              {t(`music_import.fields.${field}`)}
+                            </option>
+                          ))}
+                        </select>
+                      </th>
+                    ))}
+                    <th>{t('music_import.status')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, rowIndex) => (
+                    <tr key={row.line} className={isImportable(row) ? '' : 'opacity-60'}>
+                      <td>{row.line}</td>
+                      {Array.from({ length: columnCount }, (_, index) => (
+                        <td key={index} className="max-w-40 truncate">
+                          {mapping[index] === 'duration' && row.data.duration
+                            ? formatDuration(row.data.duration)
+                            : dataRows[rowIndex]?.cells[index]}
+                        </td>
+                      ))}
+                      <td>{getRowStatus(row)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {importing && (
+              <progress className="progress progress-primary w-full" value={progress} max={importable.length} />
+            )}
+
+            <div className="modal-action">
+              <button className="btn btn-ghost" onClick={() => setStep('input')} disabled={importing}>
+                {t('music_import.back')}
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={() => void handleImport()}
+                disabled={importing || importable.length === 0}
+              >
+                {importing && <span className="loading loading-spinner loading-sm"></span>}
+                {t('music_import.import_count', { count: importable.length })}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-4">
+            <div className="alert alert-success">
+              <span>✅ {t('music_import.done', { count: created })}</span>
+            </div>
+            {failures.length > 0 && (
+              <div className="alert alert-error flex-col items-start">
+                <span className="font-semibold">{t('music_import.failures', { count: failures.length })}</span>
+                <ul className="text-sm list-disc list-inside">
+                  {failures.map((failure) => (
+                    <li key={failure.line}>
+                      {t('music_import.line')} {failure.line} - {failure.title}: {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="modal-action">
+              <button className="btn btn-primary" onClick={onClose}>
+                {t('common.close')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="modal-backdrop" onClick={importing ? undefined : onClose}></div>
+    </div>
+  )
+}
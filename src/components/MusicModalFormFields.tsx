@@ -1,9 +1,12 @@
 /**
  * Music Modal Form Fields Component
  * Reusable form fields for add/edit/suggest modes
+ * The musicians a song needs are a list of instrument slots from the instrument registry
  */
 
 import {GENRES} from '../lib/musicConstants'
+import {getInstrumentDefinition, getInstrumentLabel, INSTRUMENT_REGISTRY} from '../lib/instruments'
+import type {InstrumentSlotDto} from '../types/api.types'
 
 import {useTranslation} from 'react-i18next'
 
@@ -14,16 +17,12 @@ interface FormData {
   link: string
   genre: string
   duration: string
-  neededDrums: number
-  neededGuitars: number
-  neededVocals: number
-  neededBass: number
-  neededKeys: number
+  instrumentSlots: InstrumentSlotDto[]
 }
 
 interface MusicModalFormFieldsProps {
   formData: FormData
-  onChange: (field: keyof FormData, value: string | number) => void
+  onChange: (field: keyof FormData, value: string | number | InstrumentSlotDto[]) => void
 }
 
 export function MusicModalFormFields({
@@ -31,6 +30,25 @@ export function MusicModalFormFields({
   onChange,
 }: MusicModalFormFieldsProps) {
   const { t } = useTranslation()
+  const availableInstruments = INSTRUMENT_REGISTRY.filter(
+    (instrument) => !formData.instrumentSlots.some((slot) => slot.instrument === instrument.id)
+  )
+
+  const addSlot = (instrument: string) => {
+    if (!instrument) return
+    onChange('instrumentSlots', [...formData.instrumentSlots, { instrument, count: 1 }])
+  }
+
+  const updateSlotCount = (instrument: string, count: number) => {
+    onChange('instrumentSlots', formData.instrumentSlots.map((slot) =>
+      slot.instrument === instrument ? { ...slot, count } : slot
+    ))
+  }
+
+  const removeSlot = (instrument: string) => {
+    onChange('instrumentSlots', formData.instrumentSlots.filter((slot) => slot.instrument !== instrument))
+  }
+
   return (
     <>
       {/* Title */}
@@ -141,84 +159,54 @@ export function MusicModalFormFields({
         </label>
       </div>
 
-      {/* Needed Instruments Section */}
+      {/* Instrument Slots Section */}
       <div className="divider my-2">{t('music_form.musicians_needed')}</div>
 
-      <div className="grid grid-cols-2 gap-3">
-        {/* Drums */}
-        <div className="form-control">
-          <label className="label">
-            <span className="label-text text-sm">🥁 {t('music_form.drummers')}</span>
-          </label>
-          <input
-            type="number"
-            min="0"
-            max="5"
-            value={formData.neededDrums}
-            onChange={(e) => onChange('neededDrums', parseInt(e.target.value) || 0)}
-            className="input input-bordered input-sm"
-          />
-        </div>
-
-        {/* Guitars */}
-        <div className="form-control">
-          <label className="label">
-            <span className="label-text text-sm">🎸 {t('music_form.guitarists')}</span>
-          </label>
-          <input
-            type="number"
-            min="0"
-            max="5"
-            value={formData.neededGuitars}
-            onChange={(e) => onChange('neededGuitars', parseInt(e.target.value) || 0)}
-            className="input input-bordered input-sm"
-          />
-        </div>
-
-        {/* Vocals */}
-        <div className="form-control">
-          <label className="label">
-            <span className="label-text text-sm">🎤 {t('music_form.vocalists')}</span>
-          </label>
-          <input
-            type="number"
-            min="0"
-            max="5"
-            value={formData.neededVocals}
-            onChange={(e) => onChange('neededVocals', parseInt(e.target.value) || 0)}
-            className="input input-bordered input-sm"
-          />
-        </div>
-
-        {/* Bass */}
-        <div className="form-control">
-          <label className="label">
-            <span className="label-text text-sm">🎸 {t('music_form.bassists')}</span>
-          </label>
-          <input
-            type="number"
-            min="0"
-            max="5"
-            value={formData.neededBass}
-            onChange={(e) => onChange('neededBass', parseInt(e.target.value) || 0)}
-            className="input input-bordered input-sm"
-          />
-        </div>
-
-        {/* Keys */}
-        <div className="form-control">
-          <label className="label">
-            <span className="label-text text-sm">🎹 {t('music_form.keyboardists')}</span>
-          </label>
-          <input
-            type="number"
-            min="0"
-            max="5"
-            value={formData.neededKeys}
-            onChange={(e) => onChange('neededKeys', parseInt(e.target.value) || 0)}
-            className="input input-bordered input-sm"
-          />
-        </div>
+      <div className="space-y-2">
+        {formData.instrumentSlots.map((slot) => (
+          <div key={slot.instrument} className="flex items-center gap-2">
+            <span className="label-text text-sm flex-1">
+              {getInstrumentDefinition(slot.instrument)?.emoji} {getInstrumentLabel(slot.instrument, t)}
+            </span>
+            <input
+              type="number"
+              min="1"
+              max="5"
+              value={slot.count}
+              onChange={(e) => updateSlotCount(slot.instrument, parseInt(e.target.value) || 0)}
+              className="input input-bordered input-sm w-20"
+              aria-label={getInstrumentLabel(slot.instrument, t)}
+            />
+            <button
+              type="button"
+              onClick={() => removeSlot(slot.instrument)}
+              className="btn btn-ghost btn-sm btn-square"
+              title={t('music_form.remove_instrument')}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+
+        {formData.instrumentSlots.length === 0 && (
+          <p className="text-xs text-base-content/60">{t('music_form.no_instruments')}</p>
+        )}
+
+        {availableInstruments.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => addSlot(e.target.value)}
+            className="select select-bordered select-sm w-full"
+            aria-label={t('music_form.add_instrument')}
+          >
+            <option value="">+ {t('music_form.add_instrument')}</option>
+            {availableInstruments.map((instrument) => (
+              <option key={instrument.id} value={instrument.id}>
+                {instrument.emoji} {getInstrumentLabel(instrument.id, t)}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
     </>
   )
@@ -5,6 +5,8 @@
 
 import type {MusicResponseDto} from '../types/api.types'
 import {useTranslation} from 'react-i18next'
+import {getInstrumentDefinition, getInstrumentLabel} from '../lib/instruments'
+import {getMusicSlots} from '../utils/instrumentSlots'
 
 interface MusicTableRowProps {
   music: MusicResponseDto
@@ -83,26 +85,16 @@ interface MusiciansBadgesProps {
 
 export function MusiciansBadges({ music }: MusiciansBadgesProps) {
   const { t } = useTranslation()
-  const instrumentCounts = [
-    { count: music.neededDrums || 0, emoji: '🥁', label: t('schedule.instruments.drums') },
-    { count: music.neededGuitars || 0, emoji: '🎸', label: t('schedule.instruments.guitars') },
-    { count: music.neededVocals || 0, emoji: '🎤', label: t('schedule.instruments.vocals') },
-    { count: music.neededBass || 0, emoji: '🎸', label: t('schedule.instruments.bass') },
-    { count: music.neededKeys || 0, emoji: '🎹', label: t('schedule.instruments.keys') },
-  ]
-
-  const hasInstruments = instrumentCounts.some((inst) => inst.count > 0)
+  const slots = getMusicSlots(music)
 
   return (
     <div className="flex flex-wrap gap-1">
-      {instrumentCounts.map((inst) =>
-        inst.count > 0 ? (
-          <span key={inst.label} className="badge badge-sm">
-            {inst.emoji} {inst.count}
-          </span>
-        ) : null
-      )}
-      {!hasInstruments && <span className="text-xs text-base-content/50">{t('common.none')}</span>}
+      {slots.map((slot) => (
+        <span key={slot.instrument} className="badge badge-sm" title={getInstrumentLabel(slot.instrument, t)}>
+          {getInstrumentDefinition(slot.instrument)?.emoji ?? '🎵'} {slot.count}
+        </span>
+      ))}
+      {slots.length === 0 && <span className="text-xs text-base-content/50">{t('common.none')}</span>}
     </div>
   )
 }
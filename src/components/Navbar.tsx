@@ -63,6 +63,9 @@ function Navbar() {
             {!isViewer() && (
               <li><a href="/music">{t('nav.music_library')}</a></li>
             )}
+            {isAuthenticated && (
+              <li><a href="/my-jam">{t('nav.my_jam')}</a></li>
+            )}
             {user?.isHost && (
               <>
                 <li><a href="/host/dashboard">{t('nav.host_dashboard')}</a></li>
@@ -99,6 +102,9 @@ function Navbar() {
           {!isViewer() && (
             <li><a href="/music">{t('nav.music')}</a></li>
           )}
+          {isAuthenticated && (
+            <li><a href="/my-jam">{t('nav.my_jam')}</a></li>
+          )}
           {user?.isHost && (
             <li><a href="/host/dashboard">{t('nav.host_dashboard')}</a></li>
           )}
@@ -132,6 +138,7 @@ function Navbar() {
                   <span className="text-xs sm:text-sm">{user.name || t('auth.complete_profile')}</span>
                 </li>
                 <li><a href="/profile">{t('nav.my_profile')}</a></li>
+                <li><a href="/my-jam">{t('nav.my_jam')}</a></li>
                 {user?.isHost && (
                   <>
                     <li><a href="/host/dashboard">{t('nav.dashboard')}</a></li>
@@ -0,0 +1,118 @@
+/**
+ * Offline Queue Panel Component
+ * Shows host actions waiting to sync and lets the host retry, discard or resolve failed ones
+ */
+
+import {useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import {useOfflineQueue} from '../hooks'
+import type {QueuedAction} from '../services'
+import {ScheduleConflictDialog} from './schedule/ScheduleConflictDialog'
+
+const EVENT_LABEL_KEYS: Record<string, string> = {
+  'schedule:update-status': 'offline_queue.events.schedule_status',
+  'schedule:reorder': 'offline_queue.events.schedule_reorder',
+  'registration:approve': 'offline_queue.events.registration_approve',
+  'registration:reject': 'offline_queue.events.registration_reject',
+}
+
+export function OfflineQueuePanel() {
+  const { t } = useTranslation()
+  const { queue, failedActions, isOfflineMode, isFlushing, flush, retryAction, resolveConflict, removeAction } =
+    useOfflineQueue()
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+  const resolvingAction = queue.find((a) => a.id === resolvingId && a.conflict)
+
+  const pendingCount = queue.length - failedActions.length
+  if (queue.length === 0) return null
+
+  const getEventLabel = (action: QueuedAction) =>
+    EVENT_LABEL_KEYS[action.event] ? t(EVENT_LABEL_KEYS[action.event]) : action.event
+
+  return (
+    <div className="card bg-base-200 border border-warning/40 mb-4">
+      <div className="card-body p-3 sm:p-4 gap-3">
+        {/* Pending summary */}
+        {pendingCount > 0 && (
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div className="flex items-center gap-2 text-sm">
+              {isFlushing ? <span className="loading loading-spinner loading-xs"></span> : <span>⏳</span>}
+              <span>
+                {isOfflineMode
+                  ? t('offline_queue.pending_offline', { count: pendingCount })
+                  : t('offline_queue.pending', { count: pendingCount })}
+              </span>
+            </div>
+            {!isOfflineMode && (
+              <button className="btn btn-xs btn-ghost" onClick={() => void flush()} disabled={isFlushing}>
+                {t('offline_queue.sync_now')}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Failed actions */}
+        {failedActions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold text-sm text-error">
+              ⚠️ {t('offline_queue.failed_title', { count: failedActions.length })}
+            </h3>
+            <ul className="space-y-2">
+              {failedActions.map((action) => (
+                <li
+                  key={action.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-base-100 rounded-lg p-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{getEventLabel(action)}</p>
+                    <p className="text-xs text-base-content/60">
+                      {new Date(action.timestamp).toLocaleTimeString()}
+                      {action.lastError && <span className="text-error"> · {action.lastError}</span>}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {action.conflict ? (
+                      <button
+                        className="btn btn-xs btn-warning"
+                        onClick={() => setResolvingId(action.id)}
+                        disabled={isFlushing || isOfflineMode}
+                      >
+                        {t('offline_queue.resolve')}
+                      </button>
+                    ) : (
+                      <button
+                        className="btn btn-xs btn-primary"
+                        onClick={() => void retryAction(action.id)}
+                        disabled={isFlushing || isOfflineMode}
+                      >
+                        {t('offline_queue.retry')}
+                      </button>
+                    )}
+                    <button className="btn btn-xs btn-ghost" onClick={() => removeAction(action.id)}>
+                      {t('offline_queue.discard')}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {resolvingAction && (
+        <ScheduleConflictDialog
+          action={resolvingAction}
+          onResolve={(payload) => {
+            setResolvingId(null)
+            void resolveConflict(resolvingAction.id, payload)
+          }}
+          onDiscard={() => {
+            setResolvingId(null)
+            removeAction(resolvingAction.id)
+          }}
+          onClose={() => setResolvingId(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,12 @@
 /**
  * Onboarding Modal Component
- * Shows after first social login to collect instrument & genre preferences
+ * Shows after first social login to collect instruments & genre preferences
  */
 
 import {useState} from 'react'
 import {useAuth} from '../hooks'
-import {INSTRUMENTS} from '../lib/instruments'
+import {InstrumentListEditor} from './InstrumentListEditor'
+import {getMusicianInstruments} from '../utils/musicianInstruments'
 import {GENRES} from '../lib/musicConstants'
 import {useTranslation} from 'react-i18next'
 
@@ -19,7 +20,7 @@ export function OnboardingModal({ isOpen, onClose }: OnboardingModalProps) {
   const { user, completeOnboarding, clearNewUserFlag } = useAuth()
   const [name, setName] = useState(user?.name || '')
   const [phone, setPhone] = useState(user?.phone || '')
-  const [instrument, setInstrument] = useState('')
+  const [instruments, setInstruments] = useState(() => getMusicianInstruments(user))
   const [genre, setGenre] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -55,8 +56,8 @@ export function OnboardingModal({ isOpen, onClose }: OnboardingModalProps) {
       return
     }
 
-    // At least instrument or genre should be provided
-    if (!instrument && !genre) {
+    // At least an instrument or genre should be provided
+    if (instruments.length === 0 && !genre) {
       setError(t('jams.onboarding.instrument_genre_error'))
       return
     }
@@ -65,7 +66,7 @@ export function OnboardingModal({ isOpen, onClose }: OnboardingModalProps) {
 
     try {
       // Update profile with name and phone first
-      const result = await completeOnboarding(instrument, genre, { name: name.trim(), phone })
+      const result = await completeOnboarding(instruments, genre, { name: name.trim(), phone })
 
       if (result.success) {
         onClose()
@@ -130,24 +131,12 @@ export function OnboardingModal({ isOpen, onClose }: OnboardingModalProps) {
             />
           </div>
 
-          {/* Instrument Selection */}
+          {/* Instruments */}
           <div className="form-control">
             <label className="label">
-              <span className="label-text font-semibold">{t('jams.onboarding.instrument_q')}</span>
+              <span className="label-text font-semibold">{t('jams.onboarding.instruments_q')}</span>
             </label>
-            <select
-              className="select select-bordered w-full"
-              value={instrument}
-              onChange={(e) => setInstrument(e.target.value)}
-              disabled={isLoading}
-            >
-              <option value="">{t('jams.onboarding.instrument_choose')}</option>
-              {INSTRUMENTS.map((inst) => (
-                <option key={inst} value={inst}>
-                  {inst}
-                </option>
-              ))}
-            </select>
+            <InstrumentListEditor instruments={instruments} onChange={setInstruments} disabled={isLoading} />
           </div>
 
           {/* Genre Selection */}
@@ -193,7 +182,7 @@ export function OnboardingModal({ isOpen, onClose }: OnboardingModalProps) {
             <button
               type="submit"
               className={`btn btn-primary ${isLoading ? 'loading' : ''}`}
-              disabled={isLoading || !name.trim() || (!instrument && !genre)}
+              disabled={isLoading || !name.trim() || (instruments.length === 0 && !genre)}
             >
               {isLoading ? t('musician_form.saving') : t('jams.onboarding.get_started')}
             </button>
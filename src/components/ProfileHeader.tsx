@@ -3,14 +3,18 @@
  * Beautiful header displaying user avatar, name, role, and member info
  */
 
+import {useTranslation} from 'react-i18next'
 import type {AuthUser} from '../types/auth.types'
 import {getRoleLabel} from '../lib/auth'
+import {getInstrumentDefinition, getInstrumentLabel} from '../lib/instruments'
 
 interface ProfileHeaderProps {
   user: AuthUser
 }
 
 export function ProfileHeader({ user }: ProfileHeaderProps) {
+  const { t } = useTranslation()
+
   // Get role-based colors
   const getRoleBgColor = () => {
     switch (user.role) {
@@ -72,7 +76,7 @@ export function ProfileHeader({ user }: ProfileHeaderProps) {
         {/* Additional Info Line */}
         {user.instrument && (
           <p className="text-sm opacity-90">
-            🎸 {user.instrument}
+            {getInstrumentDefinition(user.instrument)?.emoji ?? '🎸'} {getInstrumentLabel(user.instrument, t)}
             {user.level && ` • ${user.level}`}
           </p>
         )}
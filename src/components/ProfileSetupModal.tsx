@@ -1,12 +1,14 @@
 /**
  * Profile Setup Modal Component
- * Shows after first login to collect profile information: name, instrument, level, and optional contact
+ * Shows after first login to collect profile information: name, instruments (each with a level), and optional contact
  * This replaces/extends the OnboardingModal to include name field
  */
 
 import {useState} from 'react'
 import {useAuth} from '../hooks'
-import {INSTRUMENTS} from '../lib/instruments'
+import {InstrumentListEditor} from './InstrumentListEditor'
+import {getMusicianInstruments, toLegacyMusicianFields} from '../utils/musicianInstruments'
+import type {UpdateProfileDto} from '../types/auth.types'
 import {useTranslation} from 'react-i18next'
 
 interface ProfileSetupModalProps {
@@ -18,19 +20,11 @@ export function ProfileSetupModal({ isOpen, onClose }: ProfileSetupModalProps) {
   const { t } = useTranslation()
   const { user, updateProfile, clearNewUserFlag } = useAuth()
   const [name, setName] = useState(user?.name || '')
-  const [instrument, setInstrument] = useState('')
-  const [level, setLevel] = useState<'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED' | 'PROFESSIONAL' | ''>('')
+  const [instruments, setInstruments] = useState(() => getMusicianInstruments(user))
   const [contact, setContact] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const levels: Array<'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED' | 'PROFESSIONAL'> = [
-    'BEGINNER',
-    'INTERMEDIATE',
-    'ADVANCED',
-    'PROFESSIONAL',
-  ]
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
@@ -41,21 +35,19 @@ export function ProfileSetupModal({ isOpen, onClose }: ProfileSetupModalProps) {
       return
     }
 
-    // At least instrument or level should be provided
-    if (!instrument && !level) {
-      setError(t('jams.profile_setup.instrument_level_error'))
+    // At least one instrument should be provided
+    if (instruments.length === 0) {
+      setError(t('jams.profile_setup.instruments_error'))
       return
     }
 
     setIsLoading(true)
 
     try {
-      const updates: Record<string, string> = { name: name.trim() }
-      if (instrument) updates.instrument = instrument
-      if (level) updates.level = level
+      const updates: UpdateProfileDto = { name: name.trim(), instruments, ...toLegacyMusicianFields(instruments) }
       if (contact) updates.contact = contact
 
-      const result = await updateProfile(updates as Parameters<typeof updateProfile>[0])
+      const result = await updateProfile(updates)
 
       if (result.success) {
         clearNewUserFlag()
@@ -106,44 +98,12 @@ export function ProfileSetupModal({ isOpen, onClose }: ProfileSetupModalProps) {
             />
           </div>
 
-          {/* Instrument Selection */}
-          <div className="form-control">
-            <label className="label">
-              <span className="label-text font-semibold">{t('jams.profile_setup.instrument_label')}</span>
-            </label>
-            <select
-              className="select select-bordered w-full"
-              value={instrument}
-              onChange={(e) => setInstrument(e.target.value)}
-              disabled={isLoading}
-            >
-              <option value="">{t('jams.profile_setup.instrument_choose')}</option>
-              {INSTRUMENTS.map((inst) => (
-                <option key={inst} value={inst}>
-                  {inst}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          {/* Level Selection */}
+          {/* Instruments, each with its level */}
           <div className="form-control">
             <label className="label">
-              <span className="label-text font-semibold">{t('jams.profile_setup.level_label')}</span>
+              <span className="label-text font-semibold">{t('jams.profile_setup.instruments_label')}</span>
             </label>
-            <select
-              className="select select-bordered w-full"
-              value={level}
-              onChange={(e) => setLevel(e.target.value as typeof level)}
-              disabled={isLoading}
-            >
-              <option value="">{t('jams.profile_setup.level_choose')}</option>
-              {levels.map((lv) => (
-                <option key={lv} value={lv}>
-                  {t(`schedule.levels.${lv.toLowerCase()}`)}
-                </option>
-              ))}
-            </select>
+            <InstrumentListEditor instruments={instruments} onChange={setInstruments} disabled={isLoading} />
           </div>
 
           {/* Contact Field - Optional */}
@@ -0,0 +1,83 @@
+/**
+ * Sortable List Components
+ * Drag handle and a vertical sortable list built on useSortableList
+ * (mouse, touch and keyboard reordering with optimistic save and rollback)
+ */
+
+import type {ReactNode} from 'react'
+import {GripVertical} from 'lucide-react'
+import {useTranslation} from 'react-i18next'
+import {type SortableHandleProps, useSortableList, type UseSortableListOptions} from '../hooks/useSortableList'
+
+interface DragHandleProps extends SortableHandleProps {
+  label: string
+  className?: string
+}
+
+export function DragHandle({ label, className = '', ...handleProps }: DragHandleProps) {
+  const { t } = useTranslation()
+  return (
+    <span
+      {...handleProps}
+      aria-label={t('sortable.handle_label', { item: label })}
+      title={t('sortable.handle_hint')}
+      className={`inline-flex items-center justify-center p-1 rounded cursor-grab active:cursor-grabbing text-base-content/40 hover:text-base-content focus:outline-none focus-visible:ring-2 focus-visible:ring-primary select-none aria-pressed:text-primary aria-pressed:bg-primary/10 ${className}`}
+    >
+      <GripVertical className="w-5 h-5" />
+    </span>
+  )
+}
+
+/**
+ * Visually hidden live region for sortable announcements
+ */
+export function SortableAnnouncer({ message }: { message: string }) {
+  return (
+    <p className="sr-only" aria-live="assertive" role="status">
+      {message}
+    </p>
+  )
+}
+
+export interface SortableItemContext {
+  index: number
+  isDragging: boolean
+  handle: ReactNode
+  move: (from: number, to: number) => void
+}
+
+interface SortableListProps<T> extends UseSortableListOptions<T> {
+  renderItem: (item: T, context: SortableItemContext) => ReactNode
+  className?: string
+}
+
+export function SortableList<T>({ renderItem, className = 'space-y-2', ...options }: SortableListProps<T>) {
+  const sortable = useSortableList(options)
+  const { getId, getLabel } = options
+
+  return (
+    <>
+      <div className={className}>
+        {sortable.items.map((item, index) => {
+          const id = getId(item)
+          const isDragging = sortable.activeId === id
+          return (
+            <div
+              key={id}
+              ref={sortable.getItemRef(id)}
+              className={`transition-shadow ${isDragging ? 'relative z-10 shadow-xl ring-2 ring-primary rounded-box' : ''} ${sortable.isSaving ? 'opacity-80' : ''}`}
+            >
+              {renderItem(item, {
+                index,
+                isDragging,
+                move: sortable.move,
+                handle: <DragHandle {...sortable.getHandleProps(id)} label={getLabel ? getLabel(item) : String(index + 1)} />,
+              })}
+            </div>
+          )
+        })}
+      </div>
+      <SortableAnnouncer message={sortable.announcement} />
+    </>
+  )
+}
@@ -0,0 +1,40 @@
+/**
+ * Bar Chart Component
+ * Horizontal bars with labels, rendered with plain CSS
+ */
+
+import type {CountItem} from '../../utils/jamAnalytics'
+
+interface BarChartProps {
+  items: CountItem[]
+  emptyLabel: string
+  colorClass?: string
+  formatLabel?: (label: string) => string
+}
+
+export function BarChart({ items, emptyLabel, colorClass = 'bg-primary', formatLabel }: BarChartProps) {
+  if (items.length === 0) {
+    return <p className="text-sm text-base-content/60">{emptyLabel}</p>
+  }
+
+  const max = Math.max(...items.map((item) => item.value))
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.label} className="grid grid-cols-[minmax(0,8rem)_1fr_2rem] sm:grid-cols-[minmax(0,12rem)_1fr_2.5rem] items-center gap-2 text-sm">
+          <span className="truncate" title={item.label}>
+            {formatLabel ? formatLabel(item.label) : item.label}
+          </span>
+          <div className="h-3 rounded-full bg-base-300 overflow-hidden">
+            <div
+              className={`h-full rounded-full ${colorClass}`}
+              style={{ width: `${max > 0 ? (item.value / max) * 100 : 0}%` }}
+            />
+          </div>
+          <span className="text-right font-semibold">{item.value}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,75 @@
+/**
+ * Participation Chart Component
+ * Column chart (SVG) of musicians on stage per played song, in play order
+ */
+
+import type {ParticipationPoint} from '../../utils/jamAnalytics'
+
+interface ParticipationChartProps {
+  points: ParticipationPoint[]
+  emptyLabel: string
+}
+
+const CHART_HEIGHT = 120
+const COLUMN_WIDTH = 24
+const COLUMN_GAP = 8
+
+export function ParticipationChart({ points, emptyLabel }: ParticipationChartProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-base-content/60">{emptyLabel}</p>
+  }
+
+  const max = Math.max(1, ...points.map((point) => point.musicians))
+  const width = points.length * (COLUMN_WIDTH + COLUMN_GAP)
+
+  const formatStart = (point: ParticipationPoint, index: number) =>
+    point.startedAt
+      ? new Date(point.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : `#${index + 1}`
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={width}
+        height={CHART_HEIGHT + 36}
+        viewBox={`0 0 ${width} ${CHART_HEIGHT + 36}`}
+        className="text-primary"
+        role="img"
+      >
+        {points.map((point, index) => {
+          const height = (point.musicians / max) * CHART_HEIGHT
+          const x = index * (COLUMN_WIDTH + COLUMN_GAP)
+          return (
+            <g key={point.scheduleId}>
+              <title>{`${point.title} - ${point.musicians}`}</title>
+              <rect
+                x={x}
+                y={CHART_HEIGHT - height + 14}
+                width={COLUMN_WIDTH}
+                height={height}
+                rx={4}
+                fill="currentColor"
+              />
+              <text
+                x={x + COLUMN_WIDTH / 2}
+                y={CHART_HEIGHT - height + 10}
+                textAnchor="middle"
+                className="fill-base-content text-[10px] font-semibold"
+              >
+                {point.musicians}
+              </text>
+              <text
+                x={x + COLUMN_WIDTH / 2}
+                y={CHART_HEIGHT + 30}
+                textAnchor="middle"
+                className="fill-base-content/60 text-[9px]"
+              >
+                {formatStart(point, index)}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
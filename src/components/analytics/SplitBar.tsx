@@ -0,0 +1,48 @@
+/**
+ * Split Bar Component
+ * Single stacked bar showing how a total splits into parts, with a legend
+ */
+
+interface SplitBarSegment {
+  label: string
+  value: number
+  colorClass: string
+}
+
+interface SplitBarProps {
+  segments: SplitBarSegment[]
+}
+
+export function SplitBar({ segments }: SplitBarProps) {
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-4 rounded-full bg-base-300 overflow-hidden">
+        {total > 0 &&
+          segments
+            .filter((segment) => segment.value > 0)
+            .map((segment) => (
+              <div
+                key={segment.label}
+                className={segment.colorClass}
+                style={{ width: `${(segment.value / total) * 100}%` }}
+                title={`${segment.label}: ${segment.value}`}
+              />
+            ))}
+      </div>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+        {segments.map((segment) => (
+          <li key={segment.label} className="flex items-center gap-1.5">
+            <span className={`inline-block w-3 h-3 rounded-sm ${segment.colorClass}`} />
+            <span>{segment.label}</span>
+            <span className="font-semibold">{segment.value}</span>
+            {total > 0 && (
+              <span className="text-base-content/60">({Math.round((segment.value / total) * 100)}%)</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { BarChart } from './BarChart'
+export { SplitBar } from './SplitBar'
+export { ParticipationChart } from './ParticipationChart'
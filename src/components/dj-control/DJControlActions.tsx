@@ -6,7 +6,7 @@
 import {useEffect, useState} from 'react'
 import {useNavigate} from 'react-router-dom'
 import type {ScheduleResponseDto} from '../../types/api.types'
-import {scheduleService} from '../../services'
+import {useQueueTransitions} from '../../hooks/useQueueTransitions'
 import {useTranslation} from 'react-i18next'
 
 interface DJControlActionsProps {
@@ -16,6 +16,7 @@ interface DJControlActionsProps {
   loading: boolean
   onAutoRefreshChange?: (interval: number) => void
   autoRefreshInterval?: number
+  onActionError?: (error: string) => void
 }
 
 export function DJControlActions({
@@ -25,11 +26,11 @@ export function DJControlActions({
   loading,
   onAutoRefreshChange,
   autoRefreshInterval = 0,
+  onActionError,
 }: DJControlActionsProps) {
   const { t } = useTranslation()
   const navigate = useNavigate()
   const [localAutoRefreshInterval, setLocalAutoRefreshInterval] = useState(autoRefreshInterval)
-  const [actionLoading, setActionLoading] = useState(false)
 
   // Auto-refresh setup
   useEffect(() => {
@@ -42,51 +43,13 @@ export function DJControlActions({
     return () => clearInterval(interval)
   }, [localAutoRefreshInterval, onReload])
 
-  const handleAutoPlayNext = async () => {
-    setActionLoading(true)
-    try {
-      // Get current song
-      const current = schedules.find(s => s.status === 'IN_PROGRESS')
-      const next = schedules.find(
-        s => s.status === 'SCHEDULED' && (!current || s.order > current.order)
-      )
-
-      if (!current || !next) {
-        // Error is handled by parent component
-        return
-      }
-
-      // Complete current and start next
-      await scheduleService.update(current.id, { status: 'COMPLETED' })
-      await scheduleService.update(next.id, { status: 'IN_PROGRESS' })
-      onReload()
-    } finally {
-      setActionLoading(false)
-    }
-  }
+  // Previous/Next go through the live control endpoint as one locked operation
+  const transitions = useQueueTransitions({ jamId, schedules, onSettled: onReload })
 
-  const handleAutoPlayPrevious = async () => {
-    setActionLoading(true)
-    try {
-      // Get current song
-      const current = schedules.find(s => s.status === 'IN_PROGRESS')
-      // Get previous completed song (most recent one)
-      const previous = [...schedules]
-        .reverse()
-        .find(s => s.status === 'COMPLETED' && (!current || s.order < current.order))
-
-      if (!current || !previous) {
-        // Error is handled by parent component
-        return
-      }
-
-      // Mark current as scheduled again and start previous
-      await scheduleService.update(current.id, { status: 'SCHEDULED' })
-      await scheduleService.update(previous.id, { status: 'IN_PROGRESS' })
-      onReload()
-    } finally {
-      setActionLoading(false)
-    }
+  const runTransition = (operation: () => Promise<unknown>) => {
+    operation().catch((err) => {
+      onActionError?.(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))
+    })
   }
 
   const handleRefreshIntervalChange = (value: number) => {
@@ -104,26 +67,42 @@ export function DJControlActions({
           onClick={() => onReload()}
           className="btn btn-ghost btn-xs sm:btn-sm w-full"
           title="Refresh data"
-          disabled={loading || actionLoading}
+          disabled={loading || transitions.isBusy}
         >
           🔄 {loading ? 'Updating...' : 'Refresh'}
         </button>
 
+        {/* Inconsistent queue (e.g. two songs IN_PROGRESS after a failed change) */}
+        {transitions.issues.length > 0 && (
+          <div role="alert" className="alert alert-error flex-col items-start gap-2 p-3 text-xs sm:text-sm">
+            <span>
+              {t('queue_transitions.multiple_in_progress', { count: transitions.issues[0].scheduleIds.length })}
+            </span>
+            <button
+              onClick={() => runTransition(transitions.repair)}
+              className="btn btn-error btn-xs"
+              disabled={transitions.isBusy}
+            >
+              🛠️ {t('queue_transitions.repair')}
+            </button>
+          </div>
+        )}
+
         {/* Previous and Next buttons side by side */}
         <div className="flex gap-2">
           <button
-            onClick={handleAutoPlayPrevious}
+            onClick={() => runTransition(transitions.rewind)}
             className="btn btn-warning btn-xs sm:btn-sm flex-1 whitespace-nowrap"
-            disabled={loading || actionLoading || !schedules.some(s => s.status === 'IN_PROGRESS') || !schedules.some(s => s.status === 'COMPLETED')}
+            disabled={loading || !transitions.canRewind}
             title="Go back to previous song"
           >
             <span className="hidden sm:inline">⏮️ Previous</span>
             <span className="sm:hidden">⏮️</span>
           </button>
           <button
-            onClick={handleAutoPlayNext}
+            onClick={() => runTransition(transitions.advance)}
             className="btn btn-primary btn-xs sm:btn-sm flex-1 whitespace-nowrap"
-            disabled={loading || actionLoading || !schedules.some(s => s.status === 'IN_PROGRESS')}
+            disabled={loading || !transitions.canAdvance}
             title="Skip to next song"
           >
             <span className="hidden sm:inline">⏭️ Next</span>
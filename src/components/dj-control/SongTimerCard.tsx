@@ -0,0 +1,87 @@
+/**
+ * Song Timer Card Component
+ * Elapsed / remaining time of the song on stage, with the host's overrun warning
+ */
+
+import {useTranslation} from 'react-i18next'
+import type {ScheduleResponseDto} from '../../types/api.types'
+import {useOverrunWarningSetting, useSongTimer} from '../../hooks/useSongTimer'
+import {formatDuration} from '../../lib/formatters'
+import {getSongStartedAt} from '../../lib/songStartTimes'
+import {isOverrunWarning, OVERRUN_WARNING_OPTIONS} from '../../utils/songTimer'
+
+interface SongTimerCardProps {
+  // Song currently IN_PROGRESS, if any
+  schedule?: ScheduleResponseDto
+}
+
+export function SongTimerCard({ schedule }: SongTimerCardProps) {
+  const { t } = useTranslation()
+  const { progress } = useSongTimer(getSongStartedAt(schedule?.id, schedule?.startedAt), schedule?.music?.duration)
+  const [threshold, setThreshold] = useOverrunWarningSetting()
+  const warning = isOverrunWarning(progress, threshold)
+
+  return (
+    <div className={`card shadow ${warning ? 'bg-error/20 border border-error' : 'bg-base-200'}`}>
+      <div className="card-body p-3 sm:p-6 space-y-3">
+        <h3 className="font-bold text-base sm:text-lg">⏱️ {t('song_timer.title')}</h3>
+
+        {!schedule ? (
+          <p className="text-sm text-base-content/70">{t('song_timer.nothing_playing')}</p>
+        ) : !progress ? (
+          <p className="text-sm text-base-content/70">{t('song_timer.no_start_time')}</p>
+        ) : (
+          <>
+            <div className="flex items-end justify-between gap-2 tabular-nums">
+              <div>
+                <p className="text-xs text-base-content/60">{t('song_timer.elapsed')}</p>
+                <p className="text-2xl font-bold">{formatDuration(progress.elapsedSeconds)}</p>
+              </div>
+              {progress.remainingSeconds !== null && (
+                <div className="text-right">
+                  <p className="text-xs text-base-content/60">
+                    {progress.overrunSeconds > 0 ? t('song_timer.over') : t('song_timer.left')}
+                  </p>
+                  <p className={`text-2xl font-bold ${progress.overrunSeconds > 0 ? 'text-error' : ''}`}>
+                    {progress.overrunSeconds > 0
+                      ? `+${formatDuration(progress.overrunSeconds)}`
+                      : formatDuration(progress.remainingSeconds)}
+                  </p>
+                </div>
+              )}
+            </div>
+            {progress.ratio !== null && (
+              <progress
+                className={`progress w-full ${warning ? 'progress-error' : 'progress-primary'}`}
+                value={progress.ratio * 100}
+                max={100}
+              />
+            )}
+            {warning && (
+              <div role="alert" className="alert alert-error py-2 text-sm">
+                {t('song_timer.overrun_warning', { time: formatDuration(progress.overrunSeconds) })}
+              </div>
+            )}
+          </>
+        )}
+
+        <label className="label p-0">
+          <span className="label-text text-xs sm:text-sm">{t('song_timer.warn_after')}</span>
+        </label>
+        <select
+          value={threshold === null ? 'off' : threshold}
+          onChange={(e) => setThreshold(OVERRUN_WARNING_OPTIONS.find((option) => String(option ?? 'off') === e.target.value) ?? null)}
+          className="select select-xs sm:select-sm select-bordered w-full"
+        >
+          {OVERRUN_WARNING_OPTIONS.map((option) => (
+            <option key={option ?? 'off'} value={option ?? 'off'}>
+              {option === null
+                ? t('song_timer.warning_off')
+                : t('song_timer.warning_after_seconds', { seconds: option })}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
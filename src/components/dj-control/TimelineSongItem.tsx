@@ -4,13 +4,19 @@
  */
 
 import {useState} from 'react'
+import {useTranslation} from 'react-i18next'
 import type {ScheduleResponseDto} from '../../types/api.types'
+import {useScheduleTransitions} from '../../hooks/useScheduleTransitions'
+import {getInstrumentLabel} from '../../lib/instruments'
+import {getInstrumentEmoji} from '../../utils/instrumentEmojis'
 
 interface TimelineSongItemProps {
   schedule: ScheduleResponseDto
   status: 'completed' | 'current' | 'upcoming' | 'suggested'
   onRemove: () => void
   onApprove?: () => void
+  // Estimated wall-clock start (ms), for upcoming songs
+  estimatedStart?: number
   loading: boolean
 }
 
@@ -19,9 +25,12 @@ export function TimelineSongItem({
   status,
   onRemove,
   onApprove,
+  estimatedStart,
   loading,
 }: TimelineSongItemProps) {
+  const { t } = useTranslation()
   const [showMusicians, setShowMusicians] = useState(false)
+  const transitions = useScheduleTransitions()
   const song = schedule.music
   const musicianCount = schedule.registrations?.length || 0
   const duration = song?.duration ? formatDuration(song.duration) : '--:--'
@@ -43,6 +52,14 @@ export function TimelineSongItem({
 
           <span className="text-xs text-base-content/60">⏱️ {duration}</span>
 
+          {estimatedStart !== undefined && (
+            <span className="text-xs text-info ml-2" title={t('song_timer.estimated_start_hint')}>
+              🕒 {t('song_timer.estimated_start', {
+                time: new Date(estimatedStart).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+              })}
+            </span>
+          )}
+
           {musicianCount > 0 && (
             <button
               onClick={() => setShowMusicians(true)}
@@ -66,7 +83,7 @@ export function TimelineSongItem({
               ✕ Remove
             </button>
 
-            {status === 'suggested' && onApprove && (
+            {status === 'suggested' && onApprove && transitions.can(schedule.status, 'SCHEDULED') && (
               <button
                 onClick={onApprove}
                 className="btn btn-xs btn-success"
@@ -95,7 +112,7 @@ export function TimelineSongItem({
                     <div>
                       <p className="font-semibold">{reg.musician?.name || 'Unknown'}</p>
                       <p className="text-xs text-base-content/70">
-                        {reg.musician?.instrument || reg.instrument || 'Unknown Instrument'}
+                        {getInstrumentLabel(reg.musician?.instrument || reg.instrument || 'Unknown Instrument', t)}
                       </p>
                     </div>
                   </div>
@@ -128,27 +145,3 @@ function formatDuration(seconds: number): string {
   const secs = Math.floor(seconds % 60)
   return `${mins}:${secs.toString().padStart(2, '0')}`
 }
-
-// Simple emoji mapping for instruments
-function getInstrumentEmoji(instrument: string): string {
-  const map: Record<string, string> = {
-    vocals: '🎤',
-    voice: '🎤',
-    singer: '🎤',
-    guitar: '🎸',
-    bass: '🎸',
-    piano: '🎹',
-    keyboard: '🎹',
-    drums: '🥁',
-    drums2: '🥁',
-    percussion: '🥁',
-    violin: '🎻',
-    strings: '🎻',
-    trumpet: '🎺',
-    saxophone: '🎷',
-    flute: '🪘',
-    harmonica: '🎙️',
-  }
-  return map[instrument?.toLowerCase() || ''] || '🎵'
-}
-
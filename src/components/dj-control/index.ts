@@ -6,4 +6,5 @@
 export { SongQueueTimeline } from './SongQueueTimeline'
 export { TimelineSongItem } from './TimelineSongItem'
 export { QueueStats } from './QueueStats'
+export { SongTimerCard } from './SongTimerCard'
 
@@ -18,18 +18,25 @@ export {
 
 // Phase 4: Components
 export { JamContextDisplay } from './JamContextDisplay'
+export { ConnectionStatus } from './ConnectionStatus'
+export { OfflineQueuePanel } from './OfflineQueuePanel'
 export { JamCard } from './JamCard'
 export { JamCardSkeleton } from './JamCardSkeleton'
 export { PageHeaderSkeleton } from './PageHeaderSkeleton'
 export { ScheduleCardSkeleton } from './ScheduleCardSkeleton'
 export { SidebarSectionSkeleton } from './SidebarSectionSkeleton'
+export { SortableList, DragHandle, SortableAnnouncer, type SortableItemContext } from './SortableList'
 
 // Music Components
 export { MusicTableRow, MusiciansBadges } from './MusicTable'
 export { MusicFilters } from './MusicFilters'
 export { MusicModalFormFields } from './MusicModalFormFields'
+export { MusicImportWizard } from './MusicImportWizard'
 export { MusicEmptyState } from './MusicEmptyState'
 
+// Musician Components
+export { InstrumentListEditor } from './InstrumentListEditor'
+
 // Schedule Components
 export {
   ScheduleCardManagement,
@@ -40,6 +47,9 @@ export {
   NeededMusiciansDisplay,
   ScheduleDisplayItem,
   ScheduleEnrollmentModal,
+  UpSoonPanel,
+  RepertoireMatchesPanel,
+  MusicianReadinessList,
 } from './schedule'
 export { SimpleLoginForm } from './forms/SimpleLoginForm'
 export { SupabaseLoginForm } from './forms/SupabaseLoginForm'
@@ -49,4 +59,7 @@ export { OnboardingModal } from './OnboardingModal'
 export { ProfileSetupModal } from './ProfileSetupModal'
 
 // DJ Control Components
-export { SongQueueTimeline, TimelineSongItem, QueueStats } from './dj-control'
+export { SongQueueTimeline, TimelineSongItem, QueueStats, SongTimerCard } from './dj-control'
+
+// My Jam Components
+export { MyJamSongCard, JamHistoryList, RepertoireManager } from './myJam'
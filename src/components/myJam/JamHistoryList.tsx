@@ -0,0 +1,62 @@
+/**
+ * Jam History List Component
+ * The musician's past jams with the songs they played in each
+ */
+
+import {useTranslation} from 'react-i18next'
+import type {JamHistoryEntry} from '../../utils/myJam'
+import {getInstrumentIcon} from '../schedule/RegistrationList'
+import {getInstrumentLabel} from '../../lib/instruments'
+
+interface JamHistoryListProps {
+  history: JamHistoryEntry[]
+}
+
+export function JamHistoryList({ history }: JamHistoryListProps) {
+  const { t } = useTranslation()
+
+  if (history.length === 0) {
+    return <p className="text-center text-base-content/60 py-8">{t('my_jam.no_history')}</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {history.map((entry) => (
+        <div key={entry.jamId} className="card bg-base-200 shadow">
+          <div className="card-body p-3 sm:p-5">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <a href={`/jams/${entry.jamId}`} className="card-title text-base sm:text-lg link link-hover">
+                {entry.jamName || t('my_jam.unknown_jam')}
+              </a>
+              {entry.date && (
+                <span className="text-xs text-base-content/60">{new Date(entry.date).toLocaleDateString()}</span>
+              )}
+            </div>
+            <ul className="divide-y divide-base-300">
+              {entry.songs.map((song) => (
+                <li key={song.scheduleId} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                  <span className="flex-1 min-w-0 truncate">
+                    <span className="font-semibold">{song.title || t('schedule.song_tba')}</span>
+                    {song.artist && <span className="text-base-content/60"> · {song.artist}</span>}
+                  </span>
+                  {song.instrument && (
+                    <span className="badge badge-ghost gap-1">
+                      {getInstrumentIcon(song.instrument)} {getInstrumentLabel(song.instrument, t)}
+                    </span>
+                  )}
+                  <span className={`badge badge-sm ${song.status === 'COMPLETED' ? 'badge-success' : 'badge-outline'}`}>
+                    {song.status === 'COMPLETED'
+                      ? t('my_jam.played')
+                      : song.status === 'CANCELED'
+                        ? t('my_jam.cancelled')
+                        : t('my_jam.not_played')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
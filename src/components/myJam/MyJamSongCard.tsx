@@ -0,0 +1,114 @@
+/**
+ * My Jam Song Card Component
+ * One of the musician's songs in the active jam: queue position, estimated start,
+ * bandmates, and instrument change / withdraw actions
+ */
+
+import {useTranslation} from 'react-i18next'
+import type {MusicResponseDto} from '../../types/api.types'
+import type {MyJamSong} from '../../utils/myJam'
+import {getInstrumentIcon} from '../schedule/RegistrationList'
+import {getInstrumentKey, getInstrumentLabel} from '../../lib/instruments'
+import {getMusicSlots} from '../../utils/instrumentSlots'
+
+interface MyJamSongCardProps {
+  song: MyJamSong
+  onChangeInstrument: (registrationId: string, instrument: string) => void
+  onWithdraw: (registrationId: string) => void
+  loading: boolean
+}
+
+export function MyJamSongCard({ song, onChangeInstrument, onWithdraw, loading }: MyJamSongCardProps) {
+  const { t } = useTranslation()
+  const { schedule, registration, songsAway, estimatedStart, bandmates } = song
+  const canEdit = schedule.status === 'SCHEDULED'
+
+  // Instruments the song needs, as registry IDs
+  const currentInstrument = getInstrumentKey(registration.instrument)
+  const getInstrumentChoices = (music?: MusicResponseDto): string[] => {
+    const choices = getMusicSlots(music).map((slot) => slot.instrument)
+    return choices.includes(currentInstrument) ? choices : [currentInstrument, ...choices]
+  }
+
+  const getPositionBadge = () => {
+    if (schedule.status === 'COMPLETED') return <span className="badge badge-success">{t('my_jam.played')}</span>
+    if (schedule.status === 'CANCELED') return <span className="badge badge-error">{t('my_jam.cancelled')}</span>
+    if (songsAway === 0) return <span className="badge badge-primary">{t('up_soon.on_stage')}</span>
+    if (songsAway === 1) return <span className="badge badge-warning">{t('up_soon.next')}</span>
+    if (songsAway !== null) return <span className="badge badge-info">{t('up_soon.position_songs_away', { songs: songsAway })}</span>
+    return null
+  }
+
+  return (
+    <div className={`card bg-base-200 shadow ${songsAway === 0 ? 'border-2 border-primary' : ''}`}>
+      <div className="card-body p-3 sm:p-5 space-y-3">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="min-w-0">
+            <h3 className="font-bold text-base sm:text-lg truncate">{schedule.music?.title || t('schedule.song_tba')}</h3>
+            <p className="text-sm text-base-content/70">{schedule.music?.artist || t('schedule.artist_tba')}</p>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            {getPositionBadge()}
+            {estimatedStart !== null && songsAway !== 0 && (
+              <span className="text-xs text-info">
+                🕒 {t('my_jam.estimated_start', {
+                  time: new Date(estimatedStart).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+                })}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Instrument */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-semibold">{t('my_jam.your_instrument')}</span>
+          {canEdit ? (
+            <select
+              value={currentInstrument}
+              onChange={(e) => onChangeInstrument(registration.id, e.target.value)}
+              className="select select-sm select-bordered"
+              disabled={loading}
+              aria-label={t('my_jam.change_instrument')}
+            >
+              {getInstrumentChoices(schedule.music).map((instrument) => (
+                <option key={instrument} value={instrument}>{getInstrumentLabel(instrument, t)}</option>
+              ))}
+            </select>
+          ) : (
+            <span className="badge badge-outline gap-1">
+              {getInstrumentIcon(registration.instrument)} {getInstrumentLabel(registration.instrument, t)}
+            </span>
+          )}
+        </div>
+
+        {/* Bandmates */}
+        <div>
+          <p className="text-xs font-semibold text-base-content/70 mb-1">{t('my_jam.playing_with')}</p>
+          {bandmates.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {bandmates.map((bandmate) => (
+                <span key={bandmate.id} className="badge badge-ghost gap-1">
+                  {getInstrumentIcon(bandmate.instrument)} {bandmate.musician?.name || t('common.unknown')}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-base-content/60">{t('my_jam.no_bandmates')}</p>
+          )}
+        </div>
+
+        {canEdit && (
+          <div className="card-actions justify-end">
+            <button
+              onClick={() => onWithdraw(registration.id)}
+              className="btn btn-xs btn-ghost text-error"
+              disabled={loading}
+            >
+              {t('my_jam.withdraw')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
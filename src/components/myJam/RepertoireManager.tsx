@@ -0,0 +1,90 @@
+/**
+ * Repertoire Manager Component
+ * The musician's repertoire: every song of the catalog with whether they are
+ * ready to play it, can learn it, or don't know it
+ */
+
+import {useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import type {MusicResponseDto, RepertoireEntryResponseDto, RepertoireStatus} from '../../types/api.types'
+import {getRepertoireStatuses} from '../../utils/repertoire'
+
+interface RepertoireManagerProps {
+  songs: MusicResponseDto[]
+  entries: RepertoireEntryResponseDto[]
+  // null removes the song from the repertoire
+  onSetStatus: (musicId: string, status: RepertoireStatus | null) => void
+  loading: boolean
+}
+
+const STATUSES: RepertoireStatus[] = ['READY', 'LEARNING']
+
+export function RepertoireManager({ songs, entries, onSetStatus, loading }: RepertoireManagerProps) {
+  const { t } = useTranslation()
+  const [search, setSearch] = useState('')
+  const [onlyMine, setOnlyMine] = useState(false)
+  const statuses = getRepertoireStatuses(entries)
+
+  const query = search.trim().toLowerCase()
+  const visibleSongs = songs
+    .filter((song) => !onlyMine || statuses.has(song.id))
+    .filter((song) => !query || `${song.title} ${song.artist}`.toLowerCase().includes(query))
+    .sort((a, b) => a.title.localeCompare(b.title))
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-base-content/70">{t('repertoire.subtitle', { songs: entries.length })}</p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('repertoire.search_placeholder')}
+          className="input input-bordered input-sm flex-1 min-w-48"
+        />
+        <label className="label cursor-pointer gap-2">
+          <input
+            type="checkbox"
+            className="toggle toggle-sm toggle-primary"
+            checked={onlyMine}
+            onChange={(e) => setOnlyMine(e.target.checked)}
+          />
+          <span className="label-text text-sm">{t('repertoire.only_mine')}</span>
+        </label>
+      </div>
+
+      {visibleSongs.length === 0 ? (
+        <p className="text-center text-base-content/60 py-8">{t('repertoire.no_songs')}</p>
+      ) : (
+        <ul className="divide-y divide-base-300 bg-base-200 rounded-box">
+          {visibleSongs.map((song) => {
+            const status = statuses.get(song.id)
+            return (
+              <li key={song.id} className="flex flex-wrap items-center gap-2 p-3 text-sm">
+                <span className="flex-1 min-w-0 truncate">
+                  <span className="font-semibold">{song.title}</span>
+                  <span className="text-base-content/60"> · {song.artist}</span>
+                </span>
+                <div className="join" role="group" aria-label={t('repertoire.status_label', { title: song.title })}>
+                  {STATUSES.map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      className={`btn btn-xs join-item ${status === option ? (option === 'READY' ? 'btn-success' : 'btn-info') : 'btn-ghost'}`}
+                      aria-pressed={status === option}
+                      onClick={() => onSetStatus(song.id, status === option ? null : option)}
+                      disabled={loading}
+                    >
+                      {t(`repertoire.status.${option}`)}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
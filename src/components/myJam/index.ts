@@ -0,0 +1,8 @@
+/**
+ * My Jam Components Module
+ * Exports the musician's "My Jam" page components
+ */
+
+export { MyJamSongCard } from './MyJamSongCard'
+export { JamHistoryList } from './JamHistoryList'
+export { RepertoireManager } from './RepertoireManager'
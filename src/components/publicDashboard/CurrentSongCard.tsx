@@ -6,6 +6,9 @@
 import {motion} from 'framer-motion'
 import {useTranslation} from 'react-i18next'
 import {InstrumentGroup} from './InstrumentGroup'
+import {getInstrumentKey} from '../../lib/instruments'
+import {useSongTimer} from '../../hooks/useSongTimer'
+import {getSongStartedAt} from '../../lib/songStartTimes'
 import type {DashboardSongDto} from '../../types/api.types'
 
 interface CurrentSongCardProps {
@@ -14,6 +17,7 @@ interface CurrentSongCardProps {
 
 export function CurrentSongCard({ song }: CurrentSongCardProps) {
   const { t } = useTranslation()
+  const { progress } = useSongTimer(getSongStartedAt(song.id, song.startedAt), song.duration)
 
   const formatDuration = (seconds: number): string => {
     if (!seconds) return '0:00'
@@ -37,8 +41,25 @@ export function CurrentSongCard({ song }: CurrentSongCardProps) {
         <p className="md:text-3xl text-purple-200 mb-2">
           {t('publicDashboard.by', 'by')} {song.artist}
         </p>
-        {song.duration && (
-          <p className="text-lg md:text-xl text-purple-300 mb-8">⏱️ {formatDuration(song.duration)}</p>
+        {progress ? (
+          <div className="mb-8 max-w-xl">
+            <p className="text-lg md:text-xl text-purple-300 mb-2 tabular-nums">
+              ⏱️ {formatDuration(progress.elapsedSeconds)}
+              {progress.durationSeconds !== null && ` / ${formatDuration(progress.durationSeconds)}`}
+              {progress.remainingSeconds !== null && progress.remainingSeconds > 0 && (
+                <span className="ml-3 text-purple-200/70">
+                  {t('song_timer.remaining', { time: formatDuration(progress.remainingSeconds) })}
+                </span>
+              )}
+            </p>
+            {progress.ratio !== null && (
+              <progress className="progress progress-secondary w-full" value={progress.ratio * 100} max={100} />
+            )}
+          </div>
+        ) : (
+          song.duration && (
+            <p className="text-lg md:text-xl text-purple-300 mb-8">⏱️ {formatDuration(song.duration)}</p>
+          )
         )}
 
         {song.musicians && song.musicians.length > 0 ? (
@@ -50,7 +71,7 @@ export function CurrentSongCard({ song }: CurrentSongCardProps) {
               {(() => {
                 // Group musicians by instrument
                 const groupedByInstrument = (song.musicians || []).reduce((acc: Record<string, typeof song.musicians>, musician: any) => {
-                  const instrument = musician.instrument || 'Unknown'
+                  const instrument = getInstrumentKey(musician.instrument) || 'Unknown'
                   if (!acc[instrument]) {
                     acc[instrument] = []
                   }
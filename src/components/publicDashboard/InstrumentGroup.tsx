@@ -6,6 +6,7 @@
 import {motion} from 'framer-motion'
 import {useTranslation} from 'react-i18next'
 import {getInstrumentEmoji} from '../../utils/instrumentEmojis'
+import {getInstrumentLabel} from '../../lib/instruments'
 import type {DashboardMusicianDto} from '../../types/api.types'
 
 interface InstrumentGroupProps {
@@ -33,7 +34,10 @@ export function InstrumentGroup({ instrument, musicians, size = 'md' }: Instrume
       transition={{ duration: 0.3 }}
       className={`bg-slate-700/50 hover:bg-slate-600/50 transition-colors rounded-lg ${classes.container} text-center`}
     >
-      <p className={`mb-${size === 'lg' ? '3' : '2'} ${classes.emoji}`}>
+      <p
+        className={`mb-${size === 'lg' ? '3' : '2'} ${classes.emoji}`}
+        title={getInstrumentLabel(instrument, t)}
+      >
         {getInstrumentEmoji(instrument)}
       </p>
       <div className="space-y-1">
@@ -1,6 +1,7 @@
 import React from 'react'
 import type {RegistrationResponseDto} from '../../types/api.types'
 import {getInstrumentIcon} from '../schedule/RegistrationList'
+import {getInstrumentKey} from '../../lib/instruments'
 import {motion} from 'framer-motion'
 
 interface Props {
@@ -15,7 +16,7 @@ export default function MusiciansGrid({ registrations, t, compact = false }: Pro
   }
 
   const grouped = registrations.reduce((acc: Record<string, RegistrationResponseDto[]>, r) => {
-    const instrument = r.instrument || r.musician?.instrument || 'Unknown'
+    const instrument = getInstrumentKey(r.instrument || r.musician?.instrument) || 'Unknown'
     acc[instrument] = acc[instrument] || []
     acc[instrument].push(r)
     return acc
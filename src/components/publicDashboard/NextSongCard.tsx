@@ -6,6 +6,7 @@
 import {motion} from 'framer-motion'
 import {useTranslation} from 'react-i18next'
 import {InstrumentGroup} from './InstrumentGroup'
+import {getInstrumentKey} from '../../lib/instruments'
 import type {DashboardSongDto} from '../../types/api.types'
 
 interface NextSongCardProps {
@@ -39,7 +40,7 @@ export function NextSongCard({ song }: NextSongCardProps) {
               {(() => {
                 // Group musicians by instrument
                 const groupedByInstrument = (song.musicians || []).reduce((acc: Record<string, typeof song.musicians>, musician: any) => {
-                  const instrument = musician.instrument || 'Unknown'
+                  const instrument = getInstrumentKey(musician.instrument) || 'Unknown'
                   if (!acc[instrument]) {
                     acc[instrument] = []
                   }
@@ -8,6 +8,9 @@ import type {MusicianResponseDto, ScheduleResponseDto} from '../../types/api.typ
 import {registrationService} from '../../services/registrationService'
 import {musicianService} from '../../services/musicianService'
 import {useTranslation} from 'react-i18next'
+import {getInstrumentDefinition, getInstrumentLabel} from '../../lib/instruments'
+import {getMusicianInstruments} from '../../utils/musicianInstruments'
+import {getInstrumentSlots} from '../../utils/waitlist'
 
 interface HostMusicianRegistrationModalProps {
   schedule: ScheduleResponseDto
@@ -58,34 +61,13 @@ export function HostMusicianRegistrationModal({
   }
 
   const getInstrumentOptions = (): InstrumentOption[] => {
-    if (!schedule.music) return []
-
-    const options: InstrumentOption[] = []
-    const instrumentMap = [
-      { key: 'drums', label: t('schedule.instruments.drums'), emoji: '🥁', field: 'neededDrums' as const },
-      { key: 'guitars', label: t('schedule.instruments.guitars'), emoji: '🎸', field: 'neededGuitars' as const },
-      { key: 'vocals', label: t('schedule.instruments.vocals'), emoji: '🎤', field: 'neededVocals' as const },
-      { key: 'bass', label: t('schedule.instruments.bass'), emoji: '🎸', field: 'neededBass' as const },
-      { key: 'keys', label: t('schedule.instruments.keys'), emoji: '🎹', field: 'neededKeys' as const },
-    ]
-
-    instrumentMap.forEach(({ key, label, emoji, field }) => {
-      const needed = schedule.music![field] || 0
-      if (needed > 0) {
-        const registered = schedule.registrations?.filter(
-          (reg) => reg.musician?.instrument === label
-        ).length || 0
-        options.push({
-          key,
-          label,
-          emoji,
-          needed,
-          registered,
-        })
-      }
-    })
-
-    return options
+    return getInstrumentSlots(schedule).map(({ key, needed, registered }) => ({
+      key,
+      label: getInstrumentLabel(key, t),
+      emoji: getInstrumentDefinition(key)?.emoji ?? '🎵',
+      needed,
+      registered,
+    }))
   }
 
   const handleRegister = async () => {
@@ -162,7 +144,7 @@ export function HostMusicianRegistrationModal({
             <option value="">{t('schedule.choose_musician')}</option>
             {musicians.map((musician) => (
               <option key={musician.id} value={musician.id}>
-                {musician.name} ({musician.instrument || t('schedule.unknown')})
+                {musician.name} ({getMusicianInstruments(musician).map((entry) => getInstrumentLabel(entry.instrument, t)).join(', ') || t('schedule.unknown')})
               </option>
             ))}
           </select>
@@ -184,7 +166,7 @@ export function HostMusicianRegistrationModal({
               const remaining = option.needed - option.registered
               const isFull = remaining <= 0
               return (
-                <option key={option.key} value={option.label} disabled={isFull}>
+                <option key={option.key} value={option.key} disabled={isFull}>
                   {option.emoji} {option.label} {isFull ? t('schedule.full_parentheses') : t('schedule.needed_count_parentheses', { count: remaining })}
                 </option>
               )
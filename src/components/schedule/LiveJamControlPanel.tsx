@@ -1,15 +1,26 @@
 /**
  * Live Jam Control Panel Component
  * Host control interface for managing active jam playback
- * Allows play/pause/skip and queue reordering
+ * Allows play/pause/skip/previous, extra time and queue reordering
  */
 
 import {useState} from 'react'
-import {GripVertical, Music, Pause, Play, SkipForward} from 'lucide-react'
-import type {JamResponseDto, RegistrationResponseDto, ScheduleResponseDto} from '../../types/api.types'
+import {Music, Pause, Play, SkipBack, SkipForward, TimerReset} from 'lucide-react'
+import type {
+  JamResponseDto,
+  LiveControlAction,
+  LiveControlActionType,
+  RegistrationResponseDto,
+} from '../../types/api.types'
 import {formatDuration} from '../../lib/formatters'
-import {getToken} from '../../lib/auth'
+import {liveControlService} from '../../services'
+import {applySubsetOrder} from '../../utils/listOrder'
+import {SortableList} from '../SortableList'
 import {getInstrumentIcon} from './RegistrationList'
+import {getInstrumentKey, getInstrumentLabel, getInstrumentOrder} from '../../lib/instruments'
+import {isActiveRegistration} from '../../utils/registrations'
+import {MusicianReadinessList} from './MusicianReadinessList'
+import {useMusicianReadiness} from '../../hooks/useMusicianReadiness'
 import {useTranslation} from 'react-i18next'
 
 interface LiveJamControlPanelProps {
@@ -18,15 +29,11 @@ interface LiveJamControlPanelProps {
   onActionError?: (error: string) => void
 }
 
-interface ControlAction {
-  action: 'play' | 'pause' | 'skip' | 'reorder'
-  payload?: {
-    scheduleIds?: string[]
-  }
-}
+// Extra time added by the "+1 min" button
+const EXTEND_SECONDS = 60
 
 /**
- * Group registrations by instrument
+ * Group registrations by instrument ID (legacy free-text names join their instrument)
  */
 const groupRegistrationsByInstrument = (
   registrations: RegistrationResponseDto[] | undefined
@@ -34,10 +41,10 @@ const groupRegistrationsByInstrument = (
   const grouped = new Map<string, RegistrationResponseDto[]>()
   if (!registrations) return grouped
 
-  registrations.forEach((reg) => {
+  registrations.filter(isActiveRegistration).forEach((reg) => {
     const instrument = reg.instrument || reg.musician?.instrument || ''
     if (instrument) {
-      const normalized = normalizeInstrument(instrument)
+      const normalized = getInstrumentKey(instrument)
       if (!grouped.has(normalized)) {
         grouped.set(normalized, [])
       }
@@ -48,30 +55,6 @@ const groupRegistrationsByInstrument = (
   return grouped
 }
 
-const normalizeInstrument = (instrument: string): string => {
-  const lower = instrument.toLowerCase()
-  if (lower === 'drums' || lower === 'bateria') return 'drums'
-  if (lower === 'guitar' || lower === 'guitars' || lower === 'guitarra') return 'guitars'
-  if (lower === 'bass' || lower === 'baixo') return 'bass'
-  if (lower === 'vocals' || lower === 'vocal' || lower === 'vozes' || lower === 'voz') return 'vocals'
-  if (lower === 'keys' || lower === 'keyboard' || lower === 'teclado') return 'keys'
-  return lower
-}
-
-/**
- * Get the order of instruments for consistent display
- */
-const getInstrumentOrder = (instrument: string): number => {
-  const order: Record<string, number> = {
-    'vocals': 0,
-    'drums': 1,
-    'guitars': 2,
-    'bass': 3,
-    'keys': 4,
-  }
-  return order[instrument] ?? 99
-}
-
 export function LiveJamControlPanel({
   jam,
   onActionSuccess,
@@ -79,47 +62,32 @@ export function LiveJamControlPanel({
 }: LiveJamControlPanelProps) {
   const { t } = useTranslation()
   const [isLoading, setIsLoading] = useState(false)
-  const [localQueue, setLocalQueue] = useState<ScheduleResponseDto[]>(
-    jam.schedules?.filter((s) => s.status === 'SCHEDULED').sort((a, b) => (a.order || 0) - (b.order || 0)) || []
-  )
-  const [draggedItem, setDraggedItem] = useState<string | null>(null)
-
+  const readiness = useMusicianReadiness(jam.id)
   const currentSong = jam.schedules?.find((s) => s.status === 'IN_PROGRESS')
-  const nextThreeSongs = localQueue.slice(0, 3)
+  const setlist = [...(jam.schedules || [])]
+    .filter((s) => s.status !== 'SUGGESTED')
+    .sort((a, b) => (a.order || 0) - (b.order || 0))
+  const queue = setlist.filter((s) => s.status === 'SCHEDULED')
+  const nextThreeSongs = queue.slice(0, 3)
 
   // Send control action to backend
-  const sendControlAction = async (action: ControlAction) => {
+  const sendControlAction = async (action: LiveControlAction) => {
+    if (!currentSong) {
+      onActionError?.(t('errors.no_song_playing'))
+      return
+    }
     setIsLoading(true)
 
     try {
-      const token = getToken()
-
-      if (!token) {
-        throw new Error(t('errors.no_token_found'))
-      }
-
-      const response = await fetch(`/api/jams/${jam.id}/live/control`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(action),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.error || t('errors.action_failed'))
-      }
-
-      const result = await response.json()
+      await liveControlService.send(jam.id, action)
 
       // Success feedback
-      const actionLabels: Record<string, string> = {
+      const actionLabels: Partial<Record<LiveControlActionType, string>> = {
         play: t('live_control.song_playing_feedback'),
         pause: t('live_control.song_paused_feedback'),
         skip: t('live_control.skipped_feedback'),
-        reorder: t('live_control.reordered_feedback'),
+        previous: t('live_control.previous_feedback'),
+        'extend-time': t('live_control.extended_feedback', { minutes: EXTEND_SECONDS / 60 }),
       }
 
       onActionSuccess?.(actionLabels[action.action] || t('errors.generic_error'))
@@ -132,74 +100,11 @@ export function LiveJamControlPanel({
     }
   }
 
-  // Handle play button
-  const handlePlay = () => {
-    if (!currentSong) {
-      onActionError?.(t('errors.no_song_playing'))
-      return
-    }
-    sendControlAction({ action: 'play' })
-  }
-
-  // Handle pause button
-  const handlePause = () => {
-    if (!currentSong) {
-      onActionError?.(t('errors.no_song_playing'))
-      return
-    }
-    sendControlAction({ action: 'pause' })
-  }
-
-  // Handle skip button
-  const handleSkip = () => {
-    if (!currentSong) {
-      onActionError?.(t('errors.no_song_playing'))
-      return
-    }
-    sendControlAction({ action: 'skip' })
-  }
-
-  // Handle drag and drop for reordering
-  const handleDragStart = (scheduleId: string) => {
-    setDraggedItem(scheduleId)
-  }
-
-  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault()
-    e.currentTarget.classList.add('bg-primary/10', 'border-primary')
-  }
-
-  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
-    e.currentTarget.classList.remove('bg-primary/10', 'border-primary')
-  }
-
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>, targetSchedule: ScheduleResponseDto) => {
-    e.preventDefault()
-    e.currentTarget.classList.remove('bg-primary/10', 'border-primary')
-
-    if (!draggedItem) return
-
-    const draggedIndex = localQueue.findIndex((s) => s.id === draggedItem)
-    const targetIndex = localQueue.findIndex((s) => s.id === targetSchedule.id)
-
-    if (draggedIndex === -1 || targetIndex === -1) return
-
-    // Reorder locally
-    const newQueue = [...localQueue]
-    const [draggedSchedule] = newQueue.splice(draggedIndex, 1)
-    newQueue.splice(targetIndex, 0, draggedSchedule)
-
-    // Update local state
-    setLocalQueue(newQueue)
-    setDraggedItem(null)
-
-    // Send reorder action with new schedule IDs
-    sendControlAction({
-      action: 'reorder',
-      payload: {
-        scheduleIds: newQueue.map((s) => s.id),
-      },
-    })
+  // Reorder the next songs; played songs keep their positions in the setlist
+  const handleReorder = async (nextIds: string[]) => {
+    const queueIds = [...nextIds, ...queue.slice(nextIds.length).map((s) => s.id)]
+    await liveControlService.reorder(jam.id, applySubsetOrder(setlist.map((s) => s.id), queueIds))
+    onActionSuccess?.(t('live_control.reordered_feedback'))
   }
 
   return (
@@ -231,7 +136,7 @@ export function LiveJamControlPanel({
                 {Array.from(groupRegistrationsByInstrument(currentSong.registrations).entries())
                   .sort(([a], [b]) => getInstrumentOrder(a) - getInstrumentOrder(b))
                   .map(([instrument, musicians]) => (
-                    <div key={instrument} className="flex items-center gap-1">
+                    <div key={instrument} className="flex items-center gap-1" title={getInstrumentLabel(instrument, t)}>
                       <span className="text-2xl">{getInstrumentIcon(instrument)}</span>
                       {musicians.length > 1 && (
                         <span className="badge badge-sm badge-white text-primary">
@@ -245,9 +150,17 @@ export function LiveJamControlPanel({
           )}
 
           {/* Control Buttons */}
-          <div className="flex gap-3">
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => void sendControlAction({ action: 'previous' })}
+              disabled={isLoading}
+              className="btn btn-sm btn-accent text-accent-content flex-1 gap-2"
+            >
+              <SkipBack className="w-4 h-4" />
+              {t('common.previous')}
+            </button>
             <button
-              onClick={handlePlay}
+              onClick={() => void sendControlAction({ action: 'play' })}
               disabled={isLoading}
               className="btn btn-sm btn-accent text-accent-content flex-1 gap-2"
             >
@@ -255,7 +168,7 @@ export function LiveJamControlPanel({
               {t('common.play')}
             </button>
             <button
-              onClick={handlePause}
+              onClick={() => void sendControlAction({ action: 'pause' })}
               disabled={isLoading}
               className="btn btn-sm btn-accent text-accent-content flex-1 gap-2"
             >
@@ -263,13 +176,21 @@ export function LiveJamControlPanel({
               {t('common.pause')}
             </button>
             <button
-              onClick={handleSkip}
+              onClick={() => void sendControlAction({ action: 'skip' })}
               disabled={isLoading}
               className="btn btn-sm btn-accent text-accent-content flex-1 gap-2"
             >
               <SkipForward className="w-4 h-4" />
               {t('common.skip')}
             </button>
+            <button
+              onClick={() => void sendControlAction({ action: 'extend-time', seconds: EXTEND_SECONDS })}
+              disabled={isLoading}
+              className="btn btn-sm btn-accent text-accent-content flex-1 gap-2"
+            >
+              <TimerReset className="w-4 h-4" />
+              {t('live_control.extend_time', { minutes: EXTEND_SECONDS / 60 })}
+            </button>
           </div>
         </div>
       ) : (
@@ -287,21 +208,17 @@ export function LiveJamControlPanel({
         </h3>
 
         {nextThreeSongs.length > 0 ? (
-          <div className="space-y-2">
-            {nextThreeSongs.map((schedule, index) => (
-              <div
-                key={schedule.id}
-                draggable
-                onDragStart={() => handleDragStart(schedule.id)}
-                onDragOver={handleDragOver}
-                onDragLeave={handleDragLeave}
-                onDrop={(e) => handleDrop(e, schedule)}
-                className="bg-base-200 rounded-lg p-4 flex items-start gap-3 cursor-move hover:bg-base-300 transition-colors border-2 border-transparent"
-              >
+          <SortableList
+            items={nextThreeSongs}
+            getId={(schedule) => schedule.id}
+            getLabel={(schedule) => schedule.music?.title || t('schedule.song_tba')}
+            onReorder={handleReorder}
+            onError={(err) => onActionError?.(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))}
+            disabled={isLoading}
+            renderItem={(schedule, { index, handle }) => (
+              <div className="bg-base-200 rounded-lg p-4 flex items-start gap-3 hover:bg-base-300 transition-colors">
                 {/* Drag Handle */}
-                <div className="pt-1 text-base-content/40">
-                  <GripVertical className="w-5 h-5" />
-                </div>
+                <div className="pt-1">{handle}</div>
 
                 {/* Song Info */}
                 <div className="flex-1 min-w-0">
@@ -316,6 +233,12 @@ export function LiveJamControlPanel({
                       ⏱️ {formatDuration(schedule.music.duration)}
                     </p>
                   )}
+                  {index === 0 && (
+                    <MusicianReadinessList
+                      registrations={schedule.registrations}
+                      isReady={(musicianId) => readiness.isReady(schedule.id, musicianId)}
+                    />
+                  )}
                 </div>
 
                 {/* Musicians Count */}
@@ -325,8 +248,8 @@ export function LiveJamControlPanel({
                   </div>
                 )}
               </div>
-            ))}
-          </div>
+            )}
+          />
         ) : (
           <p className="text-center text-base-content/60 py-4">{t('live_control.no_more_songs')}</p>
         )}
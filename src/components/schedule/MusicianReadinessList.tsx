@@ -0,0 +1,44 @@
+/**
+ * Musician Readiness List Component
+ * Per-musician ready / waiting badges for an upcoming song (musician:ready signals)
+ */
+
+import {useTranslation} from 'react-i18next'
+import type {RegistrationResponseDto} from '../../types/api.types'
+import {getInstrumentIcon} from './RegistrationList'
+import {isActiveRegistration} from '../../utils/registrations'
+
+interface MusicianReadinessListProps {
+  registrations: RegistrationResponseDto[] | undefined
+  isReady: (musicianId: string) => boolean
+}
+
+export function MusicianReadinessList({ registrations, isReady }: MusicianReadinessListProps) {
+  const { t } = useTranslation()
+  const active = (registrations || []).filter(isActiveRegistration)
+  if (active.length === 0) return null
+
+  const readyCount = active.filter((r) => isReady(r.musician?.id ?? r.musicianId)).length
+
+  return (
+    <div className="mt-2">
+      <p className="text-xs font-semibold text-base-content/70 mb-1">
+        {t('up_soon.readiness', { ready: readyCount, total: active.length })}
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {active.map((registration) => {
+          const ready = isReady(registration.musician?.id ?? registration.musicianId)
+          return (
+            <span
+              key={registration.id}
+              className={`badge badge-sm gap-1 ${ready ? 'badge-success' : 'badge-ghost'}`}
+              title={ready ? t('up_soon.ready') : t('up_soon.waiting')}
+            >
+              {ready ? '✅' : '⏳'} {getInstrumentIcon(registration.instrument)} {registration.musician?.name || t('common.unknown')}
+            </span>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,33 +1,61 @@
 /**
  * Needed Musicians Display Component
- * Shows the needed musicians badges for a song
+ * Shows the needed musicians badges for a song, with how many musicians
+ * are waiting for a full instrument and, for hosts, which checked-in
+ * musicians know the song for each unfilled slot
  */
 
+import {useTranslation} from 'react-i18next'
+import type {ScheduleResponseDto} from '../../types/api.types'
+import {getInstrumentDefinition, getInstrumentLabel} from '../../lib/instruments'
+import {getInstrumentSlots} from '../../utils/waitlist'
+import type {SlotCandidate} from '../../utils/repertoire'
+
 interface NeededMusiciansDisplayProps {
-  neededDrums?: number
-  neededGuitars?: number
-  neededVocals?: number
-  neededBass?: number
-  neededKeys?: number
+  schedule: ScheduleResponseDto
+  // Checked-in musicians who know the song, by instrument of an unfilled slot
+  slotCandidates?: Record<string, SlotCandidate[]>
 }
 
-export function NeededMusiciansDisplay({
-  neededDrums = 0,
-  neededGuitars = 0,
-  neededVocals = 0,
-  neededBass = 0,
-  neededKeys = 0,
-}: NeededMusiciansDisplayProps) {
-  const totalNeeded = neededDrums + neededGuitars + neededVocals + neededBass + neededKeys
+export function NeededMusiciansDisplay({ schedule, slotCandidates }: NeededMusiciansDisplayProps) {
+  const { t } = useTranslation()
+  const slots = getInstrumentSlots(schedule)
 
-  if (totalNeeded === 0) {
+  if (slots.length === 0) {
     return null
   }
 
-  return (<div></div>
-    // <div className="mt-2 p-2 bg-base-100 rounded text-xs">
-
-    // </div>
+  return (
+    <>
+      {slots.map((slot) => (
+        <span
+          key={slot.key}
+          className={`badge badge-sm gap-1 ${slot.waitlisted > 0 ? 'badge-warning' : ''}`}
+          title={slot.waitlisted > 0 ? t('waitlist.waiting_for', {
+            waiting: slot.waitlisted,
+            instrument: getInstrumentLabel(slot.key, t),
+          }) : getInstrumentLabel(slot.key, t)}
+        >
+          {getInstrumentDefinition(slot.key)?.emoji ?? '🎵'} {slot.needed}
+          {slot.waitlisted > 0 && <span>· ⏳ {slot.waitlisted}</span>}
+        </span>
+      ))}
+      {slots.map((slot) => {
+        const candidates = slotCandidates?.[slot.key]
+        if (!candidates?.length) return null
+        const names = candidates
+          .map(({ musician, status }) => status === 'READY' ? musician.name : t('repertoire.learning_name', { name: musician.name }))
+          .join(', ')
+        return (
+          <span
+            key={`${slot.key}-candidates`}
+            className="badge badge-sm badge-success badge-outline gap-1 max-w-full truncate"
+            title={t('repertoire.known_by', { instrument: getInstrumentLabel(slot.key, t), names })}
+          >
+            💡 {getInstrumentDefinition(slot.key)?.emoji ?? '🎵'} {names}
+          </span>
+        )
+      })}
+    </>
   )
 }
-
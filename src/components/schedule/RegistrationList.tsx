@@ -3,90 +3,17 @@
  * Displays musicians registered for a performance
  */
 
-import type {RegistrationResponseDto} from '../../types/api.types'
+import type {InstrumentSlotDto, RegistrationResponseDto, WaitlistEntryResponseDto} from '../../types/api.types'
 import {CheckCircle, Clock, Music, Users, XCircle} from 'lucide-react'
 import {useTranslation} from 'react-i18next'
+import {getInstrumentDefinition, getInstrumentKey, getInstrumentLabel} from '../../lib/instruments'
+import {sortWaitlist} from '../../utils/waitlist'
+import {isActiveRegistration} from '../../utils/registrations'
 
 export const getInstrumentIcon = (instrument?: string): React.ReactNode => {
-    if (!instrument) return <Music className="w-4 h-4" />
-    const lower = instrument.toLowerCase()
-    switch (lower) {
-        case 'drums':
-        case 'bateria':
-            return '🥁'
-        case 'guitar':
-        case 'guitars':
-        case 'guitarra':
-            return '🎸'
-        case 'bass':
-        case 'baixo':
-            return '🎸b'
-        case 'vocals':
-        case 'vocal':
-        case 'vozes':
-        case 'voz':
-            return '🎤'
-        case 'keys':
-        case 'keyboard':
-        case 'teclado':
-            return '🎹'
-        default:
-            return <Music className="w-4 h-4" />
-    }
-}
-
-const getInstrumentDisplayName = (instrument: string, t: (key: string) => string): string => {
-    const lower = instrument.toLowerCase()
-    switch (lower) {
-        case 'drums':
-        case 'bateria':
-            return t('schedule.instruments.drums')
-        case 'guitar':
-        case 'guitars':
-        case 'guitarra':
-            return t('schedule.instruments.guitars')
-        case 'bass':
-        case 'baixo':
-            return t('schedule.instruments.bass')
-        case 'vocals':
-        case 'vocal':
-        case 'vozes':
-        case 'voz':
-            return t('schedule.instruments.vocals')
-        case 'keys':
-        case 'keyboard':
-        case 'teclado':
-            return t('schedule.instruments.keys')
-        default:
-            return instrument
-    }
-}
-
-const normalizeInstrument = (instrument?: string): string => {
-    if (!instrument) return ''
-    const lower = instrument.toLowerCase()
-    if (lower === 'drums' || lower === 'bateria') return 'drums'
-    if (lower === 'guitar' || lower === 'guitars' || lower === 'guitarra') return 'guitars'
-    if (lower === 'bass' || lower === 'baixo') return 'bass'
-    if (lower === 'vocals' || lower === 'vocal' || lower === 'vozes' || lower === 'voz') return 'vocals'
-    if (lower === 'keys' || lower === 'keyboard' || lower === 'teclado') return 'keys'
-    return lower
-}
-
-const getNeededInstruments = (
-    neededDrums?: number,
-    neededGuitars?: number,
-    neededBass?: number,
-    neededVocals?: number,
-    neededKeys?: number
-): string[] => {
-    const instruments: string[] = []
-    if (neededDrums && neededDrums > 0) instruments.push('drums')
-    if (neededGuitars && neededGuitars > 0) instruments.push('guitars')
-    if (neededBass && neededBass > 0) instruments.push('bass')
-    if (neededVocals && neededVocals > 0) instruments.push('vocals')
-    if (neededKeys && neededKeys > 0) instruments.push('keys')
-    return instruments
+    const definition = getInstrumentDefinition(instrument)
+    if (!definition || definition.id === 'other') return <Music className="w-4 h-4" />
+    return definition.emoji
 }
 
 const groupRegistrationsByInstrument = (
@@ -96,7 +23,7 @@ const groupRegistrationsByInstrument = (
     if (!registrations) return grouped
 
     registrations.forEach((reg) => {
-        const instrument = normalizeInstrument(reg.instrument || reg.musician?.instrument)
+        const instrument = getInstrumentKey(reg.instrument || reg.musician?.instrument)
         if (instrument) {
             if (!grouped.has(instrument)) {
                 grouped.set(instrument, [])
@@ -115,11 +42,14 @@ interface RegistrationListProps {
     onReject?: (registrationId: string) => void
     showActions?: boolean
     onAddMusician?: () => void
-    neededDrums?: number
-    neededGuitars?: number
-    neededBass?: number
-    neededVocals?: number
-    neededKeys?: number
+    // Instrument slots of the song, one column each
+    instrumentSlots?: InstrumentSlotDto[]
+    // Musicians waiting for a full instrument, shown under its column
+    waitlist?: WaitlistEntryResponseDto[]
+    // Host action: move the first musician in line into the song
+    onPromoteWaitlist?: (entryId: string) => void
+    // Host action: rank musicians who could fill an open slot of the instrument
+    onFindSubstitute?: (instrument: string) => void
 }
 
 export function RegistrationList({
@@ -129,16 +59,33 @@ export function RegistrationList({
                                      onReject,
                                      showActions = false,
                                      onAddMusician,
-                                     neededDrums,
-                                     neededGuitars,
-                                     neededBass,
-                                     neededVocals,
-                                     neededKeys,
+                                     instrumentSlots = [],
+                                     waitlist,
+                                     onPromoteWaitlist,
+                                     onFindSubstitute,
                                  }: RegistrationListProps) {
     const { t } = useTranslation()
-    const neededInstruments = getNeededInstruments(neededDrums, neededGuitars, neededBass, neededVocals, neededKeys)
+    const neededInstruments = instrumentSlots.map((slot) => slot.instrument)
     const groupedRegistrations = groupRegistrationsByInstrument(registrations)
-    const hasRegistrations = registrations && registrations.length > 0
+    const hasRegistrations = (registrations && registrations.length > 0) || (waitlist && waitlist.length > 0)
+
+    // A slot is open when fewer musicians than needed still hold one
+    const hasOpenSlot = (instrument: string): boolean => {
+        const active = (groupedRegistrations.get(instrument) || []).filter(isActiveRegistration)
+        return active.length < (instrumentSlots.find((slot) => slot.instrument === instrument)?.count ?? 0)
+    }
+
+    const renderFindSubstitute = (instrument: string) => showActions && onFindSubstitute && hasOpenSlot(instrument) && (
+        <button
+            key={instrument}
+            onClick={() => onFindSubstitute(instrument)}
+            className="btn btn-xs btn-ghost text-primary"
+            disabled={loading}
+            title={t('substitutes.find_hint')}
+        >
+            🔄 {t('substitutes.find')}
+        </button>
+    )
 
     return (
         <div className="mt-0 bg-base-100 rounded-lg p-3">
@@ -169,8 +116,9 @@ export function RegistrationList({
                                 {/* Column Header */}
                                 <div className="mb-3 pb-3 border-b-2 border-primary/20">
                                     <p className="text-xs font-bold text-primary flex items-center gap-2">
-                                        {getInstrumentIcon(instrument)} {getInstrumentDisplayName(instrument, t)}
+                                        {getInstrumentIcon(instrument)} {getInstrumentLabel(instrument, t)}
                                     </p>
+                                    {renderFindSubstitute(instrument)}
                                 </div>
 
                                 {/* Musician Cards in Column */}
@@ -262,6 +210,33 @@ export function RegistrationList({
                                         </p>
                                     )}
                                 </div>
+
+                                {/* Waitlist - first in line first */}
+                                {sortWaitlist(waitlist, instrument).length > 0 && (
+                                    <div className="mt-3 pt-2 border-t border-dashed border-base-300">
+                                        <p className="text-xs font-semibold text-warning mb-1">
+                                            ⏳ {t('waitlist.title', { waiting: sortWaitlist(waitlist, instrument).length })}
+                                        </p>
+                                        <ol className="space-y-1">
+                                            {sortWaitlist(waitlist, instrument).map((entry, index) => (
+                                                <li key={entry.id} className="flex items-center gap-1 text-xs">
+                                                    <span className="text-base-content/50">{index + 1}.</span>
+                                                    <span className="flex-1 truncate">{entry.musician?.name || t('schedule.unknown')}</span>
+                                                    {showActions && onPromoteWaitlist && index === 0 && (
+                                                        <button
+                                                            onClick={() => onPromoteWaitlist(entry.id)}
+                                                            className={`btn btn-xs ${hasOpenSlot(instrument) ? 'btn-warning' : 'btn-ghost'}`}
+                                                            disabled={loading || !hasOpenSlot(instrument)}
+                                                            title={hasOpenSlot(instrument) ? t('waitlist.slot_open') : t('waitlist.promote_full')}
+                                                        >
+                                                            {t('waitlist.promote')}
+                                                        </button>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    </div>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -269,6 +244,16 @@ export function RegistrationList({
             ) : (
                 <div className="text-sm text-base-content/50 italic py-6 text-center bg-base-200/30 rounded-lg">
                     {t('schedule.no_musicians_registered')}
+                    {showActions && onFindSubstitute && neededInstruments.length > 0 && (
+                        <div className="flex flex-wrap justify-center gap-1 mt-2 not-italic">
+                            {neededInstruments.map((instrument) => (
+                                <span key={instrument} className="flex items-center">
+                                    {getInstrumentIcon(instrument)}
+                                    {renderFindSubstitute(instrument)}
+                                </span>
+                            ))}
+                        </div>
+                    )}
                 </div>
             )}
         </div>
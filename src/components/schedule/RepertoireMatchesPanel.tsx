@@ -0,0 +1,56 @@
+/**
+ * Repertoire Matches Panel Component
+ * Songs of the jam that need one of the musician's instruments and are in their
+ * repertoire, with a shortcut to enroll
+ */
+
+import {useTranslation} from 'react-i18next'
+import type {ScheduleResponseDto} from '../../types/api.types'
+import type {SongRecommendation} from '../../utils/repertoire'
+import {getInstrumentIcon} from './RegistrationList'
+import {getInstrumentLabel} from '../../lib/instruments'
+
+interface RepertoireMatchesPanelProps {
+  recommendations: SongRecommendation[]
+  onEnrollClick: (schedule: ScheduleResponseDto) => void
+}
+
+export function RepertoireMatchesPanel({ recommendations, onEnrollClick }: RepertoireMatchesPanelProps) {
+  const { t } = useTranslation()
+
+  if (recommendations.length === 0) return null
+
+  return (
+    <div className="card bg-base-200 border border-success/30">
+      <div className="card-body p-3 sm:p-6 space-y-3">
+        <div>
+          <h2 className="card-title text-base sm:text-lg">💡 {t('repertoire.matches_title')}</h2>
+          <p className="text-xs text-base-content/60">{t('repertoire.matches_desc')}</p>
+        </div>
+
+        <ul className="space-y-2">
+          {recommendations.map(({ schedule, instrument, status }) => (
+            <li key={schedule.id} className="flex flex-wrap items-center gap-2 p-2 bg-base-100 rounded">
+              <span className="badge badge-neutral">{schedule.order}</span>
+              <span className="flex-1 min-w-0 truncate">
+                <span className="font-semibold">{schedule.music?.title || t('schedule.song_tba')}</span>
+                {schedule.music?.artist && <span className="text-sm text-base-content/60"> · {schedule.music.artist}</span>}
+              </span>
+              <span className="text-sm text-base-content/70 flex items-center gap-1">
+                {getInstrumentIcon(instrument)} {getInstrumentLabel(instrument, t)}
+              </span>
+              <span className={`badge badge-sm ${status === 'READY' ? 'badge-success' : 'badge-info'}`}>
+                {t(`repertoire.status.${status}`)}
+              </span>
+              <button onClick={() => onEnrollClick(schedule)} className="btn btn-xs btn-primary">
+                {t('schedule.enroll_btn')}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <a href="/my-jam?tab=repertoire" className="link link-hover text-xs">{t('repertoire.manage')}</a>
+      </div>
+    </div>
+  )
+}
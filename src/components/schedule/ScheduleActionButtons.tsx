@@ -1,74 +1,62 @@
 /**
  * Schedule Action Buttons Component
- * Renders appropriate action buttons based on schedule status
+ * Renders the status actions the schedule state machine allows for the current role
  */
 
 import {useTranslation} from 'react-i18next'
+import type {ScheduleStatus} from '../../types/api.types'
+import {useScheduleTransitions} from '../../hooks/useScheduleTransitions'
+import type {ScheduleTransitionAction} from '../../utils/scheduleStatusMachine'
 
 interface ScheduleActionButtonsProps {
-    status: string | undefined
+    status: ScheduleStatus | undefined
     loading?: boolean
     isSuggested?: boolean
-    onStatusChange?: (status: string) => void
+    onStatusChange?: (status: ScheduleStatus) => void
     onDelete?: () => void
 }
 
+// Card buttons per transition; live queue moves (requeue / replay) belong to the DJ controls
+const ACTION_BUTTONS: Partial<Record<ScheduleTransitionAction, { labelKey: string; icon: string; className: string }>> = {
+    approve: {labelKey: 'common.approve', icon: '✓ ', className: 'btn-success'},
+    start: {labelKey: 'schedule.actions.start', icon: '', className: 'btn-warning'},
+    complete: {labelKey: 'common.complete', icon: '✓ ', className: 'btn-success'},
+    cancel: {labelKey: 'common.cancel', icon: '✕ ', className: 'btn-error btn-outline'},
+    reschedule: {labelKey: 'schedule.actions.reschedule', icon: '', className: 'btn-outline'},
+}
+
 export function ScheduleActionButtons({
                                           status, loading = false, isSuggested = false, onStatusChange, onDelete,
                                       }: ScheduleActionButtonsProps) {
     const { t } = useTranslation()
+    const transitions = useScheduleTransitions()
+    const current = status ?? (isSuggested ? 'SUGGESTED' : 'SCHEDULED')
+    const allowed = transitions.allowedFrom(current).filter((transition) => ACTION_BUTTONS[transition.action])
+
     return (<div className="flex flex-col gap-1">
-            {/* Suggested action buttons */}
-            {isSuggested && (<>
-                    <button
-                        onClick={() => onStatusChange?.('SCHEDULED')}
-                        className="btn btn-sm btn-success"
+            {allowed.map((transition) => {
+                const button = ACTION_BUTTONS[transition.action]!
+                return (<button
+                        key={transition.to}
+                        onClick={() => onStatusChange?.(transition.to)}
+                        className={`btn btn-sm ${button.className}`}
                         disabled={loading}
                     >
-                        ✓ {t('common.approve')}
-                    </button>
-                    <button
-                        onClick={onDelete}
-                        className="btn btn-sm btn-error"
-                        disabled={loading}
-                    >
-                        ✕ {t('common.reject')}
-                    </button>
-                </>)}
+                        {button.icon}{t(button.labelKey)}
+                    </button>)
+            })}
+
+            {/* Rejecting a suggestion removes it */}
+            {isSuggested && transitions.can('SUGGESTED', 'CANCELED') && (<button
+                    onClick={onDelete}
+                    className="btn btn-sm btn-error"
+                    disabled={loading}
+                >
+                    ✕ {t('common.reject')}
+                </button>)}
 
-            {/* Non-suggested action buttons */}
             {!isSuggested && (<>
-                    {(status === 'SCHEDULED' || !status) && (<button
-                            onClick={() => onStatusChange?.('IN_PROGRESS')}
-                            className="btn btn-sm btn-warning"
-                            disabled={loading}
-                        >
-                            {t('schedule.actions.start')}
-                        </button>)}
-                    {status === 'IN_PROGRESS' && (<>
-                            <button
-                                onClick={() => onStatusChange?.('COMPLETED')}
-                                className="btn btn-sm btn-success"
-                                disabled={loading}
-                            >
-                                ✓ {t('common.complete')}
-                            </button>
-                            <button
-                                onClick={() => onStatusChange?.('CANCELED')}
-                                className="btn btn-sm btn-error btn-outline"
-                                disabled={loading}
-                            >
-                                ✕ {t('common.cancel')}
-                            </button>
-                        </>)}
-                    {status === 'CANCELED' && (<button
-                            onClick={() => onStatusChange?.('SCHEDULED')}
-                            className="btn btn-sm btn-outline"
-                            disabled={loading}
-                        >
-                            {t('schedule.actions.reschedule')}
-                        </button>)}
-                    {status === 'COMPLETED' && (<span className="text-xs text-success">{t('schedule.performance_completed')}</span>)}
+                    {current === 'COMPLETED' && (<span className="text-xs text-success">{t('schedule.performance_completed')}</span>)}
                     <button
                         onClick={onDelete}
                         className="btn btn-sm btn-error btn-outline"
@@ -79,4 +67,3 @@ export function ScheduleActionButtons({
                 </>)}
         </div>)
 }
-
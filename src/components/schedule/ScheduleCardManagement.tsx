@@ -3,11 +3,13 @@
  * Displays a single schedule entry with all controls and nested registrations
  */
 
-import type {ScheduleResponseDto} from '../../types/api.types'
+import type {ReactNode} from 'react'
+import type {ScheduleResponseDto, ScheduleStatus} from '../../types/api.types'
 import {ScheduleStatusBadge} from './ScheduleStatusBadge'
 import {SongInfo} from './SongInfo'
 import {ScheduleActionButtons} from './ScheduleActionButtons'
 import {RegistrationList} from './RegistrationList'
+import {getMusicSlots} from '../../utils/instrumentSlots'
 import {useTranslation} from 'react-i18next'
 
 interface ScheduleCardProps {
@@ -15,14 +17,18 @@ interface ScheduleCardProps {
   index?: number
   loading?: boolean
   isSuggested?: boolean
-  onStatusChange?: (scheduleId: string, status: string) => void
+  onStatusChange?: (scheduleId: string, status: ScheduleStatus) => void
   onDelete?: (scheduleId: string) => void
   onMoveUp?: (index: number) => void
   onMoveDown?: (index: number) => void
   maxIndex?: number
   onApproveRegistration?: (registrationId: string) => void
   onRejectRegistration?: (registrationId: string) => void
+  onPromoteWaitlist?: (entryId: string) => void
+  onFindSubstitute?: (instrument: string) => void
   onAddMusician?: () => void
+  // Drag handle from a sortable list
+  dragHandle?: ReactNode
 }
 
 export function ScheduleCardManagement({
@@ -37,7 +43,10 @@ export function ScheduleCardManagement({
   maxIndex = 0,
   onApproveRegistration,
   onRejectRegistration,
+  onPromoteWaitlist,
+  onFindSubstitute,
   onAddMusician,
+  dragHandle,
 }: ScheduleCardProps) {
     const { t } = useTranslation()
     return (
@@ -56,6 +65,7 @@ export function ScheduleCardManagement({
                     {/* Reorder Buttons (not shown for suggested) */}
                     {!isSuggested && (
                         <>
+                            {dragHandle && <div className="mt-auto mb-auto">{dragHandle}</div>}
                             <div className="flex flex-col gap-0.5 sm:gap-1 mt-auto mb-auto">
                                 <button
                                     onClick={() => onMoveUp?.(index)}
@@ -129,11 +139,10 @@ export function ScheduleCardManagement({
                             onReject={onRejectRegistration}
                             showActions={true}
                             onAddMusician={onAddMusician}
-                            neededDrums={schedule.music?.neededDrums}
-                            neededGuitars={schedule.music?.neededGuitars}
-                            neededBass={schedule.music?.neededBass}
-                            neededVocals={schedule.music?.neededVocals}
-                            neededKeys={schedule.music?.neededKeys}
+                            instrumentSlots={getMusicSlots(schedule.music)}
+                            waitlist={schedule.waitlist}
+                            onPromoteWaitlist={onPromoteWaitlist}
+                            onFindSubstitute={onFindSubstitute}
                         />
                     </div>
                 </div>
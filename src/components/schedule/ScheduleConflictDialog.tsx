@@ -0,0 +1,143 @@
+/**
+ * Schedule Conflict Dialog Component
+ * Three-way view (when queued / yours / current) of an offline schedule edit that conflicts
+ * with changes made by someone else, letting the host choose which version to keep
+ */
+
+import {useTranslation} from 'react-i18next'
+import type {QueuedAction} from '../../services'
+import {
+  applyLocalOrder,
+  type ReorderConflict,
+  type ScheduleSnapshot,
+  type StatusConflict,
+} from '../../utils/scheduleConflicts'
+import {getStatusLabel} from './ScheduleDisplayItem'
+
+interface ScheduleConflictDialogProps {
+  action: QueuedAction
+  onResolve: (payload: unknown) => void
+  onDiscard: () => void
+  onClose: () => void
+}
+
+function SnapshotColumn({ title, snapshot, highlight }: { title: string; snapshot: ScheduleSnapshot | null; highlight?: boolean }) {
+  const { t } = useTranslation()
+  return (
+    <div className={`rounded-lg p-3 ${highlight ? 'bg-primary/10 border border-primary/30' : 'bg-base-200'}`}>
+      <p className="text-xs font-semibold uppercase text-base-content/60 mb-2">{title}</p>
+      {snapshot ? (
+        <>
+          <p className="font-medium">{getStatusLabel(snapshot.status, snapshot.status === 'SUGGESTED', t)}</p>
+          <p className="text-xs text-base-content/60">#{snapshot.order}</p>
+        </>
+      ) : (
+        <p className="text-sm text-error">{t('offline_queue.conflict.removed')}</p>
+      )}
+    </div>
+  )
+}
+
+function OrderColumn({
+  title,
+  ids,
+  titles,
+  highlight,
+}: {
+  title: string
+  ids: string[]
+  titles: Record<string, string>
+  highlight?: boolean
+}) {
+  const { t } = useTranslation()
+  return (
+    <div className={`rounded-lg p-3 ${highlight ? 'bg-primary/10 border border-primary/30' : 'bg-base-200'}`}>
+      <p className="text-xs font-semibold uppercase text-base-content/60 mb-2">{title}</p>
+      <ol className="list-decimal list-inside space-y-1 text-sm">
+        {ids.map((id) => (
+          <li key={id} className="truncate">
+            {titles[id] ?? <span className="text-error">{t('offline_queue.conflict.removed')}</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+export function ScheduleConflictDialog({ action, onResolve, onDiscard, onClose }: ScheduleConflictDialogProps) {
+  const { t } = useTranslation()
+  const conflict = action.conflict
+  if (!conflict) return null
+
+  const renderStatus = (c: StatusConflict) => (
+    <>
+      <p className="text-sm mb-4">
+        {t('offline_queue.conflict.status_description', { title: c.title ?? t('common.unknown') })}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <SnapshotColumn title={t('offline_queue.conflict.base')} snapshot={c.base} />
+        <SnapshotColumn title={t('offline_queue.conflict.local')} snapshot={c.local} highlight />
+        <SnapshotColumn title={t('offline_queue.conflict.remote')} snapshot={c.remote} />
+      </div>
+      <div className="modal-action flex-wrap">
+        <button className="btn btn-ghost" onClick={onClose}>
+          {t('common.cancel')}
+        </button>
+        <button className="btn btn-outline" onClick={onDiscard}>
+          {t('offline_queue.conflict.keep_remote')}
+        </button>
+        <button
+          className="btn btn-primary"
+          disabled={!c.remote}
+          onClick={() => onResolve({ ...action.payload, base: c.remote })}
+        >
+          {t('offline_queue.conflict.keep_local')}
+        </button>
+      </div>
+    </>
+  )
+
+  const renderReorder = (c: ReorderConflict) => (
+    <>
+      <p className="text-sm mb-4">{t('offline_queue.conflict.reorder_description')}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 max-h-[60vh] overflow-y-auto">
+        <OrderColumn title={t('offline_queue.conflict.base')} ids={c.base} titles={c.titles} />
+        <OrderColumn title={t('offline_queue.conflict.local')} ids={c.local} titles={c.titles} />
+        <OrderColumn title={t('offline_queue.conflict.remote')} ids={c.remote} titles={c.titles} />
+        <OrderColumn title={t('offline_queue.conflict.merged')} ids={c.merged} titles={c.titles} highlight />
+      </div>
+      <div className="modal-action flex-wrap">
+        <button className="btn btn-ghost" onClick={onClose}>
+          {t('common.cancel')}
+        </button>
+        <button className="btn btn-outline" onClick={onDiscard}>
+          {t('offline_queue.conflict.keep_remote')}
+        </button>
+        <button
+          className="btn btn-outline"
+          onClick={() =>
+            onResolve({ jamId: c.jamId, scheduleIds: applyLocalOrder(c.local, c.remote), baseScheduleIds: c.remote })
+          }
+        >
+          {t('offline_queue.conflict.keep_local')}
+        </button>
+        <button
+          className="btn btn-primary"
+          onClick={() => onResolve({ jamId: c.jamId, scheduleIds: c.merged, baseScheduleIds: c.remote })}
+        >
+          {t('offline_queue.conflict.use_merged')}
+        </button>
+      </div>
+    </>
+  )
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-4xl">
+        <h3 className="font-bold text-lg mb-2">⚠️ {t('offline_queue.conflict.title')}</h3>
+        {conflict.kind === 'status' ? renderStatus(conflict) : renderReorder(conflict)}
+      </div>
+      <div className="modal-backdrop" onClick={onClose}></div>
+    </div>
+  )
+}
@@ -5,6 +5,9 @@
 
 import type {ScheduleResponseDto} from '../../types/api.types'
 import {RegistrationList} from './RegistrationList'
+import {getMusicSlots} from '../../utils/instrumentSlots'
+import {NeededMusiciansDisplay} from './NeededMusiciansDisplay'
+import type {SlotCandidate} from '../../utils/repertoire'
 import {formatDuration} from '../../lib/formatters'
 import {useTranslation} from 'react-i18next'
 
@@ -13,6 +16,8 @@ interface ScheduleDisplayItemProps {
     isSuggested?: boolean
     userRegisteredForSchedule?: boolean
     onEnrollClick?: () => void
+    // Host view: checked-in musicians who know the song, per unfilled slot
+    slotCandidates?: Record<string, SlotCandidate[]>
 }
 
 const getStatusColor = (status: string | undefined, isSuggested: boolean): string => {
@@ -70,7 +75,7 @@ export const getStatusIcon = (status: string | undefined, isSuggested: boolean):
 }
 
 export function ScheduleDisplayItem({
-                                        schedule, isSuggested = false, userRegisteredForSchedule = false, onEnrollClick,
+                                        schedule, isSuggested = false, userRegisteredForSchedule = false, onEnrollClick, slotCandidates,
                                     }: ScheduleDisplayItemProps) {
     const { t } = useTranslation()
 
@@ -79,7 +84,7 @@ export function ScheduleDisplayItem({
     } = schedule || {}
 
     const {
-        neededDrums = 0, duration = 0, neededGuitars = 0, neededVocals = 0, neededBass = 0, neededKeys = 0
+        duration = 0
     } = music || {}
 
 
@@ -109,11 +114,7 @@ export function ScheduleDisplayItem({
                 <div className="flex flex-wrap gap-1 mt-1">
                     {duration && (<span
                         className="badge badge-sm"> ⏱️ {formatDuration(duration)} </span>)}
-                    {neededDrums > 0 && (<span className="badge badge-sm">🥁 {neededDrums}</span>)}
-                    {neededGuitars > 0 && (<span className="badge badge-sm">🎸 {neededGuitars}</span>)}
-                    {neededVocals > 0 && (<span className="badge badge-sm">🎤 {neededVocals}</span>)}
-                    {neededBass > 0 && (<span className="badge badge-sm">🎸 {neededBass}</span>)}
-                    {neededKeys > 0 && (<span className="badge badge-sm">🎹 {neededKeys}</span>)}
+                    <NeededMusiciansDisplay schedule={schedule} slotCandidates={slotCandidates}/>
                 </div>
             </div>
 
@@ -140,11 +141,8 @@ export function ScheduleDisplayItem({
         <RegistrationList
             registrations={schedule.registrations}
             showActions={false}
-            neededDrums={schedule.music?.neededDrums}
-            neededGuitars={schedule.music?.neededGuitars}
-            neededBass={schedule.music?.neededBass}
-            neededVocals={schedule.music?.neededVocals}
-            neededKeys={schedule.music?.neededKeys}
+            instrumentSlots={getMusicSlots(schedule.music)}
+            waitlist={schedule.waitlist}
         />
     </div>)
 }
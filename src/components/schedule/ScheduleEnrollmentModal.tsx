@@ -1,13 +1,19 @@
 /**
  * Schedule Enrollment Modal Component
- * Modal for musicians to enroll into a specific schedule
+ * Modal for musicians to enroll into a specific schedule, or to join the
+ * waitlist of an instrument whose slots are all taken
+ * Only the slots for instruments in the musician's profile are offered
  */
 
 import type {ScheduleResponseDto} from '../../types/api.types'
 import {registrationService} from '../../services/registrationService'
+import {waitlistService} from '../../services/waitlistService'
 import {useAuth} from '../../hooks'
 import {useState} from 'react'
 import {useTranslation} from 'react-i18next'
+import {getInstrumentSlots, getWaitlistPlace} from '../../utils/waitlist'
+import {getInstrumentDefinition, getInstrumentLabel} from '../../lib/instruments'
+import {findMusicianInstrument, getMusicianInstruments} from '../../utils/musicianInstruments'
 
 interface ScheduleEnrollmentModalProps {
   schedule: ScheduleResponseDto
@@ -22,6 +28,7 @@ interface InstrumentOption {
     emoji: string
     needed: number
     registered: number
+    waitlisted: number
 }
 
 export function ScheduleEnrollmentModal({
@@ -36,37 +43,27 @@ export function ScheduleEnrollmentModal({
     const getInstrumentOptions = (): InstrumentOption[] => {
         if (!schedule.music) return []
 
-        const options: InstrumentOption[] = []
-        const instrumentMap = [{
-            key: 'drums',
-            label: t('schedule.instruments.drums'),
-            emoji: '🥁',
-            field: 'neededDrums' as const
-        }, {key: 'guitars', label: t('schedule.instruments.guitars'), emoji: '🎸', field: 'neededGuitars' as const}, {
-            key: 'vocals',
-            label: t('schedule.instruments.vocals'),
-            emoji: '🎤',
-            field: 'neededVocals' as const
-        }, {key: 'bass', label: t('schedule.instruments.bass'), emoji: '🎸', field: 'neededBass' as const}, {
-            key: 'keys',
-            label: t('schedule.instruments.keys'),
-            emoji: '🎹',
-            field: 'neededKeys' as const
-        },]
-
-        instrumentMap.forEach(({key, label, emoji, field}) => {
-            const needed = schedule.music![field] || 0
-            if (needed > 0) {
-                const registered = schedule.registrations?.filter((reg) => reg.musician?.instrument === label).length || 0
-                options.push({
-                    key, label, emoji, needed, registered,
-                })
-            }
-        })
-
-        return options
+        return getInstrumentSlots(schedule).map(({ key, needed, registered, waitlisted }) => ({
+            key,
+            label: getInstrumentLabel(key, t),
+            emoji: getInstrumentDefinition(key)?.emoji ?? '🎵',
+            needed,
+            registered,
+            waitlisted,
+        }))
     }
 
+    const instrumentOptions = getInstrumentOptions()
+    // Musicians without instruments in their profile can still pick any slot
+    const playsAnyInstrument = getMusicianInstruments(user).length > 0
+    const playableOptions = playsAnyInstrument
+        ? instrumentOptions.filter((option) => findMusicianInstrument(user, option.key))
+        : instrumentOptions
+    const selectedOption = playableOptions.find((option) => option.key === selectedInstrument)
+    // Every slot of the chosen instrument is taken: the musician joins its waitlist
+    const joinsWaitlist = Boolean(selectedOption && selectedOption.needed - selectedOption.registered <= 0)
+    const waitlistPlace = user?.id ? getWaitlistPlace(schedule, user.id) : null
+
   const handleEnroll = async () => {
     if (!selectedInstrument) {
       setError(t('errors.please_select_instrument'))
@@ -92,11 +89,19 @@ export function ScheduleEnrollmentModal({
         console.log('🔐 Current auth token:', token ? `${token.substring(0, 20)}...` : 'NO TOKEN')
       }
 
-      await registrationService.create({
-        musicianId: user.id,
-        scheduleId: schedule.id,
-        instrument: selectedInstrument,
-      } as any)
+      if (joinsWaitlist) {
+        await waitlistService.join({
+          musicianId: user.id,
+          scheduleId: schedule.id,
+          instrument: selectedInstrument,
+        })
+      } else {
+        await registrationService.create({
+          musicianId: user.id,
+          scheduleId: schedule.id,
+          instrument: selectedInstrument,
+        } as any)
+      }
 
       if (import.meta.env.DEV) {
         console.log('✅ Enrollment successful!')
@@ -118,9 +123,24 @@ export function ScheduleEnrollmentModal({
     }
   }
 
-    if (!isOpen) return null
+  const handleLeaveWaitlist = async () => {
+    if (!waitlistPlace) return
 
-    const instrumentOptions = getInstrumentOptions()
+    setEnrollLoading(true)
+    setError(null)
+
+    try {
+      await waitlistService.leave(waitlistPlace.entry.id)
+      onClose()
+      onSuccess()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('common.error'))
+    } finally {
+      setEnrollLoading(false)
+    }
+  }
+
+    if (!isOpen) return null
 
     return (<div className="modal modal-open">
             <div className="modal-box max-w-sm">
@@ -143,6 +163,23 @@ export function ScheduleEnrollmentModal({
                         <p>{error}</p>
                     </div>)}
 
+                {/* Waitlist Place */}
+                {waitlistPlace && (<div className="alert alert-info mb-4 flex justify-between">
+                        <p className="text-sm">
+                            ⏳ {t('waitlist.your_place', {
+                                place: waitlistPlace.place,
+                                instrument: getInstrumentLabel(waitlistPlace.entry.instrument, t),
+                            })}
+                        </p>
+                        <button
+                            onClick={() => void handleLeaveWaitlist()}
+                            className="btn btn-xs btn-ghost"
+                            disabled={enrollLoading}
+                        >
+                            {t('waitlist.leave')}
+                        </button>
+                    </div>)}
+
                 {/* Instrument Selection */}
                 <div className="form-control mb-4">
                     <label className="label">
@@ -155,14 +192,20 @@ export function ScheduleEnrollmentModal({
                         disabled={enrollLoading}
                     >
                         <option value="">{t('schedule.choose_instrument')}</option>
-                        {instrumentOptions.map((option) => {
+                        {playableOptions.map((option) => {
                             const remaining = option.needed - option.registered
                             const isFull = remaining <= 0
-                            return (<option key={option.key} value={option.label} disabled={isFull}>
-                                    {option.emoji} {option.label} {isFull ? t('schedule.full_parentheses') : t('schedule.needed_count_parentheses', { count: remaining })}
+                            return (<option key={option.key} value={option.key}>
+                                    {option.emoji} {option.label} {isFull ? t('waitlist.full_option', { waiting: option.waitlisted }) : t('schedule.needed_count_parentheses', { count: remaining })}
                                 </option>)
                         })}
                     </select>
+                    {playsAnyInstrument && playableOptions.length < instrumentOptions.length && (
+                        <label className="label">
+                            <span className="label-text-alt text-base-content/60">
+                                {playableOptions.length === 0 ? t('schedule.no_playable_slots') : t('schedule.other_instruments_hint')}
+                            </span>
+                        </label>)}
                 </div>
 
                 {/* Instruments Summary */}
@@ -175,7 +218,9 @@ export function ScheduleEnrollmentModal({
                                     key={option.key}
                                     className={`badge badge-sm ${remaining > 0 ? 'badge-warning' : 'badge-error'}`}
                                 >
-                  {option.emoji} {option.label}: {remaining > 0 ? t('schedule.left_count', { count: remaining }) : t('schedule.full')}
+                  {option.emoji} {option.label}: {remaining > 0
+                    ? t('schedule.left_count', { count: remaining })
+                    : option.waitlisted > 0 ? t('waitlist.full_waiting', { waiting: option.waitlisted }) : t('schedule.full')}
                 </span>)
                         })}
                     </div>
@@ -197,8 +242,8 @@ export function ScheduleEnrollmentModal({
                     >
                         {enrollLoading ? (<>
                                 <span className="loading loading-spinner loading-sm"></span>
-                                {t('schedule.enrolling')}
-                            </>) : (t('schedule.enroll_now'))}
+                                {joinsWaitlist ? t('waitlist.joining') : t('schedule.enrolling')}
+                            </>) : (joinsWaitlist ? t('waitlist.join') : t('schedule.enroll_now'))}
                     </button>
                 </div>
             </div>
@@ -1,16 +1,22 @@
 /**
  * Schedule Status Badge Component
  * Displays schedule status with appropriate color and icon
+ * The tooltip lists the statuses the current role may move it to
  */
 
 import {useTranslation} from 'react-i18next'
+import type {ScheduleStatus} from '../../types/api.types'
+import {useScheduleTransitions} from '../../hooks/useScheduleTransitions'
+import {getStatusLabelKey} from '../../utils/scheduleStatusMachine'
 
 interface ScheduleStatusBadgeProps {
-  status: string | undefined
+  status: ScheduleStatus | undefined
 }
 
 export function ScheduleStatusBadge({ status }: ScheduleStatusBadgeProps) {
   const { t } = useTranslation()
+  const transitions = useScheduleTransitions()
+  const nextStatuses = status ? transitions.allowedFrom(status).map((transition) => t(getStatusLabelKey(transition.to))) : []
   const getStatusColor = () => {
     switch (status) {
       case 'SUGGESTED':
@@ -64,7 +70,12 @@ export function ScheduleStatusBadge({ status }: ScheduleStatusBadgeProps) {
 
   return (
       <>
-          <div className={`badge ${getStatusColor()}`}>
+          <div
+              className={`badge ${getStatusColor()}`}
+              title={nextStatuses.length > 0
+                  ? t('schedule_transitions.can_move_to', { statuses: nextStatuses.join(', ') })
+                  : t('schedule_transitions.final')}
+          >
               {getStatusIcon() && `${getStatusIcon()} `}
               {getStatusLabel()}
           </div>
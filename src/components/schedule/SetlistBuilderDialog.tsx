@@ -0,0 +1,155 @@
+/**
+ * Setlist Builder Dialog Component
+ * Suggests a setlist order (musician rotation, drummers/bassists spread, pinned songs,
+ * time budget) and previews it against the current order before the host applies it
+ */
+
+import {useMemo, useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import type {JamResponseDto} from '../../types/api.types'
+import {buildSetlistOrder} from '../../utils/setlistBuilder'
+import {isActiveRegistration} from '../../utils/registrations'
+
+interface SetlistBuilderDialogProps {
+  jam: JamResponseDto
+  loading?: boolean
+  onApply: (scheduleIds: string[]) => void
+  onClose: () => void
+}
+
+export function SetlistBuilderDialog({ jam, loading, onApply, onClose }: SetlistBuilderDialogProps) {
+  const { t } = useTranslation()
+  const [pinnedIds, setPinnedIds] = useState<string[]>([])
+  const [budgetMinutes, setBudgetMinutes] = useState('')
+
+  const schedules = useMemo(
+    () => [...(jam.schedules || [])].filter((s) => s.status !== 'SUGGESTED').sort((a, b) => a.order - b.order),
+    [jam.schedules]
+  )
+  const byId = new Map(schedules.map((s) => [s.id, s]))
+  const currentOrder = schedules.map((s) => s.id)
+
+  const budget = parseInt(budgetMinutes, 10)
+  const proposal = useMemo(
+    () =>
+      buildSetlistOrder(jam, {
+        pinnedIds,
+        timeBudgetSeconds: Number.isNaN(budget) || budget <= 0 ? null : budget * 60,
+      }),
+    [jam, pinnedIds, budget]
+  )
+  const unchanged = proposal.order.every((id, index) => id === currentOrder[index])
+
+  const togglePin = (id: string) => {
+    setPinnedIds((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]))
+  }
+
+  const getMusicians = (id: string) => {
+    const schedule = byId.get(id)
+    const registrations =
+      schedule?.registrations && schedule.registrations.length > 0
+        ? schedule.registrations
+        : (jam.registrations || []).filter((r) => r.scheduleId === id)
+    return registrations
+      .filter(isActiveRegistration)
+      .map((r) => r.musician?.name)
+      .filter(Boolean)
+      .join(', ')
+  }
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box w-11/12 max-w-4xl">
+        <h3 className="font-bold text-lg mb-1">✨ {t('setlist_builder.title')}</h3>
+        <p className="text-sm text-base-content/70 mb-4">{t('setlist_builder.description')}</p>
+
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <label className="form-control">
+            <span className="label-text text-sm mb-1">{t('setlist_builder.time_budget')}</span>
+            <input
+              type="number"
+              min={0}
+              className="input input-bordered input-sm w-40"
+              placeholder={t('setlist_builder.no_limit')}
+              value={budgetMinutes}
+              onChange={(e) => setBudgetMinutes(e.target.value)}
+            />
+          </label>
+          <div className="text-sm">
+            {t('setlist_builder.back_to_back', {
+              before: proposal.backToBackBefore,
+              after: proposal.backToBackAfter,
+            })}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[60vh] overflow-y-auto">
+          <div className="bg-base-200 rounded-lg p-3">
+            <p className="text-xs font-semibold uppercase text-base-content/60 mb-2">
+              {t('setlist_builder.current')} · {t('setlist_builder.pin_hint')}
+            </p>
+            <ol className="space-y-1 text-sm">
+              {currentOrder.map((id, index) => {
+                const schedule = byId.get(id)!
+                const locked = schedule.status !== 'SCHEDULED'
+                return (
+                  <li key={id} className="flex items-center gap-2">
+                    <span className="w-6 text-right text-base-content/60">{index + 1}.</span>
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-xs"
+                      checked={locked || pinnedIds.includes(id)}
+                      disabled={locked}
+                      onChange={() => togglePin(id)}
+                      aria-label={t('setlist_builder.pin')}
+                    />
+                    <span className="truncate">{schedule.music?.title}</span>
+                  </li>
+                )
+              })}
+            </ol>
+          </div>
+
+          <div className="bg-primary/10 border border-primary/30 rounded-lg p-3">
+            <p className="text-xs font-semibold uppercase text-base-content/60 mb-2">{t('setlist_builder.proposed')}</p>
+            <ol className="space-y-1 text-sm">
+              {proposal.order.map((id, index) => {
+                const moved = currentOrder.indexOf(id) - index
+                return (
+                  <li key={id} className="flex items-center gap-2">
+                    <span className="w-6 text-right text-base-content/60">{index + 1}.</span>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate">
+                        {byId.get(id)?.music?.title}
+                        {proposal.overBudgetIds.includes(id) && (
+                          <span className="badge badge-warning badge-xs ml-2">{t('setlist_builder.over_budget')}</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-base-content/60 truncate">{getMusicians(id)}</p>
+                    </div>
+                    {moved !== 0 && (
+                      <span className={`text-xs font-semibold ${moved > 0 ? 'text-success' : 'text-warning'}`}>
+                        {moved > 0 ? `↑${moved}` : `↓${-moved}`}
+                      </span>
+                    )}
+                  </li>
+                )
+              })}
+            </ol>
+          </div>
+        </div>
+
+        <div className="modal-action">
+          <button className="btn btn-ghost" onClick={onClose} disabled={loading}>
+            {t('common.cancel')}
+          </button>
+          <button className="btn btn-primary" onClick={() => onApply(proposal.order)} disabled={loading || unchanged}>
+            {loading && <span className="loading loading-spinner loading-sm"></span>}
+            {unchanged ? t('setlist_builder.already_optimal') : t('setlist_builder.apply')}
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={loading ? undefined : onClose}></div>
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+/**
+ * Setlist Export Menu Component
+ * Exports the ordered setlist and lineup as CSV, a printable stage sheet or PDF
+ */
+
+import {useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import type {JamResponseDto} from '../../types/api.types'
+import {
+  buildSetlistPdf,
+  buildSetlistRows,
+  buildStageSheetHtml,
+  getExportFileName,
+  type SetlistExportFormat,
+  type SetlistExportLabels,
+  toSetlistCsv,
+} from '../../utils/setlistExport'
+
+interface SetlistExportMenuProps {
+  jam: JamResponseDto
+  onError?: (message: string) => void
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function SetlistExportMenu({ jam, onError }: SetlistExportMenuProps) {
+  const { t } = useTranslation()
+  const [exporting, setExporting] = useState<SetlistExportFormat | null>(null)
+
+  const rows = buildSetlistRows(jam, t)
+
+  const labels: SetlistExportLabels = {
+    position: t('setlist_export.columns.position'),
+    title: t('setlist_export.columns.title'),
+    artist: t('setlist_export.columns.artist'),
+    duration: t('setlist_export.columns.duration'),
+    status: t('setlist_export.columns.status'),
+    lineup: t('setlist_export.columns.lineup'),
+    totalDuration: t('setlist_export.total_duration'),
+    generatedAt: t('setlist_export.generated_at'),
+    statuses: {
+      SUGGESTED: t('schedule.statuses.suggested'),
+      SCHEDULED: t('schedule.statuses.scheduled'),
+      IN_PROGRESS: t('schedule.statuses.in_progress'),
+      COMPLETED: t('schedule.statuses.completed'),
+      CANCELED: t('schedule.statuses.canceled'),
+    },
+  }
+
+  const handleExport = async (format: SetlistExportFormat) => {
+    setExporting(format)
+    try {
+      if (format === 'csv') {
+        // BOM so spreadsheet apps read accented names as UTF-8
+        const csv = toSetlistCsv(rows, labels)
+        downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), getExportFileName(jam, 'csv'))
+      } else if (format === 'html') {
+        const printWindow = window.open('', '_blank')
+        if (!printWindow) {
+          onError?.(t('setlist_export.popup_blocked'))
+          return
+        }
+        printWindow.document.write(buildStageSheetHtml(jam, rows, labels))
+        printWindow.document.close()
+        printWindow.focus()
+        printWindow.print()
+      } else {
+        const pdf = await buildSetlistPdf(jam, rows, labels)
+        downloadBlob(pdf, getExportFileName(jam, 'pdf'))
+      }
+    } catch (err) {
+      console.error('❌ Error exporting setlist:', err)
+      onError?.(t('setlist_export.failed'))
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="dropdown dropdown-end">
+      <button tabIndex={0} className="btn btn-outline" disabled={rows.length === 0 || exporting !== null}>
+        {exporting ? <span className="loading loading-spinner loading-sm"></span> : '📤'}
+        {t('setlist_export.button')}
+      </button>
+      <ul tabIndex={0} className="dropdown-content menu bg-base-200 rounded-box z-10 w-56 p-2 shadow">
+        <li>
+          <button onClick={() => void handleExport('csv')}>📄 {t('setlist_export.csv')}</button>
+        </li>
+        <li>
+          <button onClick={() => void handleExport('html')}>🖨️ {t('setlist_export.print')}</button>
+        </li>
+        <li>
+          <button onClick={() => void handleExport('pdf')}>📕 {t('setlist_export.pdf')}</button>
+        </li>
+      </ul>
+    </div>
+  )
+}
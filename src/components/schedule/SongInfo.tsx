@@ -4,6 +4,8 @@
  */
 import type {MusicResponseDto} from "../../types/api.types.ts";
 import {useTranslation} from 'react-i18next'
+import {getInstrumentDefinition} from '../../lib/instruments'
+import {getMusicSlots} from '../../utils/instrumentSlots'
 
 interface SongInfoProps {
     music: MusicResponseDto
@@ -11,7 +13,7 @@ interface SongInfoProps {
 
 export function SongInfo({music}: SongInfoProps) {
     const { t } = useTranslation()
-    const {title, artist, duration, genre, neededDrums, neededKeys, neededVocals, neededGuitars, neededBass} = music;
+    const {title, artist, duration, genre} = music;
 
     return (
         <div className="flex-1 min-w-0">
@@ -23,11 +25,11 @@ export function SongInfo({music}: SongInfoProps) {
             {/* Needed Musicians Badges - Inline with Duration */}
             <div className="flex flex-wrap gap-1 mt-1">
                 {duration && (<span className="badge badge-m">⏱️ {Math.floor(duration / 60)}:{String(duration % 60).padStart(2, '0')}</span>)}
-                {(neededDrums || 0) > 0 && (<span className="badge badge-m">🥁 {neededDrums}</span>)}
-                {(neededGuitars || 0) > 0 && (<span className="badge badge-m">🎸 {neededGuitars}</span>)}
-                {(neededVocals || 0) > 0 && (<span className="badge badge-m">🎤 {neededVocals}</span>)}
-                {(neededBass || 0) > 0 && (<span className="badge badge-m">🎸 {neededBass}</span>)}
-                {(neededKeys || 0) > 0 && (<span className="badge badge-m">🎹 {neededKeys}</span>)}
+                {getMusicSlots(music).map((slot) => (
+                    <span key={slot.instrument} className="badge badge-m">
+                        {getInstrumentDefinition(slot.instrument)?.emoji ?? '🎵'} {slot.count}
+                    </span>
+                ))}
             </div>
         </div>
     )
@@ -0,0 +1,124 @@
+/**
+ * Substitute Finder Modal Component
+ * Ranks the musicians of the jam who could fill an open instrument slot of a song
+ * and lets the host assign one in a click
+ */
+
+import {useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import type {
+  JamResponseDto,
+  RepertoireEntryResponseDto,
+  ScheduleResponseDto,
+} from '../../types/api.types'
+import {registrationService} from '../../services/registrationService'
+import {getInstrumentLabel} from '../../lib/instruments'
+import {findSubstitutes} from '../../utils/substitutes'
+import {getInstrumentIcon} from './RegistrationList'
+
+interface SubstituteFinderModalProps {
+  schedule: ScheduleResponseDto
+  // Registry ID of the open slot
+  instrument: string
+  jam: JamResponseDto
+  // Repertoire entries of the jam's songs
+  repertoire: RepertoireEntryResponseDto[]
+  onClose: () => void
+  onSuccess: () => void
+}
+
+export function SubstituteFinderModal({
+  schedule,
+  instrument,
+  jam,
+  repertoire,
+  onClose,
+  onSuccess,
+}: SubstituteFinderModalProps) {
+  const { t } = useTranslation()
+  const [assigningId, setAssigningId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const candidates = findSubstitutes(schedule, instrument, jam, repertoire)
+
+  const handleAssign = async (musicianId: string) => {
+    setAssigningId(musicianId)
+    setError(null)
+    try {
+      await registrationService.create({
+        musicianId,
+        scheduleId: schedule.id,
+        instrument,
+      })
+      onSuccess()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.failed_to_register_musician'))
+    } finally {
+      setAssigningId(null)
+    }
+  }
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-lg">
+        <h3 className="font-bold text-lg">🔄 {t('substitutes.title')}</h3>
+        <p className="text-sm text-base-content/70 mb-4">
+          {schedule.music?.title || t('schedule.song_tba')} · {getInstrumentIcon(instrument)} {getInstrumentLabel(instrument, t)}
+        </p>
+
+        {/* Error Alert */}
+        {error && (
+          <div className="alert alert-error mb-4">
+            <p>{error}</p>
+          </div>
+        )}
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-base-content/60 italic text-center py-6">{t('substitutes.none')}</p>
+        ) : (
+          <>
+            <p className="text-xs text-base-content/60 mb-2">{t('substitutes.ranking_hint')}</p>
+            <ol className="space-y-2">
+              {candidates.map((candidate, index) => (
+                <li key={candidate.musician.id} className="flex flex-wrap items-center gap-2 p-2 bg-base-200 rounded">
+                  <span className="badge badge-neutral">{index + 1}</span>
+                  <span className="flex-1 min-w-0 font-semibold truncate">{candidate.musician.name}</span>
+                  {candidate.repertoire && (
+                    <span className={`badge badge-sm ${candidate.repertoire === 'READY' ? 'badge-success' : 'badge-info'}`}>
+                      {t(`repertoire.status.${candidate.repertoire}`)}
+                    </span>
+                  )}
+                  <span className="badge badge-sm badge-ghost">{t(`schedule.levels.${candidate.level}`)}</span>
+                  <span className="text-xs text-base-content/60">
+                    {t('substitutes.played_tonight', { songs: candidate.songsPlayed })}
+                    {' · '}
+                    {candidate.distance === null
+                      ? t('substitutes.no_other_slots')
+                      : t('substitutes.distance', { songs: candidate.distance })}
+                  </span>
+                  <button
+                    onClick={() => void handleAssign(candidate.musician.id)}
+                    className="btn btn-xs btn-primary"
+                    disabled={assigningId !== null}
+                  >
+                    {assigningId === candidate.musician.id
+                      ? <span className="loading loading-spinner loading-xs"></span>
+                      : t('substitutes.assign')}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+
+        {/* Modal Actions */}
+        <div className="modal-action">
+          <button onClick={onClose} className="btn btn-ghost" disabled={assigningId !== null}>
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onClose}></div>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+/**
+ * Up Soon Panel Component
+ * A musician's upcoming songs in a live jam: "you're up soon" alerts, alert settings
+ * and the "I'm ready" signal for the host
+ */
+
+import {useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import type {UseUpSoonNotificationsResult} from '../../hooks/useUpSoonNotifications'
+import {getAlertMessage} from '../../hooks/useUpSoonNotifications'
+import {UP_SOON_THRESHOLD_OPTIONS, type UpcomingSlot} from '../../utils/upcomingSlots'
+import {getInstrumentIcon} from './RegistrationList'
+import {getInstrumentLabel} from '../../lib/instruments'
+
+interface UpSoonPanelProps {
+  upSoon: UseUpSoonNotificationsResult
+}
+
+export function UpSoonPanel({ upSoon }: UpSoonPanelProps) {
+  const { t } = useTranslation()
+  const [readyError, setReadyError] = useState<string | null>(null)
+  const { slots, alerts, readyScheduleIds } = upSoon
+
+  if (slots.length === 0 && alerts.length === 0) return null
+
+  const handleReady = (scheduleId: string) => {
+    setReadyError(upSoon.confirmReady(scheduleId) ? null : t('up_soon.ready_failed'))
+  }
+
+  const getPositionLabel = (slot: UpcomingSlot): string => {
+    if (slot.songsAway === 0) return t('up_soon.on_stage')
+    if (slot.songsAway === 1) return t('up_soon.next')
+    return t('up_soon.position_songs_away', { songs: slot.songsAway })
+  }
+
+  const renderReadyButton = (scheduleId: string, size: 'btn-xs' | 'btn-sm') =>
+    readyScheduleIds.has(scheduleId) ? (
+      <span className="badge badge-success gap-1">✅ {t('up_soon.ready_sent')}</span>
+    ) : (
+      <button onClick={() => handleReady(scheduleId)} className={`btn ${size} btn-success`}>
+        🙋 {t('up_soon.confirm_ready')}
+      </button>
+    )
+
+  return (
+    <div className="space-y-3">
+      {/* Alerts */}
+      {alerts.map((alert) => (
+        <div key={alert.scheduleId} role="alert" className="alert alert-warning shadow-lg">
+          <span className="text-2xl">🎶</span>
+          <p className="flex-1 font-semibold">{getAlertMessage(alert, t)}</p>
+          <div className="flex gap-2">
+            {renderReadyButton(alert.scheduleId, 'btn-sm')}
+            <button
+              onClick={() => upSoon.dismissAlert(alert.scheduleId)}
+              className="btn btn-sm btn-ghost"
+              aria-label={t('common.close')}
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {readyError && (
+        <div role="alert" className="alert alert-error py-2 text-sm">
+          <span className="flex-1">{readyError}</span>
+          <button onClick={() => setReadyError(null)} className="btn btn-xs btn-ghost">✕</button>
+        </div>
+      )}
+
+      {/* Upcoming slots */}
+      {slots.length > 0 && (
+        <div className="card bg-base-200 border border-primary/30">
+          <div className="card-body p-3 sm:p-6 space-y-3">
+            <h2 className="card-title text-base sm:text-lg">🎤 {t('up_soon.title')}</h2>
+
+            <ul className="space-y-2">
+              {slots.map((slot) => (
+                <li key={slot.schedule.id} className="flex flex-wrap items-center gap-2 p-2 bg-base-100 rounded">
+                  <span className={`badge ${slot.songsAway <= 1 ? 'badge-warning' : 'badge-info'}`}>
+                    {getPositionLabel(slot)}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate font-semibold">
+                    {slot.schedule.music?.title || t('schedule.song_tba')}
+                  </span>
+                  <span className="text-sm text-base-content/70 flex items-center gap-1">
+                    {getInstrumentIcon(slot.instrument)} {getInstrumentLabel(slot.instrument, t)}
+                  </span>
+                  {slot.songsAway > 0 && renderReadyButton(slot.schedule.id, 'btn-xs')}
+                </li>
+              ))}
+            </ul>
+
+            {/* Alert settings */}
+            <div className="space-y-1">
+              <p className="text-xs font-semibold text-base-content/70">{t('up_soon.alert_me')}</p>
+              <div className="flex flex-wrap gap-3">
+                {UP_SOON_THRESHOLD_OPTIONS.map((threshold) => (
+                  <label key={threshold} className="label cursor-pointer gap-2 p-0">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-xs checkbox-primary"
+                      checked={upSoon.thresholds.includes(threshold)}
+                      onChange={(e) =>
+                        upSoon.setThresholds(
+                          e.target.checked
+                            ? [...upSoon.thresholds, threshold]
+                            : upSoon.thresholds.filter((value) => value !== threshold)
+                        )
+                      }
+                    />
+                    <span className="label-text text-xs">
+                      {threshold === 1 ? t('up_soon.next') : t('up_soon.position_songs_away', { songs: threshold })}
+                    </span>
+                  </label>
+                ))}
+              </div>
+              {upSoon.notificationPermission === 'default' && (
+                <button onClick={() => void upSoon.requestNotificationPermission()} className="btn btn-xs btn-outline">
+                  🔔 {t('up_soon.enable_notifications')}
+                </button>
+              )}
+              {upSoon.notificationPermission === 'denied' && (
+                <p className="text-xs text-base-content/60">{t('up_soon.notifications_blocked')}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -7,4 +7,11 @@ export { NeededMusiciansDisplay } from './NeededMusiciansDisplay'
 export { ScheduleDisplayItem } from './ScheduleDisplayItem'
 export { ScheduleEnrollmentModal } from './ScheduleEnrollmentModal'
 export { HostMusicianRegistrationModal } from './HostMusicianRegistrationModal'
+export { SubstituteFinderModal } from './SubstituteFinderModal'
 export { LiveJamControlPanel } from './LiveJamControlPanel'
+export { ScheduleConflictDialog } from './ScheduleConflictDialog'
+export { SetlistExportMenu } from './SetlistExportMenu'
+export { SetlistBuilderDialog } from './SetlistBuilderDialog'
+export { UpSoonPanel } from './UpSoonPanel'
+export { RepertoireMatchesPanel } from './RepertoireMatchesPanel'
+export { MusicianReadinessList } from './MusicianReadinessList'
@@ -5,6 +5,7 @@
 
 import {createContext, type ReactNode, useCallback, useEffect, useRef, useState} from 'react'
 import type {AuthContextType, AuthUser, UpdateProfileDto, UserRole} from '../types/auth.types'
+import type {MusicianInstrumentDto} from '../types/api.types'
 import type {OAuthProvider} from '../lib/supabase'
 import {
   getCurrentSession,
@@ -24,6 +25,9 @@ import {
   updateMusicianProfile,
   updateProfile as updateProfileService
 } from '../services/backendAuthService'
+import {getQueryCache} from '../services/queryCache'
+import {clearOfflineSnapshots} from '../services/offlineCache'
+import {toLegacyMusicianFields} from '../utils/musicianInstruments'
 
 /**
  * Create the Authentication Context
@@ -341,6 +345,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       // Clear local state
       clearAuth()
+      getQueryCache().clear()
+      void clearOfflineSnapshots()
       localStorage.removeItem('auth_user')
       setUser(null)
       setRoleState('viewer')
@@ -350,6 +356,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.error('Logout failed:', err)
       // Still clear local state even if API calls fail
       clearAuth()
+      getQueryCache().clear()
+      void clearOfflineSnapshots()
       localStorage.removeItem('auth_user')
       setUser(null)
       setRoleState('viewer')
@@ -422,9 +430,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [user])
 
   /**
-   * Complete onboarding - update instrument/genre preferences
+   * Complete onboarding - update instruments/genre preferences
    */
-  const completeOnboarding = useCallback(async (instrument: string, genre: string, profileData?: { name?: string; phone?: string }): Promise<{ success: boolean; error?: string }> => {
+  const completeOnboarding = useCallback(async (instruments: MusicianInstrumentDto[], genre: string, profileData?: { name?: string; phone?: string }): Promise<{ success: boolean; error?: string }> => {
     if (!user) {
       return { success: false, error: 'Not authenticated' }
     }
@@ -435,8 +443,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     try {
-      // Prepare update object with instrument, genre, and optional name/phone
-      const updatePayload: any = { instrument, genre }
+      // Prepare update object with instruments (plus the legacy primary instrument/level), genre, and optional name/phone
+      const instrumentFields = instruments.length > 0 ? { instruments, ...toLegacyMusicianFields(instruments) } : {}
+      const updatePayload: any = { ...instrumentFields, genre }
       if (profileData?.name) updatePayload.name = profileData.name
       if (profileData?.phone) updatePayload.phone = profileData.phone
 
@@ -444,7 +453,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       if (result.success) {
         // Update local user state
-        const updatedUser = { ...user, instrument, genre }
+        const updatedUser = { ...user, ...instrumentFields, genre }
         if (profileData?.name) updatedUser.name = profileData.name
         if (profileData?.phone) updatedUser.phone = profileData.phone
 
@@ -10,8 +10,9 @@ import type {
   RegistrationResponseDto,
   ScheduleResponseDto,
 } from '../types/api.types'
-import {jamService} from '../services'
+import {getQueryCache, getSocketService, jamService, queryKeys} from '../services'
 import {useAuth} from '../hooks'
+import {JAM_UPDATE_EVENTS} from '../lib/socket'
 
 export type UserRole = 'host' | 'musician' | 'public' | null
 
@@ -42,6 +43,13 @@ const JamContext = createContext<JamContextType | undefined>(undefined)
 
 export { JamContext }
 
+/**
+ * Fetch a jam through the shared query cache (shared with useJam, deduplicated)
+ */
+function fetchJam(id: string, force = false): Promise<JamResponseDto> {
+  return getQueryCache().fetch(queryKeys.jams.detail(id), (signal) => jamService.findOne(id, { signal }).then((res) => res.data), { force })
+}
+
 /**
  * JamProvider component
  * Wraps components to provide jam context and socket connection
@@ -58,7 +66,7 @@ export function JamProvider({ children }: { children: ReactNode }) {
   const [userRole, setUserRole] = useState<UserRole>(null)
 
   const activeJamIdRef = useRef<string | null>(null)
-
+  const refreshTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   // Derive current performance from schedule
   // Find the schedule with IN_PROGRESS status
@@ -126,17 +134,25 @@ export function JamProvider({ children }: { children: ReactNode }) {
         setIsLoading(true)
         setError(null)
 
-        // Use REST to fetch initial state
-        const resp = await jamService.findOne(newJamId)
-        if (resp && resp.data) {
-          setJam(resp.data)
-          setUserRole(determineUserRole(resp.data))
-          setIsConnected(true)
+        // Use REST to fetch initial state (served from the cache when fresh)
+        const data = await fetchJam(newJamId)
+        const role = determineUserRole(data)
+        if (data) {
+          setJam(data)
+          setUserRole(role)
+        }
+
+        // Leave the previous room before switching jams
+        if (activeJamIdRef.current && activeJamIdRef.current !== newJamId) {
+          getSocketService().leaveJam(activeJamIdRef.current)
         }
 
         activeJamIdRef.current = newJamId
         setJamId(newJamId)
 
+        // Subscribe to live updates for the jam room
+        getSocketService().joinJam(newJamId, role ?? 'public')
+
         console.log('✅ Joined jam:', newJamId)
       } catch (err) {
         const errorObj = err instanceof Error ? err : new Error(String(err))
@@ -156,11 +172,14 @@ export function JamProvider({ children }: { children: ReactNode }) {
    */
   const leaveJam = useCallback(async () => {
     try {
+      if (activeJamIdRef.current) {
+        getSocketService().leaveJam(activeJamIdRef.current)
+      }
+
       activeJamIdRef.current = null
       setJamId(null)
       setJam(null)
       setUserRole(null)
-      setIsConnected(false)
 
       console.log('✅ Left jam')
     } catch (err) {
@@ -173,6 +192,7 @@ export function JamProvider({ children }: { children: ReactNode }) {
    * Update jam state helper (exposed to consumers)
    */
   const updateJamState = useCallback((newJam: JamResponseDto) => {
+    getQueryCache().setData(queryKeys.jams.detail(newJam.id), newJam)
     setJam(newJam)
   }, [])
 
@@ -182,16 +202,65 @@ export function JamProvider({ children }: { children: ReactNode }) {
   const requestStateRefresh = useCallback(async () => {
     try {
       if (!activeJamIdRef.current) return
-      const resp = await jamService.findOne(activeJamIdRef.current)
-      if (resp && resp.data) {
-        setJam(resp.data)
-        setUserRole(determineUserRole(resp.data))
+      const data = await fetchJam(activeJamIdRef.current, true)
+      if (data) {
+        setJam(data)
+        setUserRole(determineUserRole(data))
       }
     } catch (err) {
       console.error('❌ Failed to request state refresh:', err)
     }
   }, [determineUserRole])
 
+  // Follow the cached jam so mutations elsewhere (invalidation) and other readers update the context
+  useEffect(() => {
+    if (!jamId) return
+    const cache = getQueryCache()
+    const key = queryKeys.jams.detail(jamId)
+
+    return cache.subscribe(key, () => {
+      const { data } = cache.getState<JamResponseDto>(key)
+      if (data && activeJamIdRef.current === jamId) {
+        setJam(data)
+        setUserRole(determineUserRole(data))
+      }
+    })
+  }, [jamId, determineUserRole])
+
+  // Track socket connection state
+  useEffect(() => {
+    const socketService = getSocketService()
+    setIsConnected(socketService.isConnected())
+
+    return socketService.onConnectionStateChange((state) => {
+      setIsConnected(state === 'connected')
+    })
+  }, [])
+
+  // Refresh jam state when the server pushes an update for the active jam
+  // Bursts of events (e.g. two status changes on "next song") are coalesced into one refresh
+  useEffect(() => {
+    const socketService = getSocketService()
+
+    const unsubscribers = JAM_UPDATE_EVENTS.map((event) =>
+      socketService.on(event, (payload) => {
+        if (!activeJamIdRef.current) return
+        if (payload.jamId && payload.jamId !== activeJamIdRef.current) return
+
+        if (refreshTimeoutRef.current) clearTimeout(refreshTimeoutRef.current)
+        refreshTimeoutRef.current = setTimeout(() => {
+          refreshTimeoutRef.current = null
+          void requestStateRefresh()
+        }, 250)
+      })
+    )
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+      if (refreshTimeoutRef.current) clearTimeout(refreshTimeoutRef.current)
+    }
+  }, [requestStateRefresh])
+
   const value: JamContextType = {
     jamId,
     jam,
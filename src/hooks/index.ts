@@ -24,17 +24,40 @@ export { useRegistrationsByJam, useRegistrationsByMusician } from './useRegistra
 // Schedule hooks
 export { useScheduleByJam, useScheduleByMusician } from './useSchedule'
 
+// Repertoire hooks
+export { useRepertoireByMusician, useRepertoireByJam } from './useRepertoire'
+
 
 // Jam state hook
 export { useJamState } from './useJamState'
 
-// Dashboard live hook (polling for public dashboard)
+// Dashboard live hook (push updates with polling fallback for public dashboard)
 export { useDashboardLive, type UseDashboardLiveReturn } from './useDashboardLive'
 
+// Socket hooks (connection state and server events)
+export { useSocketConnection, useSocketEvent, useJamRoom, type SocketConnectionInfo } from './useSocket'
+
+// Schedule status transitions (state machine bound to the user's role)
+export { useScheduleTransitions, type UseScheduleTransitionsResult } from './useScheduleTransitions'
+
+// Live queue transitions (advance / rewind / repair)
+export { useQueueTransitions, type QueueTransitionResult, type UseQueueTransitionsResult } from './useQueueTransitions'
+
+// Song on stage timer, ticking clock and overrun warning setting
+export { useSongTimer, useNow, useOverrunWarningSetting, type UseSongTimerResult } from './useSongTimer'
+
+// "You're up soon" alerts for musicians, and the host's view of who is ready
+export { useUpSoonNotifications, type UseUpSoonNotificationsResult } from './useUpSoonNotifications'
+export { useMusicianReadiness, type UseMusicianReadinessResult } from './useMusicianReadiness'
+
+// Interval polling with the latest callback
+export { usePolling } from './usePolling'
+
 // Offline queue hook
 export { useOfflineQueue, type OfflineQueueState } from './useOfflineQueue'
 
 // UI utility hooks
+export { useSortableList, type UseSortableListResult, type SortableHandleProps } from './useSortableList'
 export { useAppLanguage } from './useAppLanguage'
 export { useFullscreen } from './useFullscreen'
 export { useConfettiOnSongChange, type UseConfettiOnSongChangeOptions } from './useConfettiOnSongChange'
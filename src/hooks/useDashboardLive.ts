@@ -1,13 +1,34 @@
 /**
  * useDashboardLive Hook
- * Dashboard-specific polling hook for live jam data
- * Polls the /jams/{id}/live/dashboard endpoint with configurable interval
+ * Dashboard-specific hook for live jam data
+ * Refreshes the /jams/{id}/live/dashboard endpoint when the jam room pushes an update,
+ * and falls back to polling with configurable interval while the live channel is unavailable
  */
 
 import {useCallback, useEffect, useRef, useState} from 'react'
 import {jamService} from '../services'
+import {isCancelledError} from '../lib/api'
 import {compareDashboardSnapshots} from '../utils/dashboardDiff'
+import {SOCKET_EVENTS} from '../lib/socket'
+import {useJamRoom} from './useSocket'
 import type {LiveDashboardResponseDto} from '../types/api.types'
+import type {ServerEventName} from '../types/socket.types'
+
+/**
+ * Server events that change what the dashboard shows
+ */
+const DASHBOARD_UPDATE_EVENTS: ServerEventName[] = [
+  SOCKET_EVENTS.server.currentPerformance,
+  SOCKET_EVENTS.server.scheduleStatusChanged,
+  SOCKET_EVENTS.server.scheduleCreated,
+  SOCKET_EVENTS.server.scheduleUpdated,
+  SOCKET_EVENTS.server.registrationApproved,
+  SOCKET_EVENTS.server.jamStatusUpdate,
+  SOCKET_EVENTS.server.stateSync,
+]
+
+// Coalesce bursts of events (e.g. "next song" emits two status changes) into one fetch
+const PUSH_REFRESH_DEBOUNCE_MS = 150
 
 export interface UseDashboardLiveOptions {
   pollingIntervalMs?: number
@@ -26,6 +47,8 @@ export interface UseDashboardLiveReturn {
   // State
   isLoading: boolean
   error: Error | null
+  // Set while the backend is unreachable and the last saved dashboard is shown (ISO time it was saved)
+  cachedAt: string | null
 
   // Controls
   setPollingIntervalMs(ms: number): void
@@ -42,11 +65,22 @@ export function useDashboardLive(
   const prevSnapshotRef = useRef<LiveDashboardResponseDto | null>(null)
   const isPageVisibleRef = useRef<boolean>(true)
   const isOnlineRef = useRef<boolean>(typeof navigator !== 'undefined' ? navigator.onLine : true)
+  const pushRefreshTimerRef = useRef<number | null>(null)
+  // Aborts in-flight dashboard requests when the jam changes or the hook unmounts
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const getSignal = () => {
+    if (!abortControllerRef.current || abortControllerRef.current.signal.aborted) {
+      abortControllerRef.current = new AbortController()
+    }
+    return abortControllerRef.current.signal
+  }
 
   // State
   const [dashboard, setDashboard] = useState<LiveDashboardResponseDto | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<Error | null>(null)
+  const [cachedAt, setCachedAt] = useState<string | null>(null)
 
   /**
    * Fetch dashboard data from API
@@ -56,15 +90,19 @@ export function useDashboardLive(
 
     try {
       setError(null)
-      const resp = await jamService.getLiveDashboard(jamId)
+      const resp = await jamService.getLiveDashboard(jamId, { signal: getSignal() })
       if (resp && resp.data) {
         setDashboard(resp.data)
+        setCachedAt(resp.cachedAt ?? null)
         prevSnapshotRef.current = resp.data
       }
     } catch (err) {
+      if (isCancelledError(err)) return
       const errorObj = err instanceof Error ? err : new Error(String(err))
       setError(errorObj)
       console.error('Dashboard polling error:', err)
+    } finally {
+      setIsLoading(false)
     }
   }, [jamId])
 
@@ -81,14 +119,16 @@ export function useDashboardLive(
   const startPollingLoop = useCallback(() => {
     stopPollingLoop()
 
-    const tick = async () => {
+    // The first fetch also runs offline: it falls back to the last saved dashboard
+    const tick = async (isInitial = false) => {
       try {
         if (!jamId) return
         if (!isPageVisibleRef.current) return
-        if (!isOnlineRef.current) return
+        if (!isOnlineRef.current && !isInitial) return
 
-        const resp = await jamService.getLiveDashboard(jamId)
+        const resp = await jamService.getLiveDashboard(jamId, { signal: getSignal() })
         if (resp && resp.data) {
+          setCachedAt(resp.cachedAt ?? null)
           const changes = compareDashboardSnapshots(prevSnapshotRef.current, resp.data)
           // Only update state when differences exist
           if (Object.keys(changes).length > 0) {
@@ -97,17 +137,18 @@ export function useDashboardLive(
           }
         }
       } catch (err) {
-        console.error('Dashboard polling error:', err)
+        if (!isCancelledError(err)) console.error('Dashboard polling error:', err)
+      } finally {
+        setIsLoading(false)
       }
     }
 
     // Initial immediate fetch
-    // eslint-disable-next-line @typescript-eslint/no-floating-promises
-    tick()
+    void tick(true)
 
     // Set up interval if enabled
     if (pollingIntervalMsRef.current > 0) {
-      pollingTimerRef.current = window.setInterval(tick, pollingIntervalMsRef.current) as unknown as number
+      pollingTimerRef.current = window.setInterval(() => void tick(), pollingIntervalMsRef.current) as unknown as number
     }
   }, [jamId])
 
@@ -121,14 +162,33 @@ export function useDashboardLive(
     }
   }, [])
 
+  /**
+   * Live channel: refresh when the public room pushes a relevant update
+   */
+  const { isConnected: isLive } = useJamRoom(
+    options?.enabled === false ? undefined : jamId,
+    'public',
+    (event) => {
+      if (!DASHBOARD_UPDATE_EVENTS.includes(event)) return
+
+      if (pushRefreshTimerRef.current) clearTimeout(pushRefreshTimerRef.current)
+      pushRefreshTimerRef.current = window.setTimeout(() => {
+        pushRefreshTimerRef.current = null
+        void fetchDashboard()
+      }, PUSH_REFRESH_DEBOUNCE_MS)
+    }
+  )
+  const isLiveRef = useRef(isLive)
+
   /**
    * Set polling interval (restarts polling with new interval)
+   * Only applies while the live channel is unavailable
    */
   const setPollingIntervalMs = useCallback(
     (ms: number) => {
       pollingIntervalMsRef.current = Math.max(0, Math.floor(ms))
       // Restart polling with new interval
-      if (jamId) {
+      if (jamId && !isLiveRef.current) {
         startPollingLoop()
       }
     },
@@ -136,21 +196,41 @@ export function useDashboardLive(
   )
 
   /**
-   * Initialize polling on mount and when jamId changes
+   * Reset data when jamId changes
    */
   useEffect(() => {
     if (!jamId) return
 
     setIsLoading(true)
     setDashboard(null)
+    setCachedAt(null)
     prevSnapshotRef.current = null
 
+    return () => {
+      abortControllerRef.current?.abort()
+    }
+  }, [jamId])
+
+  /**
+   * Poll only while the live channel is unavailable
+   * Switching to live does one fetch to catch up on anything missed
+   */
+  useEffect(() => {
+    isLiveRef.current = isLive
+    if (!jamId || options?.enabled === false) return
+
+    if (isLive) {
+      stopPollingLoop()
+      void fetchDashboard()
+      return
+    }
+
     startPollingLoop()
 
     return () => {
       stopPollingLoop()
     }
-  }, [jamId, startPollingLoop, stopPollingLoop])
+  }, [jamId, isLive, options?.enabled, fetchDashboard, startPollingLoop, stopPollingLoop])
 
   /**
    * Handle page visibility changes
@@ -160,8 +240,7 @@ export function useDashboardLive(
       isPageVisibleRef.current = !document.hidden
       // Trigger immediate refresh when page becomes visible
       if (isPageVisibleRef.current && jamId) {
-        // eslint-disable-next-line @typescript-eslint/no-floating-promises
-        fetchDashboard()
+        void fetchDashboard()
       }
     }
 
@@ -178,8 +257,7 @@ export function useDashboardLive(
     const onOnline = () => {
       isOnlineRef.current = true
       if (jamId) {
-        // eslint-disable-next-line @typescript-eslint/no-floating-promises
-        fetchDashboard()
+        void fetchDashboard()
       }
     }
 
@@ -202,6 +280,8 @@ export function useDashboardLive(
   useEffect(() => {
     return () => {
       stopPollingLoop()
+      if (pushRefreshTimerRef.current) clearTimeout(pushRefreshTimerRef.current)
+      abortControllerRef.current?.abort()
     }
   }, [stopPollingLoop])
 
@@ -214,6 +294,7 @@ export function useDashboardLive(
     nextSongs: dashboard?.nextSongs ?? [],
     isLoading,
     error,
+    cachedAt,
     setPollingIntervalMs,
     refresh,
   }
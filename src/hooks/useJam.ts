@@ -4,7 +4,7 @@
  */
 
 import {useQuery, type UseQueryResult} from './useQuery'
-import {jamService} from '../services'
+import {jamService, queryKeys} from '../services'
 import type {JamResponseDto} from '../types/api.types'
 
 /**
@@ -14,13 +14,13 @@ import type {JamResponseDto} from '../types/api.types'
  */
 export function useJam(id: string): UseQueryResult<JamResponseDto> {
   return useQuery(
-    () => {
+    queryKeys.jams.detail(id),
+    (signal) => {
       if (!id || id.trim() === '') {
         return Promise.resolve(null as unknown as JamResponseDto)
       }
-      return jamService.findOne(id).then((res) => res.data)
-    },
-    [id]
+      return jamService.findOne(id, { signal }).then((res) => res.data)
+    }
   )
 }
 
@@ -30,8 +30,8 @@ export function useJam(id: string): UseQueryResult<JamResponseDto> {
  */
 export function useJams(): UseQueryResult<JamResponseDto[]> {
   return useQuery(
-    () => jamService.findAll().then((res) => res.data ?? []),
-    []
+    queryKeys.jams.list(),
+    (signal) => jamService.findAll({ signal }).then((res) => res.data ?? [])
   )
 }
 
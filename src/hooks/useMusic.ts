@@ -4,7 +4,7 @@
  */
 
 import {useQuery, type UseQueryResult} from './useQuery'
-import {musicService} from '../services'
+import {musicService, queryKeys} from '../services'
 import type {ApiResponse, MusicResponseDto} from '../types/api.types'
 
 /**
@@ -14,13 +14,13 @@ import type {ApiResponse, MusicResponseDto} from '../types/api.types'
  */
 export function useMusic(id: string): UseQueryResult<MusicResponseDto> {
   return useQuery(
-    () => {
+    queryKeys.music.detail(id),
+    (signal) => {
       if (!id || id.trim() === '') {
         return Promise.resolve(null as unknown as MusicResponseDto)
       }
-      return musicService.findOne(id).then((res: ApiResponse<MusicResponseDto>) => res.data)
-    },
-    [id]
+      return musicService.findOne(id, { signal }).then((res: ApiResponse<MusicResponseDto>) => res.data)
+    }
   )
 }
 
@@ -30,8 +30,8 @@ export function useMusic(id: string): UseQueryResult<MusicResponseDto> {
  */
 export function useAllMusic(): UseQueryResult<MusicResponseDto[]> {
   return useQuery(
-    () => musicService.findAll().then((res: ApiResponse<MusicResponseDto[]>) => res.data ?? []),
-    []
+    queryKeys.music.list(),
+    (signal) => musicService.findAll({ signal }).then((res: ApiResponse<MusicResponseDto[]>) => res.data ?? [])
   )
 }
 
@@ -42,13 +42,13 @@ export function useAllMusic(): UseQueryResult<MusicResponseDto[]> {
  */
 export function useMusicByJam(jamId: string): UseQueryResult<MusicResponseDto[]> {
   return useQuery(
-    () => {
+    queryKeys.music.byJam(jamId),
+    (signal) => {
       if (!jamId || jamId.trim() === '') {
         return Promise.resolve([])
       }
-      return musicService.findByJam(jamId).then((res: ApiResponse<MusicResponseDto[]>) => res.data ?? [])
-    },
-    [jamId]
+      return musicService.findByJam(jamId, { signal }).then((res: ApiResponse<MusicResponseDto[]>) => res.data ?? [])
+    }
   )
 }
 
@@ -4,7 +4,7 @@
  */
 
 import {useQuery, type UseQueryResult} from './useQuery'
-import {musicianService} from '../services'
+import {musicianService, queryKeys} from '../services'
 import type {ApiResponse, MusicianResponseDto} from '../types/api.types'
 
 /**
@@ -14,13 +14,13 @@ import type {ApiResponse, MusicianResponseDto} from '../types/api.types'
  */
 export function useMusician(id: string): UseQueryResult<MusicianResponseDto> {
   return useQuery(
-    () => {
+    queryKeys.musicians.detail(id),
+    (signal) => {
       if (!id || id.trim() === '') {
         return Promise.resolve(null as unknown as MusicianResponseDto)
       }
-      return musicianService.findOne(id).then((res: ApiResponse<MusicianResponseDto>) => res.data)
-    },
-    [id]
+      return musicianService.findOne(id, { signal }).then((res: ApiResponse<MusicianResponseDto>) => res.data)
+    }
   )
 }
 
@@ -30,8 +30,8 @@ export function useMusician(id: string): UseQueryResult<MusicianResponseDto> {
  */
 export function useMusicians(): UseQueryResult<MusicianResponseDto[]> {
   return useQuery(
-    () => musicianService.findAll().then((res: ApiResponse<MusicianResponseDto[]>) => res.data ?? []),
-    []
+    queryKeys.musicians.list(),
+    (signal) => musicianService.findAll({ signal }).then((res: ApiResponse<MusicianResponseDto[]>) => res.data ?? [])
   )
 }
 
@@ -0,0 +1,47 @@
+/**
+ * useMusicianReadiness Hook
+ * Collects the musician:ready signals of a jam (host room) so the host can see
+ * who is ready for the songs coming up
+ */
+
+import {useCallback, useEffect, useState} from 'react'
+import type {MusicianReadyPayload} from '../types/socket.types'
+import {useSocketEvent} from './useSocket'
+
+export interface UseMusicianReadinessResult {
+  // Musician IDs that signalled ready, by schedule ID
+  readyBySchedule: Map<string, Set<string>>
+  isReady: (scheduleId: string, musicianId: string) => boolean
+}
+
+/**
+ * Hook for the host's readiness indicators
+ * The host room must be joined (useJamRoom(jamId, 'host'))
+ * @example
+ * const readiness = useMusicianReadiness(jamId)
+ * readiness.isReady(schedule.id, registration.musicianId)
+ */
+export function useMusicianReadiness(jamId: string | null | undefined): UseMusicianReadinessResult {
+  const [readyBySchedule, setReadyBySchedule] = useState<Map<string, Set<string>>>(new Map())
+
+  // Signals belong to one jam
+  useEffect(() => {
+    setReadyBySchedule(new Map())
+  }, [jamId])
+
+  useSocketEvent('musician:ready', (payload: MusicianReadyPayload) => {
+    if (payload.jamId !== jamId) return
+    setReadyBySchedule((current) => {
+      const next = new Map(current)
+      next.set(payload.scheduleId, new Set(current.get(payload.scheduleId)).add(payload.musicianId))
+      return next
+    })
+  }, Boolean(jamId))
+
+  const isReady = useCallback(
+    (scheduleId: string, musicianId: string) => readyBySchedule.get(scheduleId)?.has(musicianId) ?? false,
+    [readyBySchedule]
+  )
+
+  return { readyBySchedule, isReady }
+}
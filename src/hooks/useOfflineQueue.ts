@@ -1,27 +1,39 @@
 /**
  * useOfflineQueue Hook
- * Provides access to offline action queue
+ * Provides access to offline action queue and its flush results
  */
 
-import {useCallback, useEffect, useState} from 'react'
-import {getOfflineQueueManager, type QueuedAction, type QueueStats} from '../services/offlineQueue'
+import {useCallback, useEffect, useRef, useState} from 'react'
+import {
+  type FlushResult,
+  getOfflineQueueManager,
+  type QueuedAction,
+  type QueueStats,
+} from '../services/offlineQueue'
 
 export interface OfflineQueueState {
   queue: QueuedAction[]
+  failedActions: QueuedAction[]
   stats: QueueStats
   isOfflineMode: boolean
+  isFlushing: boolean
+  lastFlush: FlushResult | null
   queueAction: (
     event: string,
     payload: any,
     priority?: 'high' | 'normal' | 'low'
   ) => string
   removeAction: (id: string) => void
+  retryAction: (id: string) => Promise<FlushResult>
+  resolveConflict: (id: string, payload: unknown) => Promise<FlushResult>
+  flush: () => Promise<FlushResult>
   clearFailed: () => void
   clearAll: () => void
 }
 
 /**
  * Hook for managing offline action queue
+ * @param onFlush - Called after every replay of the queue (e.g. to reload what it changed)
  * @returns Queue state and management functions
  *
  * @example
@@ -30,22 +42,39 @@ export interface OfflineQueueState {
  *   queueAction('joinJam', { jamId: '123' }, 'high')
  * }
  */
-export function useOfflineQueue(): OfflineQueueState {
+export function useOfflineQueue(onFlush?: (result: FlushResult) => void): OfflineQueueState {
   const [queue, setQueue] = useState<QueuedAction[]>([])
   const [isOfflineMode, setIsOfflineMode] = useState(!navigator.onLine)
+  const [isFlushing, setIsFlushing] = useState(false)
+  const [lastFlush, setLastFlush] = useState<FlushResult | null>(null)
+
+  const onFlushRef = useRef(onFlush)
 
   const queueManager = getOfflineQueueManager()
 
+  useEffect(() => {
+    onFlushRef.current = onFlush
+  }, [onFlush])
+
   // Initialize queue from manager
   useEffect(() => {
     setQueue(queueManager.getQueue())
+    setIsFlushing(queueManager.isFlushing())
 
     // Subscribe to queue changes
     const unsubscribe = queueManager.subscribe((newQueue) => {
       setQueue(newQueue)
+      setIsFlushing(queueManager.isFlushing())
+    })
+    const unsubscribeFlush = queueManager.subscribeToFlush((result) => {
+      setLastFlush(result)
+      onFlushRef.current?.(result)
     })
 
-    return unsubscribe
+    return () => {
+      unsubscribe()
+      unsubscribeFlush()
+    }
   }, [queueManager])
 
   // Listen to online/offline events
@@ -83,6 +112,15 @@ export function useOfflineQueue(): OfflineQueueState {
     [queueManager]
   )
 
+  const retryAction = useCallback((id: string) => queueManager.retryAction(id), [queueManager])
+
+  const resolveConflict = useCallback(
+    (id: string, payload: unknown) => queueManager.resolveConflict(id, payload),
+    [queueManager]
+  )
+
+  const flush = useCallback(() => queueManager.flush(), [queueManager])
+
   const clearFailed = useCallback(() => {
     queueManager.clearFailed()
   }, [queueManager])
@@ -95,10 +133,16 @@ export function useOfflineQueue(): OfflineQueueState {
 
   return {
     queue,
+    failedActions: queue.filter((a) => a.retries >= a.maxRetries),
     stats,
     isOfflineMode,
+    isFlushing,
+    lastFlush,
     queueAction,
     removeAction,
+    retryAction,
+    resolveConflict,
+    flush,
     clearFailed,
     clearAll,
   }
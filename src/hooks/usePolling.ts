@@ -0,0 +1,29 @@
+/**
+ * usePolling Hook
+ * Calls a function on an interval while enabled, always the latest version of it
+ * (so callers can pass an inline callback without restarting the interval)
+ */
+
+import {useEffect, useRef} from 'react'
+
+/**
+ * Hook for polling
+ * @param callback - Called on every tick
+ * @param intervalMs - Time between calls
+ * @param enabled - No polling while false
+ * @example
+ * usePolling(() => void loadJamData(jamId), 20000, !isConnected)
+ */
+export function usePolling(callback: () => void, intervalMs: number, enabled = true): void {
+  const callbackRef = useRef(callback)
+
+  useEffect(() => {
+    callbackRef.current = callback
+  }, [callback])
+
+  useEffect(() => {
+    if (!enabled) return
+    const interval = setInterval(() => callbackRef.current(), intervalMs)
+    return () => clearInterval(interval)
+  }, [enabled, intervalMs])
+}
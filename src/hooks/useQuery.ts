@@ -1,34 +1,49 @@
 /**
  * Base Hook for Data Fetching
- * Generic hook for fetching data with loading/error states
+ * Reads a keyed query from the shared query cache (stale-while-revalidate):
+ * components using the same key share one request and one copy of the data,
+ * and the request is aborted when the last component using it unmounts
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react'
-import type { ApiError } from '../types/api.types'
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import { DEFAULT_STALE_TIME, getQueryCache, hashQueryKey, parseQueryKey, type QueryFetcher, type QueryKey } from '../services'
 
 /**
  * Generic query result type
  */
 export interface UseQueryResult<T> {
   data: T | null
+  // True until the first response arrives (cached data is shown while revalidating)
   loading: boolean
   error: string | null
+  // True while any request for this key is running, including background revalidation
+  isValidating: boolean
   refetch: () => void
 }
 
+export interface UseQueryOptions {
+  // How long fetched data is served without a request (ms)
+  staleTime?: number
+  enabled?: boolean
+}
+
 /**
- * Generic hook for fetching data
- * @param fetchFn - Async function that fetches data
- * @param dependencies - Dependency array for useEffect
+ * Generic hook for fetching data through the query cache
+ * @param key - Query key (see queryKeys), requests with the same key are shared
+ * @param fetchFn - Async function that fetches data (pass the signal on to the service)
+ * @param options - Stale time and enabled flag
  * @returns Query result with data, loading, error, and refetch
+ *
+ * @example
+ * const { data } = useQuery(queryKeys.schedules.byJam(jamId), (signal) => scheduleService.findByJam(jamId, { signal }).then((res) => res.data))
  */
 export function useQuery<T>(
-  fetchFn: () => Promise<T>,
-  dependencies: unknown[] = []
+  key: QueryKey,
+  fetchFn: QueryFetcher<T>,
+  options: UseQueryOptions = {}
 ): UseQueryResult<T> {
-  const [data, setData] = useState<T | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const { staleTime = DEFAULT_STALE_TIME, enabled = true } = options
+  const cache = getQueryCache()
 
   // Use ref to store the latest fetchFn without causing re-renders
   const fetchFnRef = useRef(fetchFn)
@@ -38,35 +53,31 @@ export function useQuery<T>(
     fetchFnRef.current = fetchFn
   }, [fetchFn])
 
-  const fetch = useCallback(async () => {
-    setLoading(true)
-    setError(null)
+  // Keys are usually inline arrays: keep one instance per distinct key (rebuilt from its hash)
+  const hash = hashQueryKey(key)
+  const stableKey = useMemo(() => parseQueryKey(hash), [hash])
 
-    try {
-      const result = await fetchFnRef.current()
-      setData(result)
-      setError(null)
-    } catch (err) {
-      const apiError = err as ApiError
-      setError(apiError.message || 'An error occurred')
-      setData(null)
-    } finally {
-      setLoading(false)
-    }
-  }, []) // Empty deps - only created once
+  const subscribe = useCallback((listener: () => void) => cache.subscribe(stableKey, listener), [cache, stableKey])
+  const getSnapshot = useCallback(() => cache.getState<T>(stableKey), [cache, stableKey])
+  const state = useSyncExternalStore(subscribe, getSnapshot)
 
-  // Create a stable key from dependencies to avoid infinite loops
-  const depsKey = JSON.stringify(dependencies)
+  const fetch = useCallback(
+    (force: boolean) => {
+      // Errors are stored in the cache state
+      cache.fetch(stableKey, (signal) => fetchFnRef.current(signal), { staleTime, force, background: true }).catch(() => undefined)
+    },
+    [cache, stableKey, staleTime]
+  )
 
   useEffect(() => {
-    fetch()
-  }, [depsKey, fetch]) // Depend on stringified deps and fetch
+    if (enabled) fetch(false)
+  }, [enabled, fetch])
 
   return {
-    data,
-    loading,
-    error,
-    refetch: fetch,
+    data: state.data,
+    loading: enabled && state.updatedAt === 0 && (state.isFetching || state.error === null),
+    error: state.error,
+    isValidating: state.isFetching,
+    refetch: () => fetch(true),
   }
 }
-
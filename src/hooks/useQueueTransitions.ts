@@ -0,0 +1,123 @@
+/**
+ * useQueueTransitions Hook
+ * Advance / rewind the live queue as a single locked operation: refuses to act on an
+ * inconsistent queue, undoes a partially applied change when the action fails, and
+ * offers a repair for a queue that is already inconsistent
+ */
+
+import {useRef, useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import type {ScheduleResponseDto} from '../types/api.types'
+import {liveControlService, scheduleService} from '../services'
+import {useScheduleTransitions} from './useScheduleTransitions'
+import {
+  findQueueIssues,
+  planAdvance,
+  planCompensation,
+  planRepair,
+  planRewind,
+  type QueueIssue,
+  type StatusChange,
+} from '../utils/queueTransitions'
+
+export interface UseQueueTransitionsOptions {
+  jamId: string
+  schedules: ScheduleResponseDto[]
+  // Called after every attempt (success or failure) so the caller reloads the queue
+  onSettled: () => void
+}
+
+// skipped: nothing was sent (another change is running, or there is nothing to move to)
+export type QueueTransitionResult = 'applied' | 'skipped'
+
+export interface UseQueueTransitionsResult {
+  issues: QueueIssue[]
+  isBusy: boolean
+  canAdvance: boolean
+  canRewind: boolean
+  advance: () => Promise<QueueTransitionResult>
+  rewind: () => Promise<QueueTransitionResult>
+  repair: () => Promise<QueueTransitionResult>
+}
+
+async function applyChanges(changes: StatusChange[]): Promise<void> {
+  for (const change of changes) {
+    await scheduleService.update(change.scheduleId, { status: change.to })
+  }
+}
+
+/**
+ * Hook for advancing / rewinding the live queue
+ * @example
+ * const transitions = useQueueTransitions({ jamId, schedules, onSettled: onReload })
+ * <button onClick={() => transitions.advance().catch(showError)} disabled={!transitions.canAdvance}>Next</button>
+ */
+export function useQueueTransitions({ jamId, schedules, onSettled }: UseQueueTransitionsOptions): UseQueueTransitionsResult {
+  const { t } = useTranslation()
+  // Ref lock so a double tap is ignored before the busy state re-renders
+  const lockRef = useRef(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const scheduleTransitions = useScheduleTransitions()
+
+  const issues = findQueueIssues(schedules)
+  const advancePlan = planAdvance(schedules)
+  const rewindPlan = planRewind(schedules)
+
+  const withLock = async (operation: () => Promise<QueueTransitionResult>): Promise<QueueTransitionResult> => {
+    if (lockRef.current) return 'skipped'
+    lockRef.current = true
+    setIsBusy(true)
+    try {
+      return await operation()
+    } finally {
+      lockRef.current = false
+      setIsBusy(false)
+      onSettled()
+    }
+  }
+
+  // Every change must be a legal transition for the user's role
+  const assertAllowed = (changes: StatusChange[]) => {
+    const refusal = changes
+      .map((change) => scheduleTransitions.explainRefusal(change.from, change.to))
+      .find((reason) => reason !== null)
+    if (refusal) throw new Error(refusal)
+  }
+
+  const transition = (plan: StatusChange[] | null, send: () => Promise<unknown>) =>
+    withLock(async () => {
+      if (issues.length > 0) throw new Error(t('queue_transitions.inconsistent_refused'))
+      if (!plan) return 'skipped'
+      assertAllowed(plan)
+
+      try {
+        await send()
+      } catch (err) {
+        // The action may have been partially applied: put the touched songs back
+        try {
+          const { data: current } = await scheduleService.findByJam(jamId, { offlineFallback: false })
+          await applyChanges(planCompensation(plan, current))
+        } catch (compensationError) {
+          console.error('❌ Could not undo partial queue change:', compensationError)
+        }
+        throw err
+      }
+      return 'applied'
+    })
+
+  return {
+    issues,
+    isBusy,
+    canAdvance: !isBusy && issues.length === 0 && advancePlan !== null,
+    canRewind: !isBusy && issues.length === 0 && rewindPlan !== null,
+    advance: () => transition(advancePlan, () => liveControlService.skip(jamId)),
+    rewind: () => transition(rewindPlan, () => liveControlService.previous(jamId)),
+    repair: () =>
+      withLock(async () => {
+        const changes = planRepair(schedules)
+        assertAllowed(changes)
+        await applyChanges(changes)
+        return 'applied'
+      }),
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import {useQuery, type UseQueryResult} from './useQuery'
-import {registrationService} from '../services'
+import {registrationService, queryKeys} from '../services'
 import type {ApiResponse, RegistrationResponseDto} from '../types/api.types'
 
 /**
@@ -14,13 +14,13 @@ import type {ApiResponse, RegistrationResponseDto} from '../types/api.types'
  */
 export function useRegistrationsByJam(jamId: string): UseQueryResult<RegistrationResponseDto[]> {
   return useQuery(
-    () => {
+    queryKeys.registrations.byJam(jamId),
+    (signal) => {
       if (!jamId || jamId.trim() === '') {
         return Promise.resolve([])
       }
-      return registrationService.findByJam(jamId).then((res: ApiResponse<RegistrationResponseDto[]>) => res.data ?? [])
-    },
-    [jamId]
+      return registrationService.findByJam(jamId, { signal }).then((res: ApiResponse<RegistrationResponseDto[]>) => res.data ?? [])
+    }
   )
 }
 
@@ -33,13 +33,13 @@ export function useRegistrationsByMusician(
   musicianId: string
 ): UseQueryResult<RegistrationResponseDto[]> {
   return useQuery(
-    () => {
+    queryKeys.registrations.byMusician(musicianId),
+    (signal) => {
       if (!musicianId || musicianId.trim() === '') {
         return Promise.resolve([])
       }
-      return registrationService.findByMusician(musicianId).then((res: ApiResponse<RegistrationResponseDto[]>) => res.data ?? [])
-    },
-    [musicianId]
+      return registrationService.findByMusician(musicianId, { signal }).then((res: ApiResponse<RegistrationResponseDto[]>) => res.data ?? [])
+    }
   )
 }
 
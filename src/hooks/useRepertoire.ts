@@ -0,0 +1,42 @@
+/**
+ * Repertoire Hook
+ * Custom hook for fetching repertoire data
+ */
+
+import {useQuery, type UseQueryResult} from './useQuery'
+import {queryKeys, repertoireService} from '../services'
+import type {ApiResponse, RepertoireEntryResponseDto} from '../types/api.types'
+
+/**
+ * Fetch a musician's repertoire
+ * @param musicianId - Musician ID (will skip fetch if empty)
+ * @returns Query result with repertoire entry array
+ */
+export function useRepertoireByMusician(musicianId: string): UseQueryResult<RepertoireEntryResponseDto[]> {
+  return useQuery(
+    queryKeys.repertoire.byMusician(musicianId),
+    (signal) => {
+      if (!musicianId || musicianId.trim() === '') {
+        return Promise.resolve([])
+      }
+      return repertoireService.findByMusician(musicianId, { signal }).then((res: ApiResponse<RepertoireEntryResponseDto[]>) => res.data ?? [])
+    }
+  )
+}
+
+/**
+ * Fetch every musician's repertoire entries for the songs of a jam
+ * @param jamId - Jam ID (will skip fetch if empty)
+ * @returns Query result with repertoire entry array
+ */
+export function useRepertoireByJam(jamId: string): UseQueryResult<RepertoireEntryResponseDto[]> {
+  return useQuery(
+    queryKeys.repertoire.byJam(jamId),
+    (signal) => {
+      if (!jamId || jamId.trim() === '') {
+        return Promise.resolve([])
+      }
+      return repertoireService.findByJam(jamId, { signal }).then((res: ApiResponse<RepertoireEntryResponseDto[]>) => res.data ?? [])
+    }
+  )
+}
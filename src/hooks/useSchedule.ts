@@ -1,5 +1,5 @@
 import {useQuery, type UseQueryResult} from './useQuery'
-import {scheduleService} from '../services'
+import {scheduleService, queryKeys} from '../services'
 import type {ApiResponse, ScheduleResponseDto} from '../types/api.types'
 
 /**
@@ -9,13 +9,13 @@ import type {ApiResponse, ScheduleResponseDto} from '../types/api.types'
  */
 export function useScheduleByJam(jamId: string): UseQueryResult<ScheduleResponseDto[]> {
   return useQuery(
-    () => {
+    queryKeys.schedules.byJam(jamId),
+    (signal) => {
       if (!jamId || jamId.trim() === '') {
         return Promise.resolve([])
       }
-      return scheduleService.findByJam(jamId).then((res: ApiResponse<ScheduleResponseDto[]>) => res.data ?? [])
-    },
-    [jamId]
+      return scheduleService.findByJam(jamId, { signal }).then((res: ApiResponse<ScheduleResponseDto[]>) => res.data ?? [])
+    }
   )
 }
 
@@ -26,13 +26,13 @@ export function useScheduleByJam(jamId: string): UseQueryResult<ScheduleResponse
  */
 export function useScheduleByMusician(musicianId: string): UseQueryResult<ScheduleResponseDto[]> {
   return useQuery(
-    () => {
+    queryKeys.schedules.byMusician(musicianId),
+    (signal) => {
       if (!musicianId || musicianId.trim() === '') {
         return Promise.resolve([])
       }
-      return scheduleService.findByMusician(musicianId).then((res: ApiResponse<ScheduleResponseDto[]>) => res.data ?? [])
-    },
-    [musicianId]
+      return scheduleService.findByMusician(musicianId, { signal }).then((res: ApiResponse<ScheduleResponseDto[]>) => res.data ?? [])
+    }
   )
 }
 
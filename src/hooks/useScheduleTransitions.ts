@@ -0,0 +1,47 @@
+/**
+ * useScheduleTransitions Hook
+ * Binds the schedule status state machine to the signed-in user's role and
+ * turns refused transitions into translated explanations
+ */
+
+import {useTranslation} from 'react-i18next'
+import type {ScheduleStatus} from '../types/api.types'
+import {useAuth} from './useAuth'
+import {
+  checkTransition,
+  getAllowedTransitions,
+  getStatusLabelKey,
+  type ScheduleTransition,
+} from '../utils/scheduleStatusMachine'
+
+export interface UseScheduleTransitionsResult {
+  allowedFrom: (from: ScheduleStatus) => ScheduleTransition[]
+  can: (from: ScheduleStatus, to: ScheduleStatus) => boolean
+  // Translated reason the change is refused, or null when it is allowed
+  explainRefusal: (from: ScheduleStatus, to: ScheduleStatus) => string | null
+}
+
+/**
+ * Hook for checking schedule status changes
+ * @example
+ * const transitions = useScheduleTransitions()
+ * const refusal = transitions.explainRefusal(schedule.status, 'IN_PROGRESS')
+ * if (refusal) return setError(refusal)
+ */
+export function useScheduleTransitions(): UseScheduleTransitionsResult {
+  const { t } = useTranslation()
+  const { role } = useAuth()
+
+  return {
+    allowedFrom: (from) => getAllowedTransitions(from, role),
+    can: (from, to) => checkTransition(from, to, role).allowed,
+    explainRefusal: (from, to) => {
+      const check = checkTransition(from, to, role)
+      if (check.allowed) return null
+      return t(`schedule_transitions.refused.${check.reason}`, {
+        from: t(getStatusLabelKey(from)),
+        to: t(getStatusLabelKey(to)),
+      })
+    },
+  }
+}
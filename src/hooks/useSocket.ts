@@ -0,0 +1,103 @@
+/**
+ * useSocket Hooks
+ * Subscribe to the WebSocket connection state, server events and jam rooms
+ */
+
+import {useEffect, useRef, useState} from 'react'
+import {getSocketService} from '../services/socketService'
+import {JAM_UPDATE_EVENTS} from '../lib/socket'
+import type {ServerEventName, ServerEventPayload, SocketConnectionState, SocketRole} from '../types/socket.types'
+
+export interface SocketConnectionInfo {
+  connectionState: SocketConnectionState
+  isConnected: boolean
+}
+
+/**
+ * Hook to track the socket connection state
+ * @returns Current connection state
+ *
+ * @example
+ * const { connectionState, isConnected } = useSocketConnection()
+ */
+export function useSocketConnection(): SocketConnectionInfo {
+  const socketService = getSocketService()
+  const [connectionState, setConnectionState] = useState<SocketConnectionState>(
+    socketService.getConnectionState()
+  )
+
+  useEffect(() => {
+    setConnectionState(socketService.getConnectionState())
+    return socketService.onConnectionStateChange(setConnectionState)
+  }, [socketService])
+
+  return {
+    connectionState,
+    isConnected: connectionState === 'connected',
+  }
+}
+
+/**
+ * Hook to subscribe to a server event while the component is mounted
+ * The latest handler is always called, so it does not need to be memoized
+ *
+ * @example
+ * useSocketEvent('schedule:status-changed', (payload) => refresh())
+ */
+export function useSocketEvent<E extends ServerEventName>(
+  event: E,
+  handler: (payload: ServerEventPayload<E>) => void,
+  enabled = true
+): void {
+  const handlerRef = useRef(handler)
+
+  useEffect(() => {
+    handlerRef.current = handler
+  }, [handler])
+
+  useEffect(() => {
+    if (!enabled) return
+    return getSocketService().on(event, (payload) => handlerRef.current(payload))
+  }, [event, enabled])
+}
+
+/**
+ * Hook to join a jam room while mounted and get notified of jam updates
+ * The room is left on unmount and re-joined automatically after reconnection
+ *
+ * @example
+ * useJamRoom(jamId, 'host', () => loadJamData(jamId))
+ */
+export function useJamRoom(
+  jamId: string | null | undefined,
+  role: SocketRole,
+  onUpdate?: (event: ServerEventName) => void
+): SocketConnectionInfo {
+  const connection = useSocketConnection()
+  const onUpdateRef = useRef(onUpdate)
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate
+  }, [onUpdate])
+
+  useEffect(() => {
+    if (!jamId) return
+    const socketService = getSocketService()
+
+    socketService.joinJam(jamId, role)
+
+    const unsubscribers = JAM_UPDATE_EVENTS.map((event) =>
+      socketService.on(event, (payload) => {
+        if (payload.jamId && payload.jamId !== jamId) return
+        onUpdateRef.current?.(event)
+      })
+    )
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+      socketService.leaveJam(jamId)
+    }
+  }, [jamId, role])
+
+  return connection
+}
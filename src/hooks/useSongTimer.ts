@@ -0,0 +1,82 @@
+/**
+ * useSongTimer Hook
+ * Ticking elapsed/remaining time of the song on stage, the clock behind it (also used for
+ * queue start estimates), plus the host's overrun warning setting
+ */
+
+import {useCallback, useEffect, useState} from 'react'
+import {
+  DEFAULT_OVERRUN_WARNING_SECONDS,
+  getSongProgress,
+  OVERRUN_WARNING_OPTIONS,
+  type OverrunWarningSeconds,
+  type SongProgress,
+} from '../utils/songTimer'
+
+const OVERRUN_WARNING_STORAGE_KEY = 'song_overrun_warning'
+
+export interface UseSongTimerResult {
+  progress: SongProgress | null
+}
+
+/**
+ * Current time in ms, updated every intervalMs
+ * @param enabled - Stop ticking while false (the time is refreshed when it turns true again)
+ */
+export function useNow(intervalMs = 1000, enabled = true): number {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    setNow(Date.now())
+    if (!enabled) return
+    const interval = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(interval)
+  }, [enabled, intervalMs])
+
+  return now
+}
+
+/**
+ * Timer for the song on stage
+ * @param startedAt - When the schedule entered IN_PROGRESS (no ticking while unknown)
+ * @param duration - Planned duration in seconds
+ * @param intervalMs - Tick interval
+ */
+export function useSongTimer(
+  startedAt: string | null | undefined,
+  duration: number | null | undefined,
+  intervalMs = 1000
+): UseSongTimerResult {
+  const now = useNow(intervalMs, Boolean(startedAt))
+  return { progress: getSongProgress(startedAt, duration, now) }
+}
+
+function readOverrunWarning(): OverrunWarningSeconds {
+  try {
+    const stored = localStorage.getItem(OVERRUN_WARNING_STORAGE_KEY)
+    if (stored === null) return DEFAULT_OVERRUN_WARNING_SECONDS
+    const value = stored === 'off' ? null : Number(stored)
+    return OVERRUN_WARNING_OPTIONS.find((option) => option === value) ?? DEFAULT_OVERRUN_WARNING_SECONDS
+  } catch {
+    return DEFAULT_OVERRUN_WARNING_SECONDS
+  }
+}
+
+/**
+ * Host setting: how far past its planned duration a song may run before warning
+ * Saved per browser
+ */
+export function useOverrunWarningSetting(): [OverrunWarningSeconds, (value: OverrunWarningSeconds) => void] {
+  const [threshold, setThreshold] = useState<OverrunWarningSeconds>(readOverrunWarning)
+
+  const update = useCallback((value: OverrunWarningSeconds) => {
+    setThreshold(value)
+    try {
+      localStorage.setItem(OVERRUN_WARNING_STORAGE_KEY, value === null ? 'off' : String(value))
+    } catch (err) {
+      console.warn('⚠️ Could not save overrun warning setting:', err)
+    }
+  }, [])
+
+  return [threshold, update]
+}
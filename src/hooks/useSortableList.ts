@@ -0,0 +1,221 @@
+/**
+ * useSortableList Hook
+ * Reorderable list state: pointer drag (mouse, touch, pen), keyboard reordering
+ * (space to pick up, arrows to move, space to drop, escape to cancel) and
+ * optimistic saves that roll back when the save fails
+ */
+
+import {type KeyboardEvent, type PointerEvent, useCallback, useEffect, useRef, useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import {moveItem} from '../utils/listOrder'
+
+export interface UseSortableListOptions<T> {
+  items: T[]
+  getId: (item: T) => string
+  // Name read out to screen readers while moving an item
+  getLabel?: (item: T) => string
+  // Persist the new order; a rejection restores the previous order
+  onReorder: (ids: string[]) => Promise<unknown>
+  onError?: (error: unknown) => void
+  disabled?: boolean
+}
+
+export interface SortableHandleProps {
+  role: 'button'
+  tabIndex: number
+  'aria-pressed': boolean
+  'aria-disabled': boolean
+  style: { touchAction: 'none' }
+  ref: (element: HTMLElement | null) => void
+  onPointerDown: (e: PointerEvent<HTMLElement>) => void
+  onPointerMove: (e: PointerEvent<HTMLElement>) => void
+  onPointerUp: () => void
+  onPointerCancel: () => void
+  onKeyDown: (e: KeyboardEvent<HTMLElement>) => void
+}
+
+export interface UseSortableListResult<T> {
+  items: T[]
+  // Item being dragged or picked up with the keyboard
+  activeId: string | null
+  isSaving: boolean
+  // Live region text for screen readers
+  announcement: string
+  move: (from: number, to: number) => void
+  getItemRef: (id: string) => (element: HTMLElement | null) => void
+  getHandleProps: (id: string) => SortableHandleProps
+}
+
+type Preview = { id: string; order: string[]; mode: 'pointer' | 'keyboard' }
+
+/**
+ * Hook for drag-and-drop / keyboard sortable lists
+ * @example
+ * const sortable = useSortableList({ items, getId: (s) => s.id, onReorder: (ids) => scheduleService.reorder(jamId, ids) })
+ * sortable.items.map((item) => <div ref={sortable.getItemRef(item.id)}><DragHandle {...sortable.getHandleProps(item.id)} /></div>)
+ */
+export function useSortableList<T>({
+  items,
+  getId,
+  getLabel,
+  onReorder,
+  onError,
+  disabled = false,
+}: UseSortableListOptions<T>): UseSortableListResult<T> {
+  const { t } = useTranslation()
+  const propIds = items.map(getId)
+  const propKey = propIds.join('|')
+
+  // Optimistic order, only used while it is based on the current props (or a save is running)
+  const [override, setOverride] = useState<{ basedOn: string; order: string[] } | null>(null)
+  const [preview, setPreviewState] = useState<Preview | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [announcement, setAnnouncement] = useState('')
+  const previewRef = useRef<Preview | null>(null)
+  const itemRefs = useRef(new Map<string, HTMLElement>())
+  const handleRefs = useRef(new Map<string, HTMLElement>())
+
+  const setPreview = (next: Preview | null) => {
+    previewRef.current = next
+    setPreviewState(next)
+  }
+
+  const committedIds = override && (override.basedOn === propKey || isSaving) ? override.order : propIds
+  const displayIds = preview?.order ?? committedIds
+
+  const byId = new Map(items.map((item) => [getId(item), item]))
+  const orderedItems = [
+    ...displayIds.filter((id) => byId.has(id)).map((id) => byId.get(id)!),
+    ...items.filter((item) => !displayIds.includes(getId(item))),
+  ]
+
+  const labelOf = (id: string) => {
+    const item = byId.get(id)
+    return item && getLabel ? getLabel(item) : id
+  }
+
+  const commit = async (order: string[]) => {
+    const previous = override
+    setOverride({ basedOn: propKey, order })
+    setIsSaving(true)
+    try {
+      await onReorder(order)
+    } catch (err) {
+      setOverride(previous)
+      setAnnouncement(t('sortable.rollback'))
+      onError?.(err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const finish = (save: boolean) => {
+    const current = previewRef.current
+    setPreview(null)
+    if (!current) return
+
+    const position = current.order.indexOf(current.id) + 1
+    if (!save) {
+      setAnnouncement(t('sortable.cancelled', { item: labelOf(current.id) }))
+      return
+    }
+    setAnnouncement(t('sortable.dropped', { item: labelOf(current.id), position, total: current.order.length }))
+    if (current.order.join('|') !== committedIds.join('|')) void commit(current.order)
+  }
+
+  const move = (from: number, to: number) => {
+    if (disabled || isSaving || to < 0 || to >= committedIds.length) return
+    void commit(moveItem(committedIds, from, to))
+  }
+
+  // Keep keyboard focus on the handle of the picked-up item while it moves in the DOM
+  const keyboardFocusId = preview?.mode === 'keyboard' ? preview.id : null
+  const previewKey = preview?.order.join('|')
+  useEffect(() => {
+    if (keyboardFocusId) handleRefs.current.get(keyboardFocusId)?.focus()
+  }, [keyboardFocusId, previewKey])
+
+  const getItemRef = useCallback(
+    (id: string) => (element: HTMLElement | null) => {
+      if (element) itemRefs.current.set(id, element)
+      else itemRefs.current.delete(id)
+    },
+    []
+  )
+
+  const getHandleProps = (id: string): SortableHandleProps => ({
+    role: 'button',
+    tabIndex: disabled ? -1 : 0,
+    'aria-pressed': preview?.id === id,
+    'aria-disabled': disabled || isSaving,
+    style: { touchAction: 'none' },
+    ref: (element) => {
+      if (element) handleRefs.current.set(id, element)
+      else handleRefs.current.delete(id)
+    },
+    onPointerDown: (e) => {
+      if (disabled || isSaving || previewRef.current || e.button !== 0) return
+      e.preventDefault()
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setPreview({ id, order: committedIds, mode: 'pointer' })
+    },
+    onPointerMove: (e) => {
+      const current = previewRef.current
+      if (!current || current.mode !== 'pointer' || current.id !== id) return
+
+      // New index = number of other items whose middle is above the pointer
+      const others = current.order.filter((otherId) => otherId !== id)
+      let index = 0
+      others.forEach((otherId) => {
+        const rect = itemRefs.current.get(otherId)?.getBoundingClientRect()
+        if (rect && e.clientY > rect.top + rect.height / 2) index++
+      })
+      const order = [...others.slice(0, index), id, ...others.slice(index)]
+      if (order.join('|') !== current.order.join('|')) setPreview({ ...current, order })
+    },
+    onPointerUp: () => {
+      if (previewRef.current?.mode === 'pointer') finish(true)
+    },
+    onPointerCancel: () => {
+      if (previewRef.current?.mode === 'pointer') finish(false)
+    },
+    onKeyDown: (e) => {
+      const current = previewRef.current
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault()
+        if (current?.id === id) {
+          finish(true)
+        } else if (!current && !disabled && !isSaving) {
+          setPreview({ id, order: committedIds, mode: 'keyboard' })
+          setAnnouncement(
+            t('sortable.picked_up', { item: labelOf(id), position: committedIds.indexOf(id) + 1, total: committedIds.length })
+          )
+        }
+        return
+      }
+      if (current?.id !== id || current.mode !== 'keyboard') return
+
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        finish(false)
+      } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault()
+        const from = current.order.indexOf(id)
+        const to = e.key === 'ArrowUp' ? from - 1 : from + 1
+        if (to < 0 || to >= current.order.length) return
+        setPreview({ ...current, order: moveItem(current.order, from, to) })
+        setAnnouncement(t('sortable.moved', { item: labelOf(id), position: to + 1, total: current.order.length }))
+      }
+    },
+  })
+
+  return {
+    items: orderedItems,
+    activeId: preview?.id ?? null,
+    isSaving,
+    announcement,
+    move,
+    getItemRef,
+    getHandleProps,
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * useUpSoonNotifications Hook
+ * Watches the signed-in musician's upcoming slots and raises "you're up soon" alerts
+ * (in-app, plus a browser notification when allowed) at the thresholds they picked,
+ * and lets them tell the host they are ready (musician:ready)
+ */
+
+import {useCallback, useEffect, useRef, useState} from 'react'
+import {useTranslation} from 'react-i18next'
+import {getSocketService} from '../services/socketService'
+import {getInstrumentLabel} from '../lib/instruments'
+import type {ScheduleResponseDto} from '../types/api.types'
+import {
+  DEFAULT_UP_SOON_THRESHOLDS,
+  getAlertKey,
+  getDueAlerts,
+  getUpcomingSlots,
+  UP_SOON_THRESHOLD_OPTIONS,
+  type UpcomingSlot,
+  type UpSoonAlert,
+  type UpSoonThreshold,
+} from '../utils/upcomingSlots'
+
+const THRESHOLDS_STORAGE_KEY = 'up_soon_thresholds'
+
+type NotificationState = NotificationPermission | 'unsupported'
+
+export interface UseUpSoonNotificationsResult {
+  slots: UpcomingSlot[]
+  // In-app alerts not dismissed yet, newest first
+  alerts: UpSoonAlert[]
+  dismissAlert: (scheduleId: string) => void
+  thresholds: UpSoonThreshold[]
+  setThresholds: (thresholds: UpSoonThreshold[]) => void
+  notificationPermission: NotificationState
+  requestNotificationPermission: () => Promise<void>
+  // Schedules the musician confirmed being ready for
+  readyScheduleIds: Set<string>
+  // False when the signal could not be sent (not connected)
+  confirmReady: (scheduleId: string) => boolean
+}
+
+function readThresholds(): UpSoonThreshold[] {
+  try {
+    const stored = localStorage.getItem(THRESHOLDS_STORAGE_KEY)
+    if (stored === null) return DEFAULT_UP_SOON_THRESHOLDS
+    const parsed: unknown = JSON.parse(stored)
+    return Array.isArray(parsed)
+      ? UP_SOON_THRESHOLD_OPTIONS.filter((option) => parsed.includes(option))
+      : DEFAULT_UP_SOON_THRESHOLDS
+  } catch {
+    return DEFAULT_UP_SOON_THRESHOLDS
+  }
+}
+
+function getNotificationState(): NotificationState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+}
+
+/**
+ * Hook for a musician's "you're up soon" alerts in a jam
+ * @param jamId - Jam being followed
+ * @param schedules - The jam's schedules (with registrations), kept fresh by the caller
+ * @param musicianId - Signed-in musician, or null when signed out (no alerts)
+ * @example
+ * const upSoon = useUpSoonNotifications(jamId, jam?.schedules ?? [], user?.id ?? null)
+ */
+export function useUpSoonNotifications(
+  jamId: string | null | undefined,
+  schedules: ScheduleResponseDto[],
+  musicianId: string | null
+): UseUpSoonNotificationsResult {
+  const { t } = useTranslation()
+  const [thresholds, setThresholdsState] = useState<UpSoonThreshold[]>(readThresholds)
+  const [alerts, setAlerts] = useState<UpSoonAlert[]>([])
+  const [notificationPermission, setNotificationPermission] = useState<NotificationState>(getNotificationState)
+  const [readyScheduleIds, setReadyScheduleIds] = useState<Set<string>>(new Set())
+  const sentRef = useRef<Set<string>>(new Set())
+
+  const slots = musicianId ? getUpcomingSlots(schedules, musicianId) : []
+  // Recompute alerts only when the musician's position changes: the slots they are computed
+  // from are replaced only when the signature changes, not on every refresh of the schedules
+  const slotsSignature = slots.map((slot) => `${slot.schedule.id}:${slot.songsAway}`).join(',')
+  const [trackedSlots, setTrackedSlots] = useState({ signature: slotsSignature, slots })
+  if (trackedSlots.signature !== slotsSignature) setTrackedSlots({ signature: slotsSignature, slots })
+  const alertSlots = trackedSlots.slots
+
+  useEffect(() => {
+    const due = getDueAlerts(alertSlots, thresholds, sentRef.current)
+    if (due.length === 0) return
+
+    due.forEach((alert) => {
+      sentRef.current.add(getAlertKey(alert))
+      if (getNotificationState() !== 'granted') return
+      try {
+        new Notification(t('up_soon.notification_title'), {
+          body: getAlertMessage(alert, t),
+          tag: getAlertKey(alert),
+        })
+      } catch (err) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.warn('⚠️ Could not show notification:', err)
+      }
+    })
+    setAlerts((current) => [
+      ...due,
+      ...current.filter((existing) => !due.some((alert) => alert.scheduleId === existing.scheduleId)),
+    ])
+  }, [alertSlots, thresholds, t])
+
+  // Drop alerts for songs that were played or left the queue
+  useEffect(() => {
+    setAlerts((current) => current.filter((alert) => alertSlots.some((slot) => slot.schedule.id === alert.scheduleId)))
+  }, [alertSlots])
+
+  const dismissAlert = useCallback((scheduleId: string) => {
+    setAlerts((current) => current.filter((alert) => alert.scheduleId !== scheduleId))
+  }, [])
+
+  const setThresholds = useCallback((value: UpSoonThreshold[]) => {
+    setThresholdsState(value)
+    try {
+      localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(value))
+    } catch (err) {
+      console.warn('⚠️ Could not save up soon thresholds:', err)
+    }
+  }, [])
+
+  const requestNotificationPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return
+    setNotificationPermission(await Notification.requestPermission())
+  }, [])
+
+  const confirmReady = useCallback((scheduleId: string) => {
+    if (!jamId || !getSocketService().sendMusicianReady(jamId, scheduleId)) return false
+    setReadyScheduleIds((current) => new Set(current).add(scheduleId))
+    return true
+  }, [jamId])
+
+  return {
+    slots,
+    alerts,
+    dismissAlert,
+    thresholds,
+    setThresholds,
+    notificationPermission,
+    requestNotificationPermission,
+    readyScheduleIds,
+    confirmReady,
+  }
+}
+
+/**
+ * Translated text of an alert
+ */
+export function getAlertMessage(alert: UpSoonAlert, t: (key: string, options?: Record<string, unknown>) => string): string {
+  const title = alert.slot.schedule.music?.title || t('schedule.song_tba')
+  const instrument = getInstrumentLabel(alert.slot.instrument, t)
+  return alert.slot.songsAway === 1
+    ? t('up_soon.you_are_next', { title, instrument })
+    : t('up_soon.songs_away', { songs: alert.slot.songsAway, title, instrument })
+}
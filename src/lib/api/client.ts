@@ -6,6 +6,9 @@
 import type {AxiosInstance, AxiosRequestConfig, AxiosResponse} from 'axios'
 import axios, {AxiosError} from 'axios'
 import {API_CONFIG} from './config'
+import {createApiError} from './errorHandler'
+import {isFakeBackendEnabled} from '../fakeBackend/config'
+import {fakeBackendAdapter} from '../fakeBackend/adapter'
 import type {ApiError, ApiResponse} from '../../types/api.types'
 
 /**
@@ -25,6 +28,8 @@ class ApiClient {
       headers: {
         'Content-Type': 'application/json',
       },
+      // Serve requests from the in-browser fake backend (demo / offline development)
+      ...(isFakeBackendEnabled() && { adapter: fakeBackendAdapter }),
     })
 
     // Setup interceptors
@@ -229,6 +234,15 @@ class ApiClient {
    * Handle API errors and transform to standardized format
    */
   private handleError(error: AxiosError): Promise<never> {
+    // Aborted through an AbortSignal: expected, not logged
+    if (axios.isCancel(error)) {
+      return Promise.reject(createApiError({
+        message: 'Request cancelled',
+        statusCode: 0,
+        error: 'CANCELED',
+      }))
+    }
+
     if (error.response) {
       // Server responded with error status
       const apiError: ApiError = {
@@ -248,17 +262,17 @@ class ApiClient {
         // window.location.href = '/login'
       }
 
-      return Promise.reject(apiError)
+      return Promise.reject(createApiError(apiError))
     } else if (error.request) {
       // Request made but no response received (network error)
       const apiError: ApiError = {
         message: 'Network error - please check your internet connection',
         statusCode: 0,
-        error: 'NETWORK_ERROR',
+        error: error.code === 'ECONNABORTED' ? 'TIMEOUT_ERROR' : 'NETWORK_ERROR',
       }
 
       console.error('❌ Network Error:', apiError)
-      return Promise.reject(apiError)
+      return Promise.reject(createApiError(apiError))
     } else {
       // Error in request configuration
       const apiError: ApiError = {
@@ -268,7 +282,7 @@ class ApiClient {
       }
 
       console.error('❌ Request Configuration Error:', apiError)
-      return Promise.reject(apiError)
+      return Promise.reject(createApiError(apiError))
     }
   }
 
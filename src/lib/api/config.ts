@@ -35,6 +35,7 @@ export const API_ENDPOINTS = {
     create: '/jams',
     update: (id: string) => `/jams/${id}`,
     delete: (id: string) => `/jams/${id}`,
+    liveDashboard: (id: string) => `/jams/${id}/live/dashboard`,
   },
 
   // Musicians (Músicos) endpoints
@@ -59,6 +60,21 @@ export const API_ENDPOINTS = {
   schedulesByJam: (jamId: string) => `/jams/${jamId}/escalas`,
   schedulesByMusician: (musicianId: string) => `/musicos/${musicianId}/escalas`,
   reorderSchedules: (jamId: string) => `/escalas/jam/${jamId}/reorder`,
+
+  // Waitlist (Lista de espera) endpoints
+  waitlist: '/lista-espera',
+  waitlistById: (id: string) => `/lista-espera/${id}`,
+  waitlistBySchedule: (scheduleId: string) => `/escalas/${scheduleId}/lista-espera`,
+  promoteWaitlistEntry: (id: string) => `/lista-espera/${id}/promover`,
+
+  // Repertoire (Repertório) endpoints
+  repertoire: '/repertorio',
+  repertoireById: (id: string) => `/repertorio/${id}`,
+  repertoireByMusician: (musicianId: string) => `/musicos/${musicianId}/repertorio`,
+  repertoireByJam: (jamId: string) => `/jams/${jamId}/repertorio`,
+
+  // Live control endpoints
+  liveControl: (jamId: string) => `/jams/${jamId}/live/control`,
 }
 
 /**
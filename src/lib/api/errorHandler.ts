@@ -26,6 +26,7 @@ const ERROR_MESSAGES: Record<number, string> = {
  */
 const ERROR_TYPE_MESSAGES: Record<string, string> = {
   NETWORK_ERROR: 'Network error. Please check your internet connection.',
+  CANCELED: 'The request was cancelled.',
   TIMEOUT_ERROR: 'Request timed out. Please try again.',
   VALIDATION_ERROR: 'Please check your input and try again.',
   UNAUTHORIZED: 'You need to log in to continue.',
@@ -66,6 +67,7 @@ export function handleApiError(error: ApiError): string {
  * @returns True if network error
  */
 export function isNetworkError(error: ApiError): boolean {
+  if (error.error === 'CANCELED') return false
   return error.statusCode === 0 || error.error === 'NETWORK_ERROR'
 }
 
@@ -121,6 +123,95 @@ export function isServerError(error: ApiError): boolean {
   )
 }
 
+// ============================================================================
+// TYPED ERRORS (rejected by the API client)
+// ============================================================================
+
+/**
+ * Base class for errors rejected by the API client
+ * Implements ApiError, so the is*Error helpers and handleApiError accept it too
+ */
+export class ApiRequestError extends Error implements ApiError {
+  statusCode: number
+  error?: string
+  details?: unknown
+
+  constructor({ message, statusCode, error, details }: ApiError) {
+    super(message)
+    this.name = 'ApiRequestError'
+    this.statusCode = statusCode
+    this.error = error
+    this.details = details
+  }
+}
+
+/**
+ * No response from the server (offline, timeout, DNS...)
+ */
+export class NetworkError extends ApiRequestError {
+  name = 'NetworkError'
+}
+
+/**
+ * Request aborted through its AbortSignal (e.g. the page unmounted)
+ * Not a failure: nothing to show, retry or queue
+ */
+export class CancelledError extends ApiRequestError {
+  name = 'CancelledError'
+}
+
+/**
+ * 401 - missing or expired session (after the token refresh failed)
+ */
+export class AuthError extends ApiRequestError {
+  name = 'AuthError'
+}
+
+/**
+ * 403 - signed in but not allowed
+ */
+export class PermissionError extends ApiRequestError {
+  name = 'PermissionError'
+}
+
+/**
+ * 400 / 422 - the request data was rejected
+ */
+export class ValidationError extends ApiRequestError {
+  name = 'ValidationError'
+}
+
+/**
+ * 404 - the resource does not exist
+ */
+export class NotFoundError extends ApiRequestError {
+  name = 'NotFoundError'
+}
+
+/**
+ * Build the typed error matching an API error
+ * @param error - API error object
+ * @returns Error instance of the matching class
+ */
+export function createApiError(error: ApiError): ApiRequestError {
+  if (error.error === 'CANCELED') return new CancelledError(error)
+  if (isNetworkError(error)) return new NetworkError(error)
+  if (isAuthError(error)) return new AuthError(error)
+  if (isPermissionError(error)) return new PermissionError(error)
+  if (isValidationError(error)) return new ValidationError(error)
+  if (isNotFoundError(error)) return new NotFoundError(error)
+  return new ApiRequestError(error)
+}
+
+/**
+ * Check if a request was cancelled
+ * @param error - Any caught error
+ * @returns True if the request was aborted
+ */
+export function isCancelledError(error: unknown): error is CancelledError {
+  return error instanceof CancelledError
+}
+
 /**
  * Get error details for logging
  * @param error - API error object
@@ -15,5 +15,14 @@ export {
   isServerError,
   getErrorDetails,
   formatError,
+  createApiError,
+  isCancelledError,
+  ApiRequestError,
+  NetworkError,
+  CancelledError,
+  AuthError,
+  PermissionError,
+  ValidationError,
+  NotFoundError,
 } from './errorHandler'
 
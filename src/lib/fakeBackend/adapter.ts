@@ -0,0 +1,93 @@
+/**
+ * Fake Backend Transports
+ * Routes API client (axios) requests and the auth services' fetch calls to the fake backend
+ */
+
+import type {AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig} from 'axios'
+import {AxiosError, CanceledError} from 'axios'
+import {API_BASE_URL} from '../api/config'
+import {FAKE_BACKEND_CONFIG} from './config'
+import {handleFakeRequest} from './router'
+
+// Resolves after the simulated latency, rejects as soon as the signal aborts
+function delay(signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(resolve, FAKE_BACKEND_CONFIG.latency)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    })
+  })
+}
+
+function getBearerToken(authorization: unknown): string | null {
+  return typeof authorization === 'string' ? authorization.replace(/^Bearer\s+/i, '') : null
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string' || data === '') return data
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+/**
+ * Axios adapter for the API client
+ * Error statuses are rejected as AxiosErrors with a response, so the client's
+ * error handling (typed errors, 401 refresh) works as with the real backend
+ */
+export const fakeBackendAdapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+  const signal = config.signal as AbortSignal | undefined
+  try {
+    await delay(signal)
+  } catch {
+    throw new CanceledError(undefined, undefined, config)
+  }
+
+  const { status, data } = await handleFakeRequest({
+    method: config.method ?? 'get',
+    url: config.url ?? '',
+    body: parseBody(config.data),
+    token: getBearerToken(config.headers.Authorization),
+  })
+
+  const response: AxiosResponse = { data, status, statusText: String(status), headers: {}, config, request: {} }
+  if (status >= 400) {
+    const code = status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST
+    throw new AxiosError(`Request failed with status code ${status}`, code, config, response.request, response)
+  }
+  return response
+}
+
+/**
+ * Send fetch() calls to the API base URL to the fake backend
+ * (the auth services call the backend with fetch instead of the API client)
+ */
+export function installFakeFetch(): void {
+  const realFetch = window.fetch.bind(window)
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input)
+    if (!url.startsWith(API_BASE_URL)) return realFetch(input, init)
+
+    await delay(init?.signal)
+    const headers = new Headers(init?.headers)
+    const { status, data } = await handleFakeRequest({
+      method: init?.method ?? 'GET',
+      url: url.slice(API_BASE_URL.length),
+      body: parseBody(init?.body),
+      token: getBearerToken(headers.get('Authorization')),
+    })
+
+    return new Response(data === null || data === undefined ? null : JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
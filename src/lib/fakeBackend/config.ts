@@ -0,0 +1,36 @@
+/**
+ * Fake Backend Configuration
+ * Decides whether API calls go to the real backend or the in-browser fake backend
+ */
+
+// localStorage override, set from the test data page ('true' / 'false')
+export const FAKE_BACKEND_STORAGE_KEY = 'fake_backend'
+
+export const FAKE_BACKEND_CONFIG = {
+  // IndexedDB database holding the fake backend data
+  databaseName: 'jam-session-fake-backend',
+  // Simulated network latency so loading states and cancellation behave like the real thing
+  latency: 150, // ms
+}
+
+/**
+ * Check if the fake backend is enabled
+ * The localStorage override wins over VITE_FAKE_BACKEND
+ */
+export function isFakeBackendEnabled(): boolean {
+  try {
+    const stored = localStorage.getItem(FAKE_BACKEND_STORAGE_KEY)
+    if (stored !== null) return stored === 'true'
+  } catch {
+    // No localStorage (tests, private mode): fall back to the environment
+  }
+  return import.meta.env.VITE_FAKE_BACKEND === 'true'
+}
+
+/**
+ * Switch between the real and the fake backend
+ * Takes effect after a reload (the API client and auth provider are chosen at startup)
+ */
+export function setFakeBackendEnabled(enabled: boolean): void {
+  localStorage.setItem(FAKE_BACKEND_STORAGE_KEY, String(enabled))
+}
@@ -0,0 +1,34 @@
+/**
+ * Fake Backend Module Index
+ * In-browser replacement for the backend and Supabase auth, for demos and offline development
+ * Enable with VITE_FAKE_BACKEND=true or from the test data page
+ */
+
+import {installFakeFetch} from './adapter'
+import {buildScenario, DEFAULT_SCENARIO_ID, type FakeScenarioId} from './scenarios'
+import {getFakeBackendStore} from './store'
+
+export { FAKE_BACKEND_CONFIG, isFakeBackendEnabled, setFakeBackendEnabled } from './config'
+export { fakeBackendAdapter } from './adapter'
+export { handleFakeRequest, FakeHttpError, type FakeRequest, type FakeResponse } from './router'
+export { DEMO_HOST_EMAIL, FAKE_SCENARIOS, type FakeScenario, type FakeScenarioId } from './scenarios'
+export { getFakeBackendStore, type FakeDatabase } from './store'
+export { stubAuth } from './stubAuth'
+
+/**
+ * Start the fake backend (call once at startup, before rendering)
+ * The API client picks the fake adapter by itself; this covers the fetch-based auth calls
+ * and seeds the default scenario on first use
+ */
+export function installFakeBackend(): void {
+  getFakeBackendStore().setSeed(() => buildScenario(DEFAULT_SCENARIO_ID))
+  installFakeFetch()
+  console.warn('🧪 Fake backend enabled: API calls are served from this browser')
+}
+
+/**
+ * Replace all fake backend data with a seed scenario
+ */
+export function loadFakeScenario(id: FakeScenarioId): Promise<void> {
+  return getFakeBackendStore().replace(buildScenario(id))
+}
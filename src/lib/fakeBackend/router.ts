@@ -0,0 +1,823 @@
+/**
+ * Fake Backend Router
+ * Implements every API_ENDPOINTS route (plus the auth routes used through fetch)
+ * against the fake backend store, returning the same DTOs as the real backend
+ */
+
+import {API_ENDPOINTS} from '../api/config'
+import {
+  getFakeBackendStore,
+  createId,
+  type FakeDatabase,
+  type FakeMusic,
+  type FakeMusician,
+  type FakeRegistration,
+  type FakeRepertoireEntry,
+  type FakeSchedule,
+  type FakeWaitlistEntry,
+} from './store'
+import {createFakeToken, parseFakeToken} from './stubAuth'
+import {getInstrumentSlots, getNextInLine, sortWaitlist} from '../../utils/waitlist'
+import {isActiveRegistration} from '../../utils/registrations'
+import {getMusicSlots, toLegacySlotFields} from '../../utils/instrumentSlots'
+import {getMusicianInstruments, toLegacyMusicianFields} from '../../utils/musicianInstruments'
+import {getInstrumentKey, LEGACY_SLOT_FIELDS} from '../instruments'
+import type {
+  BackendAuthResponseDto,
+  CreateJamDto,
+  CreateMusicDto,
+  CreateMusicianDto,
+  CreateRegistrationDto,
+  CreateRepertoireEntryDto,
+  CreateScheduleDto,
+  CreateWaitlistEntryDto,
+  DashboardSongDto,
+  JamResponseDto,
+  LiveControlAction,
+  LiveControlResultDto,
+  LiveDashboardResponseDto,
+  MusicResponseDto,
+  RegistrationResponseDto,
+  RepertoireEntryResponseDto,
+  RepertoireStatus,
+  ScheduleResponseDto,
+  ScheduleStatus,
+  WaitlistEntryResponseDto,
+} from '../../types/api.types'
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface FakeRequest {
+  method: string
+  // Path or full URL (the API base URL is ignored)
+  url: string
+  body?: unknown
+  // Bearer token from the Authorization header
+  token?: string | null
+}
+
+export interface FakeResponse {
+  status: number
+  data: unknown
+}
+
+/**
+ * Error response of a fake route (status + message, like the backend's error body)
+ */
+export class FakeHttpError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'FakeHttpError'
+    this.status = status
+  }
+}
+
+interface RouteContext {
+  db: FakeDatabase
+  params: Record<string, string>
+  body: Record<string, unknown>
+  user: FakeMusician | null
+}
+
+interface Route {
+  method: HttpMethod
+  pattern: RegExp
+  keys: string[]
+  handler: (context: RouteContext) => unknown
+}
+
+const routes: Route[] = []
+
+/**
+ * Register a route; path parameters are written as :name (e.g. API_ENDPOINTS.jams.detail(':id'))
+ */
+function route(method: HttpMethod, path: string, handler: Route['handler']): void {
+  const keys: string[] = []
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key)
+    return '([^/]+)'
+  })
+  routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler })
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function findOrFail<T extends { id: string }>(items: T[], id: string, label: string): T {
+  const item = items.find((i) => i.id === id)
+  if (!item) throw new FakeHttpError(404, `${label} not found`)
+  return item
+}
+
+function requireFields(body: Record<string, unknown>, fields: string[]): void {
+  const missing = fields.filter((field) => body[field] === undefined || body[field] === '')
+  if (missing.length > 0) throw new FakeHttpError(400, `Missing required fields: ${missing.join(', ')}`)
+}
+
+function requireUser(user: FakeMusician | null): FakeMusician {
+  if (!user) throw new FakeHttpError(401, 'Unauthorized')
+  return user
+}
+
+function now(): string {
+  return new Date().toISOString()
+}
+
+// Keep startedAt / completedAt in step with the status, as the backend does
+function setScheduleStatus(schedule: FakeSchedule, status: ScheduleStatus): void {
+  schedule.status = status
+  schedule.updatedAt = now()
+  if (status === 'IN_PROGRESS') {
+    schedule.startedAt = now()
+    schedule.completedAt = null
+  } else if (status === 'COMPLETED') {
+    schedule.completedAt = now()
+  } else {
+    schedule.startedAt = null
+    schedule.completedAt = null
+  }
+}
+
+function toRegistration(db: FakeDatabase, registration: FakeDatabase['registrations'][number]): RegistrationResponseDto {
+  return { ...registration, musician: db.musicians.find((m) => m.id === registration.musicianId) }
+}
+
+function toMusic(db: FakeDatabase, musicId: string): MusicResponseDto {
+  return findOrFail(db.musics, musicId, 'Music')
+}
+
+function toWaitlistEntry(db: FakeDatabase, entry: FakeWaitlistEntry): WaitlistEntryResponseDto {
+  return { ...entry, musician: db.musicians.find((m) => m.id === entry.musicianId) }
+}
+
+function toRepertoireEntry(db: FakeDatabase, entry: FakeRepertoireEntry): RepertoireEntryResponseDto {
+  return {
+    ...entry,
+    music: db.musics.find((m) => m.id === entry.musicId),
+    musician: db.musicians.find((m) => m.id === entry.musicianId),
+  }
+}
+
+function requireRepertoireStatus(status: unknown): RepertoireStatus {
+  if (status !== 'READY' && status !== 'LEARNING') throw new FakeHttpError(400, 'Status must be READY or LEARNING')
+  return status
+}
+
+function scheduleWaitlist(db: FakeDatabase, scheduleId: string): WaitlistEntryResponseDto[] {
+  return sortWaitlist(db.waitlist.filter((e) => e.scheduleId === scheduleId)).map((e) => toWaitlistEntry(db, e))
+}
+
+function toSchedule(db: FakeDatabase, schedule: FakeSchedule): ScheduleResponseDto {
+  const registrations = db.registrations.filter((r) => r.scheduleId === schedule.id).map((r) => toRegistration(db, r))
+  return {
+    ...schedule,
+    music: toMusic(db, schedule.musicId),
+    registrations,
+    registration: registrations.find((r) => r.id === schedule.registrationId),
+    waitlist: scheduleWaitlist(db, schedule.id),
+  }
+}
+
+function jamSchedules(db: FakeDatabase, jamId: string): FakeSchedule[] {
+  return db.schedules.filter((s) => s.jamId === jamId).sort((a, b) => a.order - b.order)
+}
+
+function toJam(db: FakeDatabase, jam: FakeDatabase['jams'][number]): JamResponseDto {
+  return {
+    ...jam,
+    jamMusics: db.jamMusics.filter((jm) => jm.jamId === jam.id).map((jm) => ({ ...jm, music: toMusic(db, jm.musicId) })),
+    registrations: db.registrations.filter((r) => r.jamId === jam.id).map((r) => toRegistration(db, r)),
+    schedules: jamSchedules(db, jam.id).map((s) => toSchedule(db, s)),
+  }
+}
+
+function toDashboardSong(db: FakeDatabase, schedule: FakeSchedule): DashboardSongDto {
+  const music = toMusic(db, schedule.musicId)
+  return {
+    id: schedule.id,
+    title: music.title,
+    artist: music.artist,
+    duration: music.duration ?? null,
+    startedAt: schedule.startedAt ?? null,
+    musicians: db.registrations
+      .filter((r) => r.scheduleId === schedule.id && isActiveRegistration(r))
+      .flatMap((r) => {
+        const musician = db.musicians.find((m) => m.id === r.musicianId)
+        return musician ? [{ id: musician.id, name: musician.name, instrument: r.instrument }] : []
+      }),
+  }
+}
+
+function toAuthResponse(musician: FakeMusician, token: string, isNewUser: boolean): BackendAuthResponseDto {
+  return {
+    userId: musician.id,
+    name: musician.name,
+    email: musician.email,
+    phone: musician.phone,
+    isHost: Boolean(musician.isHost),
+    token,
+    isNewUser,
+    instrument: musician.instrument,
+    level: musician.level,
+    instruments: musician.instruments,
+  }
+}
+
+// Musicians double as accounts: unknown emails get a new musician (isNewUser → onboarding)
+function findOrCreateAccount(db: FakeDatabase, email: string): { musician: FakeMusician; isNewUser: boolean } {
+  const existing = db.musicians.find((m) => m.email === email)
+  if (existing) return { musician: existing, isNewUser: false }
+
+  const musician: FakeMusician = {
+    id: createId(),
+    name: email.split('@')[0],
+    email,
+    contact: email,
+    phone: '',
+    instrument: '',
+    level: 'BEGINNER',
+    instruments: [],
+    createdAt: now(),
+  }
+  db.musicians.push(musician)
+  return { musician, isNewUser: true }
+}
+
+function removeSchedules(db: FakeDatabase, scheduleIds: string[]): void {
+  db.schedules = db.schedules.filter((s) => !scheduleIds.includes(s.id))
+  db.registrations = db.registrations.filter((r) => !scheduleIds.includes(r.scheduleId))
+  db.waitlist = db.waitlist.filter((e) => !scheduleIds.includes(e.scheduleId))
+}
+
+// Keep positions 1..n after someone leaves the line
+function renumberWaitlist(db: FakeDatabase, scheduleId: string, instrument: string): void {
+  sortWaitlist(db.waitlist.filter((e) => e.scheduleId === scheduleId), instrument).forEach((entry, index) => {
+    entry.position = index + 1
+  })
+}
+
+function removeWaitlistEntry(db: FakeDatabase, entry: FakeWaitlistEntry): void {
+  db.waitlist = db.waitlist.filter((e) => e.id !== entry.id)
+  renumberWaitlist(db, entry.scheduleId, entry.instrument)
+}
+
+// Move a waitlisted musician into the song
+function promoteWaitlistEntry(db: FakeDatabase, entry: FakeWaitlistEntry, status: string): FakeRegistration {
+  const registration = {
+    id: createId(),
+    musicianId: entry.musicianId,
+    jamId: entry.jamId,
+    scheduleId: entry.scheduleId,
+    instrument: entry.instrument,
+    status,
+    createdAt: now(),
+  }
+  db.registrations.push(registration)
+  removeWaitlistEntry(db, entry)
+  return registration
+}
+
+// A registration gave up its slot: with automatic promotion the first musician in line
+// takes it (pending host approval); otherwise the host is offered the promotion
+function fillFreedSlot(db: FakeDatabase, registration: FakeRegistration): void {
+  const schedule = db.schedules.find((s) => s.id === registration.scheduleId)
+  const jam = schedule && db.jams.find((j) => j.id === schedule.jamId)
+  if (!schedule || jam?.waitlistPromotion !== 'AUTO') return
+
+  const instrument = getInstrumentKey(registration.instrument)
+  const current = toSchedule(db, schedule)
+  const slot = getInstrumentSlots(current).find((s) => s.key === instrument)
+  const next = getNextInLine(current, instrument)
+  if (slot && slot.open > 0 && next) {
+    promoteWaitlistEntry(db, findOrFail(db.waitlist, next.id, 'Waitlist entry'), 'PENDING')
+  }
+}
+
+// Keep instrument slots and the legacy needed* fields in step; a request with only
+// legacy fields (older clients, CSV import) replaces the slots
+function syncInstrumentSlots(music: FakeMusic, changes: Partial<CreateMusicDto>): void {
+  const legacyOnly = !changes.instrumentSlots && LEGACY_SLOT_FIELDS.some((field) => changes[field] !== undefined)
+  music.instrumentSlots = getMusicSlots(legacyOnly ? { ...music, instrumentSlots: undefined } : music)
+  Object.assign(music, toLegacySlotFields(music.instrumentSlots))
+}
+
+// Keep the instrument list and the legacy instrument/level in step; a request with only
+// the legacy fields (older clients) replaces the primary instrument
+function syncMusicianInstruments(musician: FakeMusician, changes: Partial<CreateMusicianDto>): void {
+  const legacyOnly = !changes.instruments && (changes.instrument !== undefined || changes.level !== undefined)
+  if (legacyOnly) {
+    const others = getMusicianInstruments(musician).filter((entry) => !entry.primary)
+    const primary = getMusicianInstruments({ instrument: musician.instrument, level: musician.level })
+    musician.instruments = getMusicianInstruments({ instruments: [...primary, ...others] })
+  } else {
+    musician.instruments = getMusicianInstruments(musician)
+  }
+  Object.assign(musician, toLegacyMusicianFields(musician.instruments))
+}
+
+function reorder(db: FakeDatabase, jamId: string, scheduleIds: string[]): void {
+  scheduleIds.forEach((id, index) => {
+    const schedule = findOrFail(db.schedules, id, 'Schedule')
+    if (schedule.jamId !== jamId) throw new FakeHttpError(400, 'Schedule does not belong to this jam')
+    schedule.order = index + 1
+  })
+}
+
+// ============================================================================
+// AUTH
+// ============================================================================
+
+route('POST', API_ENDPOINTS.auth.login, ({ db, body }) => {
+  const email = (body.email as string | undefined) ?? (body.phone ? `${body.phone as string}@phone.local` : '')
+  if (!email) throw new FakeHttpError(400, 'Please provide an email or phone number')
+  const { musician, isNewUser } = findOrCreateAccount(db, email.toLowerCase())
+  if (body.phone) musician.phone = body.phone as string
+  return toAuthResponse(musician, createFakeToken(musician.email ?? email), isNewUser)
+})
+
+route('POST', '/auth/sync-user', ({ db, body }) => {
+  const token = body.token as string | undefined
+  const email = parseFakeToken(token)
+  if (!token || !email) throw new FakeHttpError(401, 'Invalid token')
+  const { musician, isNewUser } = findOrCreateAccount(db, email)
+  return toAuthResponse(musician, token, isNewUser)
+})
+
+route('GET', API_ENDPOINTS.auth.me, ({ user }) => {
+  const musician = requireUser(user)
+  return toAuthResponse(musician, '', false)
+})
+
+route('PATCH', '/auth/profile', ({ user, body }) => {
+  const musician = requireUser(user)
+  const { name, instrument, level, instruments, contact, phone } = body as Partial<FakeMusician>
+  Object.assign(musician, {
+    ...(name !== undefined && { name }),
+    ...(instrument !== undefined && { instrument }),
+    ...(level !== undefined && { level }),
+    ...(instruments !== undefined && { instruments }),
+    ...(contact !== undefined && { contact }),
+    ...(phone !== undefined && { phone }),
+  })
+  syncMusicianInstruments(musician, { instrument, level, instruments })
+  return toAuthResponse(musician, '', false)
+})
+
+route('POST', API_ENDPOINTS.auth.refreshToken, ({ user }) => ({ token: createFakeToken(requireUser(user).email ?? '') }))
+route('POST', API_ENDPOINTS.auth.logout, () => null)
+route('GET', API_ENDPOINTS.auth.logout, () => null)
+
+// ============================================================================
+// JAMS
+// ============================================================================
+
+route('GET', API_ENDPOINTS.jams.list, ({ db }) => db.jams.map((jam) => toJam(db, jam)))
+
+route('POST', API_ENDPOINTS.jams.create, ({ db, body, user }) => {
+  requireFields(body, ['name', 'location'])
+  const data = body as unknown as CreateJamDto
+  const host = db.musicians.find((m) => m.id === data.hostMusicianId) ?? user
+  const jam = {
+    id: createId(),
+    name: data.name,
+    description: data.description,
+    date: data.date,
+    location: data.location,
+    qrCode: data.qrCode,
+    status: data.status ?? 'ACTIVE',
+    hostName: host?.name ?? data.hostName ?? '',
+    hostMusicianId: host?.id,
+    createdAt: now(),
+    updatedAt: now(),
+  }
+  db.jams.push(jam)
+  return toJam(db, jam)
+})
+
+route('GET', API_ENDPOINTS.jams.detail(':id'), ({ db, params }) => toJam(db, findOrFail(db.jams, params.id, 'Jam')))
+
+route('PATCH', API_ENDPOINTS.jams.update(':id'), ({ db, params, body }) => {
+  const jam = findOrFail(db.jams, params.id, 'Jam')
+  const { id: _id, createdAt: _createdAt, ...changes } = body as Partial<CreateJamDto> & { id?: string; createdAt?: string }
+  Object.assign(jam, changes, { updatedAt: now() })
+  return toJam(db, jam)
+})
+
+route('DELETE', API_ENDPOINTS.jams.delete(':id'), ({ db, params }) => {
+  findOrFail(db.jams, params.id, 'Jam')
+  db.jams = db.jams.filter((j) => j.id !== params.id)
+  db.jamMusics = db.jamMusics.filter((jm) => jm.jamId !== params.id)
+  db.schedules = db.schedules.filter((s) => s.jamId !== params.id)
+  db.registrations = db.registrations.filter((r) => r.jamId !== params.id)
+  return null
+})
+
+route('GET', API_ENDPOINTS.jams.liveDashboard(':id'), ({ db, params }): LiveDashboardResponseDto => {
+  const jam = findOrFail(db.jams, params.id, 'Jam')
+  const schedules = jamSchedules(db, jam.id)
+  const current = schedules.find((s) => s.status === 'IN_PROGRESS')
+  return {
+    jamId: jam.id,
+    jamName: jam.name,
+    qrCode: jam.qrCode ?? null,
+    jamStatus: jam.status,
+    currentSong: current ? toDashboardSong(db, current) : null,
+    nextSongs: schedules.filter((s) => s.status === 'SCHEDULED').map((s) => toDashboardSong(db, s)),
+  }
+})
+
+route('POST', API_ENDPOINTS.liveControl(':id'), ({ db, params, body }): LiveControlResultDto => {
+  findOrFail(db.jams, params.id, 'Jam')
+  const action = body as unknown as LiveControlAction
+  const schedules = jamSchedules(db, params.id)
+  const current = schedules.find((s) => s.status === 'IN_PROGRESS')
+
+  switch (action.action) {
+    case 'skip': {
+      const next = schedules.find((s) => s.status === 'SCHEDULED')
+      if (current) setScheduleStatus(current, 'COMPLETED')
+      if (next) setScheduleStatus(next, 'IN_PROGRESS')
+      break
+    }
+    case 'previous': {
+      const last = schedules
+        .filter((s) => s.status === 'COMPLETED')
+        .sort((a, b) => (b.completedAt ?? '').localeCompare(a.completedAt ?? '') || b.order - a.order)[0]
+      if (!last) throw new FakeHttpError(400, 'No previous song')
+      if (current) setScheduleStatus(current, 'SCHEDULED')
+      setScheduleStatus(last, 'IN_PROGRESS')
+      break
+    }
+    case 'reorder':
+      reorder(db, params.id, action.scheduleIds)
+      break
+    case 'play':
+    case 'pause':
+    case 'extend-time':
+      // Playback state and timing live on the client
+      break
+    default:
+      throw new FakeHttpError(400, 'Unknown action')
+  }
+
+  const playing = jamSchedules(db, params.id).find((s) => s.status === 'IN_PROGRESS')
+  return { action: action.action, currentSchedule: playing ? toSchedule(db, playing) : null }
+})
+
+// ============================================================================
+// MUSICIANS
+// ============================================================================
+
+route('GET', API_ENDPOINTS.musicians, ({ db }) => db.musicians)
+
+route('POST', API_ENDPOINTS.musicians, ({ db, body }) => {
+  requireFields(body, ['name'])
+  const data = body as unknown as CreateMusicianDto
+  const musician: FakeMusician = { ...data, id: createId(), phone: '', createdAt: now() }
+  syncMusicianInstruments(musician, data)
+  db.musicians.push(musician)
+  return musician
+})
+
+route('GET', API_ENDPOINTS.musicianById(':id'), ({ db, params }) => findOrFail(db.musicians, params.id, 'Musician'))
+
+route('PATCH', API_ENDPOINTS.musicianById(':id'), ({ db, params, body }) => {
+  const musician = findOrFail(db.musicians, params.id, 'Musician')
+  const { id: _id, isHost: _isHost, email: _email, ...changes } = body as Partial<FakeMusician>
+  Object.assign(musician, changes)
+  syncMusicianInstruments(musician, changes)
+  return musician
+})
+
+route('DELETE', API_ENDPOINTS.musicianById(':id'), ({ db, params }) => {
+  findOrFail(db.musicians, params.id, 'Musician')
+  db.musicians = db.musicians.filter((m) => m.id !== params.id)
+  db.registrations = db.registrations.filter((r) => r.musicianId !== params.id)
+  db.repertoire = db.repertoire.filter((e) => e.musicianId !== params.id)
+  return null
+})
+
+route('GET', API_ENDPOINTS.registrationsByMusician(':id'), ({ db, params }) =>
+  db.registrations.filter((r) => r.musicianId === params.id).map((r) => toRegistration(db, r))
+)
+
+route('GET', API_ENDPOINTS.schedulesByMusician(':id'), ({ db, params }) => {
+  const scheduleIds = new Set(db.registrations.filter((r) => r.musicianId === params.id).map((r) => r.scheduleId))
+  return db.schedules.filter((s) => scheduleIds.has(s.id)).map((s) => toSchedule(db, s))
+})
+
+// ============================================================================
+// MUSIC
+// ============================================================================
+
+route('GET', API_ENDPOINTS.music, ({ db }) => db.musics)
+
+route('POST', API_ENDPOINTS.music, ({ db, body }) => {
+  requireFields(body, ['title', 'artist'])
+  const data = body as unknown as CreateMusicDto
+  const music = { ...data, id: createId(), status: data.status ?? 'APPROVED', createdAt: now() }
+  syncInstrumentSlots(music, data)
+  db.musics.push(music)
+  return music
+})
+
+route('GET', API_ENDPOINTS.musicById(':id'), ({ db, params }) => findOrFail(db.musics, params.id, 'Music'))
+
+route('PATCH', API_ENDPOINTS.musicById(':id'), ({ db, params, body }) => {
+  const music = findOrFail(db.musics, params.id, 'Music')
+  const { id: _id, createdAt: _createdAt, ...changes } = body as Partial<MusicResponseDto>
+  Object.assign(music, changes)
+  syncInstrumentSlots(music, changes)
+  return music
+})
+
+route('DELETE', API_ENDPOINTS.musicById(':id'), ({ db, params }) => {
+  findOrFail(db.musics, params.id, 'Music')
+  db.musics = db.musics.filter((m) => m.id !== params.id)
+  db.jamMusics = db.jamMusics.filter((jm) => jm.musicId !== params.id)
+  db.repertoire = db.repertoire.filter((e) => e.musicId !== params.id)
+  removeSchedules(db, db.schedules.filter((s) => s.musicId === params.id).map((s) => s.id))
+  return null
+})
+
+route('GET', API_ENDPOINTS.musicByJam(':id'), ({ db, params }) => {
+  findOrFail(db.jams, params.id, 'Jam')
+  return db.jamMusics.filter((jm) => jm.jamId === params.id).map((jm) => toMusic(db, jm.musicId))
+})
+
+route('PATCH', API_ENDPOINTS.linkMusicToJam(':musicId', ':jamId'), ({ db, params }) => {
+  findOrFail(db.musics, params.musicId, 'Music')
+  findOrFail(db.jams, params.jamId, 'Jam')
+  const existing = db.jamMusics.find((jm) => jm.jamId === params.jamId && jm.musicId === params.musicId)
+  if (existing) return existing
+  const jamMusic = { id: createId(), jamId: params.jamId, musicId: params.musicId }
+  db.jamMusics.push(jamMusic)
+  return jamMusic
+})
+
+// ============================================================================
+// REGISTRATIONS
+// ============================================================================
+
+route('POST', API_ENDPOINTS.registrations, ({ db, body }) => {
+  requireFields(body, ['musicianId'])
+  const data = body as unknown as CreateRegistrationDto
+  const musician = findOrFail(db.musicians, data.musicianId, 'Musician')
+  const schedule = data.scheduleId ? findOrFail(db.schedules, data.scheduleId, 'Schedule') : undefined
+  const jamMusic = data.jamMusicId ? findOrFail(db.jamMusics, data.jamMusicId, 'Jam music') : undefined
+  const jamId = schedule?.jamId ?? jamMusic?.jamId
+  if (!jamId) throw new FakeHttpError(400, 'Missing required fields: scheduleId or jamMusicId')
+
+  if (schedule && db.registrations.some((r) => r.scheduleId === schedule.id && r.musicianId === musician.id)) {
+    throw new FakeHttpError(409, 'Musician is already registered for this song')
+  }
+
+  const registration = {
+    id: createId(),
+    musicianId: musician.id,
+    jamId,
+    scheduleId: schedule?.id ?? '',
+    instrument: data.instrument ?? musician.instrument,
+    status: 'PENDING',
+    createdAt: now(),
+  }
+  db.registrations.push(registration)
+
+  // Registered for the song after all: no need to wait for another slot
+  const waiting = db.waitlist.find((e) => e.scheduleId === registration.scheduleId && e.musicianId === musician.id)
+  if (waiting) removeWaitlistEntry(db, waiting)
+  return toRegistration(db, registration)
+})
+
+route('GET', API_ENDPOINTS.registrationById(':id'), ({ db, params }) =>
+  toRegistration(db, findOrFail(db.registrations, params.id, 'Registration'))
+)
+
+route('PATCH', API_ENDPOINTS.registrationById(':id'), ({ db, params, body }) => {
+  const registration = findOrFail(db.registrations, params.id, 'Registration')
+  const { status, instrument, scheduleId } = body as Partial<RegistrationResponseDto>
+  Object.assign(registration, {
+    ...(status !== undefined && { status }),
+    ...(instrument !== undefined && { instrument }),
+    ...(scheduleId !== undefined && { scheduleId }),
+  })
+  if (status !== undefined && !isActiveRegistration({ status })) fillFreedSlot(db, registration)
+  return toRegistration(db, registration)
+})
+
+route('DELETE', API_ENDPOINTS.registrationById(':id'), ({ db, params }) => {
+  const registration = findOrFail(db.registrations, params.id, 'Registration')
+  db.registrations = db.registrations.filter((r) => r.id !== params.id)
+  fillFreedSlot(db, registration)
+  return null
+})
+
+route('GET', API_ENDPOINTS.registrationsByJam(':id'), ({ db, params }) =>
+  db.registrations.filter((r) => r.jamId === params.id).map((r) => toRegistration(db, r))
+)
+
+// ============================================================================
+// WAITLIST
+// ============================================================================
+
+route('POST', API_ENDPOINTS.waitlist, ({ db, body }) => {
+  requireFields(body, ['scheduleId', 'musicianId', 'instrument'])
+  const data = body as unknown as CreateWaitlistEntryDto
+  const musician = findOrFail(db.musicians, data.musicianId, 'Musician')
+  const schedule = findOrFail(db.schedules, data.scheduleId, 'Schedule')
+  const instrument = getInstrumentKey(data.instrument)
+
+  const current = toSchedule(db, schedule)
+  if (current.registrations?.some((r) => r.musicianId === musician.id && isActiveRegistration(r))) {
+    throw new FakeHttpError(409, 'Musician is already registered for this song')
+  }
+  if (db.waitlist.some((e) => e.scheduleId === schedule.id && e.musicianId === musician.id)) {
+    throw new FakeHttpError(409, 'Musician is already on the waitlist for this song')
+  }
+  const slot = getInstrumentSlots(current).find((s) => s.key === instrument)
+  if (!slot) throw new FakeHttpError(400, 'The song does not need this instrument')
+  if (slot.open > 0) throw new FakeHttpError(409, 'There is still a free slot for this instrument')
+
+  const entry = {
+    id: createId(),
+    jamId: schedule.jamId,
+    scheduleId: schedule.id,
+    musicianId: musician.id,
+    instrument,
+    position: slot.waitlisted + 1,
+    createdAt: now(),
+  }
+  db.waitlist.push(entry)
+  return toWaitlistEntry(db, entry)
+})
+
+route('GET', API_ENDPOINTS.waitlistBySchedule(':id'), ({ db, params }) => {
+  findOrFail(db.schedules, params.id, 'Schedule')
+  return scheduleWaitlist(db, params.id)
+})
+
+route('DELETE', API_ENDPOINTS.waitlistById(':id'), ({ db, params }) => {
+  removeWaitlistEntry(db, findOrFail(db.waitlist, params.id, 'Waitlist entry'))
+  return null
+})
+
+// The host moves a musician from the line into the song
+route('POST', API_ENDPOINTS.promoteWaitlistEntry(':id'), ({ db, params }) => {
+  const entry = findOrFail(db.waitlist, params.id, 'Waitlist entry')
+  const schedule = findOrFail(db.schedules, entry.scheduleId, 'Schedule')
+  const slot = getInstrumentSlots(toSchedule(db, schedule)).find((s) => s.key === getInstrumentKey(entry.instrument))
+  if (!slot || slot.open === 0) throw new FakeHttpError(409, 'There is no free slot for this instrument')
+  return toRegistration(db, promoteWaitlistEntry(db, entry, 'APPROVED'))
+})
+
+// ============================================================================
+// REPERTOIRE
+// ============================================================================
+
+route('POST', API_ENDPOINTS.repertoire, ({ db, body }) => {
+  requireFields(body, ['musicianId', 'musicId', 'status'])
+  const data = body as unknown as CreateRepertoireEntryDto
+  findOrFail(db.musicians, data.musicianId, 'Musician')
+  findOrFail(db.musics, data.musicId, 'Music')
+  if (db.repertoire.some((e) => e.musicianId === data.musicianId && e.musicId === data.musicId)) {
+    throw new FakeHttpError(409, 'The song is already in this repertoire')
+  }
+
+  const entry: FakeRepertoireEntry = {
+    id: createId(),
+    musicianId: data.musicianId,
+    musicId: data.musicId,
+    status: requireRepertoireStatus(data.status),
+    createdAt: now(),
+  }
+  db.repertoire.push(entry)
+  return toRepertoireEntry(db, entry)
+})
+
+route('GET', API_ENDPOINTS.repertoireByMusician(':id'), ({ db, params }) => {
+  findOrFail(db.musicians, params.id, 'Musician')
+  return db.repertoire.filter((e) => e.musicianId === params.id).map((e) => toRepertoireEntry(db, e))
+})
+
+// Every musician's entries for the songs on a jam's setlist
+route('GET', API_ENDPOINTS.repertoireByJam(':id'), ({ db, params }) => {
+  findOrFail(db.jams, params.id, 'Jam')
+  const musicIds = new Set(jamSchedules(db, params.id).map((s) => s.musicId))
+  return db.repertoire.filter((e) => musicIds.has(e.musicId)).map((e) => toRepertoireEntry(db, e))
+})
+
+route('PATCH', API_ENDPOINTS.repertoireById(':id'), ({ db, params, body }) => {
+  const entry = findOrFail(db.repertoire, params.id, 'Repertoire entry')
+  Object.assign(entry, { status: requireRepertoireStatus(body.status), updatedAt: now() })
+  return toRepertoireEntry(db, entry)
+})
+
+route('DELETE', API_ENDPOINTS.repertoireById(':id'), ({ db, params }) => {
+  findOrFail(db.repertoire, params.id, 'Repertoire entry')
+  db.repertoire = db.repertoire.filter((e) => e.id !== params.id)
+  return null
+})
+
+// ============================================================================
+// SCHEDULES
+// ============================================================================
+
+route('POST', API_ENDPOINTS.schedules, ({ db, body }) => {
+  requireFields(body, ['jamId', 'musicId'])
+  const data = body as unknown as CreateScheduleDto
+  findOrFail(db.jams, data.jamId, 'Jam')
+  findOrFail(db.musics, data.musicId, 'Music')
+
+  const schedule: FakeSchedule = {
+    id: createId(),
+    jamId: data.jamId,
+    musicId: data.musicId,
+    order: data.order ?? jamSchedules(db, data.jamId).length + 1,
+    status: 'SCHEDULED',
+    registrationId: data.registrationId,
+    createdAt: now(),
+  }
+  setScheduleStatus(schedule, data.status ?? 'SCHEDULED')
+  db.schedules.push(schedule)
+
+  // A registration made for the song (seed page flow) moves onto the new schedule
+  const registration = db.registrations.find((r) => r.id === data.registrationId)
+  if (registration) registration.scheduleId = schedule.id
+
+  return toSchedule(db, schedule)
+})
+
+route('GET', API_ENDPOINTS.scheduleById(':id'), ({ db, params }) => toSchedule(db, findOrFail(db.schedules, params.id, 'Schedule')))
+
+route('PATCH', API_ENDPOINTS.scheduleById(':id'), ({ db, params, body }) => {
+  const schedule = findOrFail(db.schedules, params.id, 'Schedule')
+  const { status, order, musicId } = body as Partial<FakeSchedule>
+  if (musicId !== undefined) schedule.musicId = findOrFail(db.musics, musicId, 'Music').id
+  if (order !== undefined) schedule.order = order
+  if (status !== undefined && status !== schedule.status) setScheduleStatus(schedule, status)
+  schedule.updatedAt = now()
+  return toSchedule(db, schedule)
+})
+
+route('DELETE', API_ENDPOINTS.scheduleById(':id'), ({ db, params }) => {
+  findOrFail(db.schedules, params.id, 'Schedule')
+  removeSchedules(db, [params.id])
+  return null
+})
+
+route('GET', API_ENDPOINTS.schedulesByJam(':id'), ({ db, params }) => jamSchedules(db, params.id).map((s) => toSchedule(db, s)))
+
+route('PUT', API_ENDPOINTS.reorderSchedules(':id'), ({ db, params, body }) => {
+  if (!Array.isArray(body)) throw new FakeHttpError(400, 'Expected an array of schedule IDs')
+  reorder(db, params.id, body as string[])
+  return null
+})
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+function getPath(url: string): string {
+  return new URL(url, 'http://fake-backend').pathname.replace(/\/+$/, '') || '/'
+}
+
+/**
+ * Handle a request with the fake backend
+ * Errors come back as a status + { message, statusCode } body, like the real backend
+ */
+export async function handleFakeRequest(request: FakeRequest): Promise<FakeResponse> {
+  const method = request.method.toUpperCase()
+  const path = getPath(request.url)
+
+  let params: Record<string, string> = {}
+  const match = routes.find((candidate) => {
+    if (candidate.method !== method) return false
+    const result = candidate.pattern.exec(path)
+    if (!result) return false
+    params = Object.fromEntries(candidate.keys.map((key, i) => [key, decodeURIComponent(result[i + 1])]))
+    return true
+  })
+
+  if (!match) {
+    return { status: 404, data: { message: `Cannot ${method} ${path}`, statusCode: 404 } }
+  }
+
+  try {
+    const data = await getFakeBackendStore().transaction((db) => {
+      const email = parseFakeToken(request.token)
+      const user = email ? (db.musicians.find((m) => m.email === email) ?? null) : null
+      const body = (request.body ?? {}) as Record<string, unknown>
+      return match.handler({ db, params, body, user })
+    }, method !== 'GET')
+    return { status: method === 'POST' ? 201 : 200, data }
+  } catch (err) {
+    if (err instanceof FakeHttpError) {
+      return { status: err.status, data: { message: err.message, statusCode: err.status } }
+    }
+    console.error('❌ Fake backend error:', err)
+    return { status: 500, data: { message: err instanceof Error ? err.message : 'Internal server error', statusCode: 500 } }
+  }
+}
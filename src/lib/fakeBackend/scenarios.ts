@@ -0,0 +1,146 @@
+/**
+ * Fake Backend Scenarios
+ * Seed data sets for demos, built from the test data seed page's data
+ */
+
+import {SEED_MUSICIANS, SEED_REGISTRATIONS, SEED_REPERTOIRE, SEED_SCHEDULES, SEED_SONGS} from '../seedData'
+import {createEmptyDatabase, createId, type FakeDatabase, type FakeMusician} from './store'
+import type {ScheduleStatus} from '../../types/api.types'
+
+export type FakeScenarioId = 'live' | 'upcoming' | 'empty'
+
+export interface FakeScenario {
+  id: FakeScenarioId
+  name: string
+  description: string
+  build: () => FakeDatabase
+}
+
+// Stub auth account with the host role in every scenario
+export const DEMO_HOST_EMAIL = 'host@jamsession.local'
+
+function createHost(now: string): FakeMusician {
+  return {
+    id: createId(),
+    name: 'Demo Host',
+    email: DEMO_HOST_EMAIL,
+    contact: DEMO_HOST_EMAIL,
+    phone: '',
+    instrument: 'VOCAL',
+    level: 'PROFESSIONAL',
+    isHost: true,
+    createdAt: now,
+  }
+}
+
+/**
+ * One jam with the seed musicians, songs, registrations and setlist
+ * @param getStatus - Status of each seeded schedule
+ */
+function buildJamScenario(name: string, date: Date, getStatus: (status: ScheduleStatus) => ScheduleStatus): FakeDatabase {
+  const now = new Date().toISOString()
+  const db = createEmptyDatabase()
+  const host = createHost(now)
+
+  db.musicians = [
+    host,
+    ...SEED_MUSICIANS.map((musician) => ({
+      ...musician,
+      id: createId(),
+      email: musician.contact,
+      phone: '',
+      createdAt: now,
+    })),
+  ]
+  const musicians = db.musicians.slice(1)
+
+  db.musics = SEED_SONGS.map((song) => ({ ...song, id: createId(), status: 'APPROVED' as const, createdAt: now }))
+
+  const jam = {
+    id: createId(),
+    name,
+    description: 'Demo jam session',
+    location: 'Main Stage',
+    date: date.toISOString(),
+    hostName: host.name,
+    hostMusicianId: host.id,
+    status: 'ACTIVE' as const,
+    createdAt: now,
+    updatedAt: now,
+  }
+  db.jams = [jam]
+
+  db.jamMusics = db.musics.map((music) => ({ id: createId(), jamId: jam.id, musicId: music.id }))
+
+  db.schedules = SEED_SCHEDULES.map(({ song, order, status }) => {
+    const scheduleStatus = getStatus(status)
+    return {
+      id: createId(),
+      jamId: jam.id,
+      musicId: db.musics[song].id,
+      order,
+      status: scheduleStatus,
+      startedAt: scheduleStatus === 'IN_PROGRESS' ? now : null,
+      completedAt: null,
+      createdAt: now,
+    }
+  })
+
+  // Each seeded registration belongs to the schedule at the same index
+  db.registrations = SEED_REGISTRATIONS.map(({ musician }, index) => ({
+    id: createId(),
+    musicianId: musicians[musician].id,
+    jamId: jam.id,
+    scheduleId: db.schedules[index].id,
+    instrument: musicians[musician].instrument,
+    status: 'APPROVED',
+    createdAt: now,
+  }))
+  db.schedules.forEach((schedule, index) => {
+    schedule.registrationId = db.registrations[index]?.id
+  })
+
+  db.repertoire = SEED_REPERTOIRE.map(({ musician, song, status }) => ({
+    id: createId(),
+    musicianId: musicians[musician].id,
+    musicId: db.musics[song].id,
+    status,
+    createdAt: now,
+  }))
+
+  return db
+}
+
+export const FAKE_SCENARIOS: FakeScenario[] = [
+  {
+    id: 'live',
+    name: 'Live jam',
+    description: 'A jam in progress: the first song is playing, three are queued',
+    build: () => buildJamScenario('Friday Night Jam', new Date(), (status) => status),
+  },
+  {
+    id: 'upcoming',
+    name: 'Upcoming jam',
+    description: 'A jam next week with its setlist scheduled and nothing played yet',
+    build: () =>
+      buildJamScenario('Next Week Jam', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), (status) =>
+        status === 'IN_PROGRESS' ? 'SCHEDULED' : status
+      ),
+  },
+  {
+    id: 'empty',
+    name: 'Empty',
+    description: 'Only the host account, to create a jam from scratch',
+    build: () => ({ ...createEmptyDatabase(), musicians: [createHost(new Date().toISOString())] }),
+  },
+]
+
+export const DEFAULT_SCENARIO_ID: FakeScenarioId = 'live'
+
+/**
+ * Build the data of a scenario
+ */
+export function buildScenario(id: FakeScenarioId): FakeDatabase {
+  const scenario = FAKE_SCENARIOS.find((s) => s.id === id) ?? FAKE_SCENARIOS[0]
+  return scenario.build()
+}
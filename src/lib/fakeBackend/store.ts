@@ -0,0 +1,178 @@
+/**
+ * Fake Backend Store
+ * Flat tables of the fake backend, persisted as one snapshot in IndexedDB
+ * The snapshot is re-read for every request so several tabs (e.g. host
+ * control and the public dashboard) see each other's changes
+ */
+
+import {FAKE_BACKEND_CONFIG} from './config'
+import {type KeyValueStore, openKeyValueStore} from '../indexedDb'
+import {getMusicSlots} from '../../utils/instrumentSlots'
+import {getMusicianInstruments} from '../../utils/musicianInstruments'
+import type {
+  JamResponseDto,
+  MusicianResponseDto,
+  MusicResponseDto,
+  RegistrationResponseDto,
+  RepertoireEntryResponseDto,
+  ScheduleResponseDto,
+  WaitlistEntryResponseDto,
+} from '../../types/api.types'
+
+export type FakeJam = Omit<JamResponseDto, 'jamMusics' | 'registrations' | 'schedules'> & { hostMusicianId?: string }
+
+// Musicians double as user accounts (the user ID is the musician ID)
+export type FakeMusician = MusicianResponseDto & { email?: string; isHost?: boolean }
+
+export type FakeMusic = Omit<MusicResponseDto, 'registrations' | 'schedules'>
+
+export interface FakeJamMusic {
+  id: string
+  jamId: string
+  musicId: string
+}
+
+export type FakeSchedule = Omit<ScheduleResponseDto, 'music' | 'registrations' | 'registration'>
+
+export type FakeRegistration = Omit<RegistrationResponseDto, 'musician'>
+
+export type FakeWaitlistEntry = Omit<WaitlistEntryResponseDto, 'musician'>
+
+export type FakeRepertoireEntry = Omit<RepertoireEntryResponseDto, 'music' | 'musician'>
+
+export interface FakeDatabase {
+  jams: FakeJam[]
+  musicians: FakeMusician[]
+  musics: FakeMusic[]
+  jamMusics: FakeJamMusic[]
+  schedules: FakeSchedule[]
+  registrations: FakeRegistration[]
+  waitlist: FakeWaitlistEntry[]
+  repertoire: FakeRepertoireEntry[]
+}
+
+const STORE_NAME = 'snapshots'
+const SNAPSHOT_KEY = 'current'
+
+/**
+ * Create an empty database
+ */
+export function createEmptyDatabase(): FakeDatabase {
+  return { jams: [], musicians: [], musics: [], jamMusics: [], schedules: [], registrations: [], waitlist: [], repertoire: [] }
+}
+
+/**
+ * Bring a saved snapshot up to date: tables added since it was saved start empty,
+ * songs saved with only the legacy needed* fields get instrument slots, and musicians
+ * with only the legacy instrument/level get an instrument list
+ */
+function migrateDatabase(snapshot: FakeDatabase): FakeDatabase {
+  const db = { ...createEmptyDatabase(), ...snapshot }
+  db.musics.forEach((music) => {
+    if (!music.instrumentSlots) music.instrumentSlots = getMusicSlots(music)
+  })
+  db.musicians.forEach((musician) => {
+    if (!musician.instruments) musician.instruments = getMusicianInstruments(musician)
+  })
+  return db
+}
+
+/**
+ * Generate a record ID
+ * (crypto.randomUUID is only available in secure contexts, e.g. not on a LAN IP over http)
+ */
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Fake Backend Store - Singleton
+ */
+class FakeBackendStore {
+  private static instance: FakeBackendStore | null = null
+  private idb: Promise<KeyValueStore | null> | null = null
+  private memory: FakeDatabase | null = null
+  // Requests run one at a time so read-modify-write cycles don't overwrite each other
+  private queue: Promise<unknown> = Promise.resolve()
+  private seed: () => FakeDatabase = createEmptyDatabase
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): FakeBackendStore {
+    if (!FakeBackendStore.instance) {
+      FakeBackendStore.instance = new FakeBackendStore()
+    }
+    return FakeBackendStore.instance
+  }
+
+  /**
+   * Set the data used when nothing has been stored yet
+   */
+  setSeed(seed: () => FakeDatabase): void {
+    this.seed = seed
+  }
+
+  // No IndexedDB (tests): the store stays in memory
+  private getIdb(): Promise<KeyValueStore | null> {
+    if (!this.idb) this.idb = openKeyValueStore(FAKE_BACKEND_CONFIG.databaseName, STORE_NAME)
+    return this.idb
+  }
+
+  private async load(): Promise<FakeDatabase> {
+    const idb = await this.getIdb()
+    if (!idb) {
+      if (!this.memory) this.memory = migrateDatabase(this.seed())
+      return this.memory
+    }
+
+    const snapshot = await idb.get<FakeDatabase>(SNAPSHOT_KEY)
+    if (snapshot) return migrateDatabase(snapshot)
+
+    const seeded = migrateDatabase(this.seed())
+    await this.save(seeded)
+    return seeded
+  }
+
+  private async save(db: FakeDatabase): Promise<void> {
+    const idb = await this.getIdb()
+    if (!idb) {
+      this.memory = db
+      return
+    }
+    await idb.put(SNAPSHOT_KEY, db)
+  }
+
+  /**
+   * Run an operation against the current data
+   * @param operation - Reads and/or mutates the tables in place
+   * @param persist - Save the tables afterwards (mutations)
+   */
+  transaction<T>(operation: (db: FakeDatabase) => T, persist: boolean): Promise<T> {
+    const run = async () => {
+      const db = await this.load()
+      const result = operation(db)
+      if (persist) await this.save(db)
+      return result
+    }
+    const next = this.queue.then(run)
+    this.queue = next.catch(() => undefined)
+    return next
+  }
+
+  /**
+   * Replace all data (e.g. when loading a seed scenario)
+   */
+  replace(db: FakeDatabase): Promise<void> {
+    return this.transaction((current) => Object.assign(current, migrateDatabase(db)), true).then(() => undefined)
+  }
+}
+
+/**
+ * Get the fake backend store instance
+ */
+export function getFakeBackendStore(): FakeBackendStore {
+  return FakeBackendStore.getInstance()
+}
+
+export { FakeBackendStore }
@@ -0,0 +1,130 @@
+/**
+ * Stub Auth Provider
+ * Stands in for Supabase auth when the fake backend is enabled
+ * Any email / password signs in; the session token names the account so
+ * the fake backend can resolve it (see /auth/sync-user)
+ */
+
+import type {AuthError, Session, User} from '@supabase/supabase-js'
+import type {OAuthProvider, SupabaseAuthResult} from '../supabase/authService'
+
+const SESSION_STORAGE_KEY = 'fake-auth-session'
+const TOKEN_PREFIX = 'fake-token:'
+
+type AuthListener = (event: string, session: Session | null) => void
+
+const listeners = new Set<AuthListener>()
+
+/**
+ * Create the access token of a stub session
+ */
+export function createFakeToken(email: string): string {
+  return `${TOKEN_PREFIX}${encodeURIComponent(email.trim().toLowerCase())}`
+}
+
+/**
+ * Read the account email from a stub access token
+ * @returns Email, or null if the token was not issued by the stub provider
+ */
+export function parseFakeToken(token: string | null | undefined): string | null {
+  if (!token?.startsWith(TOKEN_PREFIX)) return null
+  return decodeURIComponent(token.slice(TOKEN_PREFIX.length))
+}
+
+function createSession(email: string, name?: string): Session {
+  const normalizedEmail = email.trim().toLowerCase()
+  const user = {
+    id: `stub-${normalizedEmail}`,
+    email: normalizedEmail,
+    phone: '',
+    user_metadata: name ? { name } : {},
+    app_metadata: { provider: 'stub' },
+    aud: 'authenticated',
+    created_at: new Date().toISOString(),
+  } as User
+
+  return {
+    access_token: createFakeToken(normalizedEmail),
+    refresh_token: '',
+    token_type: 'bearer',
+    expires_in: 24 * 60 * 60,
+    user,
+  }
+}
+
+function readSession(): Session | null {
+  const stored = localStorage.getItem(SESSION_STORAGE_KEY)
+  return stored ? (JSON.parse(stored) as Session) : null
+}
+
+function startSession(session: Session): SupabaseAuthResult {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session))
+  listeners.forEach((listener) => listener('SIGNED_IN', session))
+  return { user: session.user, session, error: null }
+}
+
+function authError(message: string): AuthError {
+  return { message, status: 400 } as AuthError
+}
+
+/**
+ * Stub implementation of the Supabase auth functions (same signatures)
+ */
+export const stubAuth = {
+  async signUpWithEmail(email: string, password: string, metadata?: { name?: string }): Promise<SupabaseAuthResult> {
+    if (!email || !password) return { user: null, session: null, error: authError('Email and password are required') }
+    return startSession(createSession(email, metadata?.name))
+  },
+
+  async signInWithEmail(email: string, password: string): Promise<SupabaseAuthResult> {
+    if (!email || !password) return { user: null, session: null, error: authError('Email and password are required') }
+    return startSession(createSession(email))
+  },
+
+  // No redirect: signs in straight away as a demo account of the provider
+  async signInWithOAuth(provider: OAuthProvider, _redirectTo?: string): Promise<{ error: AuthError | null }> {
+    startSession(createSession(`${provider}@demo.local`))
+    return { error: null }
+  },
+
+  async signOut(): Promise<{ error: AuthError | null }> {
+    localStorage.removeItem(SESSION_STORAGE_KEY)
+    listeners.forEach((listener) => listener('SIGNED_OUT', null))
+    return { error: null }
+  },
+
+  async getCurrentSession(): Promise<Session | null> {
+    return readSession()
+  },
+
+  async getCurrentUser(): Promise<User | null> {
+    return readSession()?.user ?? null
+  },
+
+  async getAccessToken(): Promise<string | null> {
+    return readSession()?.access_token ?? null
+  },
+
+  async resetPassword(_email: string): Promise<{ error: AuthError | null }> {
+    return { error: null }
+  },
+
+  async updatePassword(_newPassword: string): Promise<{ error: AuthError | null }> {
+    return { error: null }
+  },
+
+  onAuthStateChange(callback: AuthListener): { unsubscribe: () => void } {
+    listeners.add(callback)
+    return { unsubscribe: () => listeners.delete(callback) }
+  },
+
+  async exchangeCodeForSession(_code: string): Promise<SupabaseAuthResult> {
+    const session = readSession()
+    return { user: session?.user ?? null, session, error: session ? null : authError('No stub session') }
+  },
+
+  // Stub tokens don't expire
+  async refreshSupabaseSession(): Promise<string | null> {
+    return readSession()?.access_token ?? null
+  },
+}
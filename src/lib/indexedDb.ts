@@ -0,0 +1,47 @@
+/**
+ * IndexedDB Key-Value Store
+ * Minimal promise wrapper around a single object store
+ */
+
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | undefined>
+  put(key: string, value: unknown): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+}
+
+function runRequest<T>(db: IDBDatabase, storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Open (or create) a key-value object store
+ * @param databaseName - IndexedDB database name
+ * @param storeName - Object store name
+ * @returns The store, or null when IndexedDB is unavailable (tests, some private modes)
+ */
+export function openKeyValueStore(databaseName: string, storeName: string): Promise<KeyValueStore | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(databaseName, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+    request.onerror = () => {
+      console.error(`❌ Could not open IndexedDB "${databaseName}":`, request.error)
+      resolve(null)
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      resolve({
+        get: <T>(key: string) => runRequest<T | undefined>(db, storeName, 'readonly', (store) => store.get(key)),
+        put: (key, value) => runRequest<void>(db, storeName, 'readwrite', (store) => store.put(value, key)),
+        delete: (key) => runRequest<void>(db, storeName, 'readwrite', (store) => store.delete(key)),
+        clear: () => runRequest<void>(db, storeName, 'readwrite', (store) => store.clear()),
+      })
+    }
+  })
+}
@@ -1,23 +1,104 @@
 /**
- * Instruments List
- * Common instruments for jam session musicians
+ * Instrument Registry
+ * Canonical instrument IDs shared by musician profiles, registrations and song slots,
+ * with the aliases (any app language, legacy free text) that map onto them
  */
 
-export const INSTRUMENTS = [
-  'Vocals',
-  'Guitar',
-  'Bass',
-  'Drums',
-  'Keyboard/Piano',
-  'Saxophone',
-  'Trumpet',
-  'Trombone',
-  'Violin',
-  'Harmonica',
-  'Percussion',
-  'DJ/Turntables',
-  'Other',
+// Music fields that held the slot counts before songs declared instrument slots
+export const LEGACY_SLOT_FIELDS = ['neededDrums', 'neededGuitars', 'neededVocals', 'neededBass', 'neededKeys'] as const
+export type LegacySlotField = (typeof LEGACY_SLOT_FIELDS)[number]
+
+export interface InstrumentDefinition {
+  // Stable ID stored everywhere; the label comes from schedule.instruments.<id>
+  id: string
+  emoji: string
+  // Other names for the instrument, lowercase and without accents
+  aliases: string[]
+  legacyField?: LegacySlotField
+}
+
+// Instruments musicians can play and songs can have slots for, in display order
+export const INSTRUMENT_REGISTRY: InstrumentDefinition[] = [
+  {
+    id: 'vocals',
+    emoji: '🎤',
+    aliases: ['vocal', 'voice', 'voz', 'vozes', 'voces', 'singer', 'cantor', 'cantora', 'cantante', 'lead vocals', 'backing vocals', 'backup vocals', 'lead'],
+    legacyField: 'neededVocals',
+  },
+  { id: 'drums', emoji: '🥁', aliases: ['drum', 'drum set', 'drums set', 'drummer', 'bateria', 'baterista'], legacyField: 'neededDrums' },
+  {
+    id: 'guitars',
+    emoji: '🎸',
+    aliases: ['guitar', 'guitarist', 'guitarra', 'guitarras', 'guitarrista', 'violao', 'electric guitar', 'acoustic guitar'],
+    legacyField: 'neededGuitars',
+  },
+  { id: 'bass', emoji: '🎸', aliases: ['bass guitar', 'bassist', 'baixo', 'baixista', 'bajo', 'bajista', 'contrabaixo', 'double bass'], legacyField: 'neededBass' },
+  {
+    id: 'keys',
+    emoji: '🎹',
+    aliases: ['keyboard', 'keyboards', 'keyboard/piano', 'piano', 'teclado', 'teclados', 'tecladista', 'pianista', 'organ', 'orgao', 'organo'],
+    legacyField: 'neededKeys',
+  },
+  { id: 'saxophone', emoji: '🎷', aliases: ['sax', 'saxofone', 'saxofon', 'saxophonist', 'saxofonista'] },
+  { id: 'trumpet', emoji: '🎺', aliases: ['trompete', 'trompeta', 'trumpeter'] },
+  { id: 'trombone', emoji: '🎺', aliases: ['trombon'] },
+  { id: 'violin', emoji: '🎻', aliases: ['violino', 'fiddle', 'strings'] },
+  { id: 'harmonica', emoji: '🎵', aliases: ['gaita', 'armonica'] },
+  { id: 'percussion', emoji: '🪘', aliases: ['percussions', 'percussao', 'percusion', 'percussionist'] },
+  { id: 'dj', emoji: '🎧', aliases: ['dj/turntables', 'turntables', 'deejay', 'toca-discos', 'tornamesas'] },
+  { id: 'other', emoji: '🎵', aliases: ['outro', 'otro'] },
 ]
 
-export type Instrument = (typeof INSTRUMENTS)[number]
+function simplify(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+}
+
+const INSTRUMENT_IDS_BY_NAME = new Map(
+  INSTRUMENT_REGISTRY.flatMap(({ id, aliases }) => [id, ...aliases].map((name) => [name, id] as const))
+)
+
+/**
+ * Map any instrument name (an ID, a translated label, legacy free text such as
+ * "Bateria" or "Keyboard/Piano") onto its canonical ID
+ * @returns The ID, or null when the name is not a known instrument
+ */
+export function normalizeInstrument(instrument?: string | null): string | null {
+  if (!instrument) return null
+  return INSTRUMENT_IDS_BY_NAME.get(simplify(instrument)) ?? null
+}
+
+/**
+ * Canonical ID of an instrument name, or the simplified name itself when it's not
+ * a known instrument (so unknown instruments still group with each other)
+ */
+export function getInstrumentKey(instrument?: string | null): string {
+  if (!instrument) return ''
+  return normalizeInstrument(instrument) ?? simplify(instrument)
+}
 
+/**
+ * Get a registry instrument by ID or any of its names
+ */
+export function getInstrumentDefinition(instrument?: string | null): InstrumentDefinition | undefined {
+  const id = normalizeInstrument(instrument)
+  return INSTRUMENT_REGISTRY.find((definition) => definition.id === id)
+}
+
+/**
+ * Get the display name of an instrument in the current language
+ * @param instrument - ID or any name of the instrument
+ * @returns The translated name, or the name as given for unknown instruments
+ */
+export function getInstrumentLabel(instrument: string, t: (key: string) => string): string {
+  const id = normalizeInstrument(instrument)
+  return id ? t(`schedule.instruments.${id}`) : instrument
+}
+
+/**
+ * Position of an instrument in the display order (unknown instruments last)
+ */
+export function getInstrumentOrder(instrument: string): number {
+  const id = normalizeInstrument(instrument)
+  const index = INSTRUMENT_REGISTRY.findIndex((definition) => definition.id === id)
+  return index === -1 ? INSTRUMENT_REGISTRY.length : index
+}
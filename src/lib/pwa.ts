@@ -0,0 +1,18 @@
+/**
+ * PWA
+ * Registers the service worker (public/sw.js) that precaches the app shell
+ */
+
+/**
+ * Register the service worker
+ * Production only: in development it would serve stale modules to the dev server
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('❌ Service worker registration failed:', err)
+    })
+  })
+}
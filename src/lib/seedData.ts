@@ -0,0 +1,87 @@
+/**
+ * Seed Data
+ * Test musicians, songs, registrations and schedules shared by the
+ * test data seed page and the fake backend scenarios
+ */
+
+import type {CreateMusicDto, CreateMusicianDto, RepertoireStatus, ScheduleStatus} from '../types/api.types'
+
+export const SEED_MUSICIANS: CreateMusicianDto[] = [
+  {
+    name: 'John Doe',
+    contact: 'john@example.com',
+    instrument: 'GUITARRA',
+    level: 'INTERMEDIATE',
+  },
+  {
+    name: 'Jane Smith',
+    contact: 'jane@example.com',
+    instrument: 'BATERIA',
+    level: 'ADVANCED',
+  },
+  {
+    name: 'Mike Johnson',
+    contact: 'mike@example.com',
+    instrument: 'BAIXO',
+    level: 'BEGINNER',
+  },
+  {
+    name: 'Sarah Williams',
+    contact: 'sarah@example.com',
+    instrument: 'VOCAL',
+    level: 'ADVANCED',
+    instruments: [
+      { instrument: 'vocals', level: 'ADVANCED', primary: true },
+      { instrument: 'keys', level: 'INTERMEDIATE', primary: false },
+    ],
+  },
+]
+
+export const SEED_SONGS: CreateMusicDto[] = [
+  {
+    title: 'Bluesette',
+    artist: 'Toots Thielemans',
+    genre: 'JAZZ',
+    duration: 240,
+  },
+  {
+    title: 'All The Things You Are',
+    artist: 'Jerome Kern',
+    genre: 'JAZZ',
+    duration: 320,
+  },
+  {
+    title: 'Girl from Ipanema',
+    artist: 'Tom Jobim',
+    genre: 'BOSSA_NOVA',
+    duration: 280,
+  },
+]
+
+// Musician → song links (indexes into SEED_MUSICIANS / SEED_SONGS)
+export const SEED_REGISTRATIONS: { musician: number; song: number }[] = [
+  { musician: 0, song: 0 },
+  { musician: 1, song: 1 },
+  { musician: 2, song: 2 },
+  { musician: 3, song: 0 },
+]
+
+// Performance order (indexes into SEED_REGISTRATIONS / SEED_SONGS)
+export const SEED_SCHEDULES: { registration: number; song: number; order: number; status: ScheduleStatus }[] = [
+  { registration: 0, song: 0, order: 1, status: 'IN_PROGRESS' },
+  { registration: 1, song: 1, order: 2, status: 'SCHEDULED' },
+  { registration: 2, song: 2, order: 3, status: 'SCHEDULED' },
+  { registration: 3, song: 0, order: 4, status: 'SCHEDULED' },
+]
+
+// Songs each musician knows (indexes into SEED_MUSICIANS / SEED_SONGS)
+export const SEED_REPERTOIRE: { musician: number; song: number; status: RepertoireStatus }[] = [
+  { musician: 0, song: 0, status: 'READY' },
+  { musician: 0, song: 2, status: 'READY' },
+  { musician: 1, song: 1, status: 'READY' },
+  { musician: 1, song: 2, status: 'LEARNING' },
+  { musician: 2, song: 0, status: 'READY' },
+  { musician: 2, song: 2, status: 'READY' },
+  { musician: 3, song: 0, status: 'READY' },
+  { musician: 3, song: 1, status: 'LEARNING' },
+]
@@ -0,0 +1,101 @@
+/**
+ * Socket Configuration
+ * Central place to configure the WebSocket connection, event names and rooms
+ * Mirrors the channels and messages declared in asyncapi.yaml
+ */
+
+import {API_BASE_URL} from '../api/config'
+import type {ClientEventName, ServerEventName, SocketRole} from '../../types/socket.types'
+
+// WebSocket server URL (defaults to the REST API host)
+const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || API_BASE_URL
+
+/**
+ * Socket Configuration object
+ * Contains server URL and reconnection settings
+ */
+export const SOCKET_CONFIG = {
+  url: SOCKET_URL,
+  reconnectionAttempts: Infinity,
+  reconnectionDelay: 1000, // 1 second
+  reconnectionDelayMax: 10000, // 10 seconds
+  timeout: 20000, // 20 seconds
+}
+
+/**
+ * Socket Events
+ * Maps all message names from asyncapi.yaml
+ */
+export const SOCKET_EVENTS = {
+  // Client -> Server
+  client: {
+    joinJam: 'joinJam',
+    leaveJam: 'leaveJam',
+    hostRequestState: 'host:request-state',
+    musicianRequestState: 'musician:request-state',
+    publicRequestState: 'public:request-state',
+    musicianReady: 'musician:ready',
+  },
+
+  // Server -> Client
+  server: {
+    stateSync: 'live:state-sync',
+    musicianJoined: 'musicianJoined',
+    musicianLeft: 'musicianLeft',
+    musicianConnected: 'musician:connected',
+    musicianDisconnected: 'musician:disconnected',
+    musicianReady: 'musician:ready',
+    scheduleCreated: 'schedule:created',
+    scheduleUpdated: 'schedule:updated',
+    scheduleStatusChanged: 'schedule:status-changed',
+    registrationCreated: 'registration:created',
+    registrationApproved: 'registration:approved',
+    registrationRejected: 'registration:rejected',
+    musicAdded: 'music:added',
+    musicUpdated: 'music:updated',
+    jamStatusUpdate: 'jamStatusUpdate',
+    currentPerformance: 'currentPerformance',
+  },
+} as const satisfies {
+  client: Record<string, ClientEventName>
+  server: Record<string, ServerEventName>
+}
+
+/**
+ * Socket Rooms
+ * Maps all channel addresses from asyncapi.yaml
+ */
+export const SOCKET_ROOMS = {
+  jam: (jamId: string) => `jam-${jamId}`,
+  host: (jamId: string) => `jam-${jamId}-host`,
+  musicians: (jamId: string) => `jam-${jamId}-musicians`,
+  public: (jamId: string) => `jam-${jamId}-public`,
+}
+
+/**
+ * State request event for each role
+ */
+export const REQUEST_STATE_EVENTS: Record<SocketRole, ClientEventName> = {
+  host: SOCKET_EVENTS.client.hostRequestState,
+  musician: SOCKET_EVENTS.client.musicianRequestState,
+  public: SOCKET_EVENTS.client.publicRequestState,
+}
+
+/**
+ * Server events that mean the jam state changed and views should refresh
+ */
+export const JAM_UPDATE_EVENTS: ServerEventName[] = [
+  SOCKET_EVENTS.server.stateSync,
+  SOCKET_EVENTS.server.scheduleCreated,
+  SOCKET_EVENTS.server.scheduleUpdated,
+  SOCKET_EVENTS.server.scheduleStatusChanged,
+  SOCKET_EVENTS.server.registrationCreated,
+  SOCKET_EVENTS.server.registrationApproved,
+  SOCKET_EVENTS.server.registrationRejected,
+  SOCKET_EVENTS.server.musicAdded,
+  SOCKET_EVENTS.server.musicUpdated,
+  SOCKET_EVENTS.server.jamStatusUpdate,
+  SOCKET_EVENTS.server.currentPerformance,
+]
+
+export { SOCKET_URL }
@@ -0,0 +1,13 @@
+/**
+ * Socket Module Exports
+ * Central export point for all WebSocket-related configuration
+ */
+
+export {
+  SOCKET_CONFIG,
+  SOCKET_EVENTS,
+  SOCKET_ROOMS,
+  REQUEST_STATE_EVENTS,
+  JAM_UPDATE_EVENTS,
+  SOCKET_URL,
+} from './config'
@@ -0,0 +1,53 @@
+/**
+ * Song Start Times
+ * Client-side record of when songs went on stage, for backends that don't send
+ * `startedAt` on schedules and dashboard songs. Filled when this app moves a schedule
+ * to IN_PROGRESS and when a status change arrives over the socket; the backend's
+ * value always wins when it sends one.
+ */
+
+const STORAGE_KEY = 'song_start_times'
+// Only the latest songs matter: older entries are dropped
+const MAX_ENTRIES = 50
+
+let startTimes: Map<string, string> | null = null
+
+function load(): Map<string, string> {
+  if (!startTimes) {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      startTimes = new Map(stored ? (JSON.parse(stored) as [string, string][]) : [])
+    } catch {
+      startTimes = new Map()
+    }
+  }
+  return startTimes
+}
+
+/**
+ * Record that a song went on stage
+ * @param scheduleId - Schedule that moved to IN_PROGRESS
+ * @param at - ISO time it started (now by default)
+ */
+export function recordSongStart(scheduleId: string, at: string = new Date().toISOString()): void {
+  const times = load()
+  times.delete(scheduleId)
+  times.set(scheduleId, at)
+  while (times.size > MAX_ENTRIES) {
+    times.delete(times.keys().next().value!)
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...times]))
+  } catch (err) {
+    console.warn('⚠️ Could not save song start time:', err)
+  }
+}
+
+/**
+ * When a song went on stage: the backend's startedAt, else the time recorded by this client
+ * @returns null when neither is known
+ */
+export function getSongStartedAt(scheduleId: string | undefined, startedAt?: string | null): string | null {
+  if (startedAt) return startedAt
+  return scheduleId ? load().get(scheduleId) ?? null : null
+}
@@ -1,11 +1,27 @@
 /**
  * Supabase Module Index
  * Exports all Supabase-related functionality
+ * With the fake backend enabled the auth functions come from the stub provider
  */
 
-export { supabase, isSupabaseConfigured, getSupabaseUrl } from './config'
+import * as supabaseAuth from './authService'
+import {isSupabaseConfigured as isSupabaseClientConfigured} from './config'
+import {isFakeBackendEnabled, stubAuth} from '../fakeBackend'
 
-export {
+export { supabase, getSupabaseUrl } from './config'
+
+export type { OAuthProvider, SupabaseAuthResult } from './authService'
+
+const authProvider: typeof supabaseAuth = isFakeBackendEnabled() ? stubAuth : supabaseAuth
+
+/**
+ * Check if auth is available (Supabase configured, or the stub provider in fake backend mode)
+ */
+export function isSupabaseConfigured(): boolean {
+  return isFakeBackendEnabled() || isSupabaseClientConfigured()
+}
+
+export const {
   signUpWithEmail,
   signInWithEmail,
   signInWithOAuth,
@@ -18,7 +34,4 @@ export {
   onAuthStateChange,
   exchangeCodeForSession,
   refreshSupabaseSession,
-  type OAuthProvider,
-  type SupabaseAuthResult,
-} from './authService'
-
+} = authProvider
@@ -2,6 +2,14 @@ import {createRoot} from 'react-dom/client'
 import './index.css'
 import './i18n'
 import App from './App.tsx'
+import {installFakeBackend, isFakeBackendEnabled} from './lib/fakeBackend'
+import {registerServiceWorker} from './lib/pwa'
+
+if (isFakeBackendEnabled()) {
+  installFakeBackend()
+}
+
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   // <StrictMode>
@@ -8,7 +8,7 @@ import {useEffect, useState} from 'react'
 import {useNavigate, useParams} from 'react-router-dom'
 import {jamService, musicService} from '../services'
 import type {MusicResponseDto} from '../types/api.types'
-import {ErrorAlert, SuccessAlert} from '../components'
+import {ErrorAlert, MusicImportWizard, SuccessAlert} from '../components'
 import {useTranslation} from 'react-i18next'
 
 interface JamSong extends MusicResponseDto {
@@ -25,6 +25,7 @@ export function HostJamSongsPage() {
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [showAddSong, setShowAddSong] = useState(false)
+  const [showImportWizard, setShowImportWizard] = useState(false)
   const [selectedSongId, setSelectedSongId] = useState<string>('')
   const [jamName, setJamName] = useState<string>('')
 
@@ -190,13 +191,22 @@ export function HostJamSongsPage() {
               <h1 className="text-4xl font-bold">{t('host_songs.title')}</h1>
               <p className="text-base-content/70 mt-2">{jamName}</p>
             </div>
-            <button
-              onClick={() => setShowAddSong(true)}
-              className="btn btn-primary"
-              disabled={loading}
-            >
-              {t('host_songs.add_song')}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowImportWizard(true)}
+                className="btn btn-outline"
+                disabled={loading}
+              >
+                📥 {t('music_import.button')}
+              </button>
+              <button
+                onClick={() => setShowAddSong(true)}
+                className="btn btn-primary"
+                disabled={loading}
+              >
+                {t('host_songs.add_song')}
+              </button>
+            </div>
           </div>
         </div>
 
@@ -204,6 +214,19 @@ export function HostJamSongsPage() {
         {error && <ErrorAlert message={error} onDismiss={() => setError(null)} />}
         {success && <SuccessAlert message={success} onDismiss={() => setSuccess(null)} />}
 
+        {/* Bulk Import Wizard */}
+        {showImportWizard && (
+          <MusicImportWizard
+            catalog={allSongs}
+            jamId={jamId}
+            onClose={() => setShowImportWizard(false)}
+            onImported={(count) => {
+              setSuccess(t('music_import.done', { count }))
+              void loadJamData()
+            }}
+          />
+        )}
+
         {/* Add Song Modal */}
         {showAddSong && (
           <div className="modal modal-open">
@@ -6,10 +6,17 @@
 
 import {useEffect, useState} from 'react'
 import {useNavigate, useParams} from 'react-router-dom'
-import {useAuth} from '../hooks'
+import {
+  type QueueTransitionResult,
+  useAuth,
+  useJamRoom,
+  useMusicianReadiness,
+  useQueueTransitions,
+  useScheduleTransitions,
+} from '../hooks'
 import {jamService, scheduleService} from '../services'
 import type {JamResponseDto, ScheduleResponseDto} from '../types/api.types'
-import {ErrorAlert, QueueStats, SongQueueTimeline, SuccessAlert} from '../components'
+import {ConnectionStatus, ErrorAlert, QueueStats, SongQueueTimeline, SongTimerCard, SuccessAlert, WarningAlert} from '../components'
 import {useTranslation} from 'react-i18next'
 
 export function JamDJControlPage() {
@@ -22,8 +29,19 @@ export function JamDJControlPage() {
   const [schedules, setSchedules] = useState<ScheduleResponseDto[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Set while the backend is unreachable and the last saved jam is shown
+  const [cachedAt, setCachedAt] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [autoRefreshInterval, setAutoRefreshInterval] = useState(0)
+  const scheduleTransitions = useScheduleTransitions()
+  const readiness = useMusicianReadiness(jamId)
+  const transitions = useQueueTransitions({
+    jamId: jamId ?? '',
+    schedules,
+    onSettled: () => {
+      if (jamId) void loadJamData(jamId)
+    },
+  })
 
   // Auth check
   useEffect(() => {
@@ -37,6 +55,11 @@ export function JamDJControlPage() {
     }
   }, [jamId, isAuthenticated, authLoading, navigate])
 
+  // Live updates from the host room
+  useJamRoom(jamId, 'host', () => {
+    if (jamId) void loadJamData(jamId)
+  })
+
   // Auto-refresh setup
   useEffect(() => {
     if (!jamId || autoRefreshInterval === 0) return
@@ -52,6 +75,7 @@ export function JamDJControlPage() {
     try {
       const result = await jamService.findOne(id)
       setJam(result.data)
+      setCachedAt(result.cachedAt ?? null)
       // Get sorted schedules
       const sorted = (result.data.schedules || []).sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
       setSchedules(sorted)
@@ -80,6 +104,12 @@ export function JamDJControlPage() {
 
   const handleApproveSong = async (scheduleId: string) => {
     if (!jamId) return
+    const schedule = schedules.find(s => s.id === scheduleId)
+    const refusal = schedule ? scheduleTransitions.explainRefusal(schedule.status, 'SCHEDULED') : null
+    if (refusal) {
+      setError(refusal)
+      return
+    }
     setLoading(true)
     setError(null)
     try {
@@ -93,63 +123,27 @@ export function JamDJControlPage() {
     }
   }
 
-  const handleAutoPlayNext = async () => {
+  // Saved optimistically by the timeline, which rolls back if this rejects
+  const handleReorder = async (scheduleIds: string[]) => {
     if (!jamId) return
-    setLoading(true)
-    setError(null)
-    try {
-      // Get current song
-      const current = schedules.find(s => s.status === 'IN_PROGRESS')
-      const next = schedules.find(
-        s => s.status === 'SCHEDULED' && (!current || s.order > current.order)
-      )
-
-      if (!current || !next) {
-        setError(t('dj_control.no_songs_to_play'))
-        return
-      }
-
-      // Complete current and start next
-      await scheduleService.update(current.id, { status: 'COMPLETED' })
-      await scheduleService.update(next.id, { status: 'IN_PROGRESS' })
-      setSuccess(t('dj_control.next_song_playing'))
-      await loadJamData(jamId)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : t('common.error'))
-    } finally {
-      setLoading(false)
-    }
+    await scheduleService.reorder(jamId, scheduleIds)
+    await loadJamData(jamId)
   }
 
-  const handleAutoPlayPrevious = async () => {
-    if (!jamId) return
-    setLoading(true)
+  // Previous/Next go through the live control endpoint as one locked operation
+  const runTransition = async (operation: () => Promise<QueueTransitionResult>, message: string) => {
     setError(null)
     try {
-      // Get current song
-      const current = schedules.find(s => s.status === 'IN_PROGRESS')
-      // Get previous completed song (most recent one)
-      const previous = [...schedules]
-        .reverse()
-        .find(s => s.status === 'COMPLETED' && (!current || s.order < current.order))
-
-      if (!current || !previous) {
-        setError(t('dj_control.no_previous_song'))
-        return
-      }
-
-      // Mark current as scheduled again and start previous
-      await scheduleService.update(current.id, { status: 'SCHEDULED' })
-      await scheduleService.update(previous.id, { status: 'IN_PROGRESS' })
-      setSuccess(t('dj_control.previous_song_playing'))
-      await loadJamData(jamId)
+      if (await operation() === 'applied') setSuccess(message)
     } catch (err) {
       setError(err instanceof Error ? err.message : t('common.error'))
-    } finally {
-      setLoading(false)
     }
   }
 
+  const handleAutoPlayNext = () => runTransition(transitions.advance, t('dj_control.next_song_playing'))
+
+  const handleAutoPlayPrevious = () => runTransition(transitions.rewind, t('dj_control.previous_song_playing'))
+
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-base-100">
@@ -182,6 +176,7 @@ export function JamDJControlPage() {
               <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold">🎛️ {jam.name}</h1>
               <p className="text-xs sm:text-sm text-base-content/70 mt-1">DJ Control Panel</p>
             </div>
+            <ConnectionStatus />
           </div>
 
           {/* Breadcrumb */}
@@ -201,6 +196,13 @@ export function JamDJControlPage() {
 
       {/* Alerts */}
       <div className="container sticky top-0 z-40 mx-auto max-w-6xl px-2 sm:px-4 mt-2 sm:mt-4">
+        {cachedAt && (
+          <WarningAlert
+            message={t('offline_cache.showing_saved', {
+              time: new Date(cachedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+            })}
+          />
+        )}
         {error && <ErrorAlert message={error} onDismiss={() => setError(null)} />}
         {success && <SuccessAlert message={success} onDismiss={() => setSuccess(null)} />}
       </div>
@@ -214,12 +216,18 @@ export function JamDJControlPage() {
               schedules={schedules}
               onRemoveSong={handleRemoveSong}
               onApproveSong={handleApproveSong}
+              onReorder={handleReorder}
+              onReorderError={(err) => setError(err instanceof Error ? err.message : t('common.error'))}
+              isMusicianReady={readiness.isReady}
               loading={loading}
             />
           </div>
 
           {/* Sidebar - appears first on mobile, last on desktop */}
           <div className="lg:col-span-1 space-y-4 order-1 lg:order-2">
+            {/* Song on stage timer */}
+            <SongTimerCard schedule={schedules.find(s => s.status === 'IN_PROGRESS')} />
+
             {/* Queue Stats */}
             <QueueStats schedules={schedules} />
 
@@ -228,21 +236,37 @@ export function JamDJControlPage() {
               <div className="card-body p-3 sm:p-6 space-y-3">
                 <h3 className="font-bold text-base sm:text-lg">⚡ Actions</h3>
 
+                {/* Inconsistent queue (e.g. two songs IN_PROGRESS after a failed change) */}
+                {transitions.issues.length > 0 && (
+                  <div role="alert" className="alert alert-error flex-col items-start gap-2 p-3 text-xs sm:text-sm">
+                    <span>
+                      {t('queue_transitions.multiple_in_progress', { count: transitions.issues[0].scheduleIds.length })}
+                    </span>
+                    <button
+                      onClick={() => void runTransition(transitions.repair, t('queue_transitions.repaired'))}
+                      className="btn btn-error btn-xs"
+                      disabled={transitions.isBusy}
+                    >
+                      🛠️ {t('queue_transitions.repair')}
+                    </button>
+                  </div>
+                )}
+
                 {/* Previous and Next buttons side by side */}
                 <div className="flex gap-2">
                   <button
-                    onClick={handleAutoPlayPrevious}
+                    onClick={() => void handleAutoPlayPrevious()}
                     className="btn btn-warning btn-xs sm:btn-sm flex-1 whitespace-nowrap"
-                    disabled={loading || !schedules.some(s => s.status === 'IN_PROGRESS') || !schedules.some(s => s.status === 'COMPLETED')}
+                    disabled={loading || !transitions.canRewind}
                     title="Go back to previous song"
                   >
                     <span className="hidden sm:inline">⏮️ Previous</span>
                     <span className="sm:hidden">⏮️</span>
                   </button>
                   <button
-                    onClick={handleAutoPlayNext}
+                    onClick={() => void handleAutoPlayNext()}
                     className="btn btn-primary btn-xs sm:btn-sm flex-1 whitespace-nowrap"
-                    disabled={loading || !schedules.some(s => s.status === 'IN_PROGRESS')}
+                    disabled={loading || !transitions.canAdvance}
                     title="Skip to next song"
                   >
                     <span className="hidden sm:inline">⏭️ Next</span>
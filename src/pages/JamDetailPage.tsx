@@ -4,14 +4,17 @@
  */
 
 import {useNavigate, useParams} from 'react-router-dom'
-import {useAuth} from '../hooks'
+import {useAuth, useJamRoom, usePolling, useRepertoireByJam, useRepertoireByMusician, useUpSoonNotifications} from '../hooks'
 import {
     ErrorAlert,
     PageHeaderSkeleton,
+    RepertoireMatchesPanel,
     ScheduleCardSkeleton,
     ScheduleDisplayItem,
     ScheduleEnrollmentModal,
-    SidebarSectionSkeleton
+    SidebarSectionSkeleton,
+    UpSoonPanel,
+    WarningAlert
 } from '../components'
 import {jamService, musicService, scheduleService} from '../services'
 import type {JamResponseDto, MusicResponseDto, ScheduleResponseDto} from "../types/api.types.ts";
@@ -19,6 +22,10 @@ import {useEffect, useState} from "react";
 import {getStatusIcon, getStatusLabel} from "../components/schedule/ScheduleDisplayItem.tsx";
 import {getInstrumentIcon} from "../components/schedule/RegistrationList.tsx";
 import {useTranslation} from 'react-i18next'
+import {getSlotCandidates, getSongRecommendations} from '../utils/repertoire'
+
+// Refresh interval for the "up soon" alerts when the socket is down
+const UP_SOON_POLL_INTERVAL = 20000
 
 export function JamDetailPage() {
      const { t } = useTranslation()
@@ -28,6 +35,8 @@ export function JamDetailPage() {
     const [jam, setJam] = useState<JamResponseDto | null>(null)
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
+    // Set while the backend is unreachable and the last saved jam is shown
+    const [cachedAt, setCachedAt] = useState<string | null>(null)
 
     const [showSuggestModal, setShowSuggestModal] = useState(false)
     const [suggestLoading, setSuggestLoading] = useState(false)
@@ -46,12 +55,32 @@ export function JamDetailPage() {
         }
     }, [jamId, navigate])
 
+    // Live updates, so the "up soon" alerts follow the queue
+    const { isConnected } = useJamRoom(jamId, isAuthenticated ? 'musician' : 'public', () => {
+        if (jamId) void loadJamData(jamId)
+    })
+    const upSoon = useUpSoonNotifications(jamId, jam?.schedules ?? [], isAuthenticated ? user?.id ?? null : null)
+
+    // Songs the musician knows that need their instrument; hosts see who knows each unfilled slot
+    const repertoire = useRepertoireByMusician(isAuthenticated ? user?.id ?? '' : '')
+    const recommendations = jam && user ? getSongRecommendations(jam, user, repertoire.data ?? []) : []
+    const isHost = Boolean(user?.isHost)
+    const jamRepertoire = useRepertoireByJam(isHost ? jamId ?? '' : '')
+    const getCandidates = (schedule: ScheduleResponseDto) =>
+        isHost && jam ? getSlotCandidates(schedule, jam, jamRepertoire.data ?? []) : undefined
+
+    // Without the socket, poll while the musician still has songs to play
+    usePolling(() => {
+        if (jamId) void loadJamData(jamId)
+    }, UP_SOON_POLL_INTERVAL, Boolean(jamId) && !isConnected && upSoon.slots.length > 0)
+
     const loadJamData = async (id: string) => {
         setLoading(true)
         setError(null)
         try {
             const result = await jamService.findOne(id)
             setJam(result.data)
+            setCachedAt(result.cachedAt ?? null)
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : t('jams.loading_failed')
             setError(errorMessage)
@@ -203,6 +232,15 @@ export function JamDetailPage() {
             </div>
         )}
 
+        {/* Offline: last saved state */}
+        {cachedAt && (
+            <div className="container mx-auto max-w-4xl px-2 sm:px-4 pt-4">
+                <WarningAlert message={t('offline_cache.showing_saved', {
+                    time: new Date(cachedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+                })}/>
+            </div>
+        )}
+
         {/* Header */}
         <div className="bg-gradient-to-r from-base-200 to-base-300 border-b border-base-300">
             <div className="container mx-auto max-w-4xl px-2 sm:px-4 py-4 sm:py-6">
@@ -278,6 +316,11 @@ export function JamDetailPage() {
             <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4 sm:gap-6">
                 {/* Main Content */}
                 <div className="md:col-span-2 lg:col-span-3 space-y-4 sm:space-y-6 order-2 md:order-1">
+                    {/* The signed-in musician's upcoming songs */}
+                    <UpSoonPanel upSoon={upSoon}/>
+
+                    {/* Songs from the musician's repertoire with an open slot for them */}
+                    <RepertoireMatchesPanel recommendations={recommendations} onEnrollClick={handleEnrollClick}/>
 
                     {/* Performance Schedule Card - with nested Musicians */}
                     {jam.schedules && jam.schedules.length > 0 ? (<div className="space-y-6">
@@ -296,6 +339,7 @@ export function JamDetailPage() {
                                                 isSuggested={false}
                                                 userRegisteredForSchedule={userEnrolledInSchedule || false}
                                                 onEnrollClick={() => handleEnrollClick(schedule)}
+                                                slotCandidates={getCandidates(schedule)}
                                             />)
                                         })}
                                     </div>
@@ -322,6 +366,7 @@ export function JamDetailPage() {
                                                         isSuggested={true}
                                                         userRegisteredForSchedule={userEnrolledInSchedule || false}
                                                         onEnrollClick={() => handleEnrollClick(schedule)}
+                                                        slotCandidates={getCandidates(schedule)}
                                                     />)
                                             })}
                                         </div>
@@ -6,13 +6,43 @@
 
 import {useEffect, useState} from 'react'
 import {useNavigate, useParams} from 'react-router-dom'
-import {useAuth} from '../hooks'
-import {jamService, registrationService, scheduleService} from '../services'
-import type {JamMusicResponseDto, JamResponseDto, ScheduleResponseDto} from '../types/api.types'
-import {ErrorAlert, QueueStats, ScheduleCardManagement, SongQueueTimeline, SuccessAlert} from '../components'
-import {HostMusicianRegistrationModal, LiveJamControlPanel} from '../components/schedule'
+import {useAuth, useJamRoom, useOfflineQueue, useRepertoireByJam, useScheduleTransitions} from '../hooks'
+import {
+    applyQueuedActions,
+    jamService,
+    OFFLINE_ACTIONS,
+    type OfflineActionEvent,
+    type OfflineActionPayloads,
+    registrationService,
+    scheduleService,
+    waitlistService,
+} from '../services'
+import {isNetworkError} from '../lib/api'
+import type {ApiError, JamMusicResponseDto, JamResponseDto, ScheduleResponseDto, ScheduleStatus} from '../types/api.types'
+import {
+    ConnectionStatus,
+    ErrorAlert,
+    OfflineQueuePanel,
+    QueueStats,
+    ScheduleCardManagement,
+    SongQueueTimeline,
+    SortableList,
+    SuccessAlert,
+} from '../components'
+import {
+    HostMusicianRegistrationModal,
+    LiveJamControlPanel,
+    SetlistBuilderDialog,
+    SetlistExportMenu,
+    SubstituteFinderModal,
+} from '../components/schedule'
 import {useTranslation} from 'react-i18next'
 import {DJControlActions} from "../components/dj-control/DJControlActions.tsx";
+import {BarChart, ParticipationChart, SplitBar} from '../components/analytics'
+import {computeJamAnalytics, formatDurationVariance} from '../utils/jamAnalytics'
+import {getInstrumentEmoji} from '../utils/instrumentEmojis'
+import {getInstrumentLabel} from '../lib/instruments'
+import {formatDuration} from '../lib/formatters'
 
 type TabType = 'overview' | 'registrations' | 'schedule' | 'dashboard' | 'analytics' | 'live' | 'dj-control'
 
@@ -43,6 +73,19 @@ export function JamManagementPage() {
         }
     }, [jamId, isAuthenticated, authLoading, navigate])
 
+    // Live updates from the host room (silent refresh, no loading state)
+    useJamRoom(jamId, 'host', () => {
+        if (!jamId) return
+        jamService.findOne(jamId)
+            .then((result) => setJam(result.data))
+            .catch((err) => console.error('❌ Error refreshing jam:', err))
+    })
+
+    // Reload once queued offline actions have been replayed
+    useOfflineQueue((flush) => {
+        if (jamId && flush.outcomes.some((o) => o.status === 'succeeded')) void loadJamData(jamId)
+    })
+
     const loadJamData = async (id: string) => {
         setLoading(true)
         setError(null)
@@ -150,7 +193,7 @@ export function JamManagementPage() {
         {id: 'dj-control' as const, label: 'DJ Control', icon: '🎛️'},
         ...(jam?.status === 'ACTIVE' ? [{id: 'live' as const, label: t('jam_management.tabs.live_control'), icon: '🎙️'}] : []),
         // {id: 'dashboard', label: t('jam_management.tabs.dashboard'), icon: '📺'},
-        // {id: 'analytics', label: t('jam_management.tabs.analytics'), icon: '📈'},
+        {id: 'analytics', label: t('jam_management.tabs.analytics'), icon: '📈'},
         // {id: 'registrations', label: t('jam_management.tabs.registrations'), icon: '👥'},
     ]
 
@@ -176,7 +219,10 @@ export function JamManagementPage() {
                     {/* Title and Status */}
                     <div className="flex items-center justify-between gap-2 flex-wrap">
                         <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold">🎭 {jam.name}</h1>
-                        <div className={`badge badge-sm sm:badge-md lg:badge-lg ${getStatusBadgeColor()}`}>{jam.status}</div>
+                        <div className="flex items-center gap-2">
+                            <ConnectionStatus/>
+                            <div className={`badge badge-sm sm:badge-md lg:badge-lg ${getStatusBadgeColor()}`}>{jam.status}</div>
+                        </div>
                     </div>
                 </div>
             </div>
@@ -204,6 +250,7 @@ export function JamManagementPage() {
             <div className="container sticky top-0 z-50 mx-auto max-w-6xl px-2 sm:px-4 mt-3 sm:mt-4">
                 {error && <ErrorAlert message={error} onDismiss={() => setError(null)}/>}
                 {success && <SuccessAlert message={success} onDismiss={() => setSuccess(null)}/>}
+                <OfflineQueuePanel/>
             </div>
 
             {/* Tab Content */}
@@ -371,7 +418,7 @@ function RegistrationsTab({jam}: { jam: JamResponseDto }) {
                                     <div className="min-w-0">
                                         <h3 className="font-semibold text-sm sm:text-base">{registration.musician?.name}</h3>
                                         <p className="text-xs sm:text-sm text-base-content/70">
-                                            {registration.musician?.instrument}
+                                            {registration.musician?.instrument && getInstrumentLabel(registration.musician.instrument, t)}
                                         </p>
                                     </div>
                                     <div className="badge badge-outline badge-xs sm:badge-sm">{registration.status}</div>
@@ -401,11 +448,53 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
     const [selectedMusicId, setSelectedMusicId] = useState('')
     const [showHostRegistrationModal, setShowHostRegistrationModal] = useState(false)
     const [selectedScheduleForRegistration, setSelectedScheduleForRegistration] = useState<ScheduleResponseDto | null>(null)
+    const [info, setInfo] = useState<string | null>(null)
+    const [showSetlistBuilder, setShowSetlistBuilder] = useState(false)
+    const [substituteSlot, setSubstituteSlot] = useState<{schedule: ScheduleResponseDto; instrument: string} | null>(null)
+    const {queue, queueAction} = useOfflineQueue()
+    const repertoire = useRepertoireByJam(jam.id)
+    const scheduleTransitions = useScheduleTransitions()
+
+    // Edits still waiting in the offline queue are shown (and built upon) as if applied
+    const localJam: JamResponseDto = {...jam, schedules: applyQueuedActions(jam.id, jam.schedules || [], queue)}
+    const sortedSchedules = [...(localJam.schedules || [])].sort((a, b) => a.order - b.order)
+
+    // Run a host action, or queue it for replay when the connection is down
+    const runOrQueue = async <E extends OfflineActionEvent>(
+        event: E,
+        payload: OfflineActionPayloads[E],
+        run: () => Promise<unknown>
+    ) => {
+        const queue = () => {
+            queueAction(event, payload, 'high')
+            setInfo(t('offline_queue.saved_offline'))
+        }
 
-    const sortedSchedules = [...(jam.schedules || [])].sort((a, b) => a.order - b.order)
+        if (!navigator.onLine) {
+            queue()
+            return
+        }
+
+        try {
+            await run()
+        } catch (err) {
+            if (typeof err === 'object' && err !== null && 'statusCode' in err && isNetworkError(err as ApiError)) {
+                queue()
+                return
+            }
+            throw err
+        }
+    }
 
     // Handle schedule status change
-    const handleStatusChange = async (scheduleId: string, newStatus: string) => {
+    const handleStatusChange = async (scheduleId: string, newStatus: ScheduleStatus) => {
+        const schedule = sortedSchedules.find(s => s.id === scheduleId)
+        const refusal = schedule ? scheduleTransitions.explainRefusal(schedule.status, newStatus) : null
+        if (refusal) {
+            setError(refusal)
+            return
+        }
+
         const updatePayload: any = {status: newStatus}
 
         // If approving a suggested schedule, set order to last position
@@ -421,7 +510,16 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
         setLoading(true)
         setError(null)
         try {
-            await scheduleService.update(scheduleId, updatePayload as any)
+            await runOrQueue(
+                OFFLINE_ACTIONS.scheduleStatus,
+                {
+                    jamId: jam.id,
+                    scheduleId,
+                    ...updatePayload,
+                    base: {status: schedule?.status ?? 'SCHEDULED', order: schedule?.order ?? 0},
+                },
+                () => scheduleService.update(scheduleId, updatePayload as any)
+            )
             onReload()
         } catch (err) {
             setError(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))
@@ -445,32 +543,29 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
         }
     }
 
-    // Handle move up
-    const handleMoveUp = async (index: number) => {
+    // Persist a new setlist order (drag-and-drop, keyboard or the move buttons)
+    // Errors propagate so the sortable list can roll back its optimistic order
+    const handleReorder = async (newOrder: string[]) => {
         const nonSuggestedSchedules = sortedSchedules.filter(s => s.status !== 'SUGGESTED')
-        if (index === 0) return
-        const newOrder = nonSuggestedSchedules.map((s) => s.id)
-        ;[newOrder[index - 1], newOrder[index]] = [newOrder[index], newOrder[index - 1]]
-        setLoading(true)
-        try {
-            await scheduleService.reorder(jam.id, newOrder)
-            onReload()
-        } catch (err) {
-            setError(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))
-        } finally {
-            setLoading(false)
-        }
+        await runOrQueue(
+            OFFLINE_ACTIONS.scheduleReorder,
+            {jamId: jam.id, scheduleIds: newOrder, baseScheduleIds: nonSuggestedSchedules.map((s) => s.id)},
+            () => scheduleService.reorder(jam.id, newOrder)
+        )
+        onReload()
     }
 
-    // Handle move down
-    const handleMoveDown = async (index: number) => {
+    // Apply the order proposed by the setlist builder
+    const handleApplySuggestedOrder = async (newOrder: string[]) => {
         const nonSuggestedSchedules = sortedSchedules.filter(s => s.status !== 'SUGGESTED')
-        if (index === nonSuggestedSchedules.length - 1) return
-        const newOrder = nonSuggestedSchedules.map((s) => s.id)
-        ;[newOrder[index], newOrder[index + 1]] = [newOrder[index + 1], newOrder[index]]
         setLoading(true)
         try {
-            await scheduleService.reorder(jam.id, newOrder)
+            await runOrQueue(
+                OFFLINE_ACTIONS.scheduleReorder,
+                {jamId: jam.id, scheduleIds: newOrder, baseScheduleIds: nonSuggestedSchedules.map((s) => s.id)},
+                () => scheduleService.reorder(jam.id, newOrder)
+            )
+            setShowSetlistBuilder(false)
             onReload()
         } catch (err) {
             setError(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))
@@ -512,7 +607,11 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
         if (!confirm(t('jam_management.schedule.confirm_reject_reg'))) return
         setLoading(true)
         try {
-            await registrationService.remove(registrationId)
+            await runOrQueue(
+                OFFLINE_ACTIONS.registrationReject,
+                {registrationId},
+                () => registrationService.remove(registrationId)
+            )
             onReload()
         } catch (err) {
             setError(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))
@@ -530,7 +629,11 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
 
         try {
             console.log('✅ Approving registration:', registrationId)
-            await registrationService.update(registrationId, { status: 'APPROVED' })
+            await runOrQueue(
+                OFFLINE_ACTIONS.registrationApprove,
+                {registrationId},
+                () => registrationService.update(registrationId, { status: 'APPROVED' })
+            )
             onReload()
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : t('errors.failed_to_execute_action')
@@ -541,6 +644,34 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
         }
     }
 
+    // Handle promote waitlist - move the first musician in line into the song
+    const handlePromoteWaitlist = async (entryId: string) => {
+        setLoading(true)
+        setError(null)
+        try {
+            await waitlistService.promote(entryId)
+            onReload()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    // Handle waitlist promotion mode - automatic or offered to the host
+    const handleAutoPromoteChange = async (autoPromote: boolean) => {
+        setLoading(true)
+        setError(null)
+        try {
+            await jamService.update(jam.id, {waitlistPromotion: autoPromote ? 'AUTO' : 'HOST'})
+            onReload()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))
+        } finally {
+            setLoading(false)
+        }
+    }
+
     const handleAddMusician = (schedule: ScheduleResponseDto) => {
         setSelectedScheduleForRegistration(schedule)
         setShowHostRegistrationModal(true)
@@ -551,13 +682,23 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
             {/* Header */}
             <div className="flex justify-between items-center">
                 <p className="text-3xl font-bold">📋 {t('jam_management.schedule.title')}</p>
-                <button
-                    onClick={() => setShowAddModal(true)}
-                    className="btn btn-primary"
-                    disabled={loading}
-                >
-                    {t('jam_management.schedule.add_new_song')}
-                </button>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setShowSetlistBuilder(true)}
+                        className="btn btn-outline"
+                        disabled={loading || sortedSchedules.filter(s => s.status === 'SCHEDULED').length < 2}
+                    >
+                        ✨ {t('setlist_builder.button')}
+                    </button>
+                    <SetlistExportMenu jam={localJam} onError={setError}/>
+                    <button
+                        onClick={() => setShowAddModal(true)}
+                        className="btn btn-primary"
+                        disabled={loading}
+                    >
+                        {t('jam_management.schedule.add_new_song')}
+                    </button>
+                </div>
             </div>
 
             {/* Error Alert */}
@@ -568,6 +709,26 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
                 </div>
             )}
 
+            {/* Waitlist Promotion */}
+            <label className="label cursor-pointer justify-start gap-3" title={t('waitlist.auto_promote_hint')}>
+                <input
+                    type="checkbox"
+                    className="toggle toggle-sm toggle-warning"
+                    checked={jam.waitlistPromotion === 'AUTO'}
+                    onChange={(e) => void handleAutoPromoteChange(e.target.checked)}
+                    disabled={loading}
+                />
+                <span className="label-text">⏳ {t('waitlist.auto_promote')}</span>
+            </label>
+
+            {/* Offline Info */}
+            {info && (
+                <div className="alert alert-info">
+                    <p>{info}</p>
+                    <button onClick={() => setInfo(null)} className="btn btn-sm btn-ghost">✕</button>
+                </div>
+            )}
+
             {/* Schedule List */}
             {sortedSchedules.length > 0 ? (
                 <div className="space-y-6">
@@ -575,25 +736,34 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
                     {(() => {
                         const nonSuggestedSchedules = sortedSchedules.filter(s => s.status !== 'SUGGESTED')
                         return nonSuggestedSchedules.length > 0 ? (
-                            <div className="space-y-4">
-                                {nonSuggestedSchedules.map((schedule, index) => (
+                            <SortableList
+                                className="space-y-4"
+                                items={nonSuggestedSchedules}
+                                getId={(schedule) => schedule.id}
+                                getLabel={(schedule) => schedule.music?.title || t('schedule.song_tba')}
+                                onReorder={handleReorder}
+                                onError={(err) => setError(err instanceof Error ? err.message : t('errors.failed_to_execute_action'))}
+                                disabled={loading}
+                                renderItem={(schedule, {index, handle, move}) => (
                                     <ScheduleCardManagement
-                                        key={schedule.id}
                                         schedule={schedule}
                                         index={index}
                                         loading={loading}
                                         isSuggested={false}
                                         onStatusChange={handleStatusChange}
                                         onDelete={handleDeleteSchedule}
-                                        onMoveUp={handleMoveUp}
-                                        onMoveDown={handleMoveDown}
+                                        onMoveUp={(i) => move(i, i - 1)}
+                                        onMoveDown={(i) => move(i, i + 1)}
                                         maxIndex={nonSuggestedSchedules.length - 1}
                                         onApproveRegistration={handleApproveRegistration}
                                         onRejectRegistration={handleRejectRegistration}
+                                        onPromoteWaitlist={(entryId) => void handlePromoteWaitlist(entryId)}
+                                        onFindSubstitute={(instrument) => setSubstituteSlot({schedule, instrument})}
                                         onAddMusician={() => handleAddMusician(schedule)}
+                                        dragHandle={handle}
                                     />
-                                ))}
-                            </div>
+                                )}
+                            />
                         ) : null
                     })()}
 
@@ -615,6 +785,8 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
                                         onDelete={handleDeleteSchedule}
                                         onApproveRegistration={handleApproveRegistration}
                                         onRejectRegistration={handleRejectRegistration}
+                                        onPromoteWaitlist={(entryId) => void handlePromoteWaitlist(entryId)}
+                                        onFindSubstitute={(instrument) => setSubstituteSlot({schedule, instrument})}
                                         onAddMusician={() => handleAddMusician(schedule)}
                                     />
                                 ))}
@@ -654,6 +826,31 @@ function ScheduleTab({jam, onReload}: { jam: JamResponseDto; onReload: () => voi
                 />
             )}
 
+            {/* Substitute Finder */}
+            {substituteSlot && (
+                <SubstituteFinderModal
+                    schedule={substituteSlot.schedule}
+                    instrument={substituteSlot.instrument}
+                    jam={localJam}
+                    repertoire={repertoire.data ?? []}
+                    onClose={() => setSubstituteSlot(null)}
+                    onSuccess={() => {
+                        setSubstituteSlot(null)
+                        onReload()
+                    }}
+                />
+            )}
+
+            {/* Setlist Builder */}
+            {showSetlistBuilder && (
+                <SetlistBuilderDialog
+                    jam={localJam}
+                    loading={loading}
+                    onApply={(order) => void handleApplySuggestedOrder(order)}
+                    onClose={() => setShowSetlistBuilder(false)}
+                />
+            )}
+
             {/* Add Schedule Modal */}
             {showAddModal && (
                 <div className="modal modal-open">
@@ -749,33 +946,166 @@ function DashboardTab({jam}: { jam: JamResponseDto }) {
 
 /**
  * Analytics Tab Component
+ * Per-jam report computed locally from the jam snapshot
  */
 function AnalyticsTab({jam}: { jam: JamResponseDto }) {
     const { t } = useTranslation()
-    const uniqueMusicians = new Set<string>()
-    jam.registrations?.forEach((reg) => uniqueMusicians.add(reg.musicianId))
+    const [jamIdsByMusician, setJamIdsByMusician] = useState<Record<string, string[]> | null>(null)
+
+    const musicianIds = Array.from(new Set((jam.registrations || []).map((reg) => reg.musicianId)))
+    const musicianKey = musicianIds.sort().join(',')
+
+    // Load each musician's registrations to tell first-timers from returning musicians
+    // (failed lookups are left out, the report shows them as unknown)
+    useEffect(() => {
+        let cancelled = false
+        const ids = musicianKey ? musicianKey.split(',') : []
+
+        void Promise.all(
+            ids.map(async (musicianId) => {
+                try {
+                    const response = await registrationService.findByMusician(musicianId)
+                    return [[musicianId, response.data.map((reg) => reg.jamId)] as const]
+                } catch {
+                    return []
+                }
+            })
+        ).then((entries) => {
+            if (!cancelled) setJamIdsByMusician(Object.fromEntries(entries.flat()))
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [musicianKey])
+
+    const analytics = computeJamAnalytics(jam, jamIdsByMusician)
+    const { songs, duration, musicians } = analytics
+    const durationDiff = duration.actualSeconds - duration.plannedSeconds
 
     return (
         <div className="space-y-4">
             <h2 className="text-2xl font-bold">📈 {t('jam_management.analytics.title')}</h2>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="card bg-base-200 shadow">
+                    <div className="card-body p-4">
+                        <h3 className="font-semibold text-sm">{t('jam_management.analytics.total_songs')}</h3>
+                        <p className="text-3xl font-bold">{songs.total}</p>
+                    </div>
+                </div>
+                <div className="card bg-base-200 shadow">
+                    <div className="card-body p-4">
+                        <h3 className="font-semibold text-sm">{t('jam_management.analytics.played')}</h3>
+                        <p className="text-3xl font-bold text-success">{songs.played}</p>
+                    </div>
+                </div>
+                <div className="card bg-base-200 shadow">
+                    <div className="card-body p-4">
+                        <h3 className="font-semibold text-sm">{t('jam_management.analytics.cancelled')}</h3>
+                        <p className="text-3xl font-bold text-error">{songs.cancelled}</p>
+                    </div>
+                </div>
+                <div className="card bg-base-200 shadow">
+                    <div className="card-body p-4">
+                        <h3 className="font-semibold text-sm">{t('jam_management.analytics.unique_musicians')}</h3>
+                        <p className="text-3xl font-bold">{musicians.total}</p>
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                 <div className="card bg-base-200 shadow">
                     <div className="card-body">
-                        <h3 className="font-semibold">{t('jam_management.analytics.total_songs')}</h3>
-                        <p className="text-3xl font-bold">{jam.jamMusics?.length || 0}</p>
+                        <h3 className="card-title text-lg">{t('jam_management.analytics.played_vs_cancelled')}</h3>
+                        <SplitBar
+                            segments={[
+                                {label: t('jam_management.analytics.played'), value: songs.played, colorClass: 'bg-success'},
+                                {label: t('jam_management.analytics.cancelled'), value: songs.cancelled, colorClass: 'bg-error'},
+                                {label: t('jam_management.analytics.remaining'), value: songs.remaining, colorClass: 'bg-base-content/30'},
+                            ]}
+                        />
                     </div>
                 </div>
+
                 <div className="card bg-base-200 shadow">
                     <div className="card-body">
-                        <h3 className="font-semibold">{t('jam_management.analytics.unique_musicians')}</h3>
-                        <p className="text-3xl font-bold">{uniqueMusicians.size}</p>
+                        <h3 className="card-title text-lg">{t('jam_management.analytics.duration')}</h3>
+                        {duration.measuredSongs === 0 ? (
+                            <p className="text-sm text-base-content/60">{t('jam_management.analytics.no_duration_data')}</p>
+                        ) : (
+                            <>
+                                <div className="stats stats-vertical sm:stats-horizontal bg-base-100">
+                                    <div className="stat">
+                                        <div className="stat-title">{t('jam_management.analytics.planned')}</div>
+                                        <div className="stat-value text-2xl">{formatDuration(duration.plannedSeconds)}</div>
+                                    </div>
+                                    <div className="stat">
+                                        <div className="stat-title">{t('jam_management.analytics.actual')}</div>
+                                        <div className="stat-value text-2xl">{formatDuration(duration.actualSeconds)}</div>
+                                        <div className={`stat-desc ${durationDiff > 0 ? 'text-warning' : 'text-success'}`}>
+                                            {formatDurationVariance(durationDiff)}
+                                        </div>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-base-content/60">
+                                    {t('jam_management.analytics.measured_songs', {count: duration.measuredSongs})}
+                                </p>
+                            </>
+                        )}
                     </div>
                 </div>
+
                 <div className="card bg-base-200 shadow">
                     <div className="card-body">
-                        <h3 className="font-semibold">{t('jam_management.analytics.performances')}</h3>
-                        <p className="text-3xl font-bold">{jam.schedules?.length || 0}</p>
+                        <h3 className="card-title text-lg">{t('jam_management.analytics.musicians_per_instrument')}</h3>
+                        <BarChart
+                            items={analytics.musiciansPerInstrument}
+                            emptyLabel={t('jam_management.analytics.no_data')}
+                            formatLabel={(instrument) => `${getInstrumentEmoji(instrument)} ${getInstrumentLabel(instrument, t)}`}
+                        />
+                    </div>
+                </div>
+
+                <div className="card bg-base-200 shadow">
+                    <div className="card-body">
+                        <h3 className="card-title text-lg">{t('jam_management.analytics.most_requested')}</h3>
+                        <BarChart
+                            items={analytics.mostRequestedSongs}
+                            emptyLabel={t('jam_management.analytics.no_data')}
+                            colorClass="bg-secondary"
+                        />
+                    </div>
+                </div>
+
+                <div className="card bg-base-200 shadow">
+                    <div className="card-body">
+                        <h3 className="card-title text-lg">{t('jam_management.analytics.first_timers_vs_returning')}</h3>
+                        {musicians.historyKnown ? (
+                            <SplitBar
+                                segments={[
+                                    {label: t('jam_management.analytics.first_timers'), value: musicians.firstTimers, colorClass: 'bg-accent'},
+                                    {label: t('jam_management.analytics.returning'), value: musicians.returning, colorClass: 'bg-primary'},
+                                ]}
+                            />
+                        ) : (
+                            <span className="loading loading-dots loading-sm"></span>
+                        )}
+                        {musicians.historyKnown && musicians.unknown > 0 && (
+                            <p className="text-xs text-warning">
+                                ⚠️ {t('jam_management.analytics.history_partial', { unknown: musicians.unknown })}
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="card bg-base-200 shadow">
+                    <div className="card-body">
+                        <h3 className="card-title text-lg">{t('jam_management.analytics.participation')}</h3>
+                        <ParticipationChart
+                            points={analytics.participation}
+                            emptyLabel={t('jam_management.analytics.no_played_songs')}
+                        />
                     </div>
                 </div>
             </div>
@@ -799,6 +1129,7 @@ function DJControlTab({jam, onReload}: { jam: JamResponseDto; onReload: () => vo
     const [error, setError] = useState<string | null>(null)
     const [success, setSuccess] = useState<string | null>(null)
     const [autoRefreshInterval, setAutoRefreshInterval] = useState(0)
+    const scheduleTransitions = useScheduleTransitions()
 
     useEffect(() => {
         if (jam?.schedules) {
@@ -834,6 +1165,12 @@ function DJControlTab({jam, onReload}: { jam: JamResponseDto; onReload: () => vo
     }
 
     const handleApproveSong = async (scheduleId: string) => {
+        const schedule = schedules.find(s => s.id === scheduleId)
+        const refusal = schedule ? scheduleTransitions.explainRefusal(schedule.status, 'SCHEDULED') : null
+        if (refusal) {
+            setError(refusal)
+            return
+        }
         setLoading(true)
         setError(null)
         try {
@@ -847,6 +1184,12 @@ function DJControlTab({jam, onReload}: { jam: JamResponseDto; onReload: () => vo
         }
     }
 
+    // Saved optimistically by the timeline, which rolls back if this rejects
+    const handleReorder = async (scheduleIds: string[]) => {
+        await scheduleService.reorder(jam.id, scheduleIds)
+        onReload()
+    }
+
 
     return (
         <div className="space-y-4">
@@ -864,6 +1207,8 @@ function DJControlTab({jam, onReload}: { jam: JamResponseDto; onReload: () => vo
                         schedules={schedules}
                         onRemoveSong={handleRemoveSong}
                         onApproveSong={handleApproveSong}
+                        onReorder={handleReorder}
+                        onReorderError={(err) => setError(err instanceof Error ? err.message : t('common.error'))}
                         loading={loading}
                     />
                 </div>
@@ -880,6 +1225,7 @@ function DJControlTab({jam, onReload}: { jam: JamResponseDto; onReload: () => vo
                         onReload={onReload}
                         schedules={schedules}
                         onAutoRefreshChange={setAutoRefreshInterval}
+                        onActionError={setError}
                     />
 
                 </div>
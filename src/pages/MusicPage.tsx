@@ -9,17 +9,19 @@ import {useEffect, useMemo, useState} from 'react'
 import {useNavigate} from 'react-router-dom'
 import {useAuth} from '../hooks'
 import {musicService} from '../services/musicService'
-import type {CreateMusicDto, MusicResponseDto, UpdateMusicDto} from '../types/api.types'
+import type {CreateMusicDto, InstrumentSlotDto, MusicResponseDto, UpdateMusicDto} from '../types/api.types'
 import {
     ErrorAlert,
     MusicEmptyState,
     MusicFilters,
+    MusicImportWizard,
     MusicModalFormFields,
     MusicTableRow,
     SuccessAlert
 } from '../components'
 import {filterAndSortMusic, formatDuration, isDuplicate as checkDuplicate, parseDuration} from '../lib/musicUtils'
 import {GENRES} from '../lib/musicConstants'
+import {getMusicSlots, toLegacySlotFields} from '../utils/instrumentSlots'
 import {useTranslation} from 'react-i18next'
 
 type SortBy = 'title' | 'artist' | 'date'
@@ -43,6 +45,7 @@ export function MusicPage() {
     // Modal states
     const [showAddModal, setShowAddModal] = useState(false)
     const [showSuggestModal, setShowSuggestModal] = useState(false)
+    const [showImportWizard, setShowImportWizard] = useState(false)
     const [showEditModal, setShowEditModal] = useState(false)
     const [editingMusic, setEditingMusic] = useState<MusicResponseDto | null>(null)
 
@@ -168,6 +171,13 @@ export function MusicPage() {
                         >
                             + Add Song
                         </button>)}
+                        {user?.isHost && (<button
+                            onClick={() => setShowImportWizard(true)}
+                            className="btn btn-outline"
+                            disabled={loading}
+                        >
+                            📥 {t('music_import.button')}
+                        </button>)}
                         {isAuthenticated && (<button
                             onClick={() => setShowSuggestModal(true)}
                             className="btn btn-secondary"
@@ -274,6 +284,16 @@ export function MusicPage() {
             setSuccess={setSuccess}
         />)}
 
+        {/* Bulk Import Wizard */}
+        {showImportWizard && (<MusicImportWizard
+            catalog={musicList}
+            onClose={() => setShowImportWizard(false)}
+            onImported={(count) => {
+                setSuccess(t('music_import.done', {count}))
+                void loadMusic()
+            }}
+        />)}
+
         {/* Suggest Song Modal */}
         {showSuggestModal && (<MusicModal
             mode="suggest"
@@ -334,14 +354,10 @@ function MusicModal({
         link: music?.link || '',
         genre: music?.genre || '',
         duration: music?.duration ? `${Math.floor(music.duration / 60)}:${String(music.duration % 60).padStart(2, '0')}` : '',
-        neededDrums: music?.neededDrums || 0,
-        neededGuitars: music?.neededGuitars || 0,
-        neededVocals: music?.neededVocals || 0,
-        neededBass: music?.neededBass || 0,
-        neededKeys: music?.neededKeys || 0,
+        instrumentSlots: getMusicSlots(music),
     })
 
-    const handleFieldChange = (field: keyof typeof formData, value: string | number) => {
+    const handleFieldChange = (field: keyof typeof formData, value: string | number | InstrumentSlotDto[]) => {
         setFormData((prev) => ({...prev, [field]: value}))
     }
 
@@ -389,11 +405,9 @@ function MusicModal({
                 genre: formData.genre,
                 duration: durationInSeconds || undefined,
                 status,
-                neededDrums: formData.neededDrums,
-                neededGuitars: formData.neededGuitars,
-                neededVocals: formData.neededVocals,
-                neededBass: formData.neededBass,
-                neededKeys: formData.neededKeys,
+                instrumentSlots: getMusicSlots({instrumentSlots: formData.instrumentSlots}),
+                // Older backends only read the legacy counts
+                ...toLegacySlotFields(formData.instrumentSlots),
             }
 
             if (mode === 'add') {
@@ -11,6 +11,9 @@ import {musicianService} from '../services'
 import type {MusicianLevel, MusicianResponseDto} from '../types/api.types'
 import {EditMusicianModal} from '../components/EditMusicianModal'
 import {ErrorAlert, SuccessAlert} from '../components'
+import {getInstrumentLabel, INSTRUMENT_REGISTRY} from '../lib/instruments'
+import {getInstrumentEmoji} from '../utils/instrumentEmojis'
+import {findMusicianInstrument, getMusicianInstruments} from '../utils/musicianInstruments'
 import {useTranslation} from 'react-i18next'
 
 export function MusiciansPage() {
@@ -23,6 +26,7 @@ export function MusiciansPage() {
    const [filteredMusicians, setFilteredMusicians] = useState<MusicianResponseDto[]>([])
    const [searchQuery, setSearchQuery] = useState('')
    const [selectedLevel, setSelectedLevel] = useState<MusicianLevel | 'ALL'>('ALL')
+   const [selectedInstrument, setSelectedInstrument] = useState<string>('ALL')
    const [editingMusician, setEditingMusician] = useState<MusicianResponseDto | null>(null)
    const [isLoading, setIsLoading] = useState(true)
    const [error, setError] = useState<string | null>(null)
@@ -61,24 +65,30 @@ export function MusiciansPage() {
    useEffect(() => {
      let filtered = musicians
 
-     // Apply search filter
+     // Apply search filter (matches any instrument the musician plays, in any language)
      if (searchQuery.trim()) {
        const query = searchQuery.toLowerCase()
        filtered = filtered.filter(
          (m) =>
            m.name.toLowerCase().includes(query) ||
-           m.instrument.toLowerCase().includes(query) ||
+           getMusicianInstruments(m).some(({ instrument }) =>
+             instrument.includes(query) || getInstrumentLabel(instrument, t).toLowerCase().includes(query)
+           ) ||
            (m.contact?.toLowerCase().includes(query) ?? false)
        )
      }
 
-     // Apply level filter
-     if (selectedLevel !== 'ALL') {
-       filtered = filtered.filter((m) => m.level === selectedLevel)
-     }
+     // Apply instrument and level filters; with an instrument picked, the level is the one on that instrument
+     filtered = filtered.filter((m) => {
+       const instruments = selectedInstrument === 'ALL'
+         ? getMusicianInstruments(m)
+         : [findMusicianInstrument(m, selectedInstrument)].filter((entry) => entry !== null)
+       if (selectedInstrument !== 'ALL' && instruments.length === 0) return false
+       return selectedLevel === 'ALL' || instruments.some((entry) => entry.level === selectedLevel)
+     })
 
      setFilteredMusicians(filtered)
-   }, [searchQuery, selectedLevel, musicians])
+   }, [searchQuery, selectedInstrument, selectedLevel, musicians, t])
 
    const handleEditMusician = (musician: MusicianResponseDto) => {
      setEditingMusician(musician)
@@ -90,6 +100,7 @@ export function MusiciansPage() {
          name: updatedMusician.name,
          instrument: updatedMusician.instrument,
          level: updatedMusician.level,
+         instruments: updatedMusician.instruments,
          contact: updatedMusician.contact,
        })
 
@@ -156,7 +167,7 @@ export function MusiciansPage() {
         {/* Search and Filter Bar */}
         <div className="card bg-base-200 mb-6">
           <div className="card-body">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               {/* Search Input */}
               <div className="form-control">
                 <label className="label">
@@ -171,6 +182,25 @@ export function MusiciansPage() {
                 />
               </div>
 
+              {/* Instrument Filter */}
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-semibold">{t('jam_management.musicians.instrument_filter_label')}</span>
+                </label>
+                <select
+                  className="select select-bordered"
+                  value={selectedInstrument}
+                  onChange={(e) => setSelectedInstrument(e.target.value)}
+                >
+                  <option value="ALL">{t('jam_management.musicians.all_instruments')}</option>
+                  {INSTRUMENT_REGISTRY.map((instrument) => (
+                    <option key={instrument.id} value={instrument.id}>
+                      {instrument.emoji} {getInstrumentLabel(instrument.id, t)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               {/* Level Filter */}
               <div className="form-control">
                 <label className="label">
@@ -231,7 +261,19 @@ export function MusiciansPage() {
                 {filteredMusicians.map((musician) => (
                   <tr key={musician.id} className="hover">
                     <td className="font-semibold">{musician.name}</td>
-                    <td>{musician.instrument}</td>
+                    <td>
+                      <div className="flex flex-wrap gap-1">
+                        {getMusicianInstruments(musician).map((entry) => (
+                          <span
+                            key={entry.instrument}
+                            className={`badge badge-sm gap-1 ${entry.primary ? 'badge-secondary' : 'badge-outline'}`}
+                            title={t(`schedule.levels.${entry.level}`)}
+                          >
+                            {getInstrumentEmoji(entry.instrument)} {getInstrumentLabel(entry.instrument, t)}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
                     <td>
                       <div className="badge badge-primary">
                         {t(`schedule.levels.${musician.level}`)}
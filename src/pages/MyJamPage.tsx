@@ -0,0 +1,213 @@
+/**
+ * My Jam Page
+ * Musician-focused view of the active jam: their songs with queue position, estimated
+ * start and bandmates (change instrument / withdraw), a history of past jams and
+ * their repertoire (songs they are ready to play or can learn)
+ * Route: /my-jam
+ */
+
+import {useEffect, useState} from 'react'
+import {useNavigate, useSearchParams} from 'react-router-dom'
+import {useTranslation} from 'react-i18next'
+import {
+  useAllMusic,
+  useAuth,
+  useJam,
+  useJamRoom,
+  useJams,
+  useNow,
+  useRegistrationsByMusician,
+  useRepertoireByMusician,
+  useScheduleByMusician,
+} from '../hooks'
+import {registrationService, repertoireService} from '../services'
+import {ErrorAlert, JamHistoryList, MyJamSongCard, RepertoireManager, SuccessAlert} from '../components'
+import type {RepertoireStatus} from '../types/api.types'
+import {getJamHistory, getMyJamSongs, pickActiveJamId} from '../utils/myJam'
+import {getInstrumentLabel} from '../lib/instruments'
+
+type MyJamTab = 'current' | 'history' | 'repertoire'
+
+const TABS: MyJamTab[] = ['current', 'history', 'repertoire']
+
+export function MyJamPage() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth()
+  const musicianId = user?.id ?? ''
+
+  const [searchParams] = useSearchParams()
+  const [tab, setTab] = useState<MyJamTab>(() => {
+    const requested = searchParams.get('tab') as MyJamTab | null
+    return requested && TABS.includes(requested) ? requested : 'current'
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const jams = useJams()
+  const registrations = useRegistrationsByMusician(musicianId)
+  const schedules = useScheduleByMusician(musicianId)
+  const activeJamId = pickActiveJamId(jams.data ?? [], registrations.data ?? [])
+  const activeJam = useJam(activeJamId ?? '')
+  const repertoire = useRepertoireByMusician(tab === 'repertoire' ? musicianId : '')
+  const catalog = useAllMusic()
+
+  // Auth check
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      void navigate('/login?redirect=/my-jam')
+    }
+  }, [authLoading, isAuthenticated, navigate])
+
+  // Live updates from the jam; positions and estimates follow the queue
+  useJamRoom(activeJamId, 'musician', () => activeJam.refetch())
+  // Estimates only need minute precision; they drift with the clock even with nothing on stage
+  const now = useNow(15000)
+
+  const mySongs = activeJam.data && musicianId ? getMyJamSongs(activeJam.data, musicianId, now) : []
+  const history = getJamHistory(schedules.data ?? [], jams.data ?? [], musicianId)
+  const loading = tab === 'repertoire'
+    ? repertoire.loading || catalog.loading
+    : jams.loading || (tab === 'history'
+      ? schedules.loading
+      : registrations.loading || (Boolean(activeJamId) && activeJam.loading))
+
+  const runAction = async (action: () => Promise<unknown>, message: string) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await action()
+      setSuccess(message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('common.error'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleChangeInstrument = (registrationId: string, instrument: string) => {
+    void runAction(
+      () => registrationService.update(registrationId, { instrument }),
+      t('my_jam.instrument_changed', { instrument: getInstrumentLabel(instrument, t) })
+    )
+  }
+
+  const handleSetRepertoireStatus = (musicId: string, status: RepertoireStatus | null) => {
+    const entry = repertoire.data?.find((e) => e.musicId === musicId)
+    if (!status && !entry) return
+    const action = !status
+      ? () => repertoireService.remove(entry?.id ?? '')
+      : entry
+        ? () => repertoireService.update(entry.id, { status })
+        : () => repertoireService.add({ musicianId, musicId, status })
+    void runAction(action, t('repertoire.saved'))
+  }
+
+  const handleWithdraw = (registrationId: string) => {
+    if (!confirm(t('my_jam.confirm_withdraw'))) return
+    void runAction(() => registrationService.remove(registrationId), t('my_jam.withdrawn'))
+  }
+
+  if (authLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-base-100">
+        <div className="loading loading-spinner loading-lg"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-base-200 to-base-100 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">🎸 {t('my_jam.title')}</h1>
+          <p className="text-sm text-base-content/70 mt-1">{t('my_jam.subtitle')}</p>
+        </div>
+
+        {/* Alerts */}
+        {error && <ErrorAlert message={error} onDismiss={() => setError(null)} />}
+        {success && <SuccessAlert message={success} onDismiss={() => setSuccess(null)} />}
+        {(jams.error || registrations.error) && <ErrorAlert message={jams.error || registrations.error || ''} />}
+
+        {/* Tabs */}
+        <div role="tablist" className="tabs tabs-boxed">
+          <button
+            role="tab"
+            className={`tab ${tab === 'current' ? 'tab-active' : ''}`}
+            aria-selected={tab === 'current'}
+            onClick={() => setTab('current')}
+          >
+            {t('my_jam.tab_current')}
+          </button>
+          <button
+            role="tab"
+            className={`tab ${tab === 'history' ? 'tab-active' : ''}`}
+            aria-selected={tab === 'history'}
+            onClick={() => setTab('history')}
+          >
+            {t('my_jam.tab_history')}
+          </button>
+          <button
+            role="tab"
+            className={`tab ${tab === 'repertoire' ? 'tab-active' : ''}`}
+            aria-selected={tab === 'repertoire'}
+            onClick={() => setTab('repertoire')}
+          >
+            {t('repertoire.tab')}
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <span className="loading loading-spinner loading-lg"></span>
+          </div>
+        ) : tab === 'history' ? (
+          <JamHistoryList history={history} />
+        ) : tab === 'repertoire' ? (
+          <RepertoireManager
+            songs={catalog.data ?? []}
+            entries={repertoire.data ?? []}
+            onSetStatus={handleSetRepertoireStatus}
+            loading={saving}
+          />
+        ) : !activeJam.data ? (
+          <div className="text-center py-12 space-y-4">
+            <p className="text-base-content/70">{t('my_jam.no_active_jam')}</p>
+            <button onClick={() => void navigate('/jams')} className="btn btn-primary btn-sm">
+              {t('nav.browse_jams')}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-xl font-bold">{activeJam.data.name}</h2>
+              <div className="flex gap-2">
+                <button onClick={() => void navigate(`/jams/${activeJam.data!.id}`)} className="btn btn-ghost btn-xs">
+                  {t('my_jam.open_jam')}
+                </button>
+                <button onClick={() => void navigate(`/jams/${activeJam.data!.id}/dashboard`)} className="btn btn-ghost btn-xs">
+                  {t('my_jam.open_dashboard')}
+                </button>
+              </div>
+            </div>
+
+            {mySongs.length > 0 ? (
+              mySongs.map((song) => (
+                <MyJamSongCard
+                  key={song.schedule.id}
+                  song={song}
+                  onChangeInstrument={handleChangeInstrument}
+                  onWithdraw={handleWithdraw}
+                  loading={saving}
+                />
+              ))
+            ) : (
+              <p className="text-center text-base-content/60 py-8">{t('my_jam.no_songs')}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
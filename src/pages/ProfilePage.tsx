@@ -10,7 +10,8 @@ import {useAuth} from '../hooks'
 import type {AuthUser, UpdateProfileDto} from '../types/auth.types'
 import {ProfileHeader} from '../components/ProfileHeader'
 import {ProfileFormSection} from '../components/ProfileFormSection'
-import {ErrorAlert, SuccessAlert} from '../components'
+import {ErrorAlert, InstrumentListEditor, SuccessAlert} from '../components'
+import {getMusicianInstruments, toLegacyMusicianFields} from '../utils/musicianInstruments'
 
 import {useTranslation} from 'react-i18next'
 
@@ -48,6 +49,7 @@ export function ProfilePage() {
         instrument: user?.instrument || '',
         genre: user?.genre || '',
         level: user?.level || '',
+        instruments: getMusicianInstruments(user),
         hostName: user?.hostName || '',
         hostContact: user?.hostContact || '',
       })
@@ -74,11 +76,12 @@ export function ProfilePage() {
     setIsLoading(true)
 
     try {
+      const instruments = formData.instruments ?? getMusicianInstruments(user)
       const updates: UpdateProfileDto = {
         name: formData.name,
         contact: formData.contact,
-        instrument: formData.instrument,
-        level: formData.level,
+        instruments,
+        ...(instruments.length > 0 && toLegacyMusicianFields(instruments)),
       }
 
       await updateProfile(updates)
@@ -171,15 +174,6 @@ export function ProfilePage() {
               icon="🎸"
               isEditMode={isEditMode}
               fields={[
-                {
-                  name: 'instrument',
-                  label: t('profile.instrument_label'),
-                  type: 'text',
-                  value: formData.instrument || '',
-                  onChange: handleInputChange,
-                  disabled: isLoading || !isEditMode,
-                  readOnly: !isEditMode,
-                },
                 {
                   name: 'genre',
                   label: t('profile.genre_label'),
@@ -189,20 +183,27 @@ export function ProfilePage() {
                   disabled: isLoading || !isEditMode,
                   readOnly: !isEditMode,
                 },
-                {
-                  name: 'level',
-                  label: t('profile.level_label'),
-                  type: 'select',
-                  value: formData.level || '',
-                  onChange: handleInputChange,
-                  disabled: isLoading || !isEditMode,
-                  readOnly: !isEditMode,
-                  options: ['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'PROFESSIONAL'],
-                },
               ]}
             />
           )}
 
+          {/* Instruments, each with its level - Only for musicians */}
+          {user.role === 'user' && (
+            <div className="card bg-base-200 shadow-lg">
+              <div className="card-body">
+                <h2 className="card-title text-lg flex items-center gap-2">
+                  <span className="text-2xl">🎶</span>
+                  {t('musician_form.instruments_label')}
+                </h2>
+                <InstrumentListEditor
+                  instruments={formData.instruments ?? getMusicianInstruments(user)}
+                  onChange={(instruments) => setFormData((prev) => ({ ...prev, instruments }))}
+                  disabled={isLoading || !isEditMode}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Host Information Section - Only for hosts */}
           {user.isHost && (
             <ProfileFormSection
@@ -80,7 +80,16 @@ export function PublicDashboardPage() {
       <ConfettiWrapper show={confettiVisible} width={confettiDimensions.width} height={confettiDimensions.height} />
 
       {/* Offline Indicator */}
-      <OfflineBanner visible={isOfflineMode} message={t('publicDashboard.offlineIndicator', 'You are offline - showing cached data')} />
+      <OfflineBanner
+        visible={isOfflineMode || dashboard.cachedAt !== null}
+        message={
+          dashboard.cachedAt
+            ? t('offline_cache.showing_saved', {
+                time: new Date(dashboard.cachedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+              })
+            : t('publicDashboard.offlineIndicator', 'You are offline - showing cached data')
+        }
+      />
 
       {/* Header with Navbar Toggle & Fullscreen Button */}
       <Header
@@ -0,0 +1,190 @@
+/**
+ * Socket Testing Page
+ * Dedicated page for testing the WebSocket connection and jam room events
+ */
+
+import {useEffect, useState} from 'react'
+import {ConnectionStatus} from '../components'
+import {getSocketService} from '../services'
+import {SOCKET_CONFIG, SOCKET_EVENTS} from '../lib/socket'
+import type {ServerEventName, SocketRole} from '../types/socket.types'
+
+interface EventLogEntry {
+  id: number
+  event: ServerEventName
+  payload: unknown
+  receivedAt: string
+}
+
+const MAX_LOG_ENTRIES = 50
+
+export function SocketTestPage() {
+  const socketService = getSocketService()
+  const [jamId, setJamId] = useState('')
+  const [role, setRole] = useState<SocketRole>('public')
+  const [scheduleId, setScheduleId] = useState('')
+  const [joinedJams, setJoinedJams] = useState<string[]>(socketService.getJoinedJams())
+  const [eventLog, setEventLog] = useState<EventLogEntry[]>([])
+
+  // Log every server event
+  useEffect(() => {
+    let nextId = 0
+    const unsubscribers = Object.values(SOCKET_EVENTS.server).map((event) =>
+      socketService.on(event, (payload) => {
+        setEventLog((prev) =>
+          [{ id: nextId++, event, payload, receivedAt: new Date().toLocaleTimeString() }, ...prev].slice(
+            0,
+            MAX_LOG_ENTRIES
+          )
+        )
+      })
+    )
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [socketService])
+
+  const handleJoin = () => {
+    if (!jamId) return
+    socketService.joinJam(jamId, role)
+    setJoinedJams(socketService.getJoinedJams())
+  }
+
+  const handleLeave = (id: string) => {
+    socketService.leaveJam(id)
+    setJoinedJams(socketService.getJoinedJams())
+  }
+
+  const handleDisconnect = () => {
+    socketService.disconnect()
+    setJoinedJams(socketService.getJoinedJams())
+  }
+
+  return (
+    <div className="min-h-screen bg-base-100">
+      <div className="container mx-auto max-w-7xl">
+        {/* Header */}
+        <div className="navbar bg-base-200 rounded-box mt-4">
+          <div className="flex-1 gap-3">
+            <h1 className="text-2xl font-bold">🔌 Socket Testing</h1>
+            <ConnectionStatus />
+          </div>
+          <div className="flex-none">
+            <a href="/" className="btn btn-ghost btn-sm">
+              ← Back to Home
+            </a>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mt-4">
+          {/* Controls */}
+          <div className="card bg-base-200">
+            <div className="card-body space-y-3">
+              <h2 className="card-title">Controls</h2>
+              <p className="text-xs text-base-content/70 break-all">
+                Server: <code>{SOCKET_CONFIG.url}</code>
+              </p>
+
+              <input
+                type="text"
+                placeholder="Jam ID"
+                className="input input-bordered input-sm w-full"
+                value={jamId}
+                onChange={(e) => setJamId(e.target.value.trim())}
+              />
+              <select
+                className="select select-bordered select-sm w-full"
+                value={role}
+                onChange={(e) => setRole(e.target.value as SocketRole)}
+              >
+                <option value="public">public</option>
+                <option value="musician">musician</option>
+                <option value="host">host</option>
+              </select>
+
+              <div className="flex gap-2 flex-wrap">
+                <button className="btn btn-primary btn-sm" onClick={handleJoin} disabled={!jamId}>
+                  Join
+                </button>
+                <button
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => socketService.requestState(jamId, role)}
+                  disabled={!jamId}
+                >
+                  Request State
+                </button>
+                <button className="btn btn-ghost btn-sm" onClick={() => socketService.connect()}>
+                  Connect
+                </button>
+                <button className="btn btn-ghost btn-sm" onClick={handleDisconnect}>
+                  Disconnect
+                </button>
+              </div>
+
+              <div className="divider my-1"></div>
+
+              <input
+                type="text"
+                placeholder="Schedule ID"
+                className="input input-bordered input-sm w-full"
+                value={scheduleId}
+                onChange={(e) => setScheduleId(e.target.value.trim())}
+              />
+              <button
+                className="btn btn-accent btn-sm"
+                onClick={() => socketService.sendMusicianReady(jamId, scheduleId)}
+                disabled={!jamId || !scheduleId}
+              >
+                Send musician:ready
+              </button>
+
+              <div className="divider my-1"></div>
+
+              <h3 className="font-semibold">Joined rooms</h3>
+              {joinedJams.length === 0 ? (
+                <p className="text-sm text-base-content/60">None</p>
+              ) : (
+                <ul className="space-y-1">
+                  {joinedJams.map((id) => (
+                    <li key={id} className="flex items-center justify-between gap-2 text-sm">
+                      <code className="truncate">{id}</code>
+                      <button className="btn btn-xs btn-ghost" onClick={() => handleLeave(id)}>
+                        Leave
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Event Log */}
+          <div className="card bg-base-200 lg:col-span-2">
+            <div className="card-body">
+              <div className="flex items-center justify-between">
+                <h2 className="card-title">Event Log</h2>
+                <button className="btn btn-ghost btn-xs" onClick={() => setEventLog([])}>
+                  Clear
+                </button>
+              </div>
+              {eventLog.length === 0 ? (
+                <p className="text-sm text-base-content/60">No events received yet</p>
+              ) : (
+                <div className="space-y-2 max-h-[70vh] overflow-y-auto">
+                  {eventLog.map((entry) => (
+                    <div key={entry.id} className="bg-base-100 rounded-lg p-2">
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="badge badge-outline badge-sm">{entry.event}</span>
+                        <span className="text-base-content/60">{entry.receivedAt}</span>
+                      </div>
+                      <pre className="text-xs mt-1 overflow-x-auto">{JSON.stringify(entry.payload, null, 2)}</pre>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
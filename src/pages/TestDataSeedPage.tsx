@@ -8,13 +8,110 @@ import {musicService} from '../services/musicService'
 import {musicianService} from '../services/musicianService'
 import {registrationService} from '../services/registrationService'
 import {scheduleService} from '../services/scheduleService'
-import type {CreateMusicDto, CreateMusicianDto, CreateRegistrationDto, CreateScheduleDto,} from '../types/api.types'
+import type {CreateRegistrationDto, CreateScheduleDto} from '../types/api.types'
+import {SEED_MUSICIANS, SEED_REGISTRATIONS, SEED_SCHEDULES, SEED_SONGS} from '../lib/seedData'
+import {
+  DEMO_HOST_EMAIL,
+  FAKE_SCENARIOS,
+  type FakeScenarioId,
+  isFakeBackendEnabled,
+  loadFakeScenario,
+  setFakeBackendEnabled,
+} from '../lib/fakeBackend'
 
 interface SeedResult {
   type: 'success' | 'error'
   message: string
 }
 
+/**
+ * Fake backend switch and scenario loader
+ * Both reload the page: the API client and auth provider are chosen at startup
+ */
+function FakeBackendPanel() {
+  const enabled = isFakeBackendEnabled()
+  const [scenarioId, setScenarioId] = useState<FakeScenarioId>(FAKE_SCENARIOS[0].id)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const scenario = FAKE_SCENARIOS.find((s) => s.id === scenarioId)
+
+  const toggle = () => {
+    setFakeBackendEnabled(!enabled)
+    window.location.reload()
+  }
+
+  const loadScenario = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      await loadFakeScenario(scenarioId)
+      window.location.reload()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load scenario')
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="card bg-base-200 shadow-lg mb-6">
+      <div className="card-body">
+        <h2 className="card-title">🧪 Fake Backend</h2>
+        <p className="text-base-content/70 text-sm">
+          Serve the API and sign-in from this browser (stored in IndexedDB), for demos without a server.
+        </p>
+
+        <label className="label cursor-pointer justify-start gap-3">
+          <input type="checkbox" className="toggle toggle-primary" checked={enabled} onChange={toggle} />
+          <span className="label-text">{enabled ? 'Fake backend enabled' : 'Using the real backend'}</span>
+        </label>
+
+        {enabled && (
+          <>
+            <div className="form-control">
+              <label className="label">
+                <span className="label-text font-semibold">Scenario</span>
+              </label>
+              <select
+                className="select select-bordered"
+                value={scenarioId}
+                onChange={(e) => setScenarioId(e.target.value as FakeScenarioId)}
+              >
+                {FAKE_SCENARIOS.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+              {scenario && (
+                <label className="label">
+                  <span className="label-text-alt text-xs text-base-content/60">{scenario.description}</span>
+                </label>
+              )}
+            </div>
+
+            <button onClick={() => void loadScenario()} disabled={loading} className="btn btn-secondary">
+              {loading ? <span className="loading loading-spinner"></span> : 'Load scenario (replaces all data)'}
+            </button>
+
+            <div className="alert alert-info text-sm">
+              <span>
+                Sign in with any password. <strong>{DEMO_HOST_EMAIL}</strong> is the host; the seeded musicians use
+                their contact emails (e.g. john@example.com).
+              </span>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="alert alert-error">
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
 export function TestDataSeedPage() {
   const [jamId, setJamId] = useState('c049d8af-d44e-4b4f-ab97-5006e38d66ff') // First jam from API
   const [loading, setLoading] = useState(false)
@@ -32,32 +129,7 @@ export function TestDataSeedPage() {
 
     try {
       // Create test musicians
-      const musicians = await Promise.all([
-        musicianService.create({
-          name: 'John Doe',
-          contact: 'john@example.com',
-          instrument: 'GUITARRA',
-          level: 'INTERMEDIATE',
-        } as CreateMusicianDto),
-        musicianService.create({
-          name: 'Jane Smith',
-          contact: 'jane@example.com',
-          instrument: 'BATERIA',
-          level: 'ADVANCED',
-        } as CreateMusicianDto),
-        musicianService.create({
-          name: 'Mike Johnson',
-          contact: 'mike@example.com',
-          instrument: 'BAIXO',
-          level: 'BEGINNER',
-        } as CreateMusicianDto),
-        musicianService.create({
-          name: 'Sarah Williams',
-          contact: 'sarah@example.com',
-          instrument: 'VOCAL',
-          level: 'ADVANCED',
-        } as CreateMusicianDto),
-      ])
+      const musicians = await Promise.all(SEED_MUSICIANS.map((musician) => musicianService.create(musician)))
 
       newResults.push({
         type: 'success',
@@ -65,26 +137,7 @@ export function TestDataSeedPage() {
       })
 
       // Create test songs
-      const songs = await Promise.all([
-        musicService.create({
-          title: 'Bluesette',
-          artist: 'Toots Thielemans',
-          genre: 'JAZZ',
-          duration: 240,
-        } as CreateMusicDto),
-        musicService.create({
-          title: 'All The Things You Are',
-          artist: 'Jerome Kern',
-          genre: 'JAZZ',
-          duration: 320,
-        } as CreateMusicDto),
-        musicService.create({
-          title: 'Girl from Ipanema',
-          artist: 'Tom Jobim',
-          genre: 'BOSSA_NOVA',
-          duration: 280,
-        } as CreateMusicDto),
-      ])
+      const songs = await Promise.all(SEED_SONGS.map((song) => musicService.create(song)))
 
       newResults.push({
         type: 'success',
@@ -92,11 +145,7 @@ export function TestDataSeedPage() {
       })
 
       // Link songs to the jam
-      const linkedMusics = await Promise.all([
-        musicService.linkToJam(songs[0].data.id, jamId),
-        musicService.linkToJam(songs[1].data.id, jamId),
-        musicService.linkToJam(songs[2].data.id, jamId),
-      ])
+      const linkedMusics = await Promise.all(songs.map((song) => musicService.linkToJam(song.data.id, jamId)))
 
       newResults.push({
         type: 'success',
@@ -104,24 +153,14 @@ export function TestDataSeedPage() {
       })
 
       // Create registrations linking musicians to the jam
-      const registrations = await Promise.all([
-        registrationService.create({
-          musicianId: musicians[0].data.id,
-          jamMusicId: (linkedMusics[0].data as Record<string, unknown>)?.id as string,
-        } as unknown as CreateRegistrationDto),
-        registrationService.create({
-          musicianId: musicians[1].data.id,
-          jamMusicId: (linkedMusics[1].data as Record<string, unknown>)?.id as string,
-        } as unknown as CreateRegistrationDto),
-        registrationService.create({
-          musicianId: musicians[2].data.id,
-          jamMusicId: (linkedMusics[2].data as Record<string, unknown>)?.id as string,
-        } as unknown as CreateRegistrationDto),
-        registrationService.create({
-          musicianId: musicians[3].data.id,
-          jamMusicId: (linkedMusics[0].data as Record<string, unknown>)?.id as string,
-        } as unknown as CreateRegistrationDto),
-      ])
+      const registrations = await Promise.all(
+        SEED_REGISTRATIONS.map(({ musician, song }) =>
+          registrationService.create({
+            musicianId: musicians[musician].data.id,
+            jamMusicId: (linkedMusics[song].data as Record<string, unknown>)?.id as string,
+          } as unknown as CreateRegistrationDto)
+        )
+      )
 
       newResults.push({
         type: 'success',
@@ -129,36 +168,17 @@ export function TestDataSeedPage() {
       })
 
       // Create performance schedules
-      const schedules = await Promise.all([
-        scheduleService.create({
-          jamId,
-          musicId: songs[0].data.id,
-          registrationId: registrations[0].data.id,
-          order: 1,
-          status: 'IN_PROGRESS',
-        } as CreateScheduleDto),
-        scheduleService.create({
-          jamId,
-          musicId: songs[1].data.id,
-          registrationId: registrations[1].data.id,
-          order: 2,
-          status: 'SCHEDULED',
-        } as CreateScheduleDto),
-        scheduleService.create({
-          jamId,
-          musicId: songs[2].data.id,
-          registrationId: registrations[2].data.id,
-          order: 3,
-          status: 'SCHEDULED',
-        } as CreateScheduleDto),
-        scheduleService.create({
-          jamId,
-          musicId: songs[0].data.id,
-          registrationId: registrations[3].data.id,
-          order: 4,
-          status: 'SCHEDULED',
-        } as CreateScheduleDto),
-      ])
+      const schedules = await Promise.all(
+        SEED_SCHEDULES.map(({ registration, song, order, status }) =>
+          scheduleService.create({
+            jamId,
+            musicId: songs[song].data.id,
+            registrationId: registrations[registration].data.id,
+            order,
+            status,
+          } as CreateScheduleDto)
+        )
+      )
 
       newResults.push({
         type: 'success',
@@ -184,6 +204,8 @@ export function TestDataSeedPage() {
   return (
     <div className="min-h-screen bg-base-100 p-4">
       <div className="container mx-auto max-w-2xl">
+        <FakeBackendPanel />
+
         <div className="card bg-base-200 shadow-lg">
           <div className="card-body">
             <h1 className="card-title text-2xl mb-4">🎸 Test Data Seeding</h1>
@@ -5,7 +5,7 @@
 
 import {getApiUrl} from '../lib/api/config'
 import type {AuthUser, UpdateProfileDto} from '../types/auth.types'
-import type {BackendAuthResponseDto} from '../types/api.types'
+import type {BackendAuthResponseDto, MusicianInstrumentDto} from '../types/api.types'
 import type {Session, User} from '@supabase/supabase-js'
 
 
@@ -97,6 +97,8 @@ export async function syncSupabaseUserToBackend(
       role: data.isHost ? 'host' : 'user',
       isHost: data.isHost,
       instrument: data.instrument,
+      level: data.level,
+      instruments: data.instruments,
     }
 
     const finalToken = data.token || access_token
@@ -127,7 +129,7 @@ export async function syncSupabaseUserToBackend(
  * Calls PATCH /auth/profile to update user details after initial signup/login
  *
  * @param token - Bearer token for authentication
- * @param updates - Profile fields to update (name, instrument, level, contact)
+ * @param updates - Profile fields to update (name, instruments, instrument, level, contact)
  * @returns Updated user data or error
  */
 export async function updateProfile(
@@ -173,6 +175,8 @@ export async function updateProfile(
       role: data.isHost ? 'host' : 'user',
       isHost: data.isHost,
       instrument: data.instrument,
+      level: data.level,
+      instruments: data.instruments,
     }
 
     return {
@@ -234,6 +238,8 @@ export async function getAuthMe(
       role: data.isHost ? 'host' : 'user',
       isHost: data.isHost,
       instrument: data.instrument,
+      level: data.level,
+      instruments: data.instruments,
     }
 
     return {
@@ -254,7 +260,7 @@ export async function getAuthMe(
 export async function updateMusicianProfile(
   userId: string,
   token: string,
-  updates: { instrument?: string; genre?: string; name?: string }
+  updates: { instrument?: string; level?: string; instruments?: MusicianInstrumentDto[]; genre?: string; name?: string }
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const response = await fetch(getApiUrl(`/musicos/${userId}`), {
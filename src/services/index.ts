@@ -17,6 +17,30 @@ export { musicianService } from './musicianService'
 export { musicService } from './musicService'
 export { registrationService } from './registrationService'
 export { scheduleService } from './scheduleService'
-export { getOfflineQueueManager, type QueuedAction, type QueueStats } from './offlineQueue'
+export { waitlistService } from './waitlistService'
+export { repertoireService } from './repertoireService'
+export { liveControlService } from './liveControlService'
+export {
+  getOfflineQueueManager,
+  type QueuedAction,
+  type QueueStats,
+  type ActionOutcome,
+  type FlushResult,
+} from './offlineQueue'
+export { OFFLINE_ACTIONS, applyQueuedActions, type OfflineActionEvent, type OfflineActionPayloads } from './offlineActions'
+export { getSocketService, type JamSocket, type SocketFactory } from './socketService'
+export {
+  getQueryCache,
+  invalidateQueries,
+  queryKeys,
+  hashQueryKey,
+  parseQueryKey,
+  DEFAULT_STALE_TIME,
+  type QueryKey,
+  type QueryFetcher,
+  type QueryState,
+} from './queryCache'
+
+export { withOfflineFallback, saveOfflineSnapshot, loadOfflineSnapshot, clearOfflineSnapshots } from './offlineCache'
 
 export type { JamDetails } from './jamService'
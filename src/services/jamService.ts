@@ -3,9 +3,10 @@
  * Handles jam-related API calls
  */
 
-import {getToken} from '../lib/auth'
-import {getApiUrl} from '../lib/api/config'
-import type {JamResponseDto, LiveDashboardResponseDto} from '../types/api.types'
+import {API_ENDPOINTS, apiClient} from '../lib/api'
+import {invalidateQueries, queryKeys} from './queryCache'
+import {withOfflineFallback} from './offlineCache'
+import type {ApiResponse, JamResponseDto, LiveDashboardResponseDto, RequestOptions} from '../types/api.types'
 
 interface SpecialtySlot {
   specialty: string
@@ -26,99 +27,24 @@ export interface JamDetails {
   musicianCount?: number
 }
 
-interface ErrorResponse {
-  statusCode: number
-  error: string
-  message: string
-}
-
-interface ApiResponse<T> {
-  data: T
-  status: number
-}
-
 /**
  * Fetch all jams from the API
+ * @param options - Request options (abort signal)
  * @returns Promise with array of jams wrapped in ApiResponse
  */
-export async function findAll(): Promise<ApiResponse<JamResponseDto[]>> {
-  const token = getToken()
-
-  try {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    }
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    const response = await fetch(getApiUrl('/jams'), {
-      method: 'GET',
-      headers,
-    })
-
-    if (!response.ok) {
-      const error: ErrorResponse = await response.json()
-      throw new Error(error.message || 'Failed to load jams')
-    }
-
-    const data: JamResponseDto[] = await response.json()
-
-    return {
-      data,
-      status: response.status,
-    }
-  } catch (err) {
-    if (err instanceof Error) {
-      throw err
-    }
-    throw new Error('Connection error. Please try again.')
-  }
+export async function findAll(options?: RequestOptions): Promise<ApiResponse<JamResponseDto[]>> {
+  return apiClient.get<JamResponseDto[]>(API_ENDPOINTS.jams.list, options)
 }
 
 /**
  * Fetch a single jam by ID
+ * Falls back to the last saved copy when the backend is unreachable (cachedAt set)
  * @param id - Jam ID
+ * @param options - Request options (abort signal)
  * @returns Promise with jam wrapped in ApiResponse
  */
-export async function findOne(id: string): Promise<ApiResponse<JamResponseDto>> {
-  const token = getToken()
-
-  try {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    }
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    const response = await fetch(getApiUrl(`/jams/${id}`), {
-      method: 'GET',
-      headers,
-    })
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Jam not found')
-      }
-      const error: ErrorResponse = await response.json()
-      throw new Error(error.message || 'Failed to load jam')
-    }
-
-    const data: JamResponseDto = await response.json()
-
-    return {
-      data,
-      status: response.status,
-    }
-  } catch (err) {
-    if (err instanceof Error) {
-      throw err
-    }
-    throw new Error('Connection error. Please try again.')
-  }
+export async function findOne(id: string, options?: RequestOptions): Promise<ApiResponse<JamResponseDto>> {
+  return withOfflineFallback(queryKeys.jams.detail(id), () => apiClient.get<JamResponseDto>(API_ENDPOINTS.jams.detail(id), options))
 }
 
 /**
@@ -127,80 +53,20 @@ export async function findOne(id: string): Promise<ApiResponse<JamResponseDto>>
  * @returns Promise with created jam wrapped in ApiResponse
  */
 export async function create(jamData: Partial<JamResponseDto>): Promise<ApiResponse<JamResponseDto>> {
-  const token = getToken()
-
-  try {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    }
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    const response = await fetch(getApiUrl('/jams'), {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(jamData),
-    })
-
-    if (!response.ok) {
-      const error: ErrorResponse = await response.json()
-      throw new Error(error.message || 'Failed to create jam')
-    }
-
-    const data: JamResponseDto = await response.json()
-
-    return {
-      data,
-      status: response.status,
-    }
-  } catch (err) {
-    if (err instanceof Error) {
-      throw err
-    }
-    throw new Error('Connection error. Please try again.')
-  }
+  const response = await apiClient.post<JamResponseDto>(API_ENDPOINTS.jams.create, jamData)
+  invalidateQueries(queryKeys.jams.all)
+  return response
 }
 
 /**
  * Get jam details by ID
  * @param jamId - Jam ID
+ * @param options - Request options (abort signal)
  * @returns Jam details with specialty slots and availability
- * @throws Error with user-friendly message
  */
-export async function getJamDetails(jamId: string): Promise<JamDetails> {
-  const token = getToken()
-
-  try {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    }
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    const response = await fetch(getApiUrl(`/jams/${jamId}`), {
-      method: 'GET',
-      headers,
-    })
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error('Jam not found')
-      }
-      const error: ErrorResponse = await response.json()
-      throw new Error(error.message || 'Failed to load jam details')
-    }
-
-    return await response.json()
-  } catch (err) {
-    if (err instanceof Error) {
-      throw err
-    }
-    throw new Error('Connection error. Please try again.')
-  }
+export async function getJamDetails(jamId: string, options?: RequestOptions): Promise<JamDetails> {
+  const response = await apiClient.get<JamDetails>(API_ENDPOINTS.jams.detail(jamId), options)
+  return response.data
 }
 
 /**
@@ -269,40 +135,9 @@ export async function getMostNeededSpecialty(jamId: string): Promise<string | nu
  * @returns Promise with updated jam
  */
 export async function update(id: string, jamData: Partial<JamResponseDto>): Promise<ApiResponse<JamResponseDto>> {
-  const token = getToken()
-
-  try {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    }
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    const response = await fetch(getApiUrl(`/jams/${id}`), {
-      method: 'PATCH',
-      headers,
-      body: JSON.stringify(jamData),
-    })
-
-    if (!response.ok) {
-      const error: ErrorResponse = await response.json()
-      throw new Error(error.message || 'Failed to update jam')
-    }
-
-    const data: JamResponseDto = await response.json()
-
-    return {
-      data,
-      status: response.status,
-    }
-  } catch (err) {
-    if (err instanceof Error) {
-      throw err
-    }
-    throw new Error('Connection error. Please try again.')
-  }
+  const response = await apiClient.patch<JamResponseDto>(API_ENDPOINTS.jams.update(id), jamData)
+  invalidateQueries(queryKeys.jams.all)
+  return response
 }
 
 /**
@@ -311,69 +146,21 @@ export async function update(id: string, jamData: Partial<JamResponseDto>): Prom
  * @returns Promise with confirmation
  */
 export async function deleteFn(id: string): Promise<ApiResponse<{ success: boolean }>> {
-  const token = getToken()
-
-  try {
-    const response = await fetch(getApiUrl(`/jams/${id}`), {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
-    })
-
-    if (!response.ok) {
-      const error: ErrorResponse = await response.json()
-      throw new Error(error.message || 'Failed to delete jam')
-    }
-
-    return {
-      data: { success: true },
-      status: response.status,
-    }
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'Unknown error'
-    throw new Error(message)
-  }
+  await apiClient.delete<void>(API_ENDPOINTS.jams.delete(id))
+  invalidateQueries(queryKeys.jams.all)
+  return { data: { success: true }, success: true }
 }
 
 /**
  * Fetch live dashboard data for a jam session
  * Optimized for public dashboard display with current and next songs
+ * Falls back to the last saved copy when the backend is unreachable (cachedAt set)
  * @param id - Jam ID
+ * @param options - Request options (abort signal)
  * @returns Promise with live dashboard data
  */
-export async function getLiveDashboard(id: string): Promise<ApiResponse<LiveDashboardResponseDto>> {
-  try {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    }
-
-    const token = getToken()
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    const response = await fetch(getApiUrl(`/jams/${id}/live/dashboard`), {
-      method: 'GET',
-      headers,
-    })
-
-    if (!response.ok) {
-      const error: ErrorResponse = await response.json()
-      throw new Error(error.message || 'Failed to load dashboard data')
-    }
-
-    const data: LiveDashboardResponseDto = await response.json()
-
-    return {
-      data,
-      status: response.status,
-    }
-  } catch (err) {
-    if (err instanceof Error) {
-      throw err
-    }
-    throw new Error('Connection error. Please try again.')
-  }
+export async function getLiveDashboard(id: string, options?: RequestOptions): Promise<ApiResponse<LiveDashboardResponseDto>> {
+  return withOfflineFallback(queryKeys.jams.dashboard(id), () =>
+    apiClient.get<LiveDashboardResponseDto>(API_ENDPOINTS.jams.liveDashboard(id), options)
+  )
 }
@@ -0,0 +1,80 @@
+/**
+ * Live Control Service
+ * Handles host playback commands for a running jam (play, pause, skip, previous, reorder, extend time)
+ */
+
+import { apiClient, API_ENDPOINTS } from '../lib/api'
+import { invalidateQueries, queryKeys } from './queryCache'
+import { recordSongStart } from '../lib/songStartTimes'
+import type { ApiResponse, LiveControlAction, LiveControlResultDto } from '../types/api.types'
+
+/**
+ * Live Control Service
+ * Single code path for every live control surface (live panel, DJ control)
+ */
+export const liveControlService = {
+  /**
+   * Send a control action to the live control endpoint
+   * @param jamId - Jam ID
+   * @param action - Typed control action
+   * @returns Promise with the result of the action
+   */
+  async send(jamId: string, action: LiveControlAction): Promise<ApiResponse<LiveControlResultDto>> {
+    const response = await apiClient.post<LiveControlResultDto>(API_ENDPOINTS.liveControl(jamId), action)
+    // Skip and previous put another song on stage (the body may be empty, e.g. a 204)
+    const started = (response.data as LiveControlResultDto | null | undefined)?.currentSchedule ?? null
+    if ((action.action === 'skip' || action.action === 'previous') && started) recordSongStart(started.id)
+    invalidateQueries(queryKeys.schedules.byJam(jamId), queryKeys.jams.detail(jamId))
+    return response
+  },
+
+  /**
+   * Resume the current song
+   * @param jamId - Jam ID
+   */
+  async play(jamId: string): Promise<ApiResponse<LiveControlResultDto>> {
+    return liveControlService.send(jamId, { action: 'play' })
+  },
+
+  /**
+   * Pause the current song
+   * @param jamId - Jam ID
+   */
+  async pause(jamId: string): Promise<ApiResponse<LiveControlResultDto>> {
+    return liveControlService.send(jamId, { action: 'pause' })
+  },
+
+  /**
+   * Complete the current song and start the next scheduled one
+   * @param jamId - Jam ID
+   */
+  async skip(jamId: string): Promise<ApiResponse<LiveControlResultDto>> {
+    return liveControlService.send(jamId, { action: 'skip' })
+  },
+
+  /**
+   * Put the current song back in the queue and restart the last completed one
+   * @param jamId - Jam ID
+   */
+  async previous(jamId: string): Promise<ApiResponse<LiveControlResultDto>> {
+    return liveControlService.send(jamId, { action: 'previous' })
+  },
+
+  /**
+   * Reorder the setlist while the jam is live
+   * @param jamId - Jam ID
+   * @param scheduleIds - Full setlist order (schedule IDs)
+   */
+  async reorder(jamId: string, scheduleIds: string[]): Promise<ApiResponse<LiveControlResultDto>> {
+    return liveControlService.send(jamId, { action: 'reorder', scheduleIds })
+  },
+
+  /**
+   * Give the current song extra time
+   * @param jamId - Jam ID
+   * @param seconds - Seconds to add
+   */
+  async extendTime(jamId: string, seconds: number): Promise<ApiResponse<LiveControlResultDto>> {
+    return liveControlService.send(jamId, { action: 'extend-time', seconds })
+  },
+}
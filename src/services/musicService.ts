@@ -4,11 +4,13 @@
  */
 
 import { apiClient, API_ENDPOINTS } from '../lib/api'
+import { invalidateQueries, queryKeys } from './queryCache'
 import type {
   MusicResponseDto,
   CreateMusicDto,
   UpdateMusicDto,
   ApiResponse,
+  RequestOptions,
 } from '../types/api.types'
 
 /**
@@ -22,33 +24,38 @@ export const musicService = {
    * @returns Promise with created music
    */
   async create(data: CreateMusicDto): Promise<ApiResponse<MusicResponseDto>> {
-    return apiClient.post<MusicResponseDto>(API_ENDPOINTS.music as string, data)
+    const response = await apiClient.post<MusicResponseDto>(API_ENDPOINTS.music as string, data)
+    invalidateQueries(queryKeys.music.all)
+    return response
   },
 
   /**
    * Get all music (independent of jam)
+   * @param options - Request options (abort signal)
    * @returns Promise with array of music
    */
-  async findAll(): Promise<ApiResponse<MusicResponseDto[]>> {
-    return apiClient.get<MusicResponseDto[]>(API_ENDPOINTS.music as string)
+  async findAll(options?: RequestOptions): Promise<ApiResponse<MusicResponseDto[]>> {
+    return apiClient.get<MusicResponseDto[]>(API_ENDPOINTS.music as string, options)
   },
 
   /**
    * Get a single music by ID
    * @param id - Music ID
+   * @param options - Request options (abort signal)
    * @returns Promise with music data
    */
-  async findOne(id: string): Promise<ApiResponse<MusicResponseDto>> {
-    return apiClient.get<MusicResponseDto>(API_ENDPOINTS.musicById(id))
+  async findOne(id: string, options?: RequestOptions): Promise<ApiResponse<MusicResponseDto>> {
+    return apiClient.get<MusicResponseDto>(API_ENDPOINTS.musicById(id), options)
   },
 
   /**
    * Get all music for a specific jam
    * @param jamId - Jam ID
+   * @param options - Request options (abort signal)
    * @returns Promise with array of music linked to the jam
    */
-  async findByJam(jamId: string): Promise<ApiResponse<MusicResponseDto[]>> {
-    return apiClient.get<MusicResponseDto[]>(API_ENDPOINTS.musicByJam(jamId))
+  async findByJam(jamId: string, options?: RequestOptions): Promise<ApiResponse<MusicResponseDto[]>> {
+    return apiClient.get<MusicResponseDto[]>(API_ENDPOINTS.musicByJam(jamId), options)
   },
 
   /**
@@ -58,7 +65,9 @@ export const musicService = {
    * @returns Promise with confirmation
    */
   async linkToJam(musicId: string, jamId: string): Promise<ApiResponse<Record<string, unknown>>> {
-    return apiClient.patch<Record<string, unknown>>(API_ENDPOINTS.linkMusicToJam(musicId, jamId), {})
+    const response = await apiClient.patch<Record<string, unknown>>(API_ENDPOINTS.linkMusicToJam(musicId, jamId), {})
+    invalidateQueries(queryKeys.music.byJam(jamId), queryKeys.jams.detail(jamId))
+    return response
   },
 
   /**
@@ -68,7 +77,9 @@ export const musicService = {
    * @returns Promise with updated music
    */
   async update(id: string, data: UpdateMusicDto): Promise<ApiResponse<MusicResponseDto>> {
-    return apiClient.patch<MusicResponseDto>(API_ENDPOINTS.musicById(id), data)
+    const response = await apiClient.patch<MusicResponseDto>(API_ENDPOINTS.musicById(id), data)
+    invalidateQueries(queryKeys.music.all, queryKeys.jams.all)
+    return response
   },
 
   /**
@@ -77,7 +88,9 @@ export const musicService = {
    * @returns Promise with deletion confirmation
    */
   async remove(id: string): Promise<ApiResponse<void>> {
-    return apiClient.delete<void>(API_ENDPOINTS.musicById(id))
+    const response = await apiClient.delete<void>(API_ENDPOINTS.musicById(id))
+    invalidateQueries(queryKeys.music.all, queryKeys.jams.all)
+    return response
   },
 }
 
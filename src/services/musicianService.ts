@@ -4,11 +4,13 @@
  */
 
 import { apiClient, API_ENDPOINTS } from '../lib/api'
+import { invalidateQueries, queryKeys } from './queryCache'
 import type {
   MusicianResponseDto,
   CreateMusicianDto,
   UpdateMusicianDto,
   ApiResponse,
+  RequestOptions,
 } from '../types/api.types'
 
 /**
@@ -22,24 +24,28 @@ export const musicianService = {
    * @returns Promise with created musician
    */
   async create(data: CreateMusicianDto): Promise<ApiResponse<MusicianResponseDto>> {
-    return apiClient.post<MusicianResponseDto>(API_ENDPOINTS.musicians as string, data)
+    const response = await apiClient.post<MusicianResponseDto>(API_ENDPOINTS.musicians as string, data)
+    invalidateQueries(queryKeys.musicians.all)
+    return response
   },
 
   /**
    * Get all musicians
+   * @param options - Request options (abort signal)
    * @returns Promise with array of musicians
    */
-  async findAll(): Promise<ApiResponse<MusicianResponseDto[]>> {
-    return apiClient.get<MusicianResponseDto[]>(API_ENDPOINTS.musicians as string)
+  async findAll(options?: RequestOptions): Promise<ApiResponse<MusicianResponseDto[]>> {
+    return apiClient.get<MusicianResponseDto[]>(API_ENDPOINTS.musicians as string, options)
   },
 
   /**
    * Get a single musician by ID
    * @param id - Musician ID
+   * @param options - Request options (abort signal)
    * @returns Promise with musician data
    */
-  async findOne(id: string): Promise<ApiResponse<MusicianResponseDto>> {
-    return apiClient.get<MusicianResponseDto>(API_ENDPOINTS.musicianById(id))
+  async findOne(id: string, options?: RequestOptions): Promise<ApiResponse<MusicianResponseDto>> {
+    return apiClient.get<MusicianResponseDto>(API_ENDPOINTS.musicianById(id), options)
   },
 
   /**
@@ -49,7 +55,9 @@ export const musicianService = {
    * @returns Promise with updated musician
    */
   async update(id: string, data: UpdateMusicianDto): Promise<ApiResponse<MusicianResponseDto>> {
-    return apiClient.patch<MusicianResponseDto>(API_ENDPOINTS.musicianById(id), data)
+    const response = await apiClient.patch<MusicianResponseDto>(API_ENDPOINTS.musicianById(id), data)
+    invalidateQueries(queryKeys.musicians.all, queryKeys.jams.all)
+    return response
   },
 
   /**
@@ -58,7 +66,9 @@ export const musicianService = {
    * @returns Promise with deletion confirmation
    */
   async remove(id: string): Promise<ApiResponse<void>> {
-    return apiClient.delete<void>(API_ENDPOINTS.musicianById(id))
+    const response = await apiClient.delete<void>(API_ENDPOINTS.musicianById(id))
+    invalidateQueries(queryKeys.musicians.all, queryKeys.registrations.all, queryKeys.jams.all)
+    return response
   },
 }
 
@@ -0,0 +1,143 @@
+/**
+ * Offline Actions
+ * Host actions that can be queued while offline and the service calls that replay them
+ * Schedule edits carry the state they were based on and are checked for conflicts before replay
+ */
+
+import {scheduleService} from './scheduleService'
+import {registrationService} from './registrationService'
+import type {ScheduleResponseDto, ScheduleStatus} from '../types/api.types'
+import {
+  checkReorderConflict,
+  checkStatusConflict,
+  type ScheduleConflict,
+  type ScheduleSnapshot,
+} from '../utils/scheduleConflicts'
+
+/**
+ * Queued action event names
+ */
+export const OFFLINE_ACTIONS = {
+  scheduleStatus: 'schedule:update-status',
+  scheduleReorder: 'schedule:reorder',
+  registrationApprove: 'registration:approve',
+  registrationReject: 'registration:reject',
+} as const
+
+export type OfflineActionEvent = (typeof OFFLINE_ACTIONS)[keyof typeof OFFLINE_ACTIONS]
+
+/**
+ * Payload of each queued action
+ */
+export interface OfflineActionPayloads {
+  'schedule:update-status': {
+    jamId: string
+    scheduleId: string
+    status: ScheduleStatus
+    order?: number
+    // Schedule state the edit was made on
+    base: ScheduleSnapshot
+  }
+  'schedule:reorder': {
+    jamId: string
+    scheduleIds: string[]
+    // Setlist order the edit was made on
+    baseScheduleIds: string[]
+  }
+  'registration:approve': { registrationId: string }
+  'registration:reject': { registrationId: string }
+}
+
+/**
+ * Thrown by a handler when the server state diverged from the state the action was based on
+ * The action is kept in the queue until the host resolves the conflict
+ */
+export class ActionConflictError extends Error {
+  readonly conflict: ScheduleConflict
+
+  constructor(conflict: ScheduleConflict) {
+    super('The schedule was changed by someone else')
+    this.name = 'ActionConflictError'
+    this.conflict = conflict
+  }
+}
+
+/**
+ * Replays a queued action against the API
+ */
+export type OfflineActionHandler<E extends OfflineActionEvent = OfflineActionEvent> = (
+  payload: OfflineActionPayloads[E]
+) => Promise<unknown>
+
+/**
+ * Default handlers, one per queued action
+ */
+export const OFFLINE_ACTION_HANDLERS: { [E in OfflineActionEvent]: OfflineActionHandler<E> } = {
+  'schedule:update-status': async ({ jamId, scheduleId, status, order, base }) => {
+    const remote = await scheduleService.findByJam(jamId, { offlineFallback: false })
+    const check = checkStatusConflict(
+      {
+        jamId,
+        scheduleId,
+        base,
+        local: { status, order: order ?? base.order },
+        orderChanged: order !== undefined,
+      },
+      remote.data
+    )
+    if (check.result === 'conflict') throw new ActionConflictError(check.conflict)
+    if (check.result === 'noop') return
+
+    return scheduleService.update(scheduleId, order !== undefined ? { status, order } : { status })
+  },
+  'schedule:reorder': async ({ jamId, scheduleIds, baseScheduleIds }) => {
+    const remote = await scheduleService.findByJam(jamId, { offlineFallback: false })
+    const check = checkReorderConflict({ jamId, base: baseScheduleIds, local: scheduleIds }, remote.data)
+    if (check.result === 'conflict') throw new ActionConflictError(check.conflict)
+    if (check.result === 'noop') return
+
+    return scheduleService.reorder(jamId, scheduleIds)
+  },
+  'registration:approve': ({ registrationId }) => registrationService.update(registrationId, { status: 'APPROVED' }),
+  'registration:reject': ({ registrationId }) => registrationService.remove(registrationId),
+}
+
+/**
+ * A jam's schedules with the host actions still waiting in the offline queue applied
+ * Later offline edits are then made on (and record as their base) what the host sees,
+ * not on the server state from before the earlier queued edits
+ * @param actions - Queued actions in replay order
+ */
+export function applyQueuedActions(
+  jamId: string,
+  schedules: ScheduleResponseDto[],
+  actions: { event: string; payload: unknown }[]
+): ScheduleResponseDto[] {
+  return actions.reduce((current, { event, payload }) => {
+    switch (event) {
+      case OFFLINE_ACTIONS.scheduleStatus: {
+        const { jamId: actionJamId, scheduleId, status, order } = payload as OfflineActionPayloads['schedule:update-status']
+        if (actionJamId !== jamId) return current
+        return current.map((s) => (s.id === scheduleId ? { ...s, status, order: order ?? s.order } : s))
+      }
+      case OFFLINE_ACTIONS.scheduleReorder: {
+        const { jamId: actionJamId, scheduleIds } = payload as OfflineActionPayloads['schedule:reorder']
+        if (actionJamId !== jamId) return current
+        return current.map((s) => (scheduleIds.includes(s.id) ? { ...s, order: scheduleIds.indexOf(s.id) + 1 } : s))
+      }
+      case OFFLINE_ACTIONS.registrationApprove: {
+        const { registrationId } = payload as OfflineActionPayloads['registration:approve']
+        return current.map((s) => ({
+          ...s,
+          registrations: s.registrations?.map((r) => (r.id === registrationId ? { ...r, status: 'APPROVED' } : r)),
+        }))
+      }
+      case OFFLINE_ACTIONS.registrationReject: {
+        const { registrationId } = payload as OfflineActionPayloads['registration:reject']
+        return current.map((s) => ({ ...s, registrations: s.registrations?.filter((r) => r.id !== registrationId) }))
+      }
+      default:
+        return current
+    }
+  }, schedules)
+}
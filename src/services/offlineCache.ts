@@ -0,0 +1,89 @@
+/**
+ * Offline Cache
+ * Keeps the last successful response of the live views (dashboard, jam, schedules)
+ * in IndexedDB, and serves it when the backend can't be reached so a reload at the
+ * venue without Wi-Fi still shows the last known state (marked with cachedAt)
+ */
+
+import {isNetworkError} from '../lib/api'
+import {openKeyValueStore, type KeyValueStore} from '../lib/indexedDb'
+import {hashQueryKey, type QueryKey} from './queryCache'
+import type {ApiError, ApiResponse} from '../types/api.types'
+
+const DATABASE_NAME = 'jam-session-offline'
+const STORE_NAME = 'responses'
+
+interface OfflineSnapshot<T> {
+  data: T
+  savedAt: string
+}
+
+let storePromise: Promise<KeyValueStore | null> | null = null
+
+function getStore(): Promise<KeyValueStore | null> {
+  if (!storePromise) storePromise = openKeyValueStore(DATABASE_NAME, STORE_NAME)
+  return storePromise
+}
+
+// Network errors and timeouts (not cancellations or error responses)
+function isUnreachable(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'statusCode' in error && isNetworkError(error as ApiError)
+}
+
+/**
+ * Save a response for offline use
+ * @param key - Query key of the response (see queryKeys)
+ */
+export async function saveOfflineSnapshot<T>(key: QueryKey, data: T): Promise<void> {
+  try {
+    const store = await getStore()
+    const snapshot: OfflineSnapshot<T> = { data, savedAt: new Date().toISOString() }
+    await store?.put(hashQueryKey(key), snapshot)
+  } catch (err) {
+    // Quota or private mode: offline copies are best effort
+    console.warn('⚠️ Could not save offline copy:', err)
+  }
+}
+
+/**
+ * Load a saved response
+ * @returns The snapshot, or null if none was saved
+ */
+export async function loadOfflineSnapshot<T>(key: QueryKey): Promise<OfflineSnapshot<T> | null> {
+  try {
+    const store = await getStore()
+    return (await store?.get<OfflineSnapshot<T>>(hashQueryKey(key))) ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Drop all saved responses (e.g. on logout)
+ */
+export async function clearOfflineSnapshots(): Promise<void> {
+  const store = await getStore()
+  await store?.clear()
+}
+
+/**
+ * Run a read request, saving its response; when the backend is unreachable,
+ * answer with the last saved response instead (cachedAt set)
+ * @param key - Query key the response is saved under
+ * @param request - The API call
+ * @example
+ * return withOfflineFallback(queryKeys.jams.detail(id), () => apiClient.get<JamResponseDto>(API_ENDPOINTS.jams.detail(id)))
+ */
+export async function withOfflineFallback<T>(key: QueryKey, request: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+  try {
+    const response = await request()
+    void saveOfflineSnapshot(key, response.data)
+    return response
+  } catch (err) {
+    if (!isUnreachable(err)) throw err
+
+    const snapshot = await loadOfflineSnapshot<T>(key)
+    if (!snapshot) throw err
+    return { data: snapshot.data, success: true, cachedAt: snapshot.savedAt }
+  }
+}
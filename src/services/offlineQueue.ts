@@ -3,6 +3,16 @@
  * Manages queuing of socket events when offline and flushes them on reconnection
  */
 
+import {isNetworkError, isNotFoundError, isPermissionError, isValidationError} from '../lib/api/errorHandler'
+import type {ApiError} from '../types/api.types'
+import {
+  ActionConflictError,
+  OFFLINE_ACTION_HANDLERS,
+  type OfflineActionEvent,
+  type OfflineActionPayloads,
+} from './offlineActions'
+import type {ScheduleConflict} from '../utils/scheduleConflicts'
+
 /**
  * Queued socket action
  */
@@ -12,10 +22,45 @@ export interface QueuedAction {
   payload: any
   timestamp: number
   retries: number
+  // Attempts in a row that found the server unreachable: only lengthen the backoff, never count against maxRetries
+  unreachableAttempts?: number
   priority: 'high' | 'normal' | 'low'
   maxRetries: number
+  lastError?: string
+  nextAttemptAt?: number
+  // Set when the server state diverged from the state the action was based on
+  conflict?: ScheduleConflict
+}
+
+/**
+ * Outcome of replaying one action during a flush
+ * - succeeded: replayed and removed from the queue
+ * - retrying: failed, will be retried after a backoff delay
+ * - failed: retries exhausted or not retryable, waits for the host to retry or discard
+ * - conflict: the server changed since the action was queued, waits for the host to resolve
+ */
+export interface ActionOutcome {
+  id: string
+  event: string
+  status: 'succeeded' | 'retrying' | 'failed' | 'conflict'
+  error?: string
 }
 
+/**
+ * Result of a flush run
+ */
+export interface FlushResult {
+  outcomes: ActionOutcome[]
+  remaining: number
+  completedAt: number
+}
+
+/**
+ * Replays a queued action (rejects on failure)
+ * Payloads default to the host actions; other events bring their own payload type
+ */
+export type QueuedActionHandler<P = OfflineActionPayloads[OfflineActionEvent]> = (payload: P) => Promise<unknown>
+
 /**
  * Queue statistics
  */
@@ -26,6 +71,33 @@ export interface QueueStats {
   highPriority: number
 }
 
+// Exponential backoff between retries of the same action
+const BASE_RETRY_DELAY_MS = 1000
+const MAX_RETRY_DELAY_MS = 60000
+
+/**
+ * Delay before the next attempt of an action that failed `retries` times
+ */
+export function getRetryDelay(retries: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, retries - 1), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Client errors are not fixed by retrying (the request itself is wrong or stale)
+ */
+function isRetryable(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null || !('statusCode' in error)) return true
+  const apiError = error as ApiError
+  return !(isValidationError(apiError) || isNotFoundError(apiError) || isPermissionError(apiError))
+}
+
+function getErrorMessage(error: unknown): string {
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String((error as { message: unknown }).message)
+  }
+  return String(error)
+}
+
 /**
  * Offline Queue Manager - Singleton
  */
@@ -34,9 +106,26 @@ class OfflineQueueManager {
   private queue: Map<string, QueuedAction> = new Map()
   private persistenceKey = 'socket_offline_queue'
   private listeners: ((queue: QueuedAction[]) => void)[] = []
+  private flushListeners: ((result: FlushResult) => void)[] = []
+  private handlers: Map<string, QueuedActionHandler<unknown>> = new Map(
+    Object.entries(OFFLINE_ACTION_HANDLERS) as [string, QueuedActionHandler<unknown>][]
+  )
+  private flushPromise: Promise<FlushResult> | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
 
   private constructor() {
     this.loadFromStorage()
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        void this.flush()
+      })
+
+      // Replay actions restored from storage once the app has started
+      if (navigator.onLine && this.queue.size > 0) {
+        setTimeout(() => void this.flush(), 0)
+      }
+    }
   }
 
   /**
@@ -186,6 +275,87 @@ class OfflineQueueManager {
     return removed
   }
 
+  /**
+   * Register the handler that replays an event
+   */
+  registerHandler<P>(event: string, handler: QueuedActionHandler<P>): void {
+    this.handlers.set(event, handler as QueuedActionHandler<unknown>)
+  }
+
+  /**
+   * Get actions whose retries are exhausted
+   */
+  getFailed(): QueuedAction[] {
+    return this.getQueue().filter((a) => a.retries >= a.maxRetries)
+  }
+
+  /**
+   * Check if a flush is running
+   */
+  isFlushing(): boolean {
+    return this.flushPromise !== null
+  }
+
+  /**
+   * Replay queued actions in priority order
+   * The run stops at the first action waiting for its backoff delay, so later actions
+   * are never replayed before it
+   * Concurrent calls share the running flush
+   */
+  flush(): Promise<FlushResult> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.runFlush().finally(() => {
+        this.flushPromise = null
+        this.notifyListeners()
+      })
+      this.notifyListeners()
+    }
+    return this.flushPromise
+  }
+
+  /**
+   * Reset a failed action and replay it
+   */
+  retryAction(id: string): Promise<FlushResult> {
+    const action = this.queue.get(id)
+    if (action) {
+      action.retries = 0
+      action.unreachableAttempts = undefined
+      action.nextAttemptAt = undefined
+      action.lastError = undefined
+      action.conflict = undefined
+      this.saveToStorage()
+      this.notifyListeners()
+    }
+    return this.flush()
+  }
+
+  /**
+   * Resolve a conflicted action by replaying it with a new payload
+   * The payload should be based on the server state shown to the host
+   */
+  resolveConflict(id: string, payload: unknown): Promise<FlushResult> {
+    const action = this.queue.get(id)
+    if (action) {
+      action.payload = payload
+    }
+    return this.retryAction(id)
+  }
+
+  /**
+   * Subscribe to flush results
+   */
+  subscribeToFlush(listener: (result: FlushResult) => void): () => void {
+    this.flushListeners.push(listener)
+
+    return () => {
+      const index = this.flushListeners.indexOf(listener)
+      if (index > -1) {
+        this.flushListeners.splice(index, 1)
+      }
+    }
+  }
+
   /**
    * Subscribe to queue changes
    */
@@ -201,6 +371,118 @@ class OfflineQueueManager {
     }
   }
 
+  /**
+   * Replay due actions one at a time (order matters for reorders)
+   * Failed and conflicting actions wait for the host and are skipped; an action that
+   * will be retried holds back the ones after it
+   */
+  private async runFlush(): Promise<FlushResult> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+
+    const outcomes: ActionOutcome[] = []
+    const now = Date.now()
+
+    for (const action of this.getQueue()) {
+      if (action.retries >= action.maxRetries) continue
+      if (action.nextAttemptAt && action.nextAttemptAt > now) break
+
+      const handler = this.handlers.get(action.event)
+      if (!handler) {
+        this.markFailed(action, `No handler for ${action.event}`)
+        outcomes.push({ id: action.id, event: action.event, status: 'failed', error: action.lastError })
+        continue
+      }
+
+      try {
+        await handler(action.payload)
+        this.queue.delete(action.id)
+        outcomes.push({ id: action.id, event: action.event, status: 'succeeded' })
+      } catch (err) {
+        // Server unreachable: back off without spending a retry and keep the rest for later
+        if (typeof err === 'object' && err !== null && 'statusCode' in err && isNetworkError(err as ApiError)) {
+          action.unreachableAttempts = (action.unreachableAttempts ?? 0) + 1
+          action.lastError = getErrorMessage(err)
+          action.nextAttemptAt = Date.now() + getRetryDelay(action.unreachableAttempts)
+          outcomes.push({ id: action.id, event: action.event, status: 'retrying', error: action.lastError })
+          break
+        }
+
+        // The server answered: back to the base delay the next time it can't be reached
+        action.unreachableAttempts = undefined
+
+        if (err instanceof ActionConflictError) {
+          this.markFailed(action, err.message)
+          action.conflict = err.conflict
+          outcomes.push({ id: action.id, event: action.event, status: 'conflict', error: action.lastError })
+          console.warn(`⚠️ Queued action conflicts with server state: ${action.event} (${action.id})`)
+          continue
+        }
+
+        if (!isRetryable(err)) {
+          this.markFailed(action, getErrorMessage(err))
+        } else {
+          action.retries++
+          action.lastError = getErrorMessage(err)
+          action.nextAttemptAt = Date.now() + getRetryDelay(action.retries)
+        }
+
+        const status = action.retries >= action.maxRetries ? 'failed' : 'retrying'
+        outcomes.push({ id: action.id, event: action.event, status, error: action.lastError })
+        console.warn(`⚠️ Queued action ${status}: ${action.event} (${action.id})`, err)
+        if (status === 'retrying') break
+      } finally {
+        this.saveToStorage()
+        this.notifyListeners()
+      }
+    }
+
+    this.scheduleRetry()
+
+    const result: FlushResult = {
+      outcomes,
+      remaining: this.queue.size,
+      completedAt: Date.now(),
+    }
+
+    this.flushListeners.forEach((listener) => {
+      try {
+        listener(result)
+      } catch (err) {
+        console.error('Error in flush listener:', err)
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Exhaust retries so the action is reported as failed
+   */
+  private markFailed(action: QueuedAction, error: string): void {
+    action.retries = action.maxRetries
+    action.lastError = error
+    action.nextAttemptAt = undefined
+  }
+
+  /**
+   * Schedule the next flush for the earliest action waiting on backoff
+   */
+  private scheduleRetry(): void {
+    const waiting = this.getQueue().filter((a) => a.retries < a.maxRetries && a.nextAttemptAt)
+    if (waiting.length === 0) return
+
+    const nextAttemptAt = Math.min(...waiting.map((a) => a.nextAttemptAt!))
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      if (typeof navigator === 'undefined' || navigator.onLine) {
+        void this.flush()
+      }
+    }, Math.max(0, nextAttemptAt - Date.now()))
+  }
+
   /**
    * Notify all listeners of queue changes
    */
@@ -0,0 +1,315 @@
+/**
+ * Query Cache
+ * Keyed stale-while-revalidate cache shared by the data hooks and JamContext.
+ * Deduplicates in-flight requests, serves cached data while it revalidates,
+ * refetches stale queries when the window regains focus, and is invalidated
+ * by the service methods that change data. A request nobody is subscribed to
+ * or waiting for anymore (all readers unmounted) is aborted.
+ */
+
+import type {ApiError} from '../types/api.types'
+import {isCancelledError} from '../lib/api'
+
+export type QueryKey = readonly unknown[]
+
+// Receives the signal that aborts the request when its last reader leaves
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>
+
+export interface QueryState<T = unknown> {
+  data: T | null
+  error: string | null
+  // Time of the last successful fetch (0 = never fetched)
+  updatedAt: number
+  isFetching: boolean
+  // Set by invalidate(): the next read refetches even within the stale time
+  isInvalidated: boolean
+}
+
+export interface FetchQueryOptions {
+  staleTime?: number
+  // Ignore the stale time and refetch; a running request is replaced, since it may
+  // have been sent before the change that made the refetch necessary
+  force?: boolean
+  // The caller reads the result from the cache state (subscribe), not from the returned
+  // promise: it doesn't keep the request alive once no reader is subscribed
+  background?: boolean
+}
+
+interface QueryEntry {
+  key: QueryKey
+  state: QueryState
+  fetcher: QueryFetcher<unknown> | null
+  staleTime: number
+  promise: Promise<unknown> | null
+  controller: AbortController | null
+  listeners: Set<() => void>
+  // Callers awaiting the running request without subscribing (e.g. JamContext)
+  waiting: number
+}
+
+// Data younger than this is served without a request
+export const DEFAULT_STALE_TIME = 30_000
+
+const INITIAL_STATE: QueryState = {
+  data: null,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+}
+
+/**
+ * Query keys
+ * Hierarchical so a prefix invalidates everything below it,
+ * e.g. queryKeys.schedules.all covers byJam and byMusician
+ */
+export const queryKeys = {
+  jams: {
+    all: ['jams'] as const,
+    list: () => ['jams', 'list'] as const,
+    detail: (id: string) => ['jams', 'detail', id] as const,
+    dashboard: (id: string) => ['jams', 'dashboard', id] as const,
+  },
+  music: {
+    all: ['music'] as const,
+    list: () => ['music', 'list'] as const,
+    detail: (id: string) => ['music', 'detail', id] as const,
+    byJam: (jamId: string) => ['music', 'jam', jamId] as const,
+  },
+  musicians: {
+    all: ['musicians'] as const,
+    list: () => ['musicians', 'list'] as const,
+    detail: (id: string) => ['musicians', 'detail', id] as const,
+  },
+  registrations: {
+    all: ['registrations'] as const,
+    byJam: (jamId: string) => ['registrations', 'jam', jamId] as const,
+    byMusician: (musicianId: string) => ['registrations', 'musician', musicianId] as const,
+  },
+  schedules: {
+    all: ['schedules'] as const,
+    byJam: (jamId: string) => ['schedules', 'jam', jamId] as const,
+    byMusician: (musicianId: string) => ['schedules', 'musician', musicianId] as const,
+  },
+  repertoire: {
+    all: ['repertoire'] as const,
+    byMusician: (musicianId: string) => ['repertoire', 'musician', musicianId] as const,
+    byJam: (jamId: string) => ['repertoire', 'jam', jamId] as const,
+  },
+}
+
+/**
+ * Stable string form of a query key
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key)
+}
+
+/**
+ * Query key back from its hash
+ */
+export function parseQueryKey(hash: string): QueryKey {
+  return JSON.parse(hash) as QueryKey
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.length <= key.length && prefix.every((part, i) => hashQueryKey([part]) === hashQueryKey([key[i]]))
+}
+
+function getErrorMessage(error: unknown): string {
+  return (error as ApiError)?.message || 'An error occurred'
+}
+
+/**
+ * Query Cache - Singleton
+ */
+class QueryCache {
+  private static instance: QueryCache | null = null
+  private entries: Map<string, QueryEntry> = new Map()
+
+  private constructor() {
+    if (typeof window !== 'undefined') {
+      // Background revalidation when the user comes back to the tab or the connection returns
+      window.addEventListener('focus', () => this.revalidateStale())
+      window.addEventListener('online', () => this.revalidateStale())
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.revalidateStale()
+      })
+    }
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): QueryCache {
+    if (!QueryCache.instance) {
+      QueryCache.instance = new QueryCache()
+    }
+    return QueryCache.instance
+  }
+
+  private getEntry(key: QueryKey): QueryEntry {
+    const hash = hashQueryKey(key)
+    let entry = this.entries.get(hash)
+    if (!entry) {
+      entry = {
+        key,
+        state: INITIAL_STATE,
+        fetcher: null,
+        staleTime: DEFAULT_STALE_TIME,
+        promise: null,
+        controller: null,
+        listeners: new Set(),
+        waiting: 0,
+      }
+      this.entries.set(hash, entry)
+    }
+    return entry
+  }
+
+  private setState(entry: QueryEntry, patch: Partial<QueryState>): void {
+    entry.state = { ...entry.state, ...patch }
+    entry.listeners.forEach((listener) => listener())
+  }
+
+  private isStale(entry: QueryEntry): boolean {
+    return entry.state.isInvalidated || entry.state.updatedAt === 0 || Date.now() - entry.state.updatedAt > entry.staleTime
+  }
+
+  /**
+   * Current state of a query (same object until it changes, safe for useSyncExternalStore)
+   */
+  getState<T>(key: QueryKey): QueryState<T> {
+    return this.getEntry(key).state as QueryState<T>
+  }
+
+  /**
+   * Subscribe to state changes of a query
+   * @returns Unsubscribe function
+   */
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key)
+    entry.listeners.add(listener)
+    return () => {
+      entry.listeners.delete(listener)
+      if (entry.listeners.size === 0 && entry.waiting === 0) entry.controller?.abort()
+    }
+  }
+
+  // Count a caller awaiting the request until it settles
+  private wait<T>(entry: QueryEntry, promise: Promise<T>, options: FetchQueryOptions): Promise<T> {
+    if (options.background) return promise
+    entry.waiting++
+    return promise.finally(() => {
+      entry.waiting--
+    })
+  }
+
+  /**
+   * Fetch a query: returns fresh cached data, joins a running request, or starts a new one
+   */
+  fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: FetchQueryOptions = {}): Promise<T> {
+    const entry = this.getEntry(key)
+    entry.fetcher = fetcher
+    entry.staleTime = options.staleTime ?? entry.staleTime
+
+    // Join the running request unless it was aborted (its readers left, e.g. a StrictMode remount)
+    const isRunning = entry.promise && !entry.controller?.signal.aborted
+    if (isRunning && !options.force) return this.wait(entry, entry.promise as Promise<T>, options)
+    if (!entry.promise && !options.force && !this.isStale(entry)) return Promise.resolve(entry.state.data as T)
+
+    // A forced fetch supersedes the running request
+    entry.controller?.abort()
+    this.setState(entry, { isFetching: true })
+    const controller = new AbortController()
+    entry.controller = controller
+    // Only the latest request for the entry may write its state
+    const isCurrent = () => entry.controller === controller
+    // A superseded request settles with the result of the one that replaced it
+    const followLatest = () => (entry.promise ?? Promise.resolve(entry.state.data)) as Promise<T>
+    const promise: Promise<T> = fetcher(controller.signal)
+      .then((data) => {
+        if (!isCurrent()) return followLatest()
+        this.setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false, isInvalidated: false })
+        return data
+      }, (error: unknown) => {
+        if (!isCurrent()) return followLatest()
+        // Keep the last good data, only report the error (a cancelled request is not an error)
+        this.setState(entry, isCancelledError(error) ? { isFetching: false } : { error: getErrorMessage(error), isFetching: false })
+        throw error
+      })
+      .finally(() => {
+        if (isCurrent()) {
+          entry.promise = null
+          entry.controller = null
+        }
+      })
+
+    entry.promise = promise
+    return this.wait(entry, promise, options)
+  }
+
+  /**
+   * Write data straight into the cache (e.g. a full jam received from a push update)
+   */
+  setData<T>(key: QueryKey, data: T): void {
+    this.setState(this.getEntry(key), { data, error: null, updatedAt: Date.now(), isInvalidated: false })
+  }
+
+  /**
+   * Mark every query under the prefix stale; queries in use refetch in the background
+   */
+  invalidate(prefix: QueryKey): void {
+    this.entries.forEach((entry) => {
+      if (!matchesPrefix(entry.key, prefix)) return
+      this.setState(entry, { isInvalidated: true })
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher, { force: true, background: true }).catch(() => undefined)
+      }
+    })
+  }
+
+  /**
+   * Refetch stale queries that are in use
+   */
+  revalidateStale(): void {
+    this.entries.forEach((entry) => {
+      if (entry.listeners.size > 0 && entry.fetcher && this.isStale(entry)) {
+        this.fetch(entry.key, entry.fetcher, { background: true }).catch(() => undefined)
+      }
+    })
+  }
+
+  /**
+   * Drop all cached data (e.g. on logout); queries in use start over
+   */
+  clear(): void {
+    this.entries.forEach((entry, hash) => {
+      if (entry.listeners.size === 0) {
+        this.entries.delete(hash)
+      } else {
+        this.setState(entry, INITIAL_STATE)
+      }
+    })
+    this.revalidateStale()
+  }
+}
+
+/**
+ * Get the query cache instance
+ */
+export function getQueryCache(): QueryCache {
+  return QueryCache.getInstance()
+}
+
+/**
+ * Invalidate queries after a mutation
+ * @example
+ * invalidateQueries(queryKeys.schedules.byJam(jamId), queryKeys.jams.detail(jamId))
+ */
+export function invalidateQueries(...prefixes: QueryKey[]): void {
+  const cache = getQueryCache()
+  prefixes.forEach((prefix) => cache.invalidate(prefix))
+}
+
+export { QueryCache }
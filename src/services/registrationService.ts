@@ -4,7 +4,8 @@
  */
 
 import {API_ENDPOINTS, apiClient} from '../lib/api'
-import type {ApiResponse, CreateRegistrationDto, RegistrationResponseDto,} from '../types/api.types'
+import {invalidateQueries, queryKeys} from './queryCache'
+import type {ApiResponse, CreateRegistrationDto, RegistrationResponseDto, RequestOptions} from '../types/api.types'
 
 /**
  * Registration Service
@@ -17,25 +18,29 @@ export const registrationService = {
    * @returns Promise with created registration
    */
   async create(data: CreateRegistrationDto): Promise<ApiResponse<RegistrationResponseDto>> {
-    return apiClient.post<RegistrationResponseDto>(API_ENDPOINTS.registrations as string, data)
+    const response = await apiClient.post<RegistrationResponseDto>(API_ENDPOINTS.registrations as string, data)
+    invalidateQueries(queryKeys.registrations.all, queryKeys.schedules.all, queryKeys.jams.all)
+    return response
   },
 
   /**
    * Get all registrations for a specific jam
    * @param jamId - Jam ID
+   * @param options - Request options (abort signal)
    * @returns Promise with array of registrations
    */
-  async findByJam(jamId: string): Promise<ApiResponse<RegistrationResponseDto[]>> {
-    return apiClient.get<RegistrationResponseDto[]>(API_ENDPOINTS.registrationsByJam(jamId))
+  async findByJam(jamId: string, options?: RequestOptions): Promise<ApiResponse<RegistrationResponseDto[]>> {
+    return apiClient.get<RegistrationResponseDto[]>(API_ENDPOINTS.registrationsByJam(jamId), options)
   },
 
   /**
    * Get all registrations for a specific musician
    * @param musicianId - Musician ID (músico ID)
+   * @param options - Request options (abort signal)
    * @returns Promise with array of registrations
    */
-  async findByMusician(musicianId: string): Promise<ApiResponse<RegistrationResponseDto[]>> {
-    return apiClient.get<RegistrationResponseDto[]>(API_ENDPOINTS.registrationsByMusician(musicianId))
+  async findByMusician(musicianId: string, options?: RequestOptions): Promise<ApiResponse<RegistrationResponseDto[]>> {
+    return apiClient.get<RegistrationResponseDto[]>(API_ENDPOINTS.registrationsByMusician(musicianId), options)
   },
 
   /**
@@ -45,7 +50,9 @@ export const registrationService = {
    * @returns Promise with updated registration
    */
   async update(id: string, data: Partial<RegistrationResponseDto>): Promise<ApiResponse<RegistrationResponseDto>> {
-    return apiClient.patch<RegistrationResponseDto>(API_ENDPOINTS.registrationById(id), data)
+    const response = await apiClient.patch<RegistrationResponseDto>(API_ENDPOINTS.registrationById(id), data)
+    invalidateQueries(queryKeys.registrations.all, queryKeys.schedules.all, queryKeys.jams.all)
+    return response
   },
 
   /**
@@ -54,7 +61,9 @@ export const registrationService = {
    * @returns Promise with deletion confirmation
    */
   async remove(id: string): Promise<ApiResponse<void>> {
-    return apiClient.delete<void>(API_ENDPOINTS.registrationById(id))
+    const response = await apiClient.delete<void>(API_ENDPOINTS.registrationById(id))
+    invalidateQueries(queryKeys.registrations.all, queryKeys.schedules.all, queryKeys.jams.all)
+    return response
   },
 }
 
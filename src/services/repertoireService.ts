@@ -0,0 +1,74 @@
+/**
+ * Repertoire Service
+ * Handles all API operations related to musicians' repertoires (Repertório)
+ */
+
+import {API_ENDPOINTS, apiClient} from '../lib/api'
+import {invalidateQueries, queryKeys} from './queryCache'
+import type {
+  ApiResponse,
+  CreateRepertoireEntryDto,
+  RepertoireEntryResponseDto,
+  RequestOptions,
+  UpdateRepertoireEntryDto,
+} from '../types/api.types'
+
+/**
+ * Repertoire Service
+ * Encapsulates all repertoire-related API calls
+ */
+export const repertoireService = {
+  /**
+   * Get a musician's repertoire
+   * @param musicianId - Musician ID
+   * @param options - Request options (abort signal)
+   * @returns Promise with array of repertoire entries (with their songs)
+   */
+  async findByMusician(musicianId: string, options?: RequestOptions): Promise<ApiResponse<RepertoireEntryResponseDto[]>> {
+    return apiClient.get<RepertoireEntryResponseDto[]>(API_ENDPOINTS.repertoireByMusician(musicianId), options)
+  },
+
+  /**
+   * Get the repertoire entries for the songs of a jam, from every musician
+   * @param jamId - Jam ID
+   * @param options - Request options (abort signal)
+   * @returns Promise with array of repertoire entries (with their musicians)
+   */
+  async findByJam(jamId: string, options?: RequestOptions): Promise<ApiResponse<RepertoireEntryResponseDto[]>> {
+    return apiClient.get<RepertoireEntryResponseDto[]>(API_ENDPOINTS.repertoireByJam(jamId), options)
+  },
+
+  /**
+   * Add a song to a musician's repertoire
+   * @param data - Musician, song and how well they know it
+   * @returns Promise with the new entry
+   */
+  async add(data: CreateRepertoireEntryDto): Promise<ApiResponse<RepertoireEntryResponseDto>> {
+    const response = await apiClient.post<RepertoireEntryResponseDto>(API_ENDPOINTS.repertoire, data)
+    invalidateQueries(queryKeys.repertoire.all)
+    return response
+  },
+
+  /**
+   * Change how well a musician knows a song
+   * @param id - Repertoire entry ID
+   * @param data - New status
+   * @returns Promise with the updated entry
+   */
+  async update(id: string, data: UpdateRepertoireEntryDto): Promise<ApiResponse<RepertoireEntryResponseDto>> {
+    const response = await apiClient.patch<RepertoireEntryResponseDto>(API_ENDPOINTS.repertoireById(id), data)
+    invalidateQueries(queryKeys.repertoire.all)
+    return response
+  },
+
+  /**
+   * Remove a song from a musician's repertoire
+   * @param id - Repertoire entry ID
+   * @returns Promise with deletion confirmation
+   */
+  async remove(id: string): Promise<ApiResponse<void>> {
+    const response = await apiClient.delete<void>(API_ENDPOINTS.repertoireById(id))
+    invalidateQueries(queryKeys.repertoire.all)
+    return response
+  },
+}
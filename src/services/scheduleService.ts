@@ -4,11 +4,15 @@
  */
 
 import { apiClient, API_ENDPOINTS } from '../lib/api'
+import { invalidateQueries, queryKeys } from './queryCache'
+import { withOfflineFallback } from './offlineCache'
+import { recordSongStart } from '../lib/songStartTimes'
 import type {
   ScheduleResponseDto,
   CreateScheduleDto,
   UpdateScheduleDto,
   ApiResponse,
+  RequestOptions,
 } from '../types/api.types'
 
 /**
@@ -22,25 +26,32 @@ export const scheduleService = {
    * @returns Promise with created schedule
    */
   async create(data: CreateScheduleDto): Promise<ApiResponse<ScheduleResponseDto>> {
-    return apiClient.post<ScheduleResponseDto>(API_ENDPOINTS.schedules as string, data)
+    const response = await apiClient.post<ScheduleResponseDto>(API_ENDPOINTS.schedules as string, data)
+    invalidateQueries(queryKeys.schedules.byJam(data.jamId), queryKeys.jams.detail(data.jamId))
+    return response
   },
 
   /**
    * Get all schedules for a specific jam
+   * Falls back to the last saved copy when the backend is unreachable (cachedAt set),
+   * unless offlineFallback is false
    * @param jamId - Jam ID
+   * @param options - Request options (abort signal, offline fallback)
    * @returns Promise with array of schedules
    */
-  async findByJam(jamId: string): Promise<ApiResponse<ScheduleResponseDto[]>> {
-    return apiClient.get<ScheduleResponseDto[]>(API_ENDPOINTS.schedulesByJam(jamId))
+  async findByJam(jamId: string, { offlineFallback = true, signal }: RequestOptions = {}): Promise<ApiResponse<ScheduleResponseDto[]>> {
+    const request = () => apiClient.get<ScheduleResponseDto[]>(API_ENDPOINTS.schedulesByJam(jamId), { signal })
+    return offlineFallback ? withOfflineFallback(queryKeys.schedules.byJam(jamId), request) : request()
   },
 
   /**
    * Get all schedules for a specific musician
    * @param musicianId - Musician ID (músico ID)
+   * @param options - Request options (abort signal)
    * @returns Promise with array of schedules
    */
-  async findByMusician(musicianId: string): Promise<ApiResponse<ScheduleResponseDto[]>> {
-    return apiClient.get<ScheduleResponseDto[]>(API_ENDPOINTS.schedulesByMusician(musicianId))
+  async findByMusician(musicianId: string, options?: RequestOptions): Promise<ApiResponse<ScheduleResponseDto[]>> {
+    return apiClient.get<ScheduleResponseDto[]>(API_ENDPOINTS.schedulesByMusician(musicianId), options)
   },
 
   /**
@@ -50,7 +61,10 @@ export const scheduleService = {
    * @returns Promise with updated schedule
    */
   async update(id: string, data: UpdateScheduleDto): Promise<ApiResponse<ScheduleResponseDto>> {
-    return apiClient.patch<ScheduleResponseDto>(API_ENDPOINTS.scheduleById(id), data)
+    const response = await apiClient.patch<ScheduleResponseDto>(API_ENDPOINTS.scheduleById(id), data)
+    if (data.status === 'IN_PROGRESS') recordSongStart(id)
+    invalidateQueries(queryKeys.schedules.all, queryKeys.jams.all)
+    return response
   },
 
   /**
@@ -59,7 +73,9 @@ export const scheduleService = {
    * @returns Promise with deletion confirmation
    */
   async remove(id: string): Promise<ApiResponse<void>> {
-    return apiClient.delete<void>(API_ENDPOINTS.scheduleById(id))
+    const response = await apiClient.delete<void>(API_ENDPOINTS.scheduleById(id))
+    invalidateQueries(queryKeys.schedules.all, queryKeys.jams.all)
+    return response
   },
 
   /**
@@ -69,7 +85,9 @@ export const scheduleService = {
    * @returns Promise with confirmation
    */
   async reorder(jamId: string, scheduleIds: string[]): Promise<ApiResponse<void>> {
-    return apiClient.put<void>(API_ENDPOINTS.reorderSchedules(jamId), scheduleIds)
+    const response = await apiClient.put<void>(API_ENDPOINTS.reorderSchedules(jamId), scheduleIds)
+    invalidateQueries(queryKeys.schedules.byJam(jamId), queryKeys.jams.detail(jamId))
+    return response
   },
 }
 
@@ -0,0 +1,300 @@
+/**
+ * Socket Service
+ * Manages the WebSocket connection to the jam rooms described in asyncapi.yaml
+ * Handles join/leave, role-based state requests and re-joining rooms after reconnection
+ */
+
+import {io, type ManagerOptions, type Socket, type SocketOptions} from 'socket.io-client'
+import {getToken} from '../lib/auth'
+import {recordSongStart} from '../lib/songStartTimes'
+import {isFakeBackendEnabled} from '../lib/fakeBackend/config'
+import {REQUEST_STATE_EVENTS, SOCKET_CONFIG, SOCKET_EVENTS} from '../lib/socket/config'
+import type {
+  ClientToServerEvents,
+  ServerEventName,
+  ServerEventPayload,
+  ServerToClientEvents,
+  SocketConnectionState,
+  SocketRole,
+} from '../types/socket.types'
+
+/**
+ * Typed socket.io client socket
+ */
+export type JamSocket = Socket<ServerToClientEvents, ClientToServerEvents>
+
+/**
+ * Factory used to create the underlying socket (overridable for tests)
+ */
+export type SocketFactory = (url: string, options: Partial<ManagerOptions & SocketOptions>) => JamSocket
+
+type EventHandler<E extends ServerEventName> = (payload: ServerEventPayload<E>) => void
+
+const defaultSocketFactory: SocketFactory = (url, options) => io(url, options)
+
+/**
+ * Socket Service - Singleton
+ */
+class SocketService {
+  private static instance: SocketService | null = null
+  private socket: JamSocket | null = null
+  private connectionState: SocketConnectionState = 'disconnected'
+  private joinedJams: Map<string, { role: SocketRole; refCount: number }> = new Map()
+  private eventHandlers: Map<ServerEventName, Set<EventHandler<ServerEventName>>> = new Map()
+  private stateListeners: ((state: SocketConnectionState) => void)[] = []
+  private socketFactory: SocketFactory
+
+  constructor(socketFactory: SocketFactory = defaultSocketFactory) {
+    this.socketFactory = socketFactory
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): SocketService {
+    if (!SocketService.instance) {
+      SocketService.instance = new SocketService()
+    }
+    return SocketService.instance
+  }
+
+  /**
+   * Open the connection (no-op if already open or opening)
+   */
+  connect(): void {
+    // The fake backend has no socket server: views refresh through the query cache instead
+    if (isFakeBackendEnabled()) return
+
+    if (this.socket) {
+      if (!this.socket.connected && this.connectionState === 'disconnected') {
+        this.setConnectionState('connecting')
+        this.socket.connect()
+      }
+      return
+    }
+
+    this.setConnectionState('connecting')
+
+    this.socket = this.socketFactory(SOCKET_CONFIG.url, {
+      transports: ['websocket'],
+      reconnection: true,
+      reconnectionAttempts: SOCKET_CONFIG.reconnectionAttempts,
+      reconnectionDelay: SOCKET_CONFIG.reconnectionDelay,
+      reconnectionDelayMax: SOCKET_CONFIG.reconnectionDelayMax,
+      timeout: SOCKET_CONFIG.timeout,
+      // Evaluated on every (re)connection so a refreshed token is picked up
+      auth: (cb) => {
+        const token = getToken()
+        cb(token ? { token } : {})
+      },
+    })
+
+    this.setupListeners(this.socket)
+  }
+
+  /**
+   * Close the connection and forget joined rooms
+   */
+  disconnect(): void {
+    if (!this.socket) return
+
+    this.joinedJams.clear()
+    this.socket.disconnect()
+    this.socket = null
+    this.setConnectionState('disconnected')
+  }
+
+  /**
+   * Join a jam room with the given role
+   * Joins are reference counted, so several screens can share a room
+   * The room is re-joined automatically after a reconnection
+   */
+  joinJam(jamId: string, role: SocketRole = 'public'): void {
+    const existing = this.joinedJams.get(jamId)
+    this.joinedJams.set(jamId, { role, refCount: (existing?.refCount ?? 0) + 1 })
+
+    if (this.socket?.connected) {
+      this.emitJoin(jamId, role)
+    } else {
+      // The connect handler joins every tracked room
+      this.connect()
+    }
+  }
+
+  /**
+   * Leave a jam room
+   */
+  leaveJam(jamId: string): void {
+    const existing = this.joinedJams.get(jamId)
+    if (!existing) return
+
+    if (existing.refCount > 1) {
+      this.joinedJams.set(jamId, { ...existing, refCount: existing.refCount - 1 })
+      return
+    }
+
+    this.joinedJams.delete(jamId)
+
+    if (this.socket?.connected) {
+      this.socket.emit(SOCKET_EVENTS.client.leaveJam, jamId)
+    }
+  }
+
+  /**
+   * Request a state sync for the role ('live:state-sync' is sent back)
+   */
+  requestState(jamId: string, role: SocketRole): void {
+    if (!this.socket?.connected) return
+    this.socket.emit(REQUEST_STATE_EVENTS[role], { jamId })
+  }
+
+  /**
+   * Signal the host that a musician is ready for a schedule
+   */
+  sendMusicianReady(jamId: string, scheduleId: string): boolean {
+    if (!this.socket?.connected) return false
+    this.socket.emit(SOCKET_EVENTS.client.musicianReady, { jamId, scheduleId })
+    return true
+  }
+
+  /**
+   * Subscribe to a server event
+   * @returns Unsubscribe function
+   */
+  on<E extends ServerEventName>(event: E, handler: EventHandler<E>): () => void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, new Set())
+    }
+    const handlers = this.eventHandlers.get(event)!
+    handlers.add(handler as EventHandler<ServerEventName>)
+
+    return () => {
+      handlers.delete(handler as EventHandler<ServerEventName>)
+    }
+  }
+
+  /**
+   * Subscribe to connection state changes
+   * @returns Unsubscribe function
+   */
+  onConnectionStateChange(listener: (state: SocketConnectionState) => void): () => void {
+    this.stateListeners.push(listener)
+
+    return () => {
+      const index = this.stateListeners.indexOf(listener)
+      if (index > -1) {
+        this.stateListeners.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * Get current connection state
+   */
+  getConnectionState(): SocketConnectionState {
+    return this.connectionState
+  }
+
+  /**
+   * Check if the socket is connected
+   */
+  isConnected(): boolean {
+    return this.connectionState === 'connected'
+  }
+
+  /**
+   * Get jam rooms currently joined
+   */
+  getJoinedJams(): string[] {
+    return Array.from(this.joinedJams.keys())
+  }
+
+  /**
+   * Wire socket lifecycle and server events to the service
+   */
+  private setupListeners(socket: JamSocket): void {
+    socket.on('connect', () => {
+      this.setConnectionState('connected')
+
+      // Join (or re-join after reconnect) every tracked room
+      this.joinedJams.forEach(({ role }, jamId) => this.emitJoin(jamId, role))
+    })
+
+    socket.on('disconnect', (reason) => {
+      if (import.meta.env.DEV) {
+        console.warn('🔌 Socket disconnected:', reason)
+      }
+      // 'io client disconnect' is a manual disconnect, everything else reconnects
+      this.setConnectionState(reason === 'io client disconnect' ? 'disconnected' : 'reconnecting')
+    })
+
+    socket.on('connect_error', (err) => {
+      if (import.meta.env.DEV) {
+        console.warn('🔌 Socket connection error:', err.message)
+      }
+      if (this.connectionState !== 'connected') {
+        this.setConnectionState('reconnecting')
+      }
+    })
+
+    Object.values(SOCKET_EVENTS.server).forEach((event) => {
+      // Cast: every server event shares the single-payload listener shape
+      ;(socket.on as (ev: string, listener: (payload: unknown) => void) => void)(event, (payload) => {
+        if (event === SOCKET_EVENTS.server.scheduleStatusChanged) {
+          const change = payload as ServerEventPayload<typeof SOCKET_EVENTS.server.scheduleStatusChanged>
+          if (change.newStatus === 'IN_PROGRESS') recordSongStart(change.scheduleId, change.timestamp)
+        }
+        this.dispatch(event, payload as ServerEventPayload<typeof event>)
+      })
+    })
+  }
+
+  /**
+   * Emit join + role-based state request for a room
+   */
+  private emitJoin(jamId: string, role: SocketRole): void {
+    if (!this.socket) return
+
+    const token = getToken()
+    this.socket.emit(SOCKET_EVENTS.client.joinJam, token ? { jamId, token } : jamId)
+    this.socket.emit(REQUEST_STATE_EVENTS[role], { jamId })
+  }
+
+  /**
+   * Dispatch a server event to subscribers
+   */
+  private dispatch<E extends ServerEventName>(event: E, payload: ServerEventPayload<E>): void {
+    this.eventHandlers.get(event)?.forEach((handler) => {
+      try {
+        handler(payload)
+      } catch (err) {
+        console.error(`Error in socket handler for ${event}:`, err)
+      }
+    })
+  }
+
+  /**
+   * Update connection state and notify listeners
+   */
+  private setConnectionState(state: SocketConnectionState): void {
+    if (this.connectionState === state) return
+    this.connectionState = state
+
+    this.stateListeners.forEach((listener) => {
+      try {
+        listener(state)
+      } catch (err) {
+        console.error('Error in socket state listener:', err)
+      }
+    })
+  }
+}
+
+/**
+ * Get the socket service instance
+ */
+export function getSocketService(): SocketService {
+  return SocketService.getInstance()
+}
+
+export { SocketService }
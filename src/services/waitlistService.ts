@@ -0,0 +1,63 @@
+/**
+ * Waitlist Service
+ * Handles all API operations related to song waitlists (Lista de espera)
+ */
+
+import {API_ENDPOINTS, apiClient} from '../lib/api'
+import {invalidateQueries, queryKeys} from './queryCache'
+import type {
+  ApiResponse,
+  CreateWaitlistEntryDto,
+  RegistrationResponseDto,
+  RequestOptions,
+  WaitlistEntryResponseDto,
+} from '../types/api.types'
+
+/**
+ * Waitlist Service
+ * Encapsulates all waitlist-related API calls
+ */
+export const waitlistService = {
+  /**
+   * Join the waitlist of a full instrument slot
+   * @param data - Schedule, musician and instrument to wait for
+   * @returns Promise with the new entry (its position in line)
+   */
+  async join(data: CreateWaitlistEntryDto): Promise<ApiResponse<WaitlistEntryResponseDto>> {
+    const response = await apiClient.post<WaitlistEntryResponseDto>(API_ENDPOINTS.waitlist, data)
+    invalidateQueries(queryKeys.schedules.all, queryKeys.jams.all)
+    return response
+  },
+
+  /**
+   * Get the waitlist of a schedule, first in line first
+   * @param scheduleId - Schedule ID
+   * @param options - Request options (abort signal)
+   * @returns Promise with array of waitlist entries
+   */
+  async findBySchedule(scheduleId: string, options?: RequestOptions): Promise<ApiResponse<WaitlistEntryResponseDto[]>> {
+    return apiClient.get<WaitlistEntryResponseDto[]>(API_ENDPOINTS.waitlistBySchedule(scheduleId), options)
+  },
+
+  /**
+   * Leave a waitlist
+   * @param id - Waitlist entry ID
+   * @returns Promise with deletion confirmation
+   */
+  async leave(id: string): Promise<ApiResponse<void>> {
+    const response = await apiClient.delete<void>(API_ENDPOINTS.waitlistById(id))
+    invalidateQueries(queryKeys.schedules.all, queryKeys.jams.all)
+    return response
+  },
+
+  /**
+   * Promote a waitlisted musician into the song (host action)
+   * @param id - Waitlist entry ID
+   * @returns Promise with the registration created for the musician
+   */
+  async promote(id: string): Promise<ApiResponse<RegistrationResponseDto>> {
+    const response = await apiClient.post<RegistrationResponseDto>(API_ENDPOINTS.promoteWaitlistEntry(id))
+    invalidateQueries(queryKeys.registrations.all, queryKeys.schedules.all, queryKeys.jams.all)
+    return response
+  },
+}
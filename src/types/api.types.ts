@@ -19,6 +19,18 @@ export type JamStatus = 'ACTIVE' | 'INACTIVE' | 'FINISHED'
  */
 export type MusicianLevel = 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED' | 'PROFESSIONAL'
 
+/**
+ * What happens to a song's waitlist when a slot frees up
+ * AUTO: the first musician in line takes the slot; HOST: the host is offered the promotion
+ */
+export type WaitlistPromotion = 'AUTO' | 'HOST'
+
+/**
+ * How well a musician knows a song in their repertoire
+ * READY: ready to play it; LEARNING: can learn it for the jam
+ */
+export type RepertoireStatus = 'READY' | 'LEARNING'
+
 /**
  * Schedule/Performance status
  */
@@ -42,6 +54,7 @@ export interface BackendAuthResponseDto {
   isNewUser: boolean
   instrument?: string
   level?: MusicianLevel
+  instruments?: MusicianInstrumentDto[]
 }
 
 // ============================================================================
@@ -54,13 +67,26 @@ export interface BackendAuthResponseDto {
 export interface MusicianResponseDto {
   id: string
   name: string
+  // Legacy single instrument/level, kept in step with the primary instrument
   instrument: string
   level: MusicianLevel
+  // Every instrument the musician plays (missing for profiles saved before they existed)
+  instruments?: MusicianInstrumentDto[]
     contact: string
     phone: string
   createdAt: string
 }
 
+/**
+ * An instrument a musician plays, at their level on it
+ * primary: the instrument shown by default (one per musician)
+ */
+export interface MusicianInstrumentDto {
+  instrument: string
+  level: MusicianLevel
+  primary: boolean
+}
+
 /**
  * Music response from API
  */
@@ -76,6 +102,8 @@ genre?: string
   createdAt: string
   registrations?: RegistrationResponseDto[]
   schedules?: ScheduleResponseDto[]
+  instrumentSlots?: InstrumentSlotDto[]
+  // Legacy slot counts, used when instrumentSlots is missing (see getMusicSlots)
     neededDrums?: number
     neededGuitars?: number
     neededVocals?: number
@@ -83,6 +111,15 @@ genre?: string
     neededKeys?: number
 }
 
+/**
+ * Instrument slot of a song: how many musicians of one instrument it needs
+ * instrument is an ID from the instrument registry (lib/instruments)
+ */
+export interface InstrumentSlotDto {
+  instrument: string
+  count: number
+}
+
 /**
  * Registration response from API
  */
@@ -107,10 +144,47 @@ export interface ScheduleResponseDto {
   order: number
   status: ScheduleStatus
   createdAt: string
+  updatedAt?: string
+  // Set by the backend when the song goes IN_PROGRESS / COMPLETED
+  // (without it, timers use the start recorded by the client, see lib/songStartTimes)
+  startedAt?: string | null
+  completedAt?: string | null
   registrationId?: string
   music: MusicResponseDto
   registrations?: RegistrationResponseDto[]
   registration?: RegistrationResponseDto
+  // Musicians waiting for a full instrument slot, first in line first
+  waitlist?: WaitlistEntryResponseDto[]
+}
+
+/**
+ * Waitlist entry response from API
+ * One musician waiting for a full instrument slot of a song (FIFO by position)
+ */
+export interface WaitlistEntryResponseDto {
+  id: string
+  jamId: string
+  scheduleId: string
+  musicianId: string
+  instrument: string
+  position: number
+  createdAt: string
+  musician?: MusicianResponseDto
+}
+
+/**
+ * Repertoire entry response from API
+ * One song from the catalog that a musician knows (or can learn)
+ */
+export interface RepertoireEntryResponseDto {
+  id: string
+  musicianId: string
+  musicId: string
+  status: RepertoireStatus
+  createdAt: string
+  updatedAt?: string
+  music?: MusicResponseDto
+  musician?: MusicianResponseDto
 }
 
 /**
@@ -135,6 +209,7 @@ export interface JamResponseDto {
   date?: string
   qrCode?: string
   status: JamStatus
+  waitlistPromotion?: WaitlistPromotion
   createdAt: string
   updatedAt: string
   jamMusics?: JamMusicResponseDto[]
@@ -166,6 +241,7 @@ export interface CreateJamDto {
  */
 export interface UpdateJamDto {
   status?: JamStatus
+  waitlistPromotion?: WaitlistPromotion
 }
 
 /**
@@ -176,6 +252,7 @@ export interface CreateMusicianDto {
   contact: string
   instrument: string
   level: MusicianLevel
+  instruments?: MusicianInstrumentDto[]
 }
 
 /**
@@ -186,6 +263,7 @@ export interface UpdateMusicianDto {
   contact?: string
   instrument?: string
   level?: MusicianLevel
+  instruments?: MusicianInstrumentDto[]
 }
 
 /**
@@ -199,6 +277,8 @@ export interface CreateMusicDto {
   link?: string
   duration?: number
   status?: 'APPROVED' | 'SUGGESTED'
+  instrumentSlots?: InstrumentSlotDto[]
+  // Legacy slot counts, still accepted (converted to instrument slots)
   neededDrums?: number
   neededGuitars?: number
   neededVocals?: number
@@ -217,6 +297,8 @@ export interface UpdateMusicDto {
   link?: string
   duration?: number
   status?: 'APPROVED' | 'SUGGESTED'
+  instrumentSlots?: InstrumentSlotDto[]
+  // Legacy slot counts, still accepted (converted to instrument slots)
   neededDrums?: number
   neededGuitars?: number
   neededVocals?: number
@@ -226,14 +308,40 @@ export interface UpdateMusicDto {
 
 /**
  * Create registration request
+ * Targets a song of the setlist (scheduleId) or, for older clients, a jam song (jamMusicId)
  */
 export interface CreateRegistrationDto {
   musicianId: string
-  jamMusicId: string
+  jamMusicId?: string
   scheduleId?: string
   instrument?: string
 }
 
+/**
+ * Join a song's waitlist request
+ */
+export interface CreateWaitlistEntryDto {
+  scheduleId: string
+  musicianId: string
+  instrument: string
+}
+
+/**
+ * Add a song to a musician's repertoire request
+ */
+export interface CreateRepertoireEntryDto {
+  musicianId: string
+  musicId: string
+  status: RepertoireStatus
+}
+
+/**
+ * Update repertoire entry request
+ */
+export interface UpdateRepertoireEntryDto {
+  status: RepertoireStatus
+}
+
 /**
  * Create schedule request
  */
@@ -249,7 +357,8 @@ export interface CreateScheduleDto {
  * Update schedule request
  */
 export interface UpdateScheduleDto {
-
+  order?: number
+  status?: ScheduleStatus
 }
 
 // ============================================================================
@@ -273,6 +382,9 @@ export interface DashboardSongDto {
   title: string
   artist: string
   duration: number | null
+  // When the song went on stage (current song only, when the backend sends it;
+  // otherwise timers use the start recorded by the client, see lib/songStartTimes)
+  startedAt?: string | null
   musicians: DashboardMusicianDto[]
 }
 
@@ -289,6 +401,33 @@ export interface LiveDashboardResponseDto {
   nextSongs: DashboardSongDto[]
 }
 
+// ============================================================================
+// LIVE CONTROL DTOs (for POST /jams/{id}/live/control endpoint)
+// ============================================================================
+
+/**
+ * Host playback commands accepted by the live control endpoint
+ */
+export type LiveControlAction =
+  | { action: 'play' }
+  | { action: 'pause' }
+  | { action: 'skip' }
+  | { action: 'previous' }
+  | { action: 'reorder'; scheduleIds: string[] }
+  | { action: 'extend-time'; seconds: number }
+
+export type LiveControlActionType = LiveControlAction['action']
+
+/**
+ * Live control response
+ * Reports the song that is playing after the action was applied
+ */
+export interface LiveControlResultDto {
+  action: LiveControlActionType
+  currentSchedule?: ScheduleResponseDto | null
+  message?: string
+}
+
 /**
  * Standardized API response wrapper
  * All API responses will be normalized to this format
@@ -298,6 +437,19 @@ export interface ApiResponse<T> {
   success: boolean
   message?: string
   error?: string
+  // Set when the backend was unreachable and this is the last saved copy (ISO time it was saved)
+  cachedAt?: string
+}
+
+/**
+ * Per-request options accepted by the service read methods
+ */
+export interface RequestOptions {
+  // Abort the request (e.g. when the component that needs it unmounts)
+  signal?: AbortSignal
+  // Answer with the last saved copy when the backend is unreachable (reads that keep one; on by default).
+  // Off for reads that decide what to send next, which need the server's current state
+  offlineFallback?: boolean
 }
 
 /**
@@ -4,6 +4,7 @@
  */
 
 import type {OAuthProvider} from '../lib/supabase'
+import type {MusicianInstrumentDto} from './api.types'
 
 /**
  * User roles in the application
@@ -28,6 +29,8 @@ export interface AuthUser {
   instrument?: string
   genre?: string
   level?: string
+  // Every instrument the musician plays; instrument/level mirror the primary one
+  instruments?: MusicianInstrumentDto[]
   contact?: string
 
   // Host-specific fields (if role = 'host')
@@ -60,7 +63,7 @@ export interface AuthContextType {
   setRole: (role: UserRole) => void
   updateUser: (fields: Partial<AuthUser>) => void
   updateProfile: (updates: UpdateProfileDto) => Promise<{ success: boolean; error?: string }>
-  completeOnboarding: (instrument: string, genre: string, profileData?: { name?: string; phone?: string }) => Promise<{ success: boolean; error?: string }>
+  completeOnboarding: (instruments: MusicianInstrumentDto[], genre: string, profileData?: { name?: string; phone?: string }) => Promise<{ success: boolean; error?: string }>
   clearNewUserFlag: () => void
 
   // Helper methods
@@ -163,5 +166,6 @@ export interface UpdateProfileDto {
   name?: string
   instrument?: string
   level?: string
+  instruments?: MusicianInstrumentDto[]
   contact?: string
 }
@@ -0,0 +1,279 @@
+/**
+ * Socket Type Definitions
+ * Generated from AsyncAPI specification (asyncapi.yaml)
+ *
+ * This file contains all TypeScript interfaces and types matching the WebSocket API
+ */
+
+// ============================================================================
+// TYPE CONSTANTS (String Literal Types)
+// ============================================================================
+
+/**
+ * Role of a participant inside a jam room
+ */
+export type SocketRole = 'host' | 'musician' | 'public'
+
+/**
+ * Schedule status as broadcast over the socket
+ */
+export type SocketScheduleStatus = 'pending' | 'ready' | 'performing' | 'completed' | 'cancelled'
+
+/**
+ * Registration status as broadcast over the socket
+ */
+export type SocketRegistrationStatus = 'pending' | 'approved' | 'rejected' | 'cancelled'
+
+/**
+ * Jam status as broadcast over the socket
+ */
+export type SocketJamStatus = 'planning' | 'open' | 'active' | 'closed' | 'completed'
+
+/**
+ * Connection state of the socket client
+ */
+export type SocketConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+export interface SocketMusician {
+  id: string
+  name: string
+  instrument?: string | null
+  contact?: string | null
+}
+
+export interface SocketSchedule {
+  id: string
+  jamId: string
+  musicId: string
+  musicianId: string
+  status: SocketScheduleStatus
+  performance: {
+    startedAt?: string
+    completedAt?: string | null
+  } | null
+}
+
+export interface SocketRegistration {
+  id: string
+  jamId: string
+  musicianId: string
+  status: SocketRegistrationStatus
+  songs?: string[]
+}
+
+export interface SocketMusic {
+  id: string
+  title: string
+  artist?: string | null
+  duration?: number | null
+  key?: string | null
+  tempo?: number | null
+}
+
+export interface SocketJam {
+  id: string
+  name: string
+  status: SocketJamStatus
+  description?: string | null
+  date?: string | null
+  location?: string | null
+  hostMusicianId?: string | null
+  hostName?: string | null
+  hostContact?: string | null
+}
+
+export interface LiveState {
+  jamId: string
+  jam: SocketJam
+  musicians: SocketMusician[]
+  schedule: SocketSchedule[]
+  registrations: SocketRegistration[]
+  musics?: SocketMusic[]
+}
+
+// ============================================================================
+// CLIENT -> SERVER PAYLOADS
+// ============================================================================
+
+/**
+ * joinJam payload (either a bare jamId or an object with optional token)
+ */
+export type JoinJamPayload = string | { jamId: string; token?: string }
+
+/**
+ * host:request-state, musician:request-state and public:request-state payload
+ */
+export interface RequestStatePayload {
+  jamId: string
+}
+
+/**
+ * musician:ready payload sent by a musician
+ */
+export interface MusicianReadyRequestPayload {
+  jamId: string
+  scheduleId: string
+}
+
+// ============================================================================
+// SERVER -> CLIENT PAYLOADS
+// ============================================================================
+
+export interface StateSyncPayload {
+  jamId: string
+  state: LiveState
+  timestamp?: string
+}
+
+export interface JoinNotificationPayload {
+  jamId: string
+  musicianId: string | null
+  musicianName?: string | null
+  role: SocketRole
+  timestamp: string
+}
+
+export interface LeaveNotificationPayload {
+  jamId: string
+  musicianId?: string | null
+  musicianName?: string | null
+  role: SocketRole
+  timestamp: string
+}
+
+export interface MusicianConnectedPayload {
+  jamId: string
+  musician: {
+    id: string
+    name: string
+    instrument?: string | null
+  }
+  timestamp: string
+}
+
+export interface MusicianDisconnectedPayload {
+  jamId: string
+  musicianId: string
+  musicianName?: string | null
+  disconnectedAt: string
+}
+
+export interface MusicianReadyPayload {
+  jamId: string
+  scheduleId: string
+  musicianId: string
+  musicianName?: string | null
+  timestamp: string
+}
+
+export interface ScheduleCreatedPayload {
+  jamId: string
+  schedule: SocketSchedule
+}
+
+export interface ScheduleUpdatedPayload {
+  jamId: string
+  scheduleId: string
+  updates?: Record<string, unknown>
+}
+
+export interface ScheduleStatusChangedPayload {
+  jamId: string
+  scheduleId: string
+  previousStatus: string
+  newStatus: string
+  timestamp: string
+}
+
+export interface RegistrationCreatedPayload {
+  jamId: string
+  registration: SocketRegistration
+}
+
+export interface RegistrationApprovedPayload {
+  jamId: string
+  registrationId: string
+  musicianId: string
+  scheduleId?: string | null
+  registration?: SocketRegistration
+}
+
+export interface RegistrationRejectedPayload {
+  jamId: string
+  registrationId: string
+  musicianId: string
+  reason?: string | null
+}
+
+export interface MusicAddedPayload {
+  jamId: string
+  music: SocketMusic
+  jamMusic?: Record<string, unknown> | null
+}
+
+export interface MusicUpdatedPayload {
+  jamId: string
+  musicId: string
+  updates?: Record<string, unknown>
+}
+
+export interface JamStatusUpdatePayload {
+  jamId: string
+  status: SocketJamStatus
+}
+
+export interface CurrentPerformancePayload {
+  jamId?: string
+  currentSchedule?: SocketSchedule | null
+  nextSchedules?: SocketSchedule[]
+}
+
+// ============================================================================
+// EVENT MAPS (socket.io typed events)
+// ============================================================================
+
+/**
+ * Events the server emits to the client
+ */
+export interface ServerToClientEvents {
+  'live:state-sync': (payload: StateSyncPayload) => void
+  musicianJoined: (payload: JoinNotificationPayload) => void
+  musicianLeft: (payload: LeaveNotificationPayload) => void
+  'musician:connected': (payload: MusicianConnectedPayload) => void
+  'musician:disconnected': (payload: MusicianDisconnectedPayload) => void
+  'musician:ready': (payload: MusicianReadyPayload) => void
+  'schedule:created': (payload: ScheduleCreatedPayload) => void
+  'schedule:updated': (payload: ScheduleUpdatedPayload) => void
+  'schedule:status-changed': (payload: ScheduleStatusChangedPayload) => void
+  'registration:created': (payload: RegistrationCreatedPayload) => void
+  'registration:approved': (payload: RegistrationApprovedPayload) => void
+  'registration:rejected': (payload: RegistrationRejectedPayload) => void
+  'music:added': (payload: MusicAddedPayload) => void
+  'music:updated': (payload: MusicUpdatedPayload) => void
+  jamStatusUpdate: (payload: JamStatusUpdatePayload) => void
+  currentPerformance: (payload: CurrentPerformancePayload) => void
+}
+
+/**
+ * Events the client emits to the server
+ */
+export interface ClientToServerEvents {
+  joinJam: (payload: JoinJamPayload) => void
+  leaveJam: (jamId: string) => void
+  'host:request-state': (payload: RequestStatePayload) => void
+  'musician:request-state': (payload: RequestStatePayload) => void
+  'public:request-state': (payload: RequestStatePayload) => void
+  'musician:ready': (payload: MusicianReadyRequestPayload) => void
+}
+
+export type ServerEventName = keyof ServerToClientEvents
+export type ClientEventName = keyof ClientToServerEvents
+
+/**
+ * Payload type of a server event
+ */
+export type ServerEventPayload<E extends ServerEventName> = Parameters<ServerToClientEvents[E]>[0]
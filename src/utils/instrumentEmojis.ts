@@ -1,52 +1,28 @@
 /**
  * Instrument utilities
- * Provides emojis and display names for instruments
+ * Provides emojis for instruments, from the instrument registry
  */
 
+import {getInstrumentDefinition} from '../lib/instruments'
+
+// Instruments outside the registry that still deserve their own emoji
 export const instrumentEmojis: Record<string, string> = {
-  // Common instruments
-    'guitarra': '🎸',
-    'baixo': '🎸',
-    'guitar': '🎸',
-    'bateria': '🥁',
-    'drums': '🥁',
-  'drums set': '🥁',
-  'drum': '🥁',
-  'bass': '🎸',
-  'bass guitar': '🎸',
-  'keyboard': '⌨️',
-  'keys': '⌨️',
-    'teclado': '🎹',
-    'piano': '🎹',
-  'vocals': '🎤',
-  'vocal': '🎤',
-  'singer': '🎤',
-  'voice': '🎤',
-  'violin': '🎻',
   'cello': '🎻',
-  'strings': '🎻',
-  'trumpet': '🎺',
-  'trombone': '🎺',
-  'saxophone': '🎷',
-  'sax': '🎷',
   'flute': '🎵',
-  'harmonica': '🎵',
-  'percussion': '🥁',
-  'percussions': '🥁',
-  'backup vocals': '🎤',
-  'backing vocals': '🎤',
-  'lead vocals': '🎤',
-  'lead': '🎤',
+  'clarinet': '🎵',
+  'accordion': '🪗',
+  'ukulele': '🎸',
+  'banjo': '🪕',
 }
 
 /**
  * Get emoji for an instrument name
- * @param instrument - Instrument name
+ * @param instrument - Instrument ID or any name of it (e.g. "Bateria", "Keyboard/Piano")
  * @returns Emoji string or default musical note
  */
 export function getInstrumentEmoji(instrument: string): string {
   if (!instrument) return '🎵'
-  const normalized = instrument.toLowerCase().trim()
-  return instrumentEmojis[normalized] || '🎵'
+  const definition = getInstrumentDefinition(instrument)
+  if (definition) return definition.emoji
+  return instrumentEmojis[instrument.toLowerCase().trim()] || '🎵'
 }
-
@@ -0,0 +1,44 @@
+// Instrument slots utility
+// Reads the instrument slots a song needs, falling back to the legacy needed* fields
+// for songs saved before slots existed, and writes the legacy fields back for
+// backends that still read them.
+
+import type {InstrumentSlotDto, MusicResponseDto} from '../types/api.types'
+import {getInstrumentKey, getInstrumentOrder, INSTRUMENT_REGISTRY, type LegacySlotField} from '../lib/instruments'
+
+type SlotSource = Pick<MusicResponseDto, 'instrumentSlots' | LegacySlotField>
+
+/**
+ * The instrument slots of a song, in display order
+ * Slots with the same instrument are merged and empty ones dropped
+ * @param music - Song with instrumentSlots, or only the legacy needed* fields
+ */
+export function getMusicSlots(music?: SlotSource | null): InstrumentSlotDto[] {
+  if (!music) return []
+
+  const source = music.instrumentSlots ?? INSTRUMENT_REGISTRY.flatMap(({ id, legacyField }) =>
+    legacyField ? [{ instrument: id, count: music[legacyField] || 0 }] : []
+  )
+
+  const counts = new Map<string, number>()
+  source.forEach(({ instrument, count }) => {
+    const id = getInstrumentKey(instrument)
+    if (id && count > 0) counts.set(id, (counts.get(id) ?? 0) + count)
+  })
+
+  return [...counts.entries()]
+    .map(([instrument, count]) => ({ instrument, count }))
+    .sort((a, b) => getInstrumentOrder(a.instrument) - getInstrumentOrder(b.instrument))
+}
+
+/**
+ * Legacy needed* counts for a list of slots (instruments without a legacy field are left out)
+ */
+export function toLegacySlotFields(slots: InstrumentSlotDto[]): Record<LegacySlotField, number> {
+  const fields = { neededDrums: 0, neededGuitars: 0, neededVocals: 0, neededBass: 0, neededKeys: 0 }
+  getMusicSlots({ instrumentSlots: slots }).forEach(({ instrument, count }) => {
+    const legacyField = INSTRUMENT_REGISTRY.find((definition) => definition.id === instrument)?.legacyField
+    if (legacyField) fields[legacyField] = count
+  })
+  return fields
+}
@@ -0,0 +1,203 @@
+// Jam analytics utility
+// Computes the post-jam report (played vs cancelled, durations, instruments, requests, participation)
+// from a single jam snapshot. Everything is derived locally, no analytics service involved.
+
+import type {JamResponseDto, RegistrationResponseDto, ScheduleResponseDto} from '../types/api.types'
+import {getInstrumentKey} from '../lib/instruments'
+import {formatDuration} from '../lib/formatters'
+
+export type CountItem = { label: string; value: number }
+
+export type SongDuration = {
+  scheduleId: string
+  title: string
+  plannedSeconds: number | null
+  actualSeconds: number | null
+}
+
+export type ParticipationPoint = {
+  scheduleId: string
+  title: string
+  // Start time when known, otherwise null (the chart falls back to play order)
+  startedAt: string | null
+  musicians: number
+}
+
+export type JamAnalytics = {
+  songs: {
+    total: number
+    played: number
+    cancelled: number
+    remaining: number
+  }
+  duration: {
+    plannedSeconds: number
+    actualSeconds: number
+    // Songs with both a planned and an actual duration
+    measuredSongs: number
+    perSong: SongDuration[]
+  }
+  musiciansPerInstrument: CountItem[]
+  mostRequestedSongs: CountItem[]
+  musicians: {
+    total: number
+    firstTimers: number
+    returning: number
+    // Musicians whose history could not be loaded (not in either group)
+    unknown: number
+    // False until the musicians' history has been loaded
+    historyKnown: boolean
+  }
+  participation: ParticipationPoint[]
+}
+
+function toTime(value?: string | null): number | null {
+  if (!value) return null
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Registrations of a schedule (nested or from the jam list)
+ */
+function registrationsFor(schedule: ScheduleResponseDto, jam: JamResponseDto): RegistrationResponseDto[] {
+  if (schedule.registrations && schedule.registrations.length > 0) return schedule.registrations
+  return (jam.registrations || []).filter((r) => r.scheduleId === schedule.id)
+}
+
+/**
+ * Start and end of each played song
+ * Uses startedAt/completedAt when the backend sends them; otherwise a completed song is
+ * assumed to have started when the previous one completed (updatedAt of the status change)
+ */
+function getPlayedTimes(played: ScheduleResponseDto[]): Map<string, { start: number | null; end: number | null }> {
+  const times = new Map<string, { start: number | null; end: number | null }>()
+  let previousEnd: number | null = null
+
+  played.forEach((schedule) => {
+    const end = toTime(schedule.completedAt) ?? toTime(schedule.updatedAt)
+    const start = toTime(schedule.startedAt) ?? previousEnd
+    times.set(schedule.id, { start, end })
+    previousEnd = end
+  })
+
+  return times
+}
+
+function sortCounts(counts: Map<string, number>, limit?: number): CountItem[] {
+  const items = Array.from(counts.entries())
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label))
+  return limit ? items.slice(0, limit) : items
+}
+
+/**
+ * Compute the analytics report for a jam
+ * @param jam - Jam with schedules and registrations
+ * @param jamIdsByMusician - For each musician, the ids of every jam they registered for;
+ *   pass null while unknown to skip the first-timer split. Musicians missing from it (their
+ *   history could not be loaded) are left out of the split and counted as unknown
+ */
+export function computeJamAnalytics(
+  jam: JamResponseDto,
+  jamIdsByMusician: Record<string, string[]> | null = null
+): JamAnalytics {
+  const schedules = [...(jam.schedules || [])]
+    .filter((s) => s.status !== 'SUGGESTED')
+    .sort((a, b) => a.order - b.order)
+  const registrations = jam.registrations || []
+
+  // Played vs cancelled
+  const played = schedules.filter((s) => s.status === 'COMPLETED')
+  const cancelled = schedules.filter((s) => s.status === 'CANCELED')
+
+  // Actual vs planned duration
+  const playedByTime = [...played].sort((a, b) => {
+    const aTime = toTime(a.completedAt) ?? toTime(a.updatedAt) ?? a.order
+    const bTime = toTime(b.completedAt) ?? toTime(b.updatedAt) ?? b.order
+    return aTime - bTime
+  })
+  const times = getPlayedTimes(playedByTime)
+  const perSong: SongDuration[] = playedByTime.map((schedule) => {
+    const { start, end } = times.get(schedule.id) ?? { start: null, end: null }
+    return {
+      scheduleId: schedule.id,
+      title: schedule.music?.title ?? '',
+      plannedSeconds: schedule.music?.duration ?? null,
+      actualSeconds: start !== null && end !== null && end > start ? Math.round((end - start) / 1000) : null,
+    }
+  })
+  const measured = perSong.filter((s) => s.plannedSeconds !== null && s.actualSeconds !== null)
+
+  // Musicians per instrument (a musician counts once per instrument, whatever name they used)
+  const instrumentMusicians = new Map<string, Set<string>>()
+  registrations.forEach((reg) => {
+    const instrument = getInstrumentKey(reg.instrument || reg.musician?.instrument)
+    if (!instrument) return
+    if (!instrumentMusicians.has(instrument)) instrumentMusicians.set(instrument, new Set())
+    instrumentMusicians.get(instrument)!.add(reg.musicianId)
+  })
+  const instrumentCounts = new Map(
+    Array.from(instrumentMusicians.entries()).map(([instrument, ids]) => [instrument, ids.size])
+  )
+
+  // Most requested songs (registrations and suggestions per song)
+  const requestCounts = new Map<string, number>()
+  ;(jam.schedules || []).forEach((schedule) => {
+    const title = schedule.music?.title
+    if (!title) return
+    const requests = registrationsFor(schedule, jam).length + (schedule.status === 'SUGGESTED' ? 1 : 0)
+    if (requests > 0) requestCounts.set(title, (requestCounts.get(title) ?? 0) + requests)
+  })
+
+  // First-timers vs returning
+  const musicianIds = Array.from(new Set(registrations.map((r) => r.musicianId)))
+  const knownIds = jamIdsByMusician ? musicianIds.filter((id) => id in jamIdsByMusician) : []
+  const returning = jamIdsByMusician
+    ? knownIds.filter((id) => jamIdsByMusician[id].some((jamId) => jamId !== jam.id)).length
+    : 0
+
+  // Participation over time (musicians on stage per played song)
+  const participation: ParticipationPoint[] = playedByTime.map((schedule) => {
+    const start = times.get(schedule.id)?.start ?? null
+    return {
+      scheduleId: schedule.id,
+      title: schedule.music?.title ?? '',
+      startedAt: start !== null ? new Date(start).toISOString() : null,
+      musicians: new Set(registrationsFor(schedule, jam).map((r) => r.musicianId)).size,
+    }
+  })
+
+  return {
+    songs: {
+      total: schedules.length,
+      played: played.length,
+      cancelled: cancelled.length,
+      remaining: schedules.length - played.length - cancelled.length,
+    },
+    duration: {
+      plannedSeconds: measured.reduce((sum, s) => sum + (s.plannedSeconds ?? 0), 0),
+      actualSeconds: measured.reduce((sum, s) => sum + (s.actualSeconds ?? 0), 0),
+      measuredSongs: measured.length,
+      perSong,
+    },
+    musiciansPerInstrument: sortCounts(instrumentCounts),
+    mostRequestedSongs: sortCounts(requestCounts, 10),
+    musicians: {
+      total: musicianIds.length,
+      firstTimers: knownIds.length - returning,
+      returning,
+      unknown: jamIdsByMusician ? musicianIds.length - knownIds.length : 0,
+      historyKnown: jamIdsByMusician !== null,
+    },
+    participation,
+  }
+}
+
+/**
+ * Actual minus planned duration, signed: "+1:05" over, "-0:30" under, "0:00" on time
+ */
+export function formatDurationVariance(seconds: number): string {
+  const sign = seconds > 0 ? '+' : seconds < 0 ? '-' : ''
+  return `${sign}${formatDuration(Math.abs(seconds))}`
+}
@@ -0,0 +1,24 @@
+// List order utility
+// Small helpers for reordering id lists (drag-and-drop, keyboard moves, partial queues)
+
+/**
+ * Move the item at `from` to `to`, returning a new array
+ */
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= list.length) return [...list]
+  const next = [...list]
+  const [item] = next.splice(from, 1)
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item)
+  return next
+}
+
+/**
+ * Apply a new order for a subset of the list, leaving the other items where they are
+ * e.g. only the upcoming songs were reordered, played ones keep their positions:
+ * applySubsetOrder(['a', 'b', 'c', 'd'], ['d', 'b']) -> ['a', 'd', 'c', 'b']
+ */
+export function applySubsetOrder(fullOrder: string[], reorderedSubset: string[]): string[] {
+  const subset = new Set(reorderedSubset)
+  let next = 0
+  return fullOrder.map((id) => (subset.has(id) ? reorderedSubset[next++] : id))
+}
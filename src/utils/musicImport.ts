@@ -0,0 +1,200 @@
+// Music import utility
+// Parses CSV / tab-separated paste into CreateMusicDto rows: column mapping, validation
+// and duplicate detection for the bulk import wizard.
+
+import {isDuplicate, parseDuration} from '../lib/musicUtils'
+import type {CreateMusicDto} from '../types/api.types'
+
+export const IMPORT_FIELDS = [
+  'title',
+  'artist',
+  'genre',
+  'duration',
+  'neededDrums',
+  'neededGuitars',
+  'neededVocals',
+  'neededBass',
+  'neededKeys',
+  'link',
+  'description',
+] as const
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]
+
+// Column index -> field (null = ignored column)
+export type ColumnMapping = (ImportField | null)[]
+
+export type ImportErrorCode = 'title_required' | 'artist_required' | 'invalid_duration' | 'invalid_count'
+
+export type ImportError = {
+  field: ImportField
+  code: ImportErrorCode
+}
+
+export type ImportRow = {
+  // 1-based line in the pasted text / file
+  line: number
+  data: CreateMusicDto
+  errors: ImportError[]
+  // Already in the catalog, or repeated earlier in the same file
+  duplicate: 'catalog' | 'file' | null
+}
+
+// Header names recognized when guessing the mapping (en / pt / es)
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'song', 'name', 'titulo', 'musica', 'cancion'],
+  artist: ['artist', 'band', 'artista', 'banda', 'interprete'],
+  genre: ['genre', 'style', 'genero', 'estilo'],
+  duration: ['duration', 'length', 'time', 'duracao', 'duracion', 'tempo'],
+  neededDrums: ['drums', 'needed drums', 'bateria', 'baterias'],
+  neededGuitars: ['guitars', 'guitar', 'needed guitars', 'guitarra', 'guitarras', 'violao'],
+  neededVocals: ['vocals', 'vocal', 'voice', 'needed vocals', 'voz', 'vozes', 'voces'],
+  neededBass: ['bass', 'needed bass', 'baixo', 'bajo'],
+  neededKeys: ['keys', 'keyboard', 'piano', 'needed keys', 'teclado', 'teclados'],
+  link: ['link', 'url', 'youtube', 'spotify'],
+  description: ['description', 'notes', 'descricao', 'descripcion', 'notas'],
+}
+
+const COUNT_FIELDS: ImportField[] = ['neededDrums', 'neededGuitars', 'neededVocals', 'neededBass', 'neededKeys']
+
+function normalizeHeader(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[_-]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Delimiter of the pasted text: tab for spreadsheet paste, otherwise ';' or ','
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() !== '') ?? ''
+  if (firstLine.includes('\t')) return '\t'
+  const semicolons = firstLine.split(';').length
+  const commas = firstLine.split(',').length
+  return semicolons > commas ? ';' : ','
+}
+
+/**
+ * Parse CSV / TSV text into rows of cells (quoted fields, "" escapes, CRLF)
+ * Blank lines are dropped; the line number of each row is kept for error messages
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = []
+  let cells: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let line = 1
+  let rowLine = 1
+
+  const pushRow = () => {
+    cells.push(cell)
+    if (cells.some((value) => value.trim() !== '')) rows.push({ line: rowLine, cells: cells.map((value) => value.trim()) })
+    cells = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      inQuotes = true
+      cell = ''
+    } else if (char === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      pushRow()
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+  }
+  pushRow()
+
+  return rows
+}
+
+/**
+ * Guess the column mapping from a header row (unknown columns are ignored)
+ */
+export function guessColumnMapping(header: string[]): ColumnMapping {
+  const used = new Set<ImportField>()
+  return header.map((name) => {
+    const normalized = normalizeHeader(name)
+    const field = IMPORT_FIELDS.find((f) => !used.has(f) && (f === name || FIELD_ALIASES[f].includes(normalized)))
+    if (!field) return null
+    used.add(field)
+    return field
+  })
+}
+
+/**
+ * True when the first row looks like a header (it maps at least title or artist)
+ */
+export function looksLikeHeader(cells: string[]): boolean {
+  const mapping = guessColumnMapping(cells)
+  return mapping.includes('title') || mapping.includes('artist')
+}
+
+/**
+ * Build and validate CreateMusicDto rows
+ * @param rows - Parsed rows (header already removed)
+ * @param mapping - Column mapping
+ * @param catalog - Existing songs, for duplicate detection
+ */
+export function buildImportRows(
+  rows: { line: number; cells: string[] }[],
+  mapping: ColumnMapping,
+  catalog: Array<{ id: string; title: string; artist: string }>
+): ImportRow[] {
+  const seen: Array<{ id: string; title: string; artist: string }> = []
+
+  return rows.map(({ line, cells }) => {
+    const errors: ImportError[] = []
+    const data: CreateMusicDto = { title: '', artist: '', status: 'APPROVED' }
+
+    mapping.forEach((field, index) => {
+      const value = cells[index]?.trim() ?? ''
+      if (!field || value === '') return
+
+      if (field === 'duration') {
+        const seconds = parseDuration(value)
+        if (seconds === null) errors.push({ field, code: 'invalid_duration' })
+        else data.duration = seconds
+      } else if (COUNT_FIELDS.includes(field)) {
+        const count = Number(value)
+        if (!Number.isInteger(count) || count < 0) errors.push({ field, code: 'invalid_count' })
+        else data[field as 'neededDrums'] = count
+      } else {
+        data[field as 'title'] = value
+      }
+    })
+
+    if (!data.title) errors.push({ field: 'title', code: 'title_required' })
+    if (!data.artist) errors.push({ field: 'artist', code: 'artist_required' })
+
+    let duplicate: ImportRow['duplicate'] = null
+    if (data.title && data.artist) {
+      if (isDuplicate(catalog, data.title, data.artist)) duplicate = 'catalog'
+      else if (isDuplicate(seen, data.title, data.artist)) duplicate = 'file'
+      seen.push({ id: `line-${line}`, title: data.title, artist: data.artist })
+    }
+
+    return { line, data, errors, duplicate }
+  })
+}
@@ -0,0 +1,65 @@
+// Musician instruments utility
+// Reads the instruments a musician plays, falling back to the legacy single instrument/level
+// for profiles saved before multi-instrument profiles existed, and writes the legacy fields
+// back (from the primary instrument) for backends that still read them.
+
+import type {MusicianInstrumentDto, MusicianLevel} from '../types/api.types'
+import {getInstrumentKey} from '../lib/instruments'
+
+type InstrumentSource = {
+  instrument?: string | null
+  level?: string | null
+  instruments?: MusicianInstrumentDto[]
+}
+
+const DEFAULT_LEVEL: MusicianLevel = 'BEGINNER'
+
+/**
+ * The instruments a musician plays, primary first
+ * Names are normalized to registry IDs, duplicates dropped, and exactly one is primary
+ * @param musician - Musician/user with instruments, or only the legacy instrument and level
+ */
+export function getMusicianInstruments(musician?: InstrumentSource | null): MusicianInstrumentDto[] {
+  if (!musician) return []
+
+  const source = musician.instruments ?? (musician.instrument
+    ? [{ instrument: musician.instrument, level: (musician.level || DEFAULT_LEVEL) as MusicianLevel, primary: true }]
+    : [])
+
+  const instruments: MusicianInstrumentDto[] = []
+  source.forEach((entry) => {
+    const instrument = getInstrumentKey(entry.instrument)
+    if (instrument && !instruments.some((i) => i.instrument === instrument)) {
+      instruments.push({ instrument, level: entry.level || DEFAULT_LEVEL, primary: Boolean(entry.primary) })
+    }
+  })
+
+  const primaryIndex = Math.max(0, instruments.findIndex((i) => i.primary))
+  return instruments
+    .map((entry, index) => ({ ...entry, primary: index === primaryIndex }))
+    .sort((a, b) => Number(b.primary) - Number(a.primary))
+}
+
+/**
+ * The musician's primary instrument, if they play any
+ */
+export function getPrimaryInstrument(musician?: InstrumentSource | null): MusicianInstrumentDto | null {
+  return getMusicianInstruments(musician)[0] ?? null
+}
+
+/**
+ * Whether a musician plays an instrument (ID or any of its names)
+ * @returns Their entry for it, with their level on it, or null
+ */
+export function findMusicianInstrument(musician: InstrumentSource | null | undefined, instrument: string): MusicianInstrumentDto | null {
+  const key = getInstrumentKey(instrument)
+  return getMusicianInstruments(musician).find((entry) => entry.instrument === key) ?? null
+}
+
+/**
+ * Legacy instrument/level fields for a list of instruments (taken from the primary one)
+ */
+export function toLegacyMusicianFields(instruments: MusicianInstrumentDto[]): { instrument: string; level: MusicianLevel } {
+  const primary = getPrimaryInstrument({ instruments })
+  return { instrument: primary?.instrument ?? '', level: primary?.level ?? DEFAULT_LEVEL }
+}
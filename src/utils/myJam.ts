@@ -0,0 +1,126 @@
+// My Jam utility
+// A musician's own view of the jams they play in: their songs in the active jam (queue
+// position, estimated start, bandmates) and the history of past jams.
+
+import type {JamResponseDto, RegistrationResponseDto, ScheduleResponseDto, ScheduleStatus} from '../types/api.types'
+import {estimateStartTimes} from './songTimer'
+import {getSongStartedAt} from '../lib/songStartTimes'
+import {getLiveQueue} from './upcomingSlots'
+import {isActiveRegistration} from './registrations'
+
+export type MyJamSong = {
+  schedule: ScheduleResponseDto
+  // The musician's own registration for the song
+  registration: RegistrationResponseDto
+  // 0 = on stage, 1 = next...; null once played or cancelled
+  songsAway: number | null
+  // Estimated start (ms) for songs still in the queue
+  estimatedStart: number | null
+  // Everyone else registered for the song
+  bandmates: RegistrationResponseDto[]
+}
+
+export type JamHistoryEntry = {
+  jamId: string
+  jamName: string
+  date: string | null
+  songs: {
+    scheduleId: string
+    title: string
+    artist: string
+    instrument: string
+    status: ScheduleStatus
+  }[]
+}
+
+function musicianIdOf(registration: RegistrationResponseDto): string {
+  return registration.musician?.id ?? registration.musicianId
+}
+
+/**
+ * Registrations of a schedule (nested or from the jam list)
+ */
+function registrationsFor(schedule: ScheduleResponseDto, jam?: JamResponseDto): RegistrationResponseDto[] {
+  if (schedule.registrations && schedule.registrations.length > 0) return schedule.registrations
+  return (jam?.registrations || []).filter((r) => r.scheduleId === schedule.id)
+}
+
+/**
+ * The jam to show on the musician's page: an ACTIVE jam they are registered in,
+ * preferring one that is already playing
+ * @returns The jam ID, or null when they have no active jam
+ */
+export function pickActiveJamId(jams: JamResponseDto[], registrations: RegistrationResponseDto[]): string | null {
+  const registeredJamIds = new Set(registrations.filter(isActiveRegistration).map((r) => r.jamId))
+  const candidates = jams.filter((jam) => jam.status === 'ACTIVE' && registeredJamIds.has(jam.id))
+  const playing = candidates.find((jam) => jam.schedules?.some((s) => s.status === 'IN_PROGRESS'))
+  return (playing ?? candidates[0])?.id ?? null
+}
+
+/**
+ * The musician's songs in a jam, in play order
+ * @param now - Current time in ms, for the estimated start times
+ */
+export function getMyJamSongs(jam: JamResponseDto, musicianId: string, now: number): MyJamSong[] {
+  const setlist = (jam.schedules || [])
+    .filter((s) => s.status !== 'SUGGESTED')
+    .sort((a, b) => a.order - b.order)
+  const queue = getLiveQueue(setlist)
+  const current = queue[0]?.status === 'IN_PROGRESS' ? queue[0] : null
+  const offset = current ? 0 : 1
+  const estimatedStarts = estimateStartTimes(
+    current ? { startedAt: getSongStartedAt(current.id, current.startedAt), duration: current.music?.duration } : null,
+    queue.filter((s) => s !== current).map((s) => ({ id: s.id, duration: s.music?.duration })),
+    now
+  )
+
+  return setlist.flatMap((schedule) => {
+    const registrations = registrationsFor(schedule, jam).filter(isActiveRegistration)
+    const registration = registrations.find((r) => musicianIdOf(r) === musicianId)
+    if (!registration) return []
+
+    const position = queue.indexOf(schedule)
+    return [{
+      schedule,
+      registration,
+      songsAway: position === -1 ? null : position + offset,
+      estimatedStart: estimatedStarts.get(schedule.id) ?? null,
+      bandmates: registrations.filter((r) => musicianIdOf(r) !== musicianId),
+    }]
+  })
+}
+
+/**
+ * The musician's past jams (everything but ACTIVE ones), newest first
+ * @param schedules - Schedules the musician played or signed up for (GET /musicos/{id}/escalas)
+ * @param jams - Jams, for names and dates
+ */
+export function getJamHistory(schedules: ScheduleResponseDto[], jams: JamResponseDto[], musicianId: string): JamHistoryEntry[] {
+  const jamsById = new Map(jams.map((jam) => [jam.id, jam]))
+  const entries = new Map<string, JamHistoryEntry>()
+
+  ;[...schedules]
+    .sort((a, b) => a.order - b.order)
+    .forEach((schedule) => {
+      const jam = jamsById.get(schedule.jamId)
+      if (jam?.status === 'ACTIVE' || schedule.status === 'SUGGESTED') return
+
+      const registration = registrationsFor(schedule, jam).find((r) => musicianIdOf(r) === musicianId)
+      const entry = entries.get(schedule.jamId) ?? {
+        jamId: schedule.jamId,
+        jamName: jam?.name ?? '',
+        date: jam?.date ?? jam?.createdAt ?? null,
+        songs: [],
+      }
+      entry.songs.push({
+        scheduleId: schedule.id,
+        title: schedule.music?.title ?? '',
+        artist: schedule.music?.artist ?? '',
+        instrument: registration?.instrument ?? '',
+        status: schedule.status,
+      })
+      entries.set(schedule.jamId, entry)
+    })
+
+  return [...entries.values()].sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''))
+}
@@ -0,0 +1,76 @@
+// Queue transition utility
+// Plans advance / rewind / repair status changes for a setlist and checks the queue invariants
+// (at most one song IN_PROGRESS), so a failed or doubled action can be detected and undone.
+
+import type {ScheduleResponseDto, ScheduleStatus} from '../types/api.types'
+
+export type StatusChange = { scheduleId: string; from: ScheduleStatus; to: ScheduleStatus }
+
+export type QueueIssue = { kind: 'multiple_in_progress'; scheduleIds: string[] }
+
+function bySetlistOrder(schedules: ScheduleResponseDto[]): ScheduleResponseDto[] {
+  return schedules.filter((s) => s.status !== 'SUGGESTED').sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+}
+
+/**
+ * Check the queue invariants, returns an empty list when the queue is consistent
+ */
+export function findQueueIssues(schedules: ScheduleResponseDto[]): QueueIssue[] {
+  const inProgress = bySetlistOrder(schedules).filter((s) => s.status === 'IN_PROGRESS')
+  return inProgress.length > 1 ? [{ kind: 'multiple_in_progress', scheduleIds: inProgress.map((s) => s.id) }] : []
+}
+
+/**
+ * Complete the current song and start the next scheduled one
+ * Returns null when there is no current or next song
+ */
+export function planAdvance(schedules: ScheduleResponseDto[]): StatusChange[] | null {
+  const setlist = bySetlistOrder(schedules)
+  const current = setlist.find((s) => s.status === 'IN_PROGRESS')
+  const next = setlist.find((s) => s.status === 'SCHEDULED' && (!current || s.order > current.order))
+  if (!current || !next) return null
+
+  return [
+    { scheduleId: current.id, from: 'IN_PROGRESS', to: 'COMPLETED' },
+    { scheduleId: next.id, from: 'SCHEDULED', to: 'IN_PROGRESS' },
+  ]
+}
+
+/**
+ * Put the current song back in the queue and restart the most recent completed one
+ * Returns null when there is no current or previous song
+ */
+export function planRewind(schedules: ScheduleResponseDto[]): StatusChange[] | null {
+  const setlist = bySetlistOrder(schedules)
+  const current = setlist.find((s) => s.status === 'IN_PROGRESS')
+  const previous = [...setlist].reverse().find((s) => s.status === 'COMPLETED' && (!current || s.order < current.order))
+  if (!current || !previous) return null
+
+  return [
+    { scheduleId: current.id, from: 'IN_PROGRESS', to: 'SCHEDULED' },
+    { scheduleId: previous.id, from: 'COMPLETED', to: 'IN_PROGRESS' },
+  ]
+}
+
+/**
+ * Keep the earliest IN_PROGRESS song playing and send the others back to the queue
+ * (songs later in the setlist have not been played yet)
+ */
+export function planRepair(schedules: ScheduleResponseDto[]): StatusChange[] {
+  const inProgress = bySetlistOrder(schedules).filter((s) => s.status === 'IN_PROGRESS')
+  return inProgress.slice(1).map((s) => ({ scheduleId: s.id, from: 'IN_PROGRESS', to: 'SCHEDULED' }))
+}
+
+/**
+ * Changes that undo a partially applied plan, given the schedules as they are now
+ * Empty when the plan was applied in full or not at all
+ */
+export function planCompensation(plan: StatusChange[], current: ScheduleResponseDto[]): StatusChange[] {
+  const statusOf = new Map(current.map((s) => [s.id, s.status]))
+  const applied = plan.filter((change) => statusOf.get(change.scheduleId) === change.to)
+  if (applied.length === plan.length) return []
+
+  return plan
+    .filter((change) => statusOf.has(change.scheduleId) && statusOf.get(change.scheduleId) !== change.from)
+    .map((change) => ({ scheduleId: change.scheduleId, from: statusOf.get(change.scheduleId)!, to: change.from }))
+}
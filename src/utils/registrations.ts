@@ -0,0 +1,14 @@
+// Registration utility
+// The shared check for registrations that still hold their slot in a song.
+
+import type {RegistrationResponseDto} from '../types/api.types'
+
+// Registrations that no longer hold a slot
+const INACTIVE_REGISTRATION_STATUSES = new Set(['REJECTED', 'CANCELLED'])
+
+/**
+ * Whether a registration still holds its slot (not rejected or cancelled)
+ */
+export function isActiveRegistration(registration: Pick<RegistrationResponseDto, 'status'>): boolean {
+  return !INACTIVE_REGISTRATION_STATUSES.has(registration.status ?? '')
+}
@@ -0,0 +1,119 @@
+// Repertoire utility
+// Matches musicians' repertoires against the open instrument slots of a jam: songs to
+// recommend to a musician, and the checked-in musicians who know a song with a free slot.
+// A musician counts as checked in once they hold a registration for any song of the jam.
+
+import type {
+  JamResponseDto,
+  MusicianLevel,
+  MusicianResponseDto,
+  RepertoireEntryResponseDto,
+  RepertoireStatus,
+  ScheduleResponseDto,
+} from '../types/api.types'
+import type {AuthUser} from '../types/auth.types'
+import {getInstrumentSlots} from './waitlist'
+import {isActiveRegistration} from './registrations'
+import {findMusicianInstrument, getMusicianInstruments} from './musicianInstruments'
+
+export type SongRecommendation = {
+  schedule: ScheduleResponseDto
+  // Registry ID of the open slot the musician can fill
+  instrument: string
+  status: RepertoireStatus
+  level: MusicianLevel
+}
+
+export type SlotCandidate = {
+  musician: MusicianResponseDto
+  status: RepertoireStatus
+  level: MusicianLevel
+}
+
+// Ready-to-play songs before the ones the musician would have to learn
+const STATUS_RANK: Record<RepertoireStatus, number> = { READY: 0, LEARNING: 1 }
+
+function getMusicId(schedule: ScheduleResponseDto): string | undefined {
+  return schedule.musicId || schedule.music?.id
+}
+
+function isOnSong(schedule: ScheduleResponseDto, musicianId: string): boolean {
+  return (schedule.registrations ?? []).some((r) => r.musicianId === musicianId && isActiveRegistration(r))
+    || (schedule.waitlist ?? []).some((e) => e.musicianId === musicianId)
+}
+
+/**
+ * How well a musician knows each song, by song ID
+ * @param entries - The musician's repertoire
+ */
+export function getRepertoireStatuses(entries: RepertoireEntryResponseDto[] = []): Map<string, RepertoireStatus> {
+  return new Map(entries.map((entry) => [entry.musicId, entry.status]))
+}
+
+/**
+ * Songs of the jam still to be played that have an open slot for one of the musician's
+ * instruments and are in their repertoire (songs they are already on or waiting for are left out)
+ * @param musician - Signed-in musician (their instruments, primary first, pick the slot)
+ * @param repertoire - The musician's repertoire
+ */
+export function getSongRecommendations(
+  jam: JamResponseDto,
+  musician: AuthUser | MusicianResponseDto,
+  repertoire: RepertoireEntryResponseDto[]
+): SongRecommendation[] {
+  const statuses = getRepertoireStatuses(repertoire)
+  const instruments = getMusicianInstruments(musician)
+
+  return (jam.schedules ?? [])
+    .filter((schedule) => schedule.status === 'SCHEDULED' && !isOnSong(schedule, musician.id))
+    .flatMap((schedule) => {
+      const status = statuses.get(getMusicId(schedule) ?? '')
+      if (!status) return []
+      const openSlots = getInstrumentSlots(schedule).filter((slot) => slot.open > 0)
+      const playable = instruments.find((entry) => openSlots.some((slot) => slot.key === entry.instrument))
+      return playable ? [{ schedule, instrument: playable.instrument, status, level: playable.level }] : []
+    })
+    .sort((a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status] || a.schedule.order - b.schedule.order)
+}
+
+/**
+ * Musicians checked in to the jam, by ID (anyone with an active registration)
+ */
+export function getCheckedInMusicians(jam: JamResponseDto): Map<string, MusicianResponseDto> {
+  const registrations = jam.registrations ?? (jam.schedules ?? []).flatMap((s) => s.registrations ?? [])
+  const musicians = new Map<string, MusicianResponseDto>()
+  registrations.filter(isActiveRegistration).forEach((registration) => {
+    if (registration.musician) musicians.set(registration.musicianId, registration.musician)
+  })
+  return musicians
+}
+
+/**
+ * For every unfilled slot of a song, the checked-in musicians who play that instrument
+ * and know the song, ready-to-play first
+ * @param repertoire - Repertoire entries of the jam's songs (any musician)
+ * @returns Candidates by instrument ID (instruments without candidates are left out)
+ */
+export function getSlotCandidates(
+  schedule: ScheduleResponseDto,
+  jam: JamResponseDto,
+  repertoire: RepertoireEntryResponseDto[]
+): Record<string, SlotCandidate[]> {
+  const checkedIn = getCheckedInMusicians(jam)
+  const knownBy = repertoire.filter((entry) => entry.musicId === getMusicId(schedule) && !isOnSong(schedule, entry.musicianId))
+  const candidates: Record<string, SlotCandidate[]> = {}
+
+  getInstrumentSlots(schedule).filter((slot) => slot.open > 0).forEach((slot) => {
+    const forSlot = knownBy.flatMap((entry) => {
+      const musician = checkedIn.get(entry.musicianId)
+      const played = musician ? findMusicianInstrument(musician, slot.key) : null
+      return musician && played ? [{ musician, status: entry.status, level: played.level }] : []
+    })
+    if (forSlot.length > 0) {
+      candidates[slot.key] = forSlot.sort((a, b) =>
+        STATUS_RANK[a.status] - STATUS_RANK[b.status] || a.musician.name.localeCompare(b.musician.name)
+      )
+    }
+  })
+  return candidates
+}
@@ -0,0 +1,167 @@
+// Schedule conflict utility
+// Three-way comparison of a queued schedule edit (base -> local) against the current server state (remote).
+
+import type {ScheduleResponseDto, ScheduleStatus} from '../types/api.types'
+
+export type ScheduleSnapshot = { status: ScheduleStatus; order: number }
+
+export type StatusConflict = {
+  kind: 'status'
+  jamId: string
+  scheduleId: string
+  title: string | null
+  base: ScheduleSnapshot
+  local: ScheduleSnapshot
+  // null when the schedule was removed on the server
+  remote: ScheduleSnapshot | null
+}
+
+export type ReorderConflict = {
+  kind: 'reorder'
+  jamId: string
+  base: string[]
+  local: string[]
+  remote: string[]
+  merged: string[]
+  titles: Record<string, string>
+}
+
+export type ScheduleConflict = StatusConflict | ReorderConflict
+
+// 'apply': server still matches the base, replay as-is
+// 'noop': server already has the local result, nothing to replay
+export type ConflictCheck<C> = { result: 'apply' } | { result: 'noop' } | { result: 'conflict'; conflict: C }
+
+/**
+ * Order of the playable setlist (suggestions are not part of the order)
+ */
+export function getSetlistOrder(schedules: ScheduleResponseDto[]): string[] {
+  return schedules
+    .filter((s) => s.status !== 'SUGGESTED')
+    .sort((a, b) => a.order - b.order)
+    .map((s) => s.id)
+}
+
+function sameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i])
+}
+
+function sameSnapshot(a: ScheduleSnapshot, b: ScheduleSnapshot, compareOrder: boolean): boolean {
+  return a.status === b.status && (!compareOrder || a.order === b.order)
+}
+
+/**
+ * Check a queued status change against the server schedules
+ */
+export function checkStatusConflict(
+  edit: { jamId: string; scheduleId: string; base: ScheduleSnapshot; local: ScheduleSnapshot; orderChanged: boolean },
+  remoteSchedules: ScheduleResponseDto[]
+): ConflictCheck<StatusConflict> {
+  const remoteSchedule = remoteSchedules.find((s) => s.id === edit.scheduleId)
+  const remote = remoteSchedule ? { status: remoteSchedule.status, order: remoteSchedule.order } : null
+
+  if (remote && sameSnapshot(remote, edit.local, edit.orderChanged)) return { result: 'noop' }
+  if (remote && sameSnapshot(remote, edit.base, edit.orderChanged)) return { result: 'apply' }
+
+  return {
+    result: 'conflict',
+    conflict: {
+      kind: 'status',
+      jamId: edit.jamId,
+      scheduleId: edit.scheduleId,
+      title: remoteSchedule?.music?.title ?? null,
+      base: edit.base,
+      local: edit.local,
+      remote,
+    },
+  }
+}
+
+/**
+ * Check a queued reorder against the server schedules
+ */
+export function checkReorderConflict(
+  edit: { jamId: string; base: string[]; local: string[] },
+  remoteSchedules: ScheduleResponseDto[]
+): ConflictCheck<ReorderConflict> {
+  const remote = getSetlistOrder(remoteSchedules)
+
+  if (sameOrder(remote, edit.local)) return { result: 'noop' }
+  if (sameOrder(remote, edit.base)) return { result: 'apply' }
+
+  const titles: Record<string, string> = {}
+  remoteSchedules.forEach((s) => {
+    if (s.music?.title) titles[s.id] = s.music.title
+  })
+
+  return {
+    result: 'conflict',
+    conflict: {
+      kind: 'reorder',
+      jamId: edit.jamId,
+      base: edit.base,
+      local: edit.local,
+      remote,
+      merged: mergeSetlistOrder(edit.base, edit.local, remote),
+      titles,
+    },
+  }
+}
+
+/**
+ * Longest common subsequence of two id lists (songs that kept their relative order)
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const common = new Set<string>()
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return common
+}
+
+/**
+ * Three-way merge of setlist orders
+ * Songs the local edit moved keep their local position (after the same preceding song);
+ * everything else follows the server, including songs added or removed there.
+ */
+export function mergeSetlistOrder(base: string[], local: string[], remote: string[]): string[] {
+  const unmoved = longestCommonSubsequence(base, local)
+  const moved = local.filter((id) => !unmoved.has(id) && remote.includes(id))
+
+  if (moved.length === 0) return remote
+
+  const merged = remote.filter((id) => !moved.includes(id))
+  moved.forEach((id) => {
+    const localIndex = local.indexOf(id)
+    const anchor = local.slice(0, localIndex).reverse().find((prev) => merged.includes(prev))
+    const insertAt = anchor === undefined ? 0 : merged.indexOf(anchor) + 1
+    merged.splice(insertAt, 0, id)
+  })
+
+  return merged
+}
+
+/**
+ * Local order restricted to songs still on the server, with songs added there appended
+ */
+export function applyLocalOrder(local: string[], remote: string[]): string[] {
+  const kept = local.filter((id) => remote.includes(id))
+  return [...kept, ...remote.filter((id) => !kept.includes(id))]
+}
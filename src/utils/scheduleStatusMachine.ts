@@ -0,0 +1,65 @@
+// Schedule status state machine
+// The one table of legal ScheduleStatus moves and the roles allowed to make them.
+// Every place that writes a schedule status checks it here first.
+
+import type {ScheduleStatus} from '../types/api.types'
+import type {UserRole} from '../types/auth.types'
+
+export type ScheduleTransitionAction =
+  | 'approve'
+  | 'withdraw'
+  | 'start'
+  | 'complete'
+  | 'cancel'
+  | 'requeue'
+  | 'replay'
+  | 'reschedule'
+
+export interface ScheduleTransition {
+  from: ScheduleStatus
+  to: ScheduleStatus
+  action: ScheduleTransitionAction
+  roles: UserRole[]
+}
+
+export const SCHEDULE_TRANSITIONS: ScheduleTransition[] = [
+  { from: 'SUGGESTED', to: 'SCHEDULED', action: 'approve', roles: ['host'] },
+  // Hosts reject suggestions, musicians withdraw their own
+  { from: 'SUGGESTED', to: 'CANCELED', action: 'withdraw', roles: ['host', 'user'] },
+  { from: 'SCHEDULED', to: 'IN_PROGRESS', action: 'start', roles: ['host'] },
+  { from: 'SCHEDULED', to: 'CANCELED', action: 'cancel', roles: ['host'] },
+  { from: 'IN_PROGRESS', to: 'COMPLETED', action: 'complete', roles: ['host'] },
+  { from: 'IN_PROGRESS', to: 'CANCELED', action: 'cancel', roles: ['host'] },
+  // Rewind: the current song goes back to the queue and the previous one plays again
+  { from: 'IN_PROGRESS', to: 'SCHEDULED', action: 'requeue', roles: ['host'] },
+  { from: 'COMPLETED', to: 'IN_PROGRESS', action: 'replay', roles: ['host'] },
+  { from: 'CANCELED', to: 'SCHEDULED', action: 'reschedule', roles: ['host'] },
+]
+
+// 'unchanged': already in that status, 'illegal': no such move, 'forbidden': move exists but not for this role
+export type TransitionCheck = { allowed: true } | { allowed: false; reason: 'unchanged' | 'illegal' | 'forbidden' }
+
+/**
+ * Transitions the given role may make from a status
+ */
+export function getAllowedTransitions(from: ScheduleStatus, role: UserRole): ScheduleTransition[] {
+  return SCHEDULE_TRANSITIONS.filter((transition) => transition.from === from && transition.roles.includes(role))
+}
+
+/**
+ * Check a single status change against the table
+ */
+export function checkTransition(from: ScheduleStatus, to: ScheduleStatus, role: UserRole): TransitionCheck {
+  if (from === to) return { allowed: false, reason: 'unchanged' }
+  const transition = SCHEDULE_TRANSITIONS.find((t) => t.from === from && t.to === to)
+  if (!transition) return { allowed: false, reason: 'illegal' }
+  if (!transition.roles.includes(role)) return { allowed: false, reason: 'forbidden' }
+  return { allowed: true }
+}
+
+/**
+ * i18n key of a status label
+ */
+export function getStatusLabelKey(status: ScheduleStatus): string {
+  return `schedule.statuses.${status.toLowerCase()}`
+}
@@ -0,0 +1,164 @@
+// Setlist builder utility
+// Proposes a setlist order that avoids the same musician playing back-to-back, rotates
+// drummers/bassists, keeps pinned (and already played) songs in place and fits a time budget.
+
+import type {JamResponseDto, ScheduleResponseDto} from '../types/api.types'
+import {getInstrumentKey} from '../lib/instruments'
+import {isActiveRegistration} from './registrations'
+
+// Unknown song durations are counted as this many seconds against the time budget
+export const DEFAULT_SONG_SECONDS = 240
+
+// Instruments whose players are spread evenly across the setlist
+const RHYTHM_INSTRUMENTS = new Set(['drums', 'bass'])
+
+// Cost weights, higher = avoided harder
+const WEIGHT_BACK_TO_BACK = 100
+const WEIGHT_ONE_APART = 10
+const WEIGHT_RHYTHM_RECENT = 20
+const WEIGHT_RHYTHM_USAGE = 2
+const RHYTHM_WINDOW = 3
+
+export type SetlistBuilderOptions = {
+  // Songs that keep their current position
+  pinnedIds?: string[]
+  // Total time available for the setlist, null/undefined = no limit
+  timeBudgetSeconds?: number | null
+}
+
+export type SetlistProposal = {
+  order: string[]
+  // Songs that end after the time budget in the proposed order
+  overBudgetIds: string[]
+  // Consecutive pairs that share a musician, before and after
+  backToBackBefore: number
+  backToBackAfter: number
+}
+
+type SongInfo = {
+  id: string
+  musicians: Set<string>
+  rhythmMusicians: Set<string>
+  seconds: number
+}
+
+function isRhythmInstrument(instrument?: string): boolean {
+  return RHYTHM_INSTRUMENTS.has(getInstrumentKey(instrument))
+}
+
+function getSongInfo(schedule: ScheduleResponseDto, jam: JamResponseDto): SongInfo {
+  const registrations = (
+    schedule.registrations && schedule.registrations.length > 0
+      ? schedule.registrations
+      : (jam.registrations || []).filter((r) => r.scheduleId === schedule.id)
+  ).filter(isActiveRegistration)
+
+  return {
+    id: schedule.id,
+    musicians: new Set(registrations.map((r) => r.musicianId)),
+    rhythmMusicians: new Set(
+      registrations.filter((r) => isRhythmInstrument(r.instrument || r.musician?.instrument)).map((r) => r.musicianId)
+    ),
+    seconds: schedule.music?.duration || DEFAULT_SONG_SECONDS,
+  }
+}
+
+function sharedCount(a: Set<string>, b: Set<string>): number {
+  let count = 0
+  a.forEach((id) => {
+    if (b.has(id)) count++
+  })
+  return count
+}
+
+/**
+ * Number of consecutive songs sharing at least one musician
+ */
+function countBackToBack(order: string[], songs: Map<string, SongInfo>): number {
+  let count = 0
+  for (let i = 1; i < order.length; i++) {
+    const prev = songs.get(order[i - 1])
+    const current = songs.get(order[i])
+    if (prev && current && sharedCount(prev.musicians, current.musicians) > 0) count++
+  }
+  return count
+}
+
+/**
+ * Cost of placing a song right after the already placed ones
+ */
+function placementCost(song: SongInfo, placed: SongInfo[], rhythmUsage: Map<string, number>): number {
+  const previous = placed[placed.length - 1]
+  const beforePrevious = placed[placed.length - 2]
+  let cost = 0
+
+  if (previous) cost += WEIGHT_BACK_TO_BACK * sharedCount(song.musicians, previous.musicians)
+  if (beforePrevious) cost += WEIGHT_ONE_APART * sharedCount(song.musicians, beforePrevious.musicians)
+
+  const recent = placed.slice(-RHYTHM_WINDOW)
+  song.rhythmMusicians.forEach((musicianId) => {
+    cost += WEIGHT_RHYTHM_RECENT * recent.filter((s) => s.rhythmMusicians.has(musicianId)).length
+    cost += WEIGHT_RHYTHM_USAGE * (rhythmUsage.get(musicianId) ?? 0)
+  })
+
+  return cost
+}
+
+/**
+ * Propose a setlist order for the jam's (non-suggested) schedules
+ * Songs already played, playing or cancelled and pinned songs keep their position;
+ * the remaining slots are filled greedily with the cheapest song, preferring songs that
+ * still fit the time budget. Ties keep the current order.
+ */
+export function buildSetlistOrder(jam: JamResponseDto, options: SetlistBuilderOptions = {}): SetlistProposal {
+  const schedules = [...(jam.schedules || [])]
+    .filter((s) => s.status !== 'SUGGESTED')
+    .sort((a, b) => a.order - b.order)
+  const songs = new Map(schedules.map((s) => [s.id, getSongInfo(s, jam)]))
+  const currentOrder = schedules.map((s) => s.id)
+
+  const pinned = new Set(options.pinnedIds || [])
+  const isFixed = (schedule: ScheduleResponseDto) => schedule.status !== 'SCHEDULED' || pinned.has(schedule.id)
+
+  const remaining = schedules.filter((s) => !isFixed(s)).map((s) => songs.get(s.id)!)
+  const placed: SongInfo[] = []
+  const rhythmUsage = new Map<string, number>()
+  const budget = options.timeBudgetSeconds ?? null
+  let elapsed = 0
+
+  schedules.forEach((slot) => {
+    let next: SongInfo
+    if (isFixed(slot)) {
+      next = songs.get(slot.id)!
+    } else {
+      const fitting = budget === null ? remaining : remaining.filter((s) => elapsed + s.seconds <= budget)
+      const candidates = fitting.length > 0 ? fitting : remaining
+      next = candidates.reduce((best, song) =>
+        placementCost(song, placed, rhythmUsage) < placementCost(best, placed, rhythmUsage) ? song : best
+      )
+      remaining.splice(remaining.indexOf(next), 1)
+    }
+
+    placed.push(next)
+    elapsed += next.seconds
+    next.rhythmMusicians.forEach((id) => rhythmUsage.set(id, (rhythmUsage.get(id) ?? 0) + 1))
+  })
+
+  const order = placed.map((s) => s.id)
+
+  const overBudgetIds: string[] = []
+  if (budget !== null) {
+    let end = 0
+    placed.forEach((song) => {
+      end += song.seconds
+      if (end > budget) overBudgetIds.push(song.id)
+    })
+  }
+
+  return {
+    order,
+    overBudgetIds,
+    backToBackBefore: countBackToBack(currentOrder, songs),
+    backToBackAfter: countBackToBack(order, songs),
+  }
+}
@@ -0,0 +1,259 @@
+// Setlist export utility
+// Builds the ordered setlist + lineup of a jam and renders it as CSV, a printable
+// stage sheet (HTML) or a PDF generated in the browser.
+
+import {formatDuration} from '../lib/formatters'
+import {getInstrumentKey, getInstrumentLabel} from '../lib/instruments'
+import {isActiveRegistration} from './registrations'
+import type {JamResponseDto, RegistrationResponseDto, ScheduleStatus} from '../types/api.types'
+
+export type LineupEntry = {
+  // Display name of the instrument in the export language
+  instrument: string
+  musicians: string[]
+}
+
+export type SetlistRow = {
+  position: number
+  order: number
+  title: string
+  artist: string
+  durationSeconds: number | null
+  status: ScheduleStatus
+  lineup: LineupEntry[]
+}
+
+// Translated strings used in the exported files
+export type SetlistExportLabels = {
+  position: string
+  title: string
+  artist: string
+  duration: string
+  status: string
+  lineup: string
+  totalDuration: string
+  generatedAt: string
+  statuses: Record<ScheduleStatus, string>
+}
+
+export type SetlistExportFormat = 'csv' | 'html' | 'pdf'
+
+/**
+ * Ordered setlist rows (suggestions left out) with the lineup grouped by instrument
+ * @param t - Translates the instrument names (same instrument under any name, one group)
+ */
+export function buildSetlistRows(jam: JamResponseDto, t: (key: string) => string): SetlistRow[] {
+  return [...(jam.schedules || [])]
+    .filter((schedule) => schedule.status !== 'SUGGESTED')
+    .sort((a, b) => a.order - b.order)
+    .map((schedule, index) => {
+      const registrations: RegistrationResponseDto[] =
+        schedule.registrations && schedule.registrations.length > 0
+          ? schedule.registrations
+          : (jam.registrations || []).filter((r) => r.scheduleId === schedule.id)
+
+      const lineup = new Map<string, LineupEntry>()
+      registrations
+        .filter(isActiveRegistration)
+        .forEach((reg) => {
+          const instrument = reg.instrument || reg.musician?.instrument || '-'
+          const key = getInstrumentKey(instrument)
+          const entry = lineup.get(key) ?? { instrument: getInstrumentLabel(instrument, t), musicians: [] }
+          entry.musicians.push(reg.musician?.name || reg.musicianId)
+          lineup.set(key, entry)
+        })
+
+      return {
+        position: index + 1,
+        order: schedule.order,
+        title: schedule.music?.title ?? '',
+        artist: schedule.music?.artist ?? '',
+        durationSeconds: schedule.music?.duration ?? null,
+        status: schedule.status,
+        lineup: Array.from(lineup.values()),
+      }
+    })
+}
+
+/**
+ * One-line lineup, e.g. "guitar: Ana, Bia; drums: Caio"
+ */
+export function formatLineup(lineup: LineupEntry[]): string {
+  return lineup.map((entry) => `${entry.instrument}: ${entry.musicians.join(', ')}`).join('; ')
+}
+
+function formatRowDuration(row: SetlistRow): string {
+  return row.durationSeconds ? formatDuration(row.durationSeconds) : ''
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV (RFC 4180, CRLF line endings)
+ */
+export function toSetlistCsv(rows: SetlistRow[], labels: SetlistExportLabels): string {
+  const header = [labels.position, labels.title, labels.artist, labels.duration, labels.status, labels.lineup]
+  const lines = rows.map((row) => [
+    row.position,
+    row.title,
+    row.artist,
+    formatRowDuration(row),
+    labels.statuses[row.status],
+    formatLineup(row.lineup),
+  ])
+  return [header, ...lines].map((line) => line.map(escapeCsv).join(',')).join('\r\n')
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function totalDuration(rows: SetlistRow[]): number {
+  return rows.reduce((sum, row) => sum + (row.durationSeconds ?? 0), 0)
+}
+
+/**
+ * Print-optimized stage sheet: large type, one row per song, no page chrome
+ */
+export function buildStageSheetHtml(
+  jam: JamResponseDto,
+  rows: SetlistRow[],
+  labels: SetlistExportLabels,
+  generatedAt: Date = new Date()
+): string {
+  const body = rows
+    .map(
+      (row) => `
+      <tr class="${row.status === 'CANCELED' ? 'canceled' : ''}">
+        <td class="pos">${row.position}</td>
+        <td><strong>${escapeHtml(row.title)}</strong><br><span class="artist">${escapeHtml(row.artist)}</span></td>
+        <td class="dur">${formatRowDuration(row)}</td>
+        <td>${row.lineup
+          .map((entry) => `<div><b>${escapeHtml(entry.instrument)}:</b> ${escapeHtml(entry.musicians.join(', '))}</div>`)
+          .join('')}</td>
+        <td class="status">${escapeHtml(labels.statuses[row.status])}</td>
+      </tr>`
+    )
+    .join('')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(jam.name)}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #000; margin: 0; }
+  h1 { font-size: 24pt; margin: 0 0 4pt; }
+  .meta { font-size: 11pt; margin-bottom: 10pt; }
+  table { width: 100%; border-collapse: collapse; font-size: 14pt; }
+  th, td { border-bottom: 1px solid #000; padding: 6pt 4pt; text-align: left; vertical-align: top; }
+  th { font-size: 10pt; text-transform: uppercase; }
+  tr { page-break-inside: avoid; }
+  .pos { font-size: 20pt; font-weight: bold; width: 1%; }
+  .dur, .status { white-space: nowrap; width: 1%; }
+  .artist { font-size: 11pt; }
+  .canceled td { text-decoration: line-through; color: #666; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(jam.name)}</h1>
+<div class="meta">${escapeHtml([jam.location, jam.date ? new Date(jam.date).toLocaleString() : ''].filter(Boolean).join(' - '))}
+  | ${escapeHtml(labels.totalDuration)}: ${formatDuration(totalDuration(rows))}
+  | ${escapeHtml(labels.generatedAt)}: ${generatedAt.toLocaleString()}</div>
+<table>
+  <thead>
+    <tr><th>${escapeHtml(labels.position)}</th><th>${escapeHtml(labels.title)}</th><th>${escapeHtml(labels.duration)}</th><th>${escapeHtml(labels.lineup)}</th><th>${escapeHtml(labels.status)}</th></tr>
+  </thead>
+  <tbody>${body}
+  </tbody>
+</table>
+</body>
+</html>`
+}
+
+/**
+ * PDF stage sheet, generated client-side (jsPDF is loaded on demand)
+ */
+export async function buildSetlistPdf(
+  jam: JamResponseDto,
+  rows: SetlistRow[],
+  labels: SetlistExportLabels,
+  generatedAt: Date = new Date()
+): Promise<Blob> {
+  const { jsPDF } = await import('jspdf')
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = 12
+  const textWidth = pageWidth - margin * 2 - 12
+  let y = margin + 6
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(20)
+  doc.text(jam.name, margin, y)
+  y += 7
+
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  doc.text(
+    `${labels.totalDuration}: ${formatDuration(totalDuration(rows))}  |  ${labels.generatedAt}: ${generatedAt.toLocaleString()}`,
+    margin,
+    y
+  )
+  y += 8
+
+  rows.forEach((row) => {
+    const lineup = doc.splitTextToSize(formatLineup(row.lineup), textWidth) as string[]
+    const rowHeight = 14 + lineup.length * 5
+
+    if (y + rowHeight > pageHeight - margin) {
+      doc.addPage()
+      y = margin + 6
+    }
+
+    doc.setTextColor(row.status === 'CANCELED' ? 150 : 0)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(16)
+    doc.text(String(row.position), margin, y)
+    doc.text(row.title, margin + 12, y)
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(10)
+    doc.text([formatRowDuration(row), labels.statuses[row.status]].filter(Boolean).join('  '), pageWidth - margin, y, {
+      align: 'right',
+    })
+    y += 5
+    doc.text(row.artist, margin + 12, y)
+    y += 5
+    doc.setFontSize(11)
+    doc.text(lineup, margin + 12, y)
+    y += lineup.length * 5
+
+    doc.setDrawColor(200)
+    doc.line(margin, y - 2, pageWidth - margin, y - 2)
+    y += 4
+  })
+
+  return doc.output('blob')
+}
+
+/**
+ * File name for an export, e.g. "friday-blues-jam-setlist.csv"
+ */
+export function getExportFileName(jam: JamResponseDto, format: SetlistExportFormat): string {
+  const slug = jam.name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+  return `${slug || 'jam'}-setlist.${format}`
+}
@@ -0,0 +1,102 @@
+// Song timer utility
+// Elapsed / remaining time of the song on stage and estimated start times for the rest of the
+// queue. Everything is computed from startedAt and the planned durations against a "now" passed
+// in by the caller, so the same numbers come out on every screen.
+
+// Planned length assumed for songs without a duration
+export const DEFAULT_SONG_SECONDS = 300
+
+// Overrun warning choices for the host, in seconds past the planned duration (null = off)
+export const OVERRUN_WARNING_OPTIONS = [null, 0, 30, 60, 120] as const
+export type OverrunWarningSeconds = (typeof OVERRUN_WARNING_OPTIONS)[number]
+export const DEFAULT_OVERRUN_WARNING_SECONDS: OverrunWarningSeconds = 30
+
+export type SongProgress = {
+  elapsedSeconds: number
+  // Null when the song has no planned duration
+  durationSeconds: number | null
+  remainingSeconds: number | null
+  // Seconds past the planned duration (0 while on time)
+  overrunSeconds: number
+  // 0..1, null without a planned duration
+  ratio: number | null
+}
+
+export type QueuedSong = {
+  id: string
+  duration?: number | null
+}
+
+function toTime(value?: string | null): number | null {
+  if (!value) return null
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? null : time
+}
+
+function plannedSeconds(duration?: number | null): number | null {
+  return duration && duration > 0 ? duration : null
+}
+
+/**
+ * Progress of the song on stage
+ * @param startedAt - When the schedule entered IN_PROGRESS
+ * @param duration - Planned duration in seconds
+ * @param now - Current time in ms
+ * @returns The progress, or null when the start time is unknown
+ */
+export function getSongProgress(startedAt: string | null | undefined, duration: number | null | undefined, now: number): SongProgress | null {
+  const start = toTime(startedAt)
+  if (start === null) return null
+
+  // A clock slightly behind the server's must not show negative time
+  const elapsedSeconds = Math.max(0, Math.floor((now - start) / 1000))
+  const durationSeconds = plannedSeconds(duration)
+  if (durationSeconds === null) {
+    return { elapsedSeconds, durationSeconds, remainingSeconds: null, overrunSeconds: 0, ratio: null }
+  }
+
+  return {
+    elapsedSeconds,
+    durationSeconds,
+    remainingSeconds: Math.max(0, durationSeconds - elapsedSeconds),
+    overrunSeconds: Math.max(0, elapsedSeconds - durationSeconds),
+    ratio: Math.min(1, elapsedSeconds / durationSeconds),
+  }
+}
+
+/**
+ * Whether the host should be warned that the song is running long
+ * @param threshold - Seconds past the planned duration before warning (null = never)
+ */
+export function isOverrunWarning(progress: SongProgress | null, threshold: OverrunWarningSeconds): boolean {
+  if (!progress || threshold === null || progress.durationSeconds === null) return false
+  return progress.elapsedSeconds > progress.durationSeconds + threshold
+}
+
+/**
+ * Estimated wall-clock start time of each upcoming song
+ * The queue starts when the current song is due to end; a song running long pushes everything
+ * back (it is assumed to end now), and with nothing on stage the next song starts now
+ * @param current - Song on stage (startedAt + duration), or null
+ * @param upcoming - Upcoming songs in play order
+ * @param now - Current time in ms
+ * @returns Start time in ms by song ID
+ */
+export function estimateStartTimes(
+  current: { startedAt?: string | null; duration?: number | null } | null,
+  upcoming: QueuedSong[],
+  now: number
+): Map<string, number> {
+  const starts = new Map<string, number>()
+  const currentStart = toTime(current?.startedAt)
+  const currentEnd = currentStart !== null
+    ? currentStart + (plannedSeconds(current?.duration) ?? DEFAULT_SONG_SECONDS) * 1000
+    : now
+  let next = Math.max(now, currentEnd)
+
+  for (const song of upcoming) {
+    starts.set(song.id, next)
+    next += (plannedSeconds(song.duration) ?? DEFAULT_SONG_SECONDS) * 1000
+  }
+  return starts
+}
@@ -0,0 +1,89 @@
+// Substitute utility
+// Ranks the musicians of a jam who could take over an open instrument slot of a song,
+// e.g. after a registration is rejected or a musician doesn't show up.
+// Candidates are ranked by, in order: how well they know the song, their level on the
+// instrument, how many songs they've already played tonight (fewer first) and how far the
+// song is from their other slots in the queue (farther first, so nobody plays back to back).
+
+import type {
+  JamResponseDto,
+  MusicianLevel,
+  MusicianResponseDto,
+  RepertoireEntryResponseDto,
+  RepertoireStatus,
+  ScheduleResponseDto,
+} from '../types/api.types'
+import {getCheckedInMusicians, getRepertoireStatuses} from './repertoire'
+import {findMusicianInstrument} from './musicianInstruments'
+import {isActiveRegistration} from './registrations'
+import {getLiveQueue} from './upcomingSlots'
+
+export type SubstituteCandidate = {
+  musician: MusicianResponseDto
+  level: MusicianLevel
+  // How well they know the song (null when it's not in their repertoire)
+  repertoire: RepertoireStatus | null
+  // Songs they played or are playing tonight
+  songsPlayed: number
+  // Songs in the live queue between this one and their nearest other upcoming slot
+  // (null when they have none, or when this song is not in the queue)
+  distance: number | null
+}
+
+const REPERTOIRE_RANK: Record<RepertoireStatus, number> = { READY: 0, LEARNING: 1 }
+const LEVEL_RANK: Record<MusicianLevel, number> = { PROFESSIONAL: 0, ADVANCED: 1, INTERMEDIATE: 2, BEGINNER: 3 }
+
+// Songs already on stage or played
+const PLAYED_STATUSES = new Set(['IN_PROGRESS', 'COMPLETED'])
+
+function compareCandidates(a: SubstituteCandidate, b: SubstituteCandidate): number {
+  return (a.repertoire ? REPERTOIRE_RANK[a.repertoire] : 2) - (b.repertoire ? REPERTOIRE_RANK[b.repertoire] : 2)
+    || LEVEL_RANK[a.level] - LEVEL_RANK[b.level]
+    || a.songsPlayed - b.songsPlayed
+    || (b.distance ?? Infinity) - (a.distance ?? Infinity)
+    || a.musician.name.localeCompare(b.musician.name)
+}
+
+/**
+ * Musicians checked in to the jam who play the instrument and could fill the slot,
+ * best match first (anyone already registered for the song is left out)
+ * @param instrument - Registry ID (or legacy name) of the open slot
+ * @param repertoire - Repertoire entries of the jam's songs (any musician)
+ */
+export function findSubstitutes(
+  schedule: ScheduleResponseDto,
+  instrument: string,
+  jam: JamResponseDto,
+  repertoire: RepertoireEntryResponseDto[] = []
+): SubstituteCandidate[] {
+  const musicId = schedule.musicId || schedule.music?.id
+  const onSong = new Set((schedule.registrations ?? []).map((r) => r.musicianId))
+  const otherSongs = (jam.schedules ?? []).filter((s) => s.id !== schedule.id)
+  // Positions in the live queue (order values have gaps and suggestions sit among them)
+  const positions = new Map(getLiveQueue(jam.schedules ?? []).map((s, index) => [s.id, index]))
+  const position = positions.get(schedule.id)
+
+  return [...getCheckedInMusicians(jam).values()]
+    .filter((musician) => !onSong.has(musician.id))
+    .flatMap((musician) => {
+      const played = findMusicianInstrument(musician, instrument)
+      if (!played) return []
+
+      const theirSongs = otherSongs.filter((s) =>
+        (s.registrations ?? []).some((r) => r.musicianId === musician.id && isActiveRegistration(r))
+      )
+      const distances = position === undefined ? [] : theirSongs
+        .map((s) => positions.get(s.id))
+        .filter((theirPosition): theirPosition is number => theirPosition !== undefined)
+        .map((theirPosition) => Math.abs(theirPosition - position))
+
+      return [{
+        musician,
+        level: played.level,
+        repertoire: getRepertoireStatuses(repertoire.filter((e) => e.musicianId === musician.id)).get(musicId ?? '') ?? null,
+        songsPlayed: theirSongs.filter((s) => PLAYED_STATUSES.has(s.status)).length,
+        distance: distances.length > 0 ? Math.min(...distances) : null,
+      }]
+    })
+    .sort(compareCandidates)
+}
@@ -0,0 +1,71 @@
+// Upcoming slots utility
+// Works out, from the schedule order and registrations, how far each of a musician's songs is
+// from the stage, and which "you're up soon" alerts are due.
+
+import type {ScheduleResponseDto} from '../types/api.types'
+import {isActiveRegistration} from './registrations'
+
+// Alert thresholds a musician can pick, in songs away from the stage (1 = next)
+export const UP_SOON_THRESHOLD_OPTIONS = [3, 2, 1] as const
+export type UpSoonThreshold = (typeof UP_SOON_THRESHOLD_OPTIONS)[number]
+export const DEFAULT_UP_SOON_THRESHOLDS: UpSoonThreshold[] = [2, 1]
+
+export type UpcomingSlot = {
+  schedule: ScheduleResponseDto
+  // Instrument the musician registered with for this song
+  instrument: string
+  // 0 = on stage now, 1 = next, 2 = two songs away...
+  songsAway: number
+}
+
+export type UpSoonAlert = {
+  scheduleId: string
+  threshold: UpSoonThreshold
+  slot: UpcomingSlot
+}
+
+/**
+ * The live queue: song on stage first, then scheduled songs in play order
+ */
+export function getLiveQueue(schedules: ScheduleResponseDto[]): ScheduleResponseDto[] {
+  const current = schedules.filter((s) => s.status === 'IN_PROGRESS')
+  const scheduled = schedules.filter((s) => s.status === 'SCHEDULED').sort((a, b) => a.order - b.order)
+  return [...current, ...scheduled]
+}
+
+/**
+ * The musician's songs still to play (or playing), nearest first
+ * With nothing on stage, the first scheduled song counts as next (1 away)
+ */
+export function getUpcomingSlots(schedules: ScheduleResponseDto[], musicianId: string): UpcomingSlot[] {
+  const queue = getLiveQueue(schedules)
+  const offset = queue[0]?.status === 'IN_PROGRESS' ? 0 : 1
+
+  return queue.flatMap((schedule, index) => {
+    const registration = schedule.registrations?.find(
+      (r) => (r.musician?.id ?? r.musicianId) === musicianId && isActiveRegistration(r)
+    )
+    return registration ? [{ schedule, instrument: registration.instrument, songsAway: index + offset }] : []
+  })
+}
+
+/**
+ * Alerts due for the slots: the tightest threshold each slot has reached
+ * Alerts already sent (keys from getAlertKey) are left out
+ */
+export function getDueAlerts(slots: UpcomingSlot[], thresholds: UpSoonThreshold[], sent: Set<string>): UpSoonAlert[] {
+  return slots.flatMap((slot) => {
+    const reached = thresholds.filter((threshold) => slot.songsAway > 0 && slot.songsAway <= threshold)
+    if (reached.length === 0) return []
+    const threshold = Math.min(...reached) as UpSoonThreshold
+    const alert = { scheduleId: slot.schedule.id, threshold, slot }
+    return sent.has(getAlertKey(alert)) ? [] : [alert]
+  })
+}
+
+/**
+ * Identity of an alert, to send each one once
+ */
+export function getAlertKey(alert: Pick<UpSoonAlert, 'scheduleId' | 'threshold'>): string {
+  return `${alert.scheduleId}:${alert.threshold}`
+}
@@ -0,0 +1,66 @@
+// Waitlist utility
+// Instrument slots of a song (needed / taken / waiting) and the FIFO waitlist per instrument:
+// who is next in line, and a musician's place in it.
+
+import type {ScheduleResponseDto, WaitlistEntryResponseDto} from '../types/api.types'
+import {getInstrumentKey} from '../lib/instruments'
+import {getMusicSlots} from './instrumentSlots'
+import {isActiveRegistration} from './registrations'
+
+export type InstrumentSlot = {
+  key: string
+  needed: number
+  // Active registrations for the instrument
+  registered: number
+  waitlisted: number
+  // Slots still free (0 when full)
+  open: number
+}
+
+/**
+ * Waitlist entries in FIFO order (position, then join time)
+ * @param instrument - Only entries for this instrument (name or key)
+ */
+export function sortWaitlist(entries: WaitlistEntryResponseDto[] = [], instrument?: string): WaitlistEntryResponseDto[] {
+  const key = instrument ? getInstrumentKey(instrument) : null
+  return entries
+    .filter((entry) => !key || getInstrumentKey(entry.instrument) === key)
+    .sort((a, b) => a.position - b.position || a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Slots of every instrument the song needs, in display order
+ */
+export function getInstrumentSlots(schedule: ScheduleResponseDto): InstrumentSlot[] {
+  const registrations = (schedule.registrations || []).filter(isActiveRegistration)
+  return getMusicSlots(schedule.music).map(({ instrument: key, count: needed }) => {
+    const registered = registrations.filter((r) => getInstrumentKey(r.instrument || r.musician?.instrument) === key).length
+    return {
+      key,
+      needed,
+      registered,
+      waitlisted: sortWaitlist(schedule.waitlist, key).length,
+      open: Math.max(0, needed - registered),
+    }
+  })
+}
+
+/**
+ * First musician in line for an instrument, if anyone is waiting
+ */
+export function getNextInLine(schedule: ScheduleResponseDto, instrument: string): WaitlistEntryResponseDto | null {
+  return sortWaitlist(schedule.waitlist, instrument)[0] ?? null
+}
+
+/**
+ * A musician's waitlist entry for a song and their place in line (1 = next)
+ * @returns null when they're not waiting
+ */
+export function getWaitlistPlace(
+  schedule: ScheduleResponseDto,
+  musicianId: string
+): { entry: WaitlistEntryResponseDto; place: number } | null {
+  const entry = schedule.waitlist?.find((e) => e.musicianId === musicianId)
+  if (!entry) return null
+  return { entry, place: sortWaitlist(schedule.waitlist, entry.instrument).indexOf(entry) + 1 }
+}